@@ -1,175 +1,1171 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Play, Pause, RotateCcw, Skull, Trophy, Activity, Cpu } from 'lucide-react';
-import { GameBoard } from './components/GameBoard';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Play, Pause, RotateCcw, Skull, Trophy, Activity, Cpu, Film, Upload, Map as MapIcon, Bot, Settings as SettingsIcon, BarChart3, Award, Flag } from 'lucide-react';
+import { GameBoard, BoardOutcome } from './components/GameBoard';
 import { CyberPanel, CyberButton, ScanlineOverlay } from './components/CyberUI';
-import { GameStatus, Direction, Coordinate, SystemLog } from './types';
-import { generateSystemMessage } from './services/geminiService';
-
-// Game Constants
-const BOARD_WIDTH = 25;
-const BOARD_HEIGHT = 25; // Smaller board for better fit on standard screens
-const INITIAL_SNAKE = [
-  { x: 10, y: 10 },
-  { x: 10, y: 11 },
-  { x: 10, y: 12 }
-];
-
-const getRandomPosition = (width: number, height: number, snake: Coordinate[]): Coordinate => {
-  let newPos: Coordinate;
-  let isCollision;
-  do {
-    newPos = {
-      x: Math.floor(Math.random() * width),
-      y: Math.floor(Math.random() * height)
-    };
-    // eslint-disable-next-line no-loop-func
-    isCollision = snake.some(segment => segment.x === newPos.x && segment.y === newPos.y);
-  } while (isCollision);
-  return newPos;
+import { ReplayControls } from './components/ReplayControls';
+import { OnlineLobby } from './components/OnlineLobby';
+import { SettingsScreen } from './components/SettingsScreen';
+import { StatsDashboard } from './components/StatsDashboard';
+import { AchievementsScreen } from './components/AchievementsScreen';
+import { CampaignScreen } from './components/CampaignScreen';
+import { DailyPanel } from './components/DailyPanel';
+import { ResumePrompt } from './components/ResumePrompt';
+import { LiveAnnouncer, Announcement } from './components/LiveAnnouncer';
+import { LeaderboardPanel, NameEntryPanel } from './components/Leaderboard';
+import { IntegrityMeter, EffectTimers, ObjectiveMeter } from './components/SystemReadouts';
+import { GameStatus, GameMode, LogSource, SystemLog } from './types';
+import { useVersusMatch } from './hooks/useVersusMatch';
+import { useOnlineMatch } from './hooks/useOnlineMatch';
+import { useRunCommentary } from './hooks/useRunCommentary';
+import { useAchievements } from './hooks/useAchievements';
+import { useCampaign } from './hooks/useCampaign';
+import { useSoundEngine } from './hooks/useSoundEngine';
+import { useInputCommands } from './hooks/useInputCommands';
+import { SwipeArea, DPad } from './components/TouchControls';
+import { TerminalPrompt } from './components/TerminalPrompt';
+import { LogPanel } from './components/LogPanel';
+import { InputAction, InputCommand, describeKey, isTouchDevice } from './services/inputService';
+import { describeProvider } from './services/commentaryService';
+import { downloadFile, pickTextFile, copyText } from './services/fileService';
+import { RENDERER_LABELS } from './services/rendererService';
+import { TerminalContext, TerminalError, runCommand, completeLine } from './services/terminalService';
+import {
+  LogStore,
+  LogFormat,
+  LOG_FORMATS,
+  loadLogStore,
+  saveLogStore,
+  appendLog,
+  beginRun,
+  clearLogs,
+  serializeLogs
+} from './services/logService';
+import { loadAdaptiveState, saveAdaptiveState, resolveDifficulty } from './services/difficultyService';
+import {
+  Settings,
+  DEFAULT_SETTINGS,
+  loadSettings,
+  saveSettings,
+  parseSettings,
+  serializeSettings
+} from './services/settingsService';
+import {
+  BoardKey,
+  DEFAULT_BOARD,
+  LeaderboardEntry,
+  loadLeaderboard,
+  loadLastPlayerName,
+  getTopScore,
+  qualifies,
+  rankedBoard,
+  RANKED_MODES,
+  submitEntry,
+  formatDuration
+} from './services/leaderboardService';
+import { equippedSkin, equippedFoodStyle, runMetricsOf } from './services/achievementService';
+import { DEFAULT_SKIN } from './services/achievements/definitions';
+import { THEMES, boardPalette, applyTheme, applyReducedMotion, cssColor } from './services/themeService';
+import { useReducedMotion } from './hooks/useReducedMotion';
+import { totalStars, maxStars } from './services/campaignService';
+import {
+  DailyHistory,
+  loadDailyHistory,
+  attemptFor,
+  beginDailyAttempt,
+  finishDailyAttempt,
+  scoreGains,
+  formatDailyShare
+} from './services/dailyService';
+import { RunSnapshot, RESUMABLE_MODES, saveSnapshot, loadSnapshot, clearSnapshot } from './services/sessionService';
+import { RunRecord, loadRunHistory, recordRun, clearRunHistory, buildDeathHeatmap, serializeRunsCsv } from './services/statsService';
+import { GameState, DeathCause, createInitialState, step, getTickInterval } from './engine/snakeEngine';
+import { randomSeed } from './engine/rng';
+import { Level, loadLevel } from './engine/level';
+import { DEFAULT_LEVEL, findLevel, sizeBuiltinLevels } from './engine/levels';
+import { EffectKind, EFFECT_LABELS, MAX_INTEGRITY, PACKET_SPECS } from './engine/powerups';
+import { DEFAULT_SERVER_PORT, LobbyPhase } from './engine/protocol';
+import { arenaTickInterval } from './engine/arenaEngine';
+import { AdaptiveState, REFERENCE_INTERVAL, recordAdaptiveRun } from './engine/difficulty';
+import { MomentTracker, createMomentTracker, detectMoments } from './engine/moments';
+import { RunTracker, createRunTracker, trackRun, recordPause, recordClear } from './engine/runStats';
+import { MAX_SECTOR_STARS } from './engine/campaign';
+import { findSector, nextSector } from './engine/sectors';
+import { DailyChallenge, createDailyChallenge, dailyKey } from './engine/daily';
+import { createObjectiveProgress, describeObjective, pendingKeys } from './engine/objectives';
+import { AutopilotStrategy, STRATEGIES, STRATEGY_LABELS, chooseDirection } from './engine/autopilot';
+import { TurnQueue, enqueueTurn, takeTurn } from './engine/turnQueue';
+import {
+  Replay,
+  ReplayTimeline,
+  createReplay,
+  buildTimeline,
+  stateAtTick,
+  replayLength,
+  serializeReplay,
+  parseReplay
+} from './engine/replay';
+
+interface ReplayView {
+  timeline: ReplayTimeline;
+  tick: number;
+  playing: boolean;
+  speed: number;
+  returnStatus: GameStatus;
+}
+
+type PendingRecord = Omit<LeaderboardEntry, 'id' | 'name' | 'date'>;
+
+const EFFECT_ANNOUNCEMENTS: Record<EffectKind, string> = {
+  overclock: 'Clock speed boosted. Packet yield doubled.',
+  slowmo: 'Temporal dampener active. Stream slowed.',
+  ghost: 'Phase shift primed. Next self-collision will pass through.'
+};
+
+const CAUSE_LABELS: Record<DeathCause, string> = { wall: 'Firewall', self: 'Feedback loop', watchdog: 'Watchdog' };
+
+const MODE_LABELS: Record<GameMode, string> = {
+  [GameMode.CLASSIC]: 'Solo Breach',
+  [GameMode.VERSUS]: 'Local Versus',
+  [GameMode.ONLINE]: 'Online Versus',
+  [GameMode.CAMPAIGN]: 'Campaign',
+  [GameMode.DAILY]: 'Daily Challenge'
 };
 
+// Between runs the mode and sector can be changed and a new run started
+const isBetweenRuns = (status: GameStatus) =>
+  status === GameStatus.IDLE || status === GameStatus.GAME_OVER || status === GameStatus.LEVEL_CLEARED || status === GameStatus.CAMPAIGN_COMPLETE;
+
+// Online matches are paced by the server; the board status just mirrors the lobby phase
+const PHASE_STATUS: Record<LobbyPhase, GameStatus> = {
+  waiting: GameStatus.IDLE,
+  playing: GameStatus.PLAYING,
+  'round-over': GameStatus.ROUND_OVER,
+  'match-over': GameStatus.GAME_OVER
+};
+
+// Header accents per versus slot, matching the snake palettes on the board
+const PLAYER_ACCENTS = ['text-cyber-neonGreen', 'text-cyber-neonYellow', 'text-cyber-neonPink', 'text-white'];
+
+// How long the score has to hold before screen readers hear it
+const SCORE_ANNOUNCE_DELAY = 1500;
+
+// Steering keys in on-screen hints, in W A S D order
+const P1_KEYS: InputAction[] = ['up', 'left', 'down', 'right'];
+const P2_KEYS: InputAction[] = ['p2Up', 'p2Left', 'p2Down', 'p2Right'];
+
+// Pause between attract-mode demo runs
+const DEMO_RESTART_DELAY = 1500;
+
+// Quiet time before the log store is written back to storage
+const LOG_SAVE_DELAY = 1000;
+
 function App() {
   // State
   const [status, setStatus] = useState<GameStatus>(GameStatus.IDLE);
-  const [snake, setSnake] = useState<Coordinate[]>(INITIAL_SNAKE);
-  const [food, setFood] = useState<Coordinate>({ x: 5, y: 5 });
-  const [direction, setDirection] = useState<Direction>(Direction.UP);
-  const [nextDirection, setNextDirection] = useState<Direction>(Direction.UP);
-  const [score, setScore] = useState(0);
-  const [highScore, setHighScore] = useState(0);
-  const [logs, setLogs] = useState<SystemLog[]>([]);
-  
-  // Refs for logging scroll
-  const logsEndRef = useRef<HTMLDivElement>(null);
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const theme = THEMES[settings.accessibility.theme];
+  const palette = useMemo(() => boardPalette(theme), [theme]);
+  const reducedMotion = useReducedMotion(settings.accessibility.reduceMotion);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [runHistory, setRunHistory] = useState<RunRecord[]>(loadRunHistory);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [achievementsOpen, setAchievementsOpen] = useState(false);
+  const campaign = useCampaign();
+  const [sectorSelectOpen, setSectorSelectOpen] = useState(false);
+  // A run saved before the page went away, offered for resuming
+  const [savedRun, setSavedRun] = useState<RunSnapshot | null>(null);
+  const modalOpen = settingsOpen || statsOpen || achievementsOpen || sectorSelectOpen || savedRun !== null;
+  const [mode, setMode] = useState<GameMode>(GameMode.CLASSIC);
+  const [daily, setDaily] = useState<DailyChallenge>(() => createDailyChallenge(new Date()));
+  const [dailyHistory, setDailyHistory] = useState<DailyHistory>(loadDailyHistory);
+  const [importedLevels, setImportedLevels] = useState<Level[]>([]);
+  const [levelId, setLevelId] = useState(DEFAULT_LEVEL.id);
+  // Built-in sectors sized by the board settings; an imported map replaces a built-in with the same id
+  const levels = useMemo(() => [
+    ...sizeBuiltinLevels(settings.gameplay.board).filter(l => !importedLevels.some(i => i.id === l.id)),
+    ...importedLevels
+  ], [settings.gameplay.board, importedLevels]);
+  // A campaign plays the picked sector's own layout instead, the daily challenge the day's
+  const sector = mode === GameMode.CAMPAIGN ? findSector(campaign.progress.current) ?? null : null;
+  const level = sector?.level ?? (mode === GameMode.DAILY ? daily.level : levels.find(l => l.id === levelId) ?? levels[0]);
+  const [game, setGame] = useState<GameState>(() => createInitialState(randomSeed(), level.config));
+  const [leaderboard, setLeaderboard] = useState(loadLeaderboard);
+  const [leaderboardView, setLeaderboardView] = useState<BoardKey>(DEFAULT_BOARD);
+  const [pendingRecord, setPendingRecord] = useState<PendingRecord | null>(null);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  // Every boot opens a fresh run in the log so this session's entries can be told apart
+  const [logStore, setLogStore] = useState<LogStore>(() => beginRun(loadLogStore()));
+  const [replayView, setReplayView] = useState<ReplayView | null>(null);
+  const [autopilot, setAutopilot] = useState(false);
+  const [strategy, setStrategy] = useState<AutopilotStrategy>('astar');
+  const [demoGame, setDemoGame] = useState<GameState | null>(null);
+  // Fixed ms per tick set from the terminal; null follows the speed curve
+  const [speedOverride, setSpeedOverride] = useState<number | null>(null);
+  const [adaptiveState, setAdaptiveState] = useState<AdaptiveState>(loadAdaptiveState);
+  // Rules for the next run; a run keeps the profile it started with
+  const difficulty = useMemo(
+    () => resolveDifficulty(settings.gameplay.difficulty, adaptiveState),
+    [settings.gameplay.difficulty, adaptiveState]
+  );
+  // The archive's best on the board the next (or current) run competes on; it moves once a
+  // record is filed. Unranked rules and layouts have no record to beat.
+  const runBoard = rankedBoard(mode, isBetweenRuns(status) ? { difficulty, config: level.config } : game, level.id);
+  const highScore = runBoard ? getTopScore(leaderboard, runBoard) : 0;
 
-  // Audio Context (simulated for now via visual feedback)
   
+  // Engine state mirror so a tick always steps from the latest state, even between renders
+  const gameRef = useRef<GameState>(game);
+
+  // Recording of the current (or last finished) run
+  const replayRef = useRef<Replay>(createReplay(game));
+  const recordingRef = useRef(false);
+  // Turns pressed but not yet taken, one is consumed per tick
+  const turnsRef = useRef<TurnQueue>([]);
+  // Set once the autopilot steers at any point; such runs stay off the leaderboard
+  const assistedRef = useRef(false);
+
+  // Wall-clock run duration, excluding time spent paused
+  const runClockRef = useRef({ startedAt: 0, pausedAt: 0, pausedTotal: 0 });
+  const getRunDuration = useCallback(() => {
+    const clock = runClockRef.current;
+    const now = clock.pausedAt || Date.now();
+    return Math.max(0, now - clock.startedAt - clock.pausedTotal);
+  }, []);
+
+  // While a replay is open the board shows the reconstructed frame instead of the live game
+  const replayState = useMemo(
+    () => replayView ? stateAtTick(replayView.timeline, replayView.tick) : null,
+    [replayView?.timeline, replayView?.tick]
+  );
+  const showingDemo = status === GameStatus.IDLE && demoGame !== null;
+  const displayedGame = replayState ?? (showingDemo ? demoGame : game);
+
+  // Close calls, streaks and records of the current run, for commentary
+  const momentsRef = useRef<MomentTracker>(createMomentTracker(0));
+  // Telemetry of the current run, for the stats dashboard
+  const runStatsRef = useRef<RunTracker>(createRunTracker(game));
+  // Date key of the scored daily attempt in progress, and its score on every tick for the sparkline
+  const dailyRunRef = useRef<string | null>(null);
+  const scoreTrailRef = useRef<number[]>([]);
+  // Sector of the current (or last) run, which the selection may have moved away from since
+  const runLevelRef = useRef({ id: level.id, name: level.name });
+
   // Helpers
-  const addLog = useCallback((message: string, type: SystemLog['type'] = 'info') => {
-    const newLog: SystemLog = {
-      id: Math.random().toString(36).substring(7),
-      timestamp: new Date().toLocaleTimeString([], { hour12: false, hour: '2-digit', minute:'2-digit', second:'2-digit' }),
-      message,
-      type
-    };
-    setLogs(prev => [...prev.slice(-15), newLog]); // Keep last 15 logs
+  const addLog = useCallback((message: string, type: SystemLog['type'] = 'info', source: LogSource = 'engine') => {
+    const tick = gameRef.current.tick;
+    if (recordingRef.current) replayRef.current.logs.push({ tick, message, type, source });
+    setLogStore(store => appendLog(store, { message, type, source, tick }));
   }, []);
 
-  // Scroll to bottom of logs
+  // Loggers for the hooks, which don't know which subsystem they are
+  const logAi = useCallback((message: string, type?: SystemLog['type']) => addLog(message, type, 'ai'), [addLog]);
+  const logNetwork = useCallback((message: string, type?: SystemLog['type']) => addLog(message, type, 'network'), [addLog]);
+  const logInput = useCallback((message: string, type?: SystemLog['type']) => addLog(message, type, 'input'), [addLog]);
+
+  const achievements = useAchievements(addLog);
+
+  // Persist the log once it goes quiet, and before the page goes away
+  const logStoreRef = useRef(logStore);
+  logStoreRef.current = logStore;
+  useEffect(() => {
+    const timer = window.setTimeout(() => saveLogStore(logStore), LOG_SAVE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [logStore]);
   useEffect(() => {
-    logsEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [logs]);
+    const flush = () => saveLogStore(logStoreRef.current);
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  const nexus = useRunCommentary(settings.commentary, logAi, highScore, level.name);
+
+  // Local two-player match (only used in versus mode) and networked match (online mode)
+  const versus = useVersusMatch(addLog);
+  const online = useOnlineMatch(logNetwork);
+  const isVersus = mode === GameMode.VERSUS;
+  const isOnline = mode === GameMode.ONLINE;
+  const arena = replayView ? null : isVersus ? versus.arena : isOnline ? online.arena : null;
+  const match = isVersus ? versus.match : isOnline ? online.match : null;
+  const nameOf = isOnline ? online.nameOf : versus.nameOf;
+  // Arena speed follows the leading player, like the arena tick interval
+  const score = arena ? Math.max(0, ...arena.players.map(p => p.score)) : displayedGame.score;
+  const tickInterval = speedOverride ?? (arena ? arenaTickInterval(arena) : getTickInterval(displayedGame));
+
+  // Sound: music runs while a game is live and keeps time with the tick interval
+  const sound = useSoundEngine(status === GameStatus.PLAYING, tickInterval, settings.audio);
+  const prevStatusRef = useRef(status);
+  useEffect(() => {
+    const prev = prevStatusRef.current;
+    prevStatusRef.current = status;
+    if (prev === GameStatus.PLAYING && (status === GameStatus.GAME_OVER || status === GameStatus.ROUND_OVER)) sound.play('death');
+    else if (prev === GameStatus.PLAYING && status === GameStatus.PAUSED) sound.play('pause');
+    else if (prev === GameStatus.PAUSED && status === GameStatus.PLAYING) sound.play('resume');
+  }, [status, sound.play]);
+
+  // Theme and motion reach the components through CSS variables and a root attribute
+  useEffect(() => applyTheme(theme), [theme]);
+  useEffect(() => applyReducedMotion(reducedMotion), [reducedMotion]);
+
+  // Screen reader announcements. The score is read once it settles, not on every packet.
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+  const announce = useCallback((text: string, urgent = false) =>
+    setAnnouncement(previous => ({ id: (previous?.id ?? 0) + 1, text, urgent })), []);
+  const announcedScoreRef = useRef(0);
+  useEffect(() => {
+    if (status !== GameStatus.PLAYING) {
+      announcedScoreRef.current = score;
+      return;
+    }
+    if (!settings.accessibility.announceScore || score === announcedScoreRef.current) return;
+    const timer = window.setTimeout(() => {
+      announcedScoreRef.current = score;
+      announce(`Score ${score}.`);
+    }, SCORE_ANNOUNCE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [score, status, settings.accessibility.announceScore, announce]);
 
   // Initialize
   useEffect(() => {
-    setFood(getRandomPosition(BOARD_WIDTH, BOARD_HEIGHT, INITIAL_SNAKE));
-    addLog("Neural interface initialized...", 'info');
-    addLog("Waiting for user input.", 'info');
+    addLog("Neural interface initialized...", 'info', 'system');
+    addLog("Waiting for user input.", 'info', 'system');
   }, [addLog]);
 
-  // Keyboard Controls
+  // A run left behind by a reload or a closed tab
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      switch (e.key) {
-        case 'ArrowUp':
-        case 'w':
-        case 'W':
-          if (direction !== Direction.DOWN) setNextDirection(Direction.UP);
-          break;
-        case 'ArrowDown':
-        case 's':
-        case 'S':
-          if (direction !== Direction.UP) setNextDirection(Direction.DOWN);
-          break;
-        case 'ArrowLeft':
-        case 'a':
-        case 'A':
-          if (direction !== Direction.RIGHT) setNextDirection(Direction.LEFT);
-          break;
-        case 'ArrowRight':
-        case 'd':
-        case 'D':
-          if (direction !== Direction.LEFT) setNextDirection(Direction.RIGHT);
-          break;
-        case ' ':
-        case 'Enter':
-           if (status === GameStatus.IDLE || status === GameStatus.GAME_OVER) startGame();
-           else if (status === GameStatus.PLAYING) pauseGame();
-           else if (status === GameStatus.PAUSED) resumeGame();
-           break;
-      }
+    try {
+      setSavedRun(loadSnapshot());
+    } catch (error) {
+      clearSnapshot();
+      addLog(`Saved session discarded: ${error instanceof Error ? error.message : String(error)}`, 'warning', 'system');
+    }
+  }, [addLog]);
+
+  // Controls: keyboard, gamepad and touch all arrive here as commands
+  const handleCommand = (command: InputCommand) => {
+    switch (command.type) {
+      case 'turn':
+        // Versus splits the controls: player 1's keys and pad steer P1, player 2's steer P2
+        if (mode === GameMode.VERSUS) versus.queueInput(command.player === 0 ? 'p1' : 'p2', command.direction);
+        else if (mode === GameMode.ONLINE) online.sendInput(command.direction);
+        else turnsRef.current = enqueueTurn(turnsRef.current, gameRef.current.direction, command.direction);
+        break;
+      case 'mute':
+        updateSettings({ ...settings, audio: { ...settings.audio, muted: !settings.audio.muted } });
+        break;
+      case 'confirm':
+        if (mode === GameMode.ONLINE) {
+          // No pausing a shared match; the host can start the next one
+          if (status === GameStatus.IDLE || status === GameStatus.GAME_OVER) startGame();
+        }
+        else if (status === GameStatus.REPLAY) togglePlayback();
+        else if (status === GameStatus.ROUND_OVER) startNextRound();
+        else if (status === GameStatus.LEVEL_CLEARED) startNextSector();
+        else if (status === GameStatus.CAMPAIGN_COMPLETE) setSectorSelectOpen(true);
+        else if (status === GameStatus.IDLE || status === GameStatus.GAME_OVER) startGame();
+        else if (status === GameStatus.PLAYING) pauseGame();
+        else if (status === GameStatus.PAUSED) resumeGame();
+        break;
+    }
+  };
+
+  // The settings screen keeps the controls to itself while open
+  useInputCommands(settings.controls.bindings, !modalOpen, handleCommand, (name, connected) =>
+    logInput(connected ? `Gamepad linked: ${name}.` : `Gamepad unlinked: ${name}.`, connected ? 'success' : 'warning')
+  );
+  const showTouchControls = settings.controls.touchControls === 'on' || (settings.controls.touchControls === 'auto' && isTouchDevice());
+  const keysFor = (actions: InputAction[]) =>
+    actions.map(action => settings.controls.bindings[action].map(describeKey)[0] ?? '?').join(',');
+
+  // Leaving the tab freezes the run instead of letting it play on unseen (shared online matches keep going)
+  useEffect(() => {
+    if (status !== GameStatus.PLAYING || mode === GameMode.ONLINE || !settings.controls.pauseOnBlur) return;
+    const handleVisibility = () => {
+      if (!document.hidden) return;
+      runClockRef.current.pausedAt = Date.now();
+      runStatsRef.current = recordPause(runStatsRef.current);
+      setStatus(GameStatus.PAUSED);
+      snapshotRun();
+      logInput("Focus lost. System frozen.", 'warning');
     };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [status, mode, settings.controls.pauseOnBlur]);
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [status, direction]);
+  // Hiding or leaving the page keeps a snapshot of the live run, whether or not it pauses
+  useEffect(() => {
+    if (status !== GameStatus.PLAYING && status !== GameStatus.PAUSED) return;
+    const handleHidden = () => {
+      if (document.hidden) snapshotRun();
+    };
+    document.addEventListener('visibilitychange', handleHidden);
+    window.addEventListener('pagehide', snapshotRun);
+    return () => {
+      document.removeEventListener('visibilitychange', handleHidden);
+      window.removeEventListener('pagehide', snapshotRun);
+    };
+  }, [status, mode]);
+
+  useEffect(() => {
+    if (mode === GameMode.ONLINE) setStatus(online.lobby ? PHASE_STATUS[online.lobby.phase] : GameStatus.IDLE);
+  }, [mode, online.lobby?.phase]);
 
-  // Sync direction safely on each tick (handled inside game board via prop, but we need to update state for render)
-  // Actually, we pass 'nextDirection' to the game logic to prevent 180 degree turns in one tick
-  // But for the GameBoard component, we pass the *current* validated direction.
-  // Let's update direction state only when we actually move.
+  // The engine ignores 180 degree turns itself, so the queued direction needs no guard here.
   
   // Game Actions
-  const startGame = () => {
-    setSnake(INITIAL_SNAKE);
-    setDirection(Direction.UP);
-    setNextDirection(Direction.UP);
-    setScore(0);
+  const startGame = (seed = randomSeed(), runLevel = level) => {
+    if (mode === GameMode.ONLINE) {
+      if (!online.isHost) return;
+      // The server only knows the stock sectors, at their stock size
+      const stock = findLevel(level.id);
+      if (!stock) {
+        logNetwork(`Sector "${level.name}" is not on the server. Pick a built-in sector for online play.`, 'warning');
+        return;
+      }
+      if (stock.config.width !== level.config.width || stock.config.height !== level.config.height) {
+        logNetwork(`Online matches use the stock ${stock.config.width}x${stock.config.height} board.`);
+      }
+      online.startMatch(stock.id);
+      return;
+    }
+    if (mode === GameMode.VERSUS) {
+      setPendingRecord(null);
+      setLogStore(beginRun);
+      addLog("Versus link established. Two runners, one grid.", 'success');
+      versus.startMatch(level.config);
+      setStatus(GameStatus.PLAYING);
+      return;
+    }
+    // The daily run ignores the seed and difficulty settings; the date decides both
+    const challenge = mode === GameMode.DAILY ? currentDaily() : null;
+    if (challenge) runLevel = challenge.level;
+    const initial = createInitialState(challenge?.seed ?? seed, runLevel.config, challenge?.difficulty ?? difficulty);
+    const runSector = mode === GameMode.CAMPAIGN ? findSector(runLevel.id) : undefined;
+    clearSnapshot();
+    setSavedRun(null);
+    runLevelRef.current = { id: runLevel.id, name: runLevel.name };
+    gameRef.current = initial;
+    replayRef.current = createReplay(initial);
+    recordingRef.current = true;
+    assistedRef.current = autopilot || speedOverride !== null;
+    runClockRef.current = { startedAt: Date.now(), pausedAt: 0, pausedTotal: 0 };
+    const board = rankedBoard(mode, initial, runLevel.id);
+    momentsRef.current = createMomentTracker(board ? getTopScore(leaderboard, board) : 0);
+    runStatsRef.current = createRunTracker(initial);
+    campaign.beginRun(runSector, initial);
+    nexus.clear();
+    setPendingRecord(null);
+    setHighlightId(null);
+    setGame(initial);
+    turnsRef.current = [];
     setStatus(GameStatus.PLAYING);
-    setFood(getRandomPosition(BOARD_WIDTH, BOARD_HEIGHT, INITIAL_SNAKE));
-    setLogs([]);
+    setLogStore(beginRun);
     addLog("Breach protocol initiated. Good luck.", 'success');
+    addLog(`Session seed: ${initial.seed} // Sector: ${runLevel.name}`, 'info');
+    if (runSector) addLog(`Objective: ${describeObjective(runSector.objective)}.`, 'info');
+    scoreTrailRef.current = [];
+    dailyRunRef.current = null;
+    if (challenge && attemptFor(dailyHistory, challenge.key)) {
+      addLog("Practice run. Today's scored attempt is already on file.", 'info');
+    } else if (challenge) {
+      dailyRunRef.current = challenge.key;
+      setDailyHistory(beginDailyAttempt(dailyHistory, challenge.key));
+      addLog(`Daily challenge ${challenge.key}: scored attempt. There is only one.`, 'warning');
+    }
+  };
+
+  // The challenge rolls over at midnight UTC
+  const currentDaily = (): DailyChallenge => {
+    const now = new Date();
+    if (dailyKey(now) === daily.key) return daily;
+    const next = createDailyChallenge(now);
+    setDaily(next);
+    return next;
+  };
+
+  const copyDailyResult = async () => {
+    const attempt = attemptFor(dailyHistory, daily.key);
+    if (!attempt) return;
+    const text = formatDailyShare(attempt);
+    if (await copyText(text)) {
+      addLog("Daily result copied to the clipboard.", 'success', 'system');
+    } else {
+      addLog("Clipboard unavailable. Copy the result from here:", 'warning', 'system');
+      text.split('\n').forEach(line => addLog(line, 'info', 'system'));
+    }
+  };
+
+  const startNextSector = () => {
+    const next = sector && nextSector(sector.id);
+    if (!next) return;
+    campaign.select(next.id);
+    startGame(randomSeed(), next.level);
+  };
+
+  const pickSector = (id: string) => {
+    const picked = findSector(id);
+    if (!picked) return;
+    campaign.select(id);
+    setSectorSelectOpen(false);
+    // A finished clear belongs to the old sector
+    if (status === GameStatus.LEVEL_CLEARED || status === GameStatus.CAMPAIGN_COMPLETE) setStatus(GameStatus.IDLE);
+    addLog(`Sector set: ${picked.name} // ${describeObjective(picked.objective)}.`, 'info', 'system');
+  };
+
+  const startNextRound = () => {
+    versus.startNextRound(level.config);
+    setStatus(GameStatus.PLAYING);
+  };
+
+  const selectMode = (next: GameMode) => {
+    setMode(next);
+    versus.reset();
+    if (next !== GameMode.ONLINE) online.disconnect();
+    setPendingRecord(null);
+    setStatus(GameStatus.IDLE);
+    if (next !== GameMode.CLASSIC && autopilot) setAutopilot(false);
+    if (next === GameMode.CAMPAIGN) setSectorSelectOpen(true);
+    if (next === GameMode.DAILY) currentDaily();
+    addLog(`Mode set: ${MODE_LABELS[next]}.`, 'info', 'system');
+  };
+
+  // Swapping maps or resizing the board between runs previews the new layout on the board
+  useEffect(() => {
+    if (!isBetweenRuns(status)) return;
+    const preview = createInitialState(randomSeed(), level.config, difficulty);
+    gameRef.current = preview;
+    setGame(preview);
+    setPendingRecord(null);
+  }, [level.config]);
+
+  const importLevel = async () => {
+    try {
+      const text = await pickTextFile('.json,application/json');
+      if (text === null) return;
+      const imported = loadLevel(text);
+      setImportedLevels(prev => [...prev.filter(l => l.id !== imported.id), imported]);
+      setLevelId(imported.id);
+      addLog(`Sector map "${imported.name}" loaded.`, 'success', 'system');
+    } catch (error) {
+      addLog(`Sector map rejected: ${error instanceof Error ? error.message : String(error)}`, 'critical', 'system');
+    }
   };
 
   const pauseGame = () => {
+    runClockRef.current.pausedAt = Date.now();
+    runStatsRef.current = recordPause(runStatsRef.current);
     setStatus(GameStatus.PAUSED);
+    snapshotRun();
     addLog("System frozen.", 'warning');
   };
 
+  // Saves the live solo run so it survives a reload
+  const snapshotRun = () => {
+    if (!recordingRef.current || !RESUMABLE_MODES.includes(mode)) return;
+    saveSnapshot({
+      savedAt: new Date().toISOString(),
+      mode,
+      levelId: runLevelRef.current.id,
+      levelName: runLevelRef.current.name,
+      state: gameRef.current,
+      turns: turnsRef.current,
+      replay: replayRef.current,
+      tracker: runStatsRef.current,
+      moments: momentsRef.current,
+      elapsedMs: getRunDuration(),
+      assisted: assistedRef.current,
+      objective: campaign.currentObjective(),
+      daily: dailyRunRef.current ? { key: dailyRunRef.current, trail: scoreTrailRef.current } : null
+    });
+  };
+
+  // Picks a saved run back up, paused, exactly where it was left
+  const resumeRun = (snapshot: RunSnapshot) => {
+    const { state } = snapshot;
+    setSavedRun(null);
+    setMode(snapshot.mode);
+    if (snapshot.mode !== GameMode.CLASSIC) setAutopilot(false);
+    if (snapshot.mode === GameMode.CAMPAIGN) campaign.select(snapshot.levelId);
+    else if (levels.some(l => l.id === snapshot.levelId)) setLevelId(snapshot.levelId);
+    gameRef.current = state;
+    replayRef.current = snapshot.replay;
+    recordingRef.current = true;
+    turnsRef.current = snapshot.turns;
+    assistedRef.current = snapshot.assisted;
+    const now = Date.now();
+    runClockRef.current = { startedAt: now - snapshot.elapsedMs, pausedAt: now, pausedTotal: 0 };
+    momentsRef.current = snapshot.moments;
+    runStatsRef.current = snapshot.tracker;
+    runLevelRef.current = { id: snapshot.levelId, name: snapshot.levelName };
+    campaign.resumeRun(snapshot.objective);
+    dailyRunRef.current = snapshot.daily?.key ?? null;
+    scoreTrailRef.current = snapshot.daily?.trail ?? [];
+    nexus.clear();
+    setPendingRecord(null);
+    setHighlightId(null);
+    setGame(state);
+    setStatus(GameStatus.PAUSED);
+    // The log store outlived the reload too, and its current run is still the saved one
+    addLog(`Session restored: ${snapshot.levelName} // score ${state.score} // tick ${state.tick}.`, 'success', 'system');
+    addLog("Press [SPACE] to resume.", 'info', 'system');
+  };
+
+  const discardSavedRun = () => {
+    clearSnapshot();
+    setSavedRun(null);
+    addLog("Saved session discarded.", 'warning', 'system');
+  };
+
   const resumeGame = () => {
+    const clock = runClockRef.current;
+    if (clock.pausedAt) {
+      clock.pausedTotal += Date.now() - clock.pausedAt;
+      clock.pausedAt = 0;
+    }
     setStatus(GameStatus.PLAYING);
     addLog("Resuming data stream...", 'info');
   };
 
-  const gameOver = useCallback(() => {
+  // Stops recording and offers a leaderboard slot if the run earned one
+  const finalizeRun = useCallback((finalScore: number) => {
+    const durationMs = getRunDuration();
+    runClockRef.current.pausedAt = Date.now();
+    replayRef.current.finalScore = finalScore;
+    recordingRef.current = false;
+    clearSnapshot();
+
+    const final = gameRef.current;
+    const cause = final.deathCause
+      ? CAUSE_LABELS[final.deathCause]
+      : final.alive && final.food === null ? 'none (grid saturated)'
+      : runStatsRef.current.cleared ? 'none (sector cleared)' : 'manual abort';
+    nexus.comment('incident-report', final, { cause, duration: formatDuration(durationMs) });
+
+    // Assisted runs earn no achievements
+    if (!assistedRef.current) achievements.finish(runMetricsOf(runStatsRef.current, final, durationMs));
+
+    if (dailyRunRef.current) {
+      setDailyHistory(finishDailyAttempt(dailyHistory, dailyRunRef.current, {
+        score: finalScore,
+        length: final.snake.length,
+        durationMs,
+        gains: scoreGains(scoreTrailRef.current),
+        assisted: assistedRef.current
+      }));
+      dailyRunRef.current = null;
+      addLog("Daily result filed. Copy it from the controls panel.", 'success', 'system');
+    }
+
+    setRunHistory(recordRun(runHistory, {
+      ...runStatsRef.current,
+      date: new Date().toISOString(),
+      mode,
+      levelId: runLevelRef.current.id,
+      levelName: runLevelRef.current.name,
+      width: final.config.width,
+      height: final.config.height,
+      seed: final.seed,
+      score: finalScore,
+      durationMs,
+      assisted: assistedRef.current
+    }));
+
+    // Adaptive difficulty learns from finished manual runs on the player's own rules only
+    if (settings.gameplay.difficulty.adaptive && !assistedRef.current && mode !== GameMode.DAILY && (final.deathCause || runStatsRef.current.cleared)) {
+      const adapted = recordAdaptiveRun(adaptiveState, { score: finalScore, ticks: final.tick });
+      if (adapted.rating !== adaptiveState.rating) {
+        addLog(adapted.rating < adaptiveState.rating
+          ? "Adaptive ICE easing off. Threat level lowered."
+          : "Adaptive ICE hardening. Threat level raised.", 'warning');
+      }
+      setAdaptiveState(adapted);
+      saveAdaptiveState(adapted);
+    }
+
+    const board = rankedBoard(mode, final, runLevelRef.current.id);
+    if (assistedRef.current) {
+      if (finalScore > 0) addLog("Autopilot-assisted run. Not eligible for the archive.", 'info');
+    } else if (!board) {
+      if (RANKED_MODES.includes(mode) && finalScore > 0) addLog("Custom rules or a non-stock board. Not eligible for the archive.", 'info');
+    } else if (qualifies(leaderboard, board, finalScore)) {
+      setPendingRecord({
+        score: finalScore,
+        length: final.snake.length,
+        durationMs,
+        seed: final.seed,
+        ...board
+      });
+    }
+  }, [leaderboard, mode, settings.gameplay.difficulty.adaptive, adaptiveState, runHistory, dailyHistory, addLog, nexus, achievements.finish, getRunDuration]);
+
+  const gameOver = useCallback((finalScore: number) => {
     setStatus(GameStatus.GAME_OVER);
-    if (score > highScore) {
-      setHighScore(score);
-      addLog(`New High Score Record: ${score}`, 'success');
+    // Assisted runs stay off the archive, so they can't claim its record either
+    const board = rankedBoard(mode, gameRef.current, runLevelRef.current.id);
+    if (!assistedRef.current && board && finalScore > getTopScore(leaderboard, board)) {
+      addLog(`New High Score Record: ${finalScore}`, 'success');
     }
     addLog("Connection lost. Neural feedback detected.", 'critical');
-  }, [score, highScore, addLog]);
+    finalizeRun(finalScore);
+  }, [leaderboard, mode, addLog, finalizeRun]);
 
-  // Core Move Logic (Called by GameBoard loop)
-  const handleMove = useCallback(async (newHead: Coordinate, grew: boolean) => {
-    // Update Direction to what was queued
-    setDirection(nextDirection);
+  // Campaign: the objective was met on this tick
+  const clearSector = useCallback((state: GameState) => {
+    if (!sector) return;
+    const elapsedMs = getRunDuration();
+    runStatsRef.current = recordClear(runStatsRef.current);
+    const { integrityHits, pauses } = runStatsRef.current;
+    const { stars, progress, improved, unlocked, complete } =
+      campaign.recordClear(sector, { elapsedMs, integrityHits, pauses, score: state.score });
+    setStatus(complete ? GameStatus.CAMPAIGN_COMPLETE : GameStatus.LEVEL_CLEARED);
+    sound.play('highscore');
+    addLog(`Sector ${sector.name} breached in ${formatDuration(elapsedMs)}. Rating ${stars}/${MAX_SECTOR_STARS}.`, 'success');
+    if (improved && stars > 1) addLog("New best rating for this sector.", 'success');
+    for (const opened of unlocked) addLog(`Sector ${opened.name} unlocked.`, 'success', 'system');
+    if (complete) addLog(`Campaign complete. ${totalStars(progress)}/${maxStars()} stars collected.`, 'success');
+    finalizeRun(state.score);
+  }, [sector, campaign.recordClear, sound.play, addLog, finalizeRun, getRunDuration]);
 
-    let newSnake = [newHead, ...snake];
-    
-    if (!grew) {
-      newSnake.pop();
-    } else {
-      // Ate food
-      const newScore = score + 1;
-      setScore(newScore);
-      setFood(getRandomPosition(BOARD_WIDTH, BOARD_HEIGHT, newSnake));
-      
-      // AI Flavor Text every 5 points
-      if (newScore % 5 === 0) {
-        const msg = await generateSystemMessage(newScore);
-        addLog(msg, 'success');
-      } else {
-        addLog("Data packet consumed.", 'info');
+  const abortGame = () => {
+    setStatus(GameStatus.GAME_OVER);
+    if (mode === GameMode.VERSUS) {
+      addLog("Match aborted.", 'warning');
+      return;
+    }
+    finalizeRun(gameRef.current.score);
+  };
+
+  const archiveRecord = (name: string) => {
+    if (!pendingRecord) return;
+    const { board, rank, entry } = submitEntry({ ...pendingRecord, name, date: new Date().toISOString() });
+    setLeaderboard(board);
+    setLeaderboardView({ mode: entry.mode, levelId: entry.levelId, difficulty: entry.difficulty });
+    setHighlightId(entry.id);
+    setPendingRecord(null);
+    if (rank !== null) addLog(`Runner ${entry.name} archived at rank #${rank}.`, 'success', 'system');
+  };
+
+  // Core Tick Logic (Called by GameBoard loop)
+  const handleTick = useCallback(() => {
+    if (mode === GameMode.ONLINE) return; // The server ticks online matches
+    if (mode === GameMode.VERSUS) {
+      const result = versus.tick();
+      if (result === 'round-over') setStatus(GameStatus.ROUND_OVER);
+      else if (result === 'match-over') setStatus(GameStatus.GAME_OVER);
+      return;
+    }
+    // The board may still be catching up on ticks after the run has ended
+    if (!recordingRef.current) return;
+    const prev = gameRef.current;
+    const [turn, remaining] = takeTurn(turnsRef.current);
+    turnsRef.current = remaining;
+    const input = autopilot ? chooseDirection(prev, strategy) : turn ?? prev.direction;
+    replayRef.current.inputs.push(input);
+    const { state, events } = step(prev, { direction: input });
+    gameRef.current = state;
+    setGame(state);
+
+    if (state.direction !== prev.direction) sound.play('turn');
+
+    runStatsRef.current = trackRun(runStatsRef.current, prev, state, events);
+    if (dailyRunRef.current) scoreTrailRef.current.push(state.score);
+    if (!assistedRef.current && achievements.track(runMetricsOf(runStatsRef.current, state, getRunDuration()))) {
+      sound.play('highscore');
+    }
+    const progress = sector && campaign.advance(sector, state, events, getRunDuration());
+    if (progress && sector.objective.type === 'keys' && !progress.done) addLog(`Key ${progress.value}/${progress.target} collected.`, 'success');
+    const [moments, tracker] = detectMoments(momentsRef.current, prev, state, events);
+    momentsRef.current = tracker;
+    for (const moment of moments) {
+      switch (moment.type) {
+        case 'near-miss':
+          nexus.comment('near-miss', state, { hazard: CAUSE_LABELS[moment.hazard] });
+          break;
+        case 'streak':
+          nexus.comment('streak', state, { streak: moment.count });
+          break;
+        case 'record':
+          sound.play('highscore');
+          nexus.comment('record', state, { previousBest: moment.previousBest });
+          break;
       }
     }
 
-    setSnake(newSnake);
-  }, [snake, score, nextDirection, addLog]);
+    for (const event of events) {
+      switch (event.type) {
+        case 'consume':
+          sound.play(event.kind === 'data' ? 'consume' : 'powerup');
+          // AI Flavor Text every 5 points (double-point packets can skip over the exact multiple)
+          if (event.kind !== 'data') nexus.comment('power-up', state, { powerUp: PACKET_SPECS[event.kind].label });
+          if (Math.floor(event.score / 5) > Math.floor((event.score - event.points) / 5)) {
+            nexus.comment('milestone', state);
+          } else if (event.kind === 'data') {
+            addLog(event.points > 1 ? `Data packet consumed (+${event.points}).` : "Data packet consumed.", 'info');
+          } else {
+            addLog(`${PACKET_SPECS[event.kind].label} packet acquired.`, 'info');
+          }
+          break;
+        case 'effect-start':
+          addLog(`${EFFECT_LABELS[event.effect]}: ${EFFECT_ANNOUNCEMENTS[event.effect]}`, 'success');
+          break;
+        case 'effect-end':
+          addLog(`${EFFECT_LABELS[event.effect]} expired.`, 'info');
+          break;
+        case 'phase':
+          addLog("Ghost phase discharged. Trail collision bypassed.", 'warning');
+          break;
+        case 'shrink':
+          addLog(event.removed > 0 ? `Trail compressed by ${event.removed} segments.` : "Trail already at minimum length.", 'info');
+          break;
+        case 'integrity-restore':
+          addLog(`Shield packet integrated. Integrity ${event.integrity}/${MAX_INTEGRITY}.`, 'success');
+          break;
+        case 'watchdog-spawn':
+          addLog(`Cyber-watchdog #${event.id} deployed at sector ${event.position.x}:${event.position.y}.`, 'warning');
+          break;
+        case 'watchdog-purged':
+          addLog(`Watchdog #${event.id} derezzed on impact.`, 'success');
+          break;
+        case 'food-stolen':
+          addLog(`Watchdog #${event.id} intercepted a packet. Rerouting.`, 'warning');
+          break;
+        case 'integrity-hit':
+          sound.play('hit');
+          addLog(`${CAUSE_LABELS[event.cause]} impact absorbed. Integrity ${event.integrity}/${MAX_INTEGRITY}.`, 'warning');
+          break;
+        case 'board-full':
+          addLog("Grid saturated. Total breach achieved.", 'success');
+          gameOver(state.score);
+          break;
+        case 'death':
+          if (event.cause === 'watchdog') addLog("Watchdog lock confirmed. Trace complete.", 'critical');
+          nexus.comment('death', state, { cause: CAUSE_LABELS[event.cause] });
+          gameOver(state.score);
+          break;
+      }
+    }
+
+    // A fatal or board-filling tick has already ended the run
+    if (campaign.currentObjective()?.done && recordingRef.current) clearSector(state);
+  }, [
+    mode, versus.tick, autopilot, strategy, sector, campaign.advance, campaign.currentObjective, sound.play,
+    addLog, gameOver, clearSector, nexus, achievements.track, getRunDuration
+  ]);
+
+  const updateSettings = (next: Settings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  // Opening the settings mid-run halts a local run first (shared online matches keep going)
+  const openSettings = () => {
+    if (status === GameStatus.PLAYING && mode !== GameMode.ONLINE) pauseGame();
+    setSettingsOpen(true);
+  };
+
+  const openStats = () => {
+    if (status === GameStatus.PLAYING && mode !== GameMode.ONLINE) pauseGame();
+    setStatsOpen(true);
+  };
+
+  const openAchievements = () => {
+    if (status === GameStatus.PLAYING && mode !== GameMode.ONLINE) pauseGame();
+    setAchievementsOpen(true);
+  };
+
+  const exportStats = () => {
+    downloadFile('cybersnake-runs.csv', serializeRunsCsv(runHistory), 'text/csv');
+    addLog(`Telemetry exported (${runHistory.length} runs).`, 'info', 'system');
+  };
+
+  const clearStats = () => {
+    setRunHistory(clearRunHistory());
+    addLog("Telemetry wiped.", 'warning', 'system');
+  };
+
+  const exportSettings = () => {
+    downloadFile('cybersnake-settings.json', serializeSettings(settings));
+    addLog("Configuration exported.", 'info', 'system');
+  };
+
+  const importSettings = async () => {
+    try {
+      const text = await pickTextFile('.json,application/json');
+      if (text === null) return;
+      const imported = parseSettings(text);
+      // Exported files never carry the endpoint key, so the local one is kept
+      const endpointKey = imported.commentary.endpointKey || settings.commentary.endpointKey;
+      updateSettings({ ...imported, commentary: { ...imported.commentary, endpointKey } });
+      addLog("Configuration imported.", 'success', 'system');
+    } catch (error) {
+      addLog(`Configuration rejected: ${error instanceof Error ? error.message : String(error)}`, 'critical', 'system');
+    }
+  };
+
+  const resetSettings = () => {
+    updateSettings(DEFAULT_SETTINGS);
+    addLog("Configuration reset to factory defaults.", 'warning', 'system');
+  };
+
+  const handleRendererFallback = useCallback((reason: string) => {
+    addLog(`${RENDERER_LABELS[settings.display.renderer]} offline (${reason}). Falling back to Canvas2D.`, 'warning', 'system');
+  }, [settings.display.renderer, addLog]);
+
+  const toggleAutopilot = () => {
+    const enabled = !autopilot;
+    setAutopilot(enabled);
+    if (enabled && status === GameStatus.PLAYING) assistedRef.current = true;
+    // Hand control back without a surprise turn
+    if (!enabled) turnsRef.current = [];
+    addLog(enabled ? `Autopilot engaged: ${STRATEGY_LABELS[strategy]}.` : "Autopilot disengaged. Manual control restored.", 'info', 'ai');
+  };
+
+  // Neural Logs command line
+  const terminalContext = (): TerminalContext => ({
+    status,
+    mode,
+    levels,
+    log: logInput,
+    pause: pauseGame,
+    resume: resumeGame,
+    restart: seed => {
+      // The run being cut short is filed first, the same as aborting it by hand
+      if (status === GameStatus.PLAYING || status === GameStatus.PAUSED) abortGame();
+      startGame(seed);
+    },
+    setSpeed: intervalMs => {
+      setSpeedOverride(intervalMs);
+      if (intervalMs === null) {
+        addLog("Clock released. Speed follows the threat curve.", 'info');
+        return;
+      }
+      // A hand-set clock is a debugging aid; the run no longer counts for the leaderboard
+      if (status === GameStatus.PLAYING || status === GameStatus.PAUSED) assistedRef.current = true;
+      addLog(`Clock locked at ${intervalMs}ms per tick. Runs stay off the leaderboard.`, 'warning');
+    },
+    setAutopilot: enabled => {
+      if (enabled !== autopilot) toggleAutopilot();
+    },
+    setStrategy: next => {
+      setStrategy(next);
+      addLog(`Autopilot strategy: ${STRATEGY_LABELS[next]}.`, 'info', 'ai');
+    },
+    loadLevel: id => {
+      setLevelId(id);
+      addLog(`Sector set: ${levels.find(l => l.id === id)?.name ?? id}.`, 'info');
+    },
+    stats: () => {
+      if (arena) {
+        return [
+          `TICK ${arena.tick} // SECTOR ${level.name}`,
+          ...arena.players.map(p => `${nameOf(p.id)}: SCORE ${p.score} // LENGTH ${p.snake.length} // ${p.alive ? 'ONLINE' : 'FLATLINED'}`)
+        ];
+      }
+      const run = replayState ?? game;
+      return [
+        `SEED ${run.seed} // SECTOR ${level.name} // THREAT ${run.difficulty.label}`,
+        `SCORE ${run.score} // LENGTH ${run.snake.length} // TICK ${run.tick}`,
+        `INTEGRITY ${run.integrity}/${MAX_INTEGRITY} // WATCHDOGS ${run.watchdogs.length} // ${tickInterval}MS PER TICK`,
+        `UPTIME ${formatDuration(getRunDuration())} // ${autopilot ? `AUTOPILOT ${STRATEGY_LABELS[strategy]}` : 'MANUAL'}`
+      ];
+    },
+    exportReplay: () => {
+      if (replayLength(replayRef.current) === 0) throw new TerminalError('No run recorded yet.');
+      exportReplay(replayRef.current);
+    },
+    exportLogs: format => exportLogs(logStore.entries, format),
+    clear: () => setLogStore(clearLogs)
+  });
+
+  // Attract mode: while idle the autopilot plays endless demo runs on the selected sector
+  useEffect(() => {
+    if (status !== GameStatus.IDLE) {
+      setDemoGame(null);
+      return;
+    }
+    if (!demoGame || demoGame.config !== level.config) {
+      setDemoGame(createInitialState(randomSeed(), level.config, difficulty));
+      return;
+    }
+    const finished = !demoGame.alive || demoGame.food === null;
+    const timer = window.setTimeout(() => {
+      setDemoGame(finished
+        ? createInitialState(randomSeed(), level.config, difficulty)
+        : step(demoGame, { direction: chooseDirection(demoGame, strategy) }).state);
+    }, finished ? DEMO_RESTART_DELAY : getTickInterval(demoGame));
+    return () => window.clearTimeout(timer);
+  }, [status, demoGame, level, strategy, difficulty]);
+
+  // Replay Playback
+  const openReplay = (replay: Replay, tick = 0, timeline = buildTimeline(replay)) => {
+    setReplayView({
+      timeline,
+      tick: Math.min(tick, replayLength(replay)),
+      playing: false,
+      speed: 1,
+      returnStatus: status === GameStatus.REPLAY ? GameStatus.IDLE : status
+    });
+    setStatus(GameStatus.REPLAY);
+  };
+
+  const closeReplay = () => {
+    setStatus(replayView?.returnStatus ?? GameStatus.IDLE);
+    setReplayView(null);
+  };
+
+  const seekReplay = (tick: number) => {
+    setReplayView(view => view && {
+      ...view,
+      tick: Math.max(0, Math.min(tick, replayLength(view.timeline.replay))),
+      playing: false
+    });
+  };
+
+  const togglePlayback = () => {
+    setReplayView(view => {
+      if (!view) return view;
+      // Restart from the beginning when play is pressed on the final frame
+      const atEnd = view.tick >= replayLength(view.timeline.replay);
+      return { ...view, playing: !view.playing, tick: !view.playing && atEnd ? 0 : view.tick };
+    });
+  };
+
+  const exportReplay = (replay: Replay) => {
+    downloadFile(`cybersnake-replay-${replay.seed}.json`, serializeReplay(replay));
+    addLog(`Replay exported (${replayLength(replay)} ticks).`, 'info', 'system');
+  };
+
+  const exportLogs = (entries: SystemLog[], format: LogFormat) => {
+    if (entries.length === 0) {
+      addLog("Nothing to export.", 'warning', 'system');
+      return;
+    }
+    const { extension, mimeType } = LOG_FORMATS[format];
+    downloadFile(`cybersnake-logs-${entries[0].seq}-${entries[entries.length - 1].seq}.${extension}`, serializeLogs(entries, format), mimeType);
+    addLog(`Log exported (${entries.length} entries).`, 'info', 'system');
+  };
+
+  const importReplay = async () => {
+    try {
+      const text = await pickTextFile('.json,application/json');
+      if (text === null) return;
+      // Building the timeline is also where inputs past the end of the run are caught
+      const timeline = buildTimeline(parseReplay(text));
+      const { replay } = timeline;
+      addLog(`Replay loaded: seed ${replay.seed}, ${replayLength(replay)} ticks.`, 'success', 'system');
+      openReplay(replay, 0, timeline);
+    } catch (error) {
+      addLog(`Replay rejected: ${error instanceof Error ? error.message : String(error)}`, 'critical', 'system');
+    }
+  };
+
+  // Advance playback at the pace the run was originally played at, scaled by the chosen speed
+  useEffect(() => {
+    if (!replayView?.playing || !replayState) return;
+    if (replayView.tick >= replayLength(replayView.timeline.replay)) {
+      setReplayView(view => view && { ...view, playing: false });
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      setReplayView(view => view && { ...view, tick: view.tick + 1 });
+    }, getTickInterval(replayState) / replayView.speed);
+    return () => window.clearTimeout(timer);
+  }, [replayView, replayState]);
+
+  // Death marks for the selected sector, shown between solo runs
+  const isSolo = mode === GameMode.CLASSIC || mode === GameMode.CAMPAIGN || mode === GameMode.DAILY;
+  const heatmapVisible = showHeatmap && isSolo && isBetweenRuns(status);
+  const heatmap = useMemo(
+    () => heatmapVisible ? buildDeathHeatmap(runHistory, level.id, level.config.width, level.config.height) : null,
+    [heatmapVisible, runHistory, level]
+  );
+
+  const canOpenLastRun = isBetweenRuns(status) && status !== GameStatus.IDLE && isSolo && replayLength(replayRef.current) > 0;
+
+  // Campaign keys still to collect; the next one in the order is lit
+  const markers = useMemo(
+    () => sector && !replayView
+      ? pendingKeys(sector.objective, campaign.objective).map(({ position, order }, i) => ({ position, label: String(order + 1), active: i === 0 }))
+      : undefined,
+    [sector, campaign.objective, replayView]
+  );
+  // A replay shows the entries it recorded, stamped with ticks instead of times
+  const visibleLogs: SystemLog[] = useMemo(() => replayView
+    ? replayView.timeline.replay.logs.map((log, index) => ({
+        seq: index + 1,
+        time: 0,
+        run: 0,
+        source: log.source ?? 'engine',
+        message: log.message,
+        type: log.type,
+        tick: log.tick
+      }))
+    : logStore.entries, [replayView?.timeline, logStore.entries]);
+
+  // The stock skin takes the theme's colours; unlocked skins keep their own
+  const skin = equippedSkin(achievements.profile);
+
+  // Round and match results take over the board between rounds and at the end of a match
+  let outcome: BoardOutcome | null = null;
+  if (arena && match && (status === GameStatus.ROUND_OVER || status === GameStatus.GAME_OVER)) {
+    const tally = arena.players.map(p => match.wins[p.id] ?? 0).join(' : ');
+    const rematchHint = isOnline ? (online.isHost ? 'PRESS [SPACE] FOR A REMATCH' : 'AWAITING HOST') : 'PRESS [SPACE] FOR A REMATCH';
+    const colorOf = (id: string | null) => {
+      const player = arena.players.find(p => p.id === id);
+      return player ? palette.players[player.slot % palette.players.length].head : undefined;
+    };
+    if (match.winnerId) {
+      outcome = { title: `${nameOf(match.winnerId)} WINS`, subtitle: `MATCH ${tally} // ${rematchHint}`, color: colorOf(match.winnerId) };
+    } else if (status === GameStatus.ROUND_OVER) {
+      outcome = {
+        title: match.lastRoundWinner ? `${nameOf(match.lastRoundWinner)} TAKES ROUND ${match.round}` : `ROUND ${match.round} DRAW`,
+        subtitle: `${tally} // ${isOnline ? 'NEXT ROUND INCOMING' : 'PRESS [SPACE] FOR NEXT ROUND'}`,
+        color: colorOf(match.lastRoundWinner)
+      };
+    } else {
+      outcome = { title: 'MATCH ABORTED', subtitle: tally, color: cssColor('pink') };
+    }
+  } else if (sector && campaign.lastClear && (status === GameStatus.LEVEL_CLEARED || status === GameStatus.CAMPAIGN_COMPLETE)) {
+    const { stars, elapsedMs } = campaign.lastClear;
+    const rating = '★'.repeat(stars) + '☆'.repeat(MAX_SECTOR_STARS - stars);
+    outcome = status === GameStatus.LEVEL_CLEARED
+      ? { title: 'SECTOR BREACHED', subtitle: `${rating} // ${formatDuration(elapsedMs)} // PRESS [SPACE] FOR THE NEXT SECTOR`, color: cssColor('green') }
+      : { title: 'CAMPAIGN COMPLETE', subtitle: `${rating} // ${totalStars(campaign.progress)}/${maxStars()} STARS // PRESS [SPACE] FOR SECTOR SELECT`, color: cssColor('yellow') };
+  }
+
+  // Status changes are always announced; results interrupt, the rest waits its turn
+  const announcedStatusRef = useRef(status);
+  useEffect(() => {
+    const prev = announcedStatusRef.current;
+    announcedStatusRef.current = status;
+    if (prev === status) return;
+    if (outcome && (status === GameStatus.GAME_OVER || status === GameStatus.ROUND_OVER || status === GameStatus.LEVEL_CLEARED || status === GameStatus.CAMPAIGN_COMPLETE)) {
+      announce([outcome.title, outcome.subtitle].filter(Boolean).join('. ') + '.', true);
+    } else if (status === GameStatus.GAME_OVER) {
+      announce(`System failure. Final score ${score}.`, true);
+    } else if (status === GameStatus.PLAYING) {
+      announce(prev === GameStatus.PAUSED ? 'Resumed.' : 'Run started.');
+    } else if (status === GameStatus.PAUSED) {
+      announce(`Paused at score ${score}. Press space to resume.`);
+    } else if (status === GameStatus.REPLAY) {
+      announce('Replay loaded.');
+    }
+  }, [status]);
+
+  // Ticks only line up with the recording for entries of the latest run
+  const canSelectLog = (log: SystemLog) =>
+    log.tick !== undefined && (replayView !== null || (canOpenLastRun && log.run === logStore.run));
+
+  const handleLogClick = (log: SystemLog) => {
+    if (log.tick === undefined) return;
+    if (replayView) seekReplay(log.tick);
+    else if (canOpenLastRun) openReplay(replayRef.current, log.tick);
+  };
 
   return (
     <div className="min-h-screen bg-cyber-black text-cyber-neonBlue font-mono selection:bg-cyber-neonPink selection:text-white flex flex-col overflow-hidden">
-      <ScanlineOverlay />
+      {settings.display.scanlines && <ScanlineOverlay animated={!reducedMotion} />}
+      <LiveAnnouncer announcement={announcement} />
       
       {/* Header */}
       <header className="relative z-10 border-b border-cyber-neonBlue/30 bg-cyber-dark/90 backdrop-blur p-4">
@@ -177,21 +1173,59 @@ function App() {
           <div className="flex items-center gap-3">
             <Cpu className="text-cyber-neonPink animate-pulse" size={32} />
             <div>
-              <h1 className="font-display text-3xl font-bold bg-gradient-to-r from-cyber-neonBlue to-cyber-neonPink bg-clip-text text-transparent drop-shadow-[0_0_5px_rgba(0,243,255,0.5)]">
+              <h1 className="font-display text-3xl font-bold bg-gradient-to-r from-cyber-neonBlue to-cyber-neonPink bg-clip-text text-transparent drop-shadow-[0_0_5px_rgb(var(--cyber-blue)/0.5)]">
                 CYBERSNAKE
               </h1>
               <p className="text-xs text-cyber-neonBlue/60 tracking-widest">NEURAL BREACH PROTOCOL V2.5</p>
             </div>
           </div>
           
+          <div className="flex items-center gap-6">
+          {arena ? (
+          <div className="flex gap-6 text-right">
+            {arena.players.map(player => (
+              <div key={player.id}>
+                <p className="text-xs text-cyber-neonBlue/60 uppercase">{player.name} // {match?.wins[player.id] ?? 0} W</p>
+                <p className={`font-display text-2xl ${PLAYER_ACCENTS[player.slot % PLAYER_ACCENTS.length]} ${player.alive ? '' : 'opacity-40 line-through'}`}>
+                  {player.score.toString().padStart(4, '0')}
+                </p>
+              </div>
+            ))}
+          </div>
+          ) : (
           <div className="flex gap-6 text-right">
             <div>
               <p className="text-xs text-cyber-neonBlue/60 uppercase">Current Session</p>
-              <p className="font-display text-2xl text-cyber-neonGreen drop-shadow-[0_0_5px_#0f0]">{score.toString().padStart(4, '0')}</p>
+              <p className="font-display text-2xl text-cyber-neonGreen drop-shadow-[0_0_5px_rgb(var(--cyber-green))]">{score.toString().padStart(4, '0')}</p>
             </div>
             <div>
               <p className="text-xs text-cyber-neonPink/60 uppercase">Best Record</p>
-              <p className="font-display text-2xl text-cyber-neonPink drop-shadow-[0_0_5px_#f0f]">{highScore.toString().padStart(4, '0')}</p>
+              <p className="font-display text-2xl text-cyber-neonPink drop-shadow-[0_0_5px_rgb(var(--cyber-pink))]">{highScore.toString().padStart(4, '0')}</p>
+            </div>
+          </div>
+          )}
+            <div className="flex gap-2">
+            <button
+              onClick={openAchievements}
+              title="Achievements"
+              className="p-2 border border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonPink hover:border-cyber-neonPink"
+            >
+              <Award size={20} />
+            </button>
+            <button
+              onClick={openStats}
+              title="Run telemetry"
+              className="p-2 border border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonPink hover:border-cyber-neonPink"
+            >
+              <BarChart3 size={20} />
+            </button>
+            <button
+              onClick={openSettings}
+              title="System config"
+              className="p-2 border border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonPink hover:border-cyber-neonPink"
+            >
+              <SettingsIcon size={20} />
+            </button>
             </div>
           </div>
         </div>
@@ -208,30 +1242,175 @@ function App() {
                   <span className="text-cyber-neonBlue/70">STATUS</span>
                   <span className={`font-bold ${
                     status === GameStatus.PLAYING ? 'text-cyber-neonGreen animate-pulse' : 
-                    status === GameStatus.GAME_OVER ? 'text-cyber-neonPink' : 'text-cyber-neonYellow'
+                    status === GameStatus.GAME_OVER ? 'text-cyber-neonPink' :
+                    status === GameStatus.LEVEL_CLEARED || status === GameStatus.CAMPAIGN_COMPLETE ? 'text-cyber-neonGreen' : 'text-cyber-neonYellow'
                   }`}>
                     {status}
                   </span>
                 </div>
                 <div className="flex justify-between items-center border-b border-cyber-grid pb-2">
                   <span className="text-cyber-neonBlue/70">SPEED</span>
-                  <span className="text-cyber-neonBlue">{(1 + score * 0.1).toFixed(1)}x</span>
+                  <span className="text-cyber-neonBlue" title={`${tickInterval}ms per tick`}>
+                    {(REFERENCE_INTERVAL / tickInterval).toFixed(2)}x // {tickInterval}MS
+                  </span>
                 </div>
-                <div className="flex justify-between items-center pb-2">
-                  <span className="text-cyber-neonBlue/70">INTEGRITY</span>
-                  <div className="w-24 h-2 bg-cyber-dark border border-cyber-neonBlue/30 rounded-full overflow-hidden">
-                    <div className="h-full bg-cyber-neonGreen" style={{ width: '100%' }}></div>
+                {arena && match ? (
+                  <div className="flex justify-between items-center pb-2">
+                    <span className="text-cyber-neonBlue/70">ROUND</span>
+                    <span className="text-cyber-neonBlue">{match.round} // FIRST TO {match.roundsToWin}</span>
                   </div>
-                </div>
+                ) : (
+                  <>
+                    {sector && (
+                      <div className="border-b border-cyber-grid pb-2" title={sector.briefing}>
+                        <ObjectiveMeter
+                          label={describeObjective(sector.objective)}
+                          progress={campaign.objective ?? createObjectiveProgress(sector.objective, game)}
+                        />
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center border-b border-cyber-grid pb-2">
+                      <span className="text-cyber-neonBlue/70">THREAT</span>
+                      <span className="text-cyber-neonBlue uppercase">{displayedGame.difficulty.label}</span>
+                    </div>
+                    <div className="flex justify-between items-center pb-2">
+                      <span className="text-cyber-neonBlue/70">INTEGRITY</span>
+                      <IntegrityMeter integrity={displayedGame.integrity} recovering={displayedGame.graceTicks > 0} />
+                    </div>
+                    <EffectTimers effects={displayedGame.effects} tickInterval={getTickInterval(displayedGame)} />
+                  </>
+                )}
              </div>
           </CyberPanel>
 
+          {replayView && (
+            <CyberPanel title="Replay Deck" icon={<Film size={16} className="mr-2" />} glowing>
+              <ReplayControls
+                tick={replayView.tick}
+                length={replayLength(replayView.timeline.replay)}
+                playing={replayView.playing}
+                speed={replayView.speed}
+                onTogglePlay={togglePlayback}
+                onStep={(delta) => seekReplay(replayView.tick + delta)}
+                onSeek={seekReplay}
+                onSpeedChange={(speed) => setReplayView(view => view && { ...view, speed })}
+                onExport={() => exportReplay(replayView.timeline.replay)}
+                onExit={closeReplay}
+              />
+            </CyberPanel>
+          )}
+
+          {pendingRecord && status === GameStatus.GAME_OVER && (
+            <NameEntryPanel
+              score={pendingRecord.score}
+              initialName={loadLastPlayerName()}
+              onSubmit={archiveRecord}
+              onSkip={() => setPendingRecord(null)}
+            />
+          )}
+
+          {!replayView && (
           <CyberPanel title="Controls" icon={<Activity size={16} className="mr-2" />}>
+            {isBetweenRuns(status) && (
+              <select
+                value={mode}
+                onChange={(e) => selectMode(e.target.value as GameMode)}
+                title="Game mode"
+                className="w-full mb-2 bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-xs text-cyber-neonBlue uppercase tracking-widest outline-none focus:border-cyber-neonPink"
+              >
+                {Object.values(GameMode).map(m => (
+                  <option key={m} value={m}>{MODE_LABELS[m]}</option>
+                ))}
+              </select>
+            )}
+            {isBetweenRuns(status) && sector && (
+              <CyberButton
+                onClick={() => setSectorSelectOpen(true)}
+                title={sector.briefing}
+                className="w-full mb-4 px-2 py-1 text-xs flex items-center justify-center gap-2"
+              >
+                <Flag size={14} /> {sector.name}
+              </CyberButton>
+            )}
+            {isBetweenRuns(status) && mode === GameMode.DAILY && (
+              <DailyPanel
+                challengeKey={daily.key}
+                sectorName={daily.level.name}
+                attempt={attemptFor(dailyHistory, daily.key)}
+                onCopy={copyDailyResult}
+              />
+            )}
+            {isBetweenRuns(status) && !sector && mode !== GameMode.DAILY && (
+              <div className="flex gap-2 mb-4">
+                <select
+                  value={level.id}
+                  onChange={(e) => setLevelId(e.target.value)}
+                  title={level.description}
+                  className="flex-1 bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-xs text-cyber-neonBlue uppercase tracking-widest outline-none focus:border-cyber-neonPink"
+                >
+                  {levels.map(l => (
+                    <option key={l.id} value={l.id}>{l.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={importLevel}
+                  title="Import sector map (JSON)"
+                  className="px-2 border border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonPink hover:border-cyber-neonPink"
+                >
+                  <MapIcon size={14} />
+                </button>
+              </div>
+            )}
+            {isOnline ? (
+              <OnlineLobby
+                connection={online.connection}
+                lobby={online.lobby}
+                playerId={online.playerId}
+                role={online.role}
+                isHost={online.isHost}
+                defaultUrl={`ws://${window.location.hostname || 'localhost'}:${DEFAULT_SERVER_PORT}`}
+                defaultName={loadLastPlayerName()}
+                onConnect={online.connect}
+                onDisconnect={online.disconnect}
+                onStart={() => startGame()}
+              />
+            ) : (
             <div className="grid grid-cols-2 gap-4">
-              {status === GameStatus.IDLE || status === GameStatus.GAME_OVER ? (
-                <CyberButton onClick={startGame} className="col-span-2 flex items-center justify-center gap-2">
-                  <Play size={16} /> Initialize
-                </CyberButton>
+              {status === GameStatus.ROUND_OVER ? (
+                <>
+                  <CyberButton onClick={startNextRound} className="flex items-center justify-center gap-2">
+                    <Play size={16} /> Next Round
+                  </CyberButton>
+                  <CyberButton onClick={abortGame} variant="danger" className="flex items-center justify-center gap-2">
+                    <Skull size={16} /> Abort
+                  </CyberButton>
+                </>
+              ) : isBetweenRuns(status) ? (
+                <>
+                  {status === GameStatus.LEVEL_CLEARED ? (
+                    <CyberButton onClick={startNextSector} className="col-span-2 flex items-center justify-center gap-2">
+                      <Play size={16} /> Next Sector
+                    </CyberButton>
+                  ) : (
+                    <CyberButton onClick={() => startGame()} className="col-span-2 flex items-center justify-center gap-2">
+                      <Play size={16} /> Initialize
+                    </CyberButton>
+                  )}
+                  {isVersus ? null : canOpenLastRun ? (
+                    <>
+                      <CyberButton onClick={() => openReplay(replayRef.current)} className="px-2 text-xs flex items-center justify-center gap-2">
+                        <Film size={14} /> Replay
+                      </CyberButton>
+                      <CyberButton onClick={importReplay} className="px-2 text-xs flex items-center justify-center gap-2">
+                        <Upload size={14} /> Import
+                      </CyberButton>
+                    </>
+                  ) : (
+                    <CyberButton onClick={importReplay} className="col-span-2 px-2 text-xs flex items-center justify-center gap-2">
+                      <Upload size={14} /> Import Replay
+                    </CyberButton>
+                  )}
+                </>
               ) : (
                 <>
                    {status === GameStatus.PLAYING ? (
@@ -243,61 +1422,94 @@ function App() {
                         <Play size={16} /> Resume
                       </CyberButton>
                    )}
-                   <CyberButton onClick={() => setStatus(GameStatus.GAME_OVER)} variant="danger" className="flex items-center justify-center gap-2">
+                   <CyberButton onClick={abortGame} variant="danger" className="flex items-center justify-center gap-2">
                       <Skull size={16} /> Abort
                    </CyberButton>
                 </>
               )}
             </div>
+            )}
+            {mode === GameMode.CLASSIC && (
+            <div className="flex gap-2 mt-4">
+              <button
+                onClick={toggleAutopilot}
+                title="Let the autopilot steer"
+                className={`flex items-center gap-2 px-2 py-1 text-xs border tracking-widest ${
+                  autopilot ? 'border-cyber-neonGreen text-cyber-neonGreen bg-cyber-neonGreen/10' : 'border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonBlue'
+                }`}
+              >
+                <Bot size={14} /> {autopilot ? 'AUTO' : 'MANUAL'}
+              </button>
+              <select
+                value={strategy}
+                onChange={(e) => setStrategy(e.target.value as AutopilotStrategy)}
+                title="Autopilot strategy"
+                className="flex-1 bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-xs text-cyber-neonBlue uppercase tracking-widest outline-none focus:border-cyber-neonPink"
+              >
+                {STRATEGIES.map(s => (
+                  <option key={s} value={s}>{STRATEGY_LABELS[s]}</option>
+                ))}
+              </select>
+            </div>
+            )}
             <div className="mt-4 text-xs text-cyber-neonBlue/50 text-center">
-              USE [W,A,S,D] OR ARROWS TO NAVIGATE
+              {isVersus
+                ? `P1 [${keysFor(P1_KEYS)}] // P2 [${keysFor(P2_KEYS)}]`
+                : `USE [${keysFor(P1_KEYS)}] OR [${keysFor(P2_KEYS)}] TO NAVIGATE`}
             </div>
           </CyberPanel>
+          )}
+
+          <LeaderboardPanel
+            board={leaderboard}
+            view={leaderboardView}
+            onViewChange={setLeaderboardView}
+            highlightId={highlightId}
+          />
         </div>
 
         {/* Center: Game Board */}
-        <div className="lg:col-span-6 flex items-center justify-center order-1 lg:order-2">
-          <GameBoard 
-            status={status}
-            score={score}
-            snake={snake}
-            food={food}
-            direction={nextDirection}
-            onMove={handleMove}
-            onGameOver={gameOver}
-            width={BOARD_WIDTH}
-            height={BOARD_HEIGHT}
-          />
+        <div className="lg:col-span-6 flex flex-col items-center justify-center gap-4 order-1 lg:order-2">
+          <SwipeArea enabled={showTouchControls && !modalOpen} onCommand={handleCommand}>
+            <GameBoard 
+              status={status}
+              game={arena ?? displayedGame}
+              onTick={handleTick}
+              demo={showingDemo && !arena}
+              outcome={outcome}
+              renderer={settings.display.renderer}
+              onRendererFallback={handleRendererFallback}
+              cellSize={settings.display.cellSize}
+              smooth={settings.display.smoothMotion}
+              intervalOverride={speedOverride}
+              heatmap={heatmap}
+              skin={skin.id === DEFAULT_SKIN ? undefined : skin}
+              foodShape={equippedFoodStyle(achievements.profile).shape}
+              markers={markers}
+              palette={palette}
+              reducedMotion={reducedMotion}
+            />
+          </SwipeArea>
+          {showTouchControls && <DPad onCommand={handleCommand} />}
         </div>
 
         {/* Right Column: Terminal Logs */}
         <div className="lg:col-span-3 flex flex-col h-[300px] lg:h-auto order-3">
           <CyberPanel title="Neural Logs" className="h-full flex flex-col">
-            <div className="flex-1 overflow-y-auto font-mono text-xs space-y-2 max-h-[400px] pr-2">
-              {logs.length === 0 && (
-                 <div className="text-cyber-neonBlue/30 italic text-center mt-10">No activity detected...</div>
-              )}
-              {logs.map((log) => (
-                <div key={log.id} className="animate-in slide-in-from-left-2 duration-300">
-                  <span className="text-cyber-neonBlue/40">[{log.timestamp}]</span>{' '}
-                  <span className={`${
-                    log.type === 'critical' ? 'text-cyber-neonPink font-bold' : 
-                    log.type === 'success' ? 'text-cyber-neonGreen' : 
-                    log.type === 'warning' ? 'text-cyber-neonYellow' : 'text-gray-300'
-                  }`}>
-                    {log.type === 'critical' && '>> ERROR: '}
-                    {log.type === 'success' && '>> '}
-                    {log.message}
-                  </span>
-                </div>
-              ))}
-              <div ref={logsEndRef} />
-            </div>
-            <div className="mt-2 pt-2 border-t border-cyber-neonBlue/20">
-              <div className="flex items-center">
-                <span className="text-cyber-neonGreen mr-2 animate-pulse">➜</span>
-                <span className="h-4 w-2 bg-cyber-neonGreen animate-pulse"></span>
-              </div>
+            <LogPanel
+              entries={visibleLogs}
+              run={replayView ? 0 : logStore.run}
+              replayTick={replayView?.tick ?? null}
+              canSelect={canSelectLog}
+              onSelect={handleLogClick}
+              onExport={exportLogs}
+            />
+            <div className="mt-2 pt-2 border-t border-cyber-neonBlue/20 font-mono text-xs">
+              <TerminalPrompt
+                onSubmit={(line) => runCommand(line, terminalContext())}
+                onComplete={(line) => completeLine(line, terminalContext())}
+                onOptions={(options) => logInput(options.join(' // '), 'info')}
+              />
             </div>
           </CyberPanel>
         </div>
@@ -306,8 +1518,49 @@ function App() {
       
       {/* Footer */}
       <footer className="relative z-10 text-center p-4 text-cyber-neonBlue/30 text-xs">
-        SYSTEM_ID: GEMINI-2.5-FLASH // LATENCY: 12ms // SECURE
+        SYSTEM_ID: {describeProvider(settings.commentary)} // LATENCY: 12ms // SECURE
       </footer>
+
+      {savedRun && (
+        <ResumePrompt
+          snapshot={savedRun}
+          modeLabel={MODE_LABELS[savedRun.mode]}
+          onResume={() => resumeRun(savedRun)}
+          onDiscard={discardSavedRun}
+          onClose={() => setSavedRun(null)}
+        />
+      )}
+
+      {sectorSelectOpen && (
+        <CampaignScreen progress={campaign.progress} onSelect={pickSector} onClose={() => setSectorSelectOpen(false)} />
+      )}
+
+      {achievementsOpen && (
+        <AchievementsScreen profile={achievements.profile} onEquip={achievements.equip} onClose={() => setAchievementsOpen(false)} />
+      )}
+
+      {statsOpen && (
+        <StatsDashboard
+          runs={runHistory}
+          heatmapOn={showHeatmap}
+          onToggleHeatmap={() => setShowHeatmap(!showHeatmap)}
+          onExport={exportStats}
+          onClear={clearStats}
+          onClose={() => setStatsOpen(false)}
+        />
+      )}
+
+      {settingsOpen && (
+        <SettingsScreen
+          settings={settings}
+          adaptive={adaptiveState}
+          onChange={updateSettings}
+          onImport={importSettings}
+          onExport={exportSettings}
+          onReset={resetSettings}
+          onClose={() => setSettingsOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,172 @@
+import React, { useEffect } from 'react';
+import { Award, Lock, X } from 'lucide-react';
+import { CyberPanel, CyberButton } from './CyberUI';
+import {
+  AchievementProfile,
+  CosmeticKind,
+  ACHIEVEMENTS,
+  SKINS,
+  FOOD_STYLES,
+  progressOf,
+  ownsCosmetic,
+  rewardOf,
+  cosmeticName
+} from '../services/achievementService';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+
+interface AchievementsScreenProps {
+  profile: AchievementProfile;
+  onEquip: (kind: CosmeticKind, id: string) => void;
+  onClose: () => void;
+}
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h4 className="mb-2 text-xs text-cyber-neonPink tracking-widest">{children}</h4>
+);
+
+interface CosmeticPickerProps {
+  kind: CosmeticKind;
+  items: { id: string; name: string }[];
+  equipped: string;
+  profile: AchievementProfile;
+  preview: (id: string) => React.ReactNode;
+  onEquip: (kind: CosmeticKind, id: string) => void;
+}
+
+const CosmeticPicker: React.FC<CosmeticPickerProps> = ({ kind, items, equipped, profile, preview, onEquip }) => (
+  <div className="grid grid-cols-4 gap-2">
+    {items.map(({ id, name }) => {
+      const owned = ownsCosmetic(profile, kind, id);
+      return (
+        <button
+          key={id}
+          onClick={() => onEquip(kind, id)}
+          disabled={!owned}
+          title={owned ? `Equip ${name}` : `Unlocked by "${rewardOf(kind, id)?.name}"`}
+          className={`flex flex-col items-center gap-1 p-2 border text-[10px] tracking-widest ${
+            equipped === id
+              ? 'border-cyber-neonPink text-cyber-neonPink bg-cyber-neonPink/10'
+              : owned ? 'border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonBlue' : 'border-cyber-neonBlue/20 text-cyber-neonBlue/30 cursor-not-allowed'
+          }`}
+        >
+          {owned ? preview(id) : <Lock size={16} className="my-0.5" />}
+          {name.toUpperCase()}
+        </button>
+      );
+    })}
+  </div>
+);
+
+// Achievement progress and the cosmetics they unlock
+export const AchievementsScreen: React.FC<AchievementsScreenProps> = ({ profile, onEquip, onClose }) => {
+  const dialogRef = useDialogFocus<HTMLDivElement>();
+  const unlockedCount = ACHIEVEMENTS.filter(def => profile.unlocked[def.id]).length;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-cyber-black/80 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Achievements"
+        tabIndex={-1}
+        className="w-full max-w-lg font-mono outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CyberPanel title="Achievements" icon={<Award size={16} className="mr-2 text-cyber-neonYellow" />} glowing>
+          <div tabIndex={0} className="max-h-[65vh] overflow-y-auto pr-1 space-y-4 text-xs">
+            <div>
+              <SectionTitle>PROTOCOLS // {unlockedCount}/{ACHIEVEMENTS.length}</SectionTitle>
+              <div className="space-y-2">
+                {ACHIEVEMENTS.map(def => {
+                  const unlockedAt = profile.unlocked[def.id];
+                  const progress = progressOf(profile, def);
+                  return (
+                    <div key={def.id} className={`border px-2 py-1 ${unlockedAt ? 'border-cyber-neonGreen/60' : 'border-cyber-neonBlue/20'}`}>
+                      <div className="flex justify-between">
+                        <span className={unlockedAt ? 'text-cyber-neonGreen' : 'text-cyber-neonBlue'}>{def.name.toUpperCase()}</span>
+                        <span className="text-cyber-neonBlue/50">
+                          {unlockedAt ? new Date(unlockedAt).toLocaleDateString() : `${Math.floor(progress)}/${def.goal.target}`}
+                        </span>
+                      </div>
+                      <p className="text-cyber-muted">
+                        {def.description}
+                        {def.reward && <span className="text-cyber-neonYellow/70"> Reward: {cosmeticName(def.reward.kind, def.reward.id)}.</span>}
+                      </p>
+                      {!unlockedAt && (
+                        <div className="mt-1 h-1 bg-cyber-neonBlue/10">
+                          <div className="h-full bg-cyber-neonBlue" style={{ width: `${(progress / def.goal.target) * 100}%` }} />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div>
+              <SectionTitle>SNAKE SKIN</SectionTitle>
+              <CosmeticPicker
+                kind="skin"
+                items={SKINS}
+                equipped={profile.skin}
+                profile={profile}
+                onEquip={onEquip}
+                preview={id => {
+                  const skin = SKINS.find(s => s.id === id)!;
+                  return (
+                    <span className="flex gap-px">
+                      <span className="w-3 h-3" style={{ background: skin.head }} />
+                      {[0, 1, 2].map(i => (
+                        <span key={i} className="w-3 h-3" style={{ background: `rgb(${skin.stripe && i % 2 ? skin.stripe : skin.body})` }} />
+                      ))}
+                    </span>
+                  );
+                }}
+              />
+            </div>
+
+            <div>
+              <SectionTitle>PACKET STYLE</SectionTitle>
+              <CosmeticPicker
+                kind="food"
+                items={FOOD_STYLES}
+                equipped={profile.foodStyle}
+                profile={profile}
+                onEquip={onEquip}
+                preview={id => {
+                  const shape = FOOD_STYLES.find(f => f.id === id)!.shape;
+                  return (
+                    <svg viewBox="0 0 12 12" className="w-4 h-4">
+                      {shape === 'block' && <rect x="1" y="1" width="10" height="10" className="fill-cyber-neonPink" />}
+                      {shape === 'orb' && <circle cx="6" cy="6" r="5" className="fill-cyber-neonPink" />}
+                      {shape === 'diamond' && <polygon points="6,0.5 11.5,6 6,11.5 0.5,6" className="fill-cyber-neonPink" />}
+                      {shape === 'ring' && <circle cx="6" cy="6" r="4.5" fill="none" strokeWidth="1.5" className="stroke-cyber-neonPink" />}
+                    </svg>
+                  );
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <CyberButton onClick={onClose} title="Close (Esc)" className="w-full px-2 py-2 text-xs flex items-center justify-center gap-1">
+              <X size={14} /> Close
+            </CyberButton>
+          </div>
+        </CyberPanel>
+      </div>
+    </div>
+  );
+};
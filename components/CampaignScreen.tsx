@@ -0,0 +1,106 @@
+import React, { useEffect } from 'react';
+import { Flag, Lock, Star, X } from 'lucide-react';
+import { CyberPanel, CyberButton } from './CyberUI';
+import { MAX_SECTOR_STARS, describeCriterion } from '../engine/campaign';
+import { describeObjective } from '../engine/objectives';
+import { CAMPAIGN_SECTORS } from '../engine/sectors';
+import { formatDuration } from '../services/leaderboardService';
+import { CampaignProgress, isUnlocked, totalStars, maxStars } from '../services/campaignService';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+
+interface CampaignScreenProps {
+  progress: CampaignProgress;
+  onSelect: (sectorId: string) => void;
+  onClose: () => void;
+}
+
+const Stars: React.FC<{ count: number }> = ({ count }) => (
+  <span className="flex gap-0.5" title={`${count}/${MAX_SECTOR_STARS} stars`}>
+    {Array.from({ length: MAX_SECTOR_STARS }, (_, i) => (
+      <Star key={i} size={12} className={i < count ? 'text-cyber-neonYellow fill-cyber-neonYellow' : 'text-cyber-neonBlue/30'} />
+    ))}
+  </span>
+);
+
+// Sector select: ratings, best times and what it takes to open the next sector
+export const CampaignScreen: React.FC<CampaignScreenProps> = ({ progress, onSelect, onClose }) => {
+  const dialogRef = useDialogFocus<HTMLDivElement>();
+  const stars = totalStars(progress);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-cyber-black/80 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Sector select"
+        tabIndex={-1}
+        className="w-full max-w-lg font-mono outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CyberPanel title="Sector Select" icon={<Flag size={16} className="mr-2 text-cyber-neonGreen" />} glowing>
+          <div className="mb-2 flex justify-between text-xs tracking-widest">
+            <span className="text-cyber-neonBlue/50">CAMPAIGN</span>
+            <span className="text-cyber-neonYellow">{stars}/{maxStars()} STARS</span>
+          </div>
+          <div tabIndex={0} className="max-h-[65vh] overflow-y-auto pr-1 space-y-2 text-xs">
+            {CAMPAIGN_SECTORS.map((sector, index) => {
+              const unlocked = isUnlocked(progress, sector.id);
+              const record = progress.sectors[sector.id];
+              const number = (index + 1).toString().padStart(2, '0');
+              return (
+                <button
+                  key={sector.id}
+                  onClick={() => onSelect(sector.id)}
+                  disabled={!unlocked}
+                  className={`w-full text-left border px-2 py-1 ${
+                    progress.current === sector.id
+                      ? 'border-cyber-neonPink bg-cyber-neonPink/10'
+                      : unlocked ? 'border-cyber-neonBlue/40 hover:border-cyber-neonBlue' : 'border-cyber-neonBlue/20 opacity-50 cursor-not-allowed'
+                  }`}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className={record ? 'text-cyber-neonGreen' : 'text-cyber-neonBlue'}>
+                      {number} // {sector.name.toUpperCase()}
+                    </span>
+                    {unlocked ? <Stars count={record?.stars ?? 0} /> : <Lock size={12} className="text-cyber-neonBlue/50" />}
+                  </div>
+                  <p className="text-cyber-muted">{sector.briefing}</p>
+                  <p className="text-cyber-neonYellow/80">{describeObjective(sector.objective).toUpperCase()}</p>
+                  {unlocked ? (
+                    <p className="text-cyber-neonBlue/50">
+                      +★ {describeCriterion(sector.stars[0])} // +★ {describeCriterion(sector.stars[1])}
+                      {record && ` // BEST ${formatDuration(record.bestMs)}`}
+                    </p>
+                  ) : (
+                    <p className="text-cyber-neonBlue/50">
+                      Clear sector {index.toString().padStart(2, '0')}
+                      {sector.requiredStars > 0 && ` and hold ${sector.requiredStars} stars`} to unlock.
+                    </p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="mt-4">
+            <CyberButton onClick={onClose} title="Close (Esc)" className="w-full px-2 py-2 text-xs flex items-center justify-center gap-1">
+              <X size={14} /> Close
+            </CyberButton>
+          </div>
+        </CyberPanel>
+      </div>
+    </div>
+  );
+};
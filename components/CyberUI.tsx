@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useId } from 'react';
 import { Terminal, ShieldAlert, Zap } from 'lucide-react';
 
 interface PanelProps {
@@ -9,10 +9,12 @@ interface PanelProps {
   glowing?: boolean;
 }
 
+// A landmark region named by its title, so screen readers can jump between panels
 export const CyberPanel: React.FC<PanelProps> = ({ children, title, className = '', icon, glowing = false }) => {
+  const titleId = useId();
   return (
-    <div className={`relative border-2 bg-cyber-dark/80 backdrop-blur-sm overflow-hidden ${
-      glowing ? 'border-cyber-neonPink shadow-[0_0_15px_rgba(255,0,255,0.3)]' : 'border-cyber-neonBlue/50'
+    <section aria-labelledby={titleId} className={`relative border-2 bg-cyber-dark/80 backdrop-blur-sm overflow-hidden ${
+      glowing ? 'border-cyber-neonPink shadow-[0_0_15px_rgb(var(--cyber-pink)/0.3)]' : 'border-cyber-neonBlue/50'
     } ${className}`}>
       {/* Corner accents */}
       <div className="absolute top-0 left-0 w-2 h-2 bg-cyber-neonBlue"></div>
@@ -23,7 +25,7 @@ export const CyberPanel: React.FC<PanelProps> = ({ children, title, className =
       {/* Header */}
       <div className="bg-cyber-neonBlue/10 p-2 flex items-center border-b border-cyber-neonBlue/30">
         {icon || <Terminal size={16} className="text-cyber-neonBlue mr-2" />}
-        <h3 className="font-display font-bold text-cyber-neonBlue tracking-widest uppercase text-sm">
+        <h3 id={titleId} className="font-display font-bold text-cyber-neonBlue tracking-widest uppercase text-sm">
           {title}
         </h3>
       </div>
@@ -32,7 +34,7 @@ export const CyberPanel: React.FC<PanelProps> = ({ children, title, className =
       <div className="p-4">
         {children}
       </div>
-    </div>
+    </section>
   );
 };
 
@@ -44,8 +46,8 @@ export const CyberButton: React.FC<CyberButtonProps> = ({ children, variant = 'p
   const baseStyles = "relative px-6 py-3 font-display font-bold uppercase tracking-widest transition-all duration-200 clip-path-polygon hover:translate-x-1 hover:-translate-y-1 active:translate-x-0 active:translate-y-0 disabled:opacity-50 disabled:cursor-not-allowed";
   
   const variants = {
-    primary: "bg-cyber-neonBlue/10 text-cyber-neonBlue border border-cyber-neonBlue hover:bg-cyber-neonBlue hover:text-cyber-black shadow-[0_0_10px_rgba(0,243,255,0.2)] hover:shadow-[0_0_20px_rgba(0,243,255,0.6)]",
-    danger: "bg-cyber-neonPink/10 text-cyber-neonPink border border-cyber-neonPink hover:bg-cyber-neonPink hover:text-cyber-black shadow-[0_0_10px_rgba(255,0,255,0.2)] hover:shadow-[0_0_20px_rgba(255,0,255,0.6)]"
+    primary: "bg-cyber-neonBlue/10 text-cyber-neonBlue border border-cyber-neonBlue hover:bg-cyber-neonBlue hover:text-cyber-black shadow-[0_0_10px_rgb(var(--cyber-blue)/0.2)] hover:shadow-[0_0_20px_rgb(var(--cyber-blue)/0.6)]",
+    danger: "bg-cyber-neonPink/10 text-cyber-neonPink border border-cyber-neonPink hover:bg-cyber-neonPink hover:text-cyber-black shadow-[0_0_10px_rgb(var(--cyber-pink)/0.2)] hover:shadow-[0_0_20px_rgb(var(--cyber-pink)/0.6)]"
   };
 
   return (
@@ -58,13 +60,14 @@ export const CyberButton: React.FC<CyberButtonProps> = ({ children, variant = 'p
   );
 };
 
-export const ScanlineOverlay: React.FC = () => (
-  <div className="pointer-events-none fixed inset-0 z-50 overflow-hidden h-full w-full">
+// `animated` is off under reduced motion: the sweeping bar goes, the noise and vignette stay
+export const ScanlineOverlay: React.FC<{ animated?: boolean }> = ({ animated = true }) => (
+  <div className="pointer-events-none fixed inset-0 z-50 overflow-hidden h-full w-full" aria-hidden="true">
     {/* Scanline moving bar */}
-    <div className="w-full h-[2px] bg-cyber-neonBlue/20 absolute top-0 animate-scanline shadow-[0_0_10px_rgba(0,243,255,0.5)]"></div>
+    {animated && <div className="w-full h-[2px] bg-cyber-neonBlue/20 absolute top-0 animate-scanline shadow-[0_0_10px_rgb(var(--cyber-blue)/0.5)]"></div>}
     {/* Static noise overlay */}
     <div className="absolute inset-0 opacity-[0.03] bg-[url('https://grainy-gradients.vercel.app/noise.svg')]"></div>
     {/* Vignette */}
-    <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,transparent_50%,rgba(2,6,23,0.8)_100%)]"></div>
+    <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,transparent_50%,rgb(var(--cyber-black)/0.8)_100%)]"></div>
   </div>
 );
\ No newline at end of file
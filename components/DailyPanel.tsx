@@ -0,0 +1,43 @@
+import React from 'react';
+import { CalendarDays, Copy } from 'lucide-react';
+import { CyberButton } from './CyberUI';
+import { DailyAttempt, sparkline } from '../services/dailyService';
+import { formatDuration } from '../services/leaderboardService';
+
+interface DailyPanelProps {
+  challengeKey: string;
+  sectorName: string;
+  attempt?: DailyAttempt;
+  onCopy: () => void;
+}
+
+// Today's challenge and, once played, the filed result
+export const DailyPanel: React.FC<DailyPanelProps> = ({ challengeKey, sectorName, attempt, onCopy }) => (
+  <div className="mb-4 border border-cyber-neonBlue/30 p-2 text-xs space-y-1">
+    <div className="flex items-center gap-2 text-cyber-neonYellow tracking-widest">
+      <CalendarDays size={14} /> DAILY {challengeKey}
+    </div>
+    <p className="text-cyber-neonBlue/70 uppercase">{sectorName}</p>
+    {!attempt ? (
+      <>
+        <p className="text-cyber-muted">One scored attempt today. Same seed, sector and packets for everyone.</p>
+        <p className="text-cyber-neonYellow/80">The attempt counts from the first tick. If the page crashes, or reloads and the run is not resumed, the day scores nothing.</p>
+      </>
+    ) : (
+      <>
+        {attempt.finished ? (
+          <p className="text-cyber-neonGreen">
+            SCORE {attempt.score} // LENGTH {attempt.length} // {formatDuration(attempt.durationMs)}
+          </p>
+        ) : (
+          <p className="text-cyber-neonPink">ATTEMPT LOST // NO SCORE</p>
+        )}
+        {attempt.gains.length > 0 && <p className="tracking-tight">{sparkline(attempt.gains)}</p>}
+        <p className="text-cyber-muted">Today's attempt is on file. Further runs are practice.</p>
+        <CyberButton onClick={onCopy} title="Copy a spoiler-free summary" className="w-full px-2 py-1 text-xs flex items-center justify-center gap-2">
+          <Copy size={14} /> Copy Result
+        </CyberButton>
+      </>
+    )}
+  </div>
+);
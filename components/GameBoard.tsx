@@ -1,215 +1,243 @@
-import React, { useEffect, useRef, useCallback } from 'react';
-import { GameStatus, Direction, Coordinate } from '../types';
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { GameStatus } from '../types';
+import { GameState, getTickInterval } from '../engine/snakeEngine';
+import { ArenaState, arenaTickInterval } from '../engine/arenaEngine';
+import { createGameLoop } from '../services/gameLoop';
+import { BoardMarker, BoardPalette, DEFAULT_CELL_SIZE, FoodShape, Renderer, RendererId, SnakeSkin, createRenderer } from '../services/rendererService';
+import { DeathHeatmap } from '../services/statsService';
+import { DEFAULT_BOARD_PALETTE, cssColor } from '../services/themeService';
+
+// Replaces the SYSTEM FAILURE screen, e.g. with a versus round or match result or a cleared sector
+export interface BoardOutcome {
+  title: string;
+  subtitle?: string;
+  color?: string; // Any CSS colour; theme colours come from cssColor()
+}
+
+// Statuses that can carry an outcome
+const RESULT_STATUSES = [GameStatus.GAME_OVER, GameStatus.ROUND_OVER, GameStatus.LEVEL_CLEARED, GameStatus.CAMPAIGN_COMPLETE];
 
 interface GameBoardProps {
   status: GameStatus;
-  score: number;
-  snake: Coordinate[];
-  food: Coordinate;
-  direction: Direction;
-  onMove: (newHead: Coordinate, grew: boolean) => void;
-  onGameOver: () => void;
-  width: number;
-  height: number;
+  game: GameState | ArenaState;
+  onTick: () => void;
+  demo?: boolean; // Attract mode: an autopilot run shown while idle
+  outcome?: BoardOutcome | null;
+  renderer?: RendererId;
+  onRendererFallback?: (reason: string) => void; // The requested renderer failed; Canvas2D took over
+  cellSize?: number;
+  smooth?: boolean; // Interpolate movement between ticks
+  intervalOverride?: number | null; // Fixed ms per tick instead of the speed curve (terminal `set speed`)
+  heatmap?: DeathHeatmap | null; // Where past runs ended, drawn over the board
+  skin?: SnakeSkin; // Cosmetics for the solo snake and its packets
+  foodShape?: FoodShape;
+  markers?: BoardMarker[]; // Campaign keys still to collect
+  palette?: BoardPalette; // Colours of the active theme
+  reducedMotion?: boolean; // Holds the packet and overlays still
 }
 
-const CELL_SIZE = 25;
-
 export const GameBoard: React.FC<GameBoardProps> = ({
   status,
-  score,
-  snake,
-  food,
-  direction,
-  onMove,
-  onGameOver,
-  width,
-  height
+  game,
+  onTick,
+  demo = false,
+  outcome = null,
+  renderer = 'canvas2d',
+  onRendererFallback,
+  cellSize = DEFAULT_CELL_SIZE,
+  smooth = true,
+  intervalOverride = null,
+  heatmap = null,
+  skin,
+  foodShape,
+  markers,
+  palette = DEFAULT_BOARD_PALETTE,
+  reducedMotion = false
 }) => {
+  const { width, height } = game.config;
+  const arena = 'players' in game ? game : null;
+  const solo = 'players' in game ? null : game;
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const requestRef = useRef<number>(0);
-  const lastTimeRef = useRef<number>(0);
   // Speed increases as score increases (lower interval = faster)
   const speedRef = useRef<number>(150); 
+  const onTickRef = useRef(onTick);
+  onTickRef.current = onTick;
+  // The last two simulation states and when the newer one arrived, for interpolation
+  const framesRef = useRef({ prev: game, cur: game, at: 0 });
   
-  // Calculate speed based on score
+  // Calculate speed based on score and active effects
   useEffect(() => {
-    const baseSpeed = 150;
-    const speedDecay = Math.min(100, score * 2); // Cap max speed increase
-    speedRef.current = Math.max(50, baseSpeed - speedDecay);
-  }, [score]);
-
-  const draw = useCallback((ctx: CanvasRenderingContext2D) => {
-    // 1. Clear with a slight transparent black for trail effect (optional, but kept clean for snake)
-    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
-    
-    // Draw Grid Background (Cyberpunk style)
-    ctx.strokeStyle = 'rgba(0, 243, 255, 0.1)';
-    ctx.lineWidth = 1;
-    
-    // Vertical lines
-    for (let x = 0; x <= width; x++) {
-      ctx.beginPath();
-      ctx.moveTo(x * CELL_SIZE, 0);
-      ctx.lineTo(x * CELL_SIZE, height * CELL_SIZE);
-      ctx.stroke();
-    }
-    
-    // Horizontal lines
-    for (let y = 0; y <= height; y++) {
-      ctx.beginPath();
-      ctx.moveTo(0, y * CELL_SIZE);
-      ctx.lineTo(width * CELL_SIZE, y * CELL_SIZE);
-      ctx.stroke();
-    }
+    speedRef.current = intervalOverride ?? (arena ? arenaTickInterval(arena) : getTickInterval(solo!));
+  }, [game, intervalOverride]);
 
-    // Draw Food (Glowing Pulse)
-    if (status !== GameStatus.IDLE) {
-        const pulseSize = Math.sin(Date.now() / 200) * 2;
-        
-        ctx.fillStyle = '#ff00ff'; // Neon Pink
-        ctx.shadowColor = '#ff00ff';
-        ctx.shadowBlur = 15;
-        ctx.fillRect(
-            food.x * CELL_SIZE + 2 - pulseSize/2, 
-            food.y * CELL_SIZE + 2 - pulseSize/2, 
-            CELL_SIZE - 4 + pulseSize, 
-            CELL_SIZE - 4 + pulseSize
-        );
-        
-        // Inner core of food
-        ctx.fillStyle = '#ffffff';
-        ctx.shadowBlur = 0;
-        ctx.fillRect(
-            food.x * CELL_SIZE + 8, 
-            food.y * CELL_SIZE + 8, 
-            CELL_SIZE - 16, 
-            CELL_SIZE - 16
-        );
+  useLayoutEffect(() => {
+    if (framesRef.current.cur !== game) {
+      framesRef.current = { prev: framesRef.current.cur, cur: game, at: performance.now() };
     }
+  }, [game]);
 
-    // Draw Snake
-    snake.forEach((segment, index) => {
-      const isHead = index === 0;
-      
-      if (isHead) {
-          ctx.fillStyle = '#0aff0a'; // Neon Green Head
-          ctx.shadowColor = '#0aff0a';
-          ctx.shadowBlur = 20;
-      } else {
-          // Gradient fade for tail
-          const opacity = Math.max(0.3, 1 - index / (snake.length + 5));
-          ctx.fillStyle = `rgba(0, 243, 255, ${opacity})`; // Neon Blue Body
-          ctx.shadowColor = '#00f3ff';
-          ctx.shadowBlur = 10;
-      }
-
-      ctx.fillRect(
-        segment.x * CELL_SIZE + 1,
-        segment.y * CELL_SIZE + 1,
-        CELL_SIZE - 2,
-        CELL_SIZE - 2
-      );
-      
-      // Reset shadow for performance
-      ctx.shadowBlur = 0;
-    });
-
-  }, [snake, food, width, height, status]);
-
-  const gameLoop = useCallback((time: number) => {
-    if (status !== GameStatus.PLAYING) {
-        // Still draw if paused/gameover to show state
-        if (canvasRef.current) {
-            const ctx = canvasRef.current.getContext('2d');
-            if (ctx) draw(ctx);
-        }
-        return; 
-    }
+  // A renderer that failed falls back to Canvas2D until another one is picked
+  const [failed, setFailed] = useState<RendererId | null>(null);
+  useEffect(() => setFailed(null), [renderer]);
+  const active: RendererId = failed === renderer ? 'canvas2d' : renderer;
 
-    const deltaTime = time - lastTimeRef.current;
-
-    if (deltaTime > speedRef.current) {
-      // Move Snake
-      const head = snake[0];
-      const newHead = { ...head };
-
-      switch (direction) {
-        case Direction.UP: newHead.y -= 1; break;
-        case Direction.DOWN: newHead.y += 1; break;
-        case Direction.LEFT: newHead.x -= 1; break;
-        case Direction.RIGHT: newHead.x += 1; break;
-      }
-
-      // Check Collision (Walls)
-      if (
-        newHead.x < 0 || 
-        newHead.x >= width || 
-        newHead.y < 0 || 
-        newHead.y >= height
-      ) {
-        onGameOver();
-        return;
-      }
-
-      // Check Collision (Self) - start from index 0 because head hasn't moved yet in state, 
-      // strictly we check if newHead exists in current snake body. 
-      // But since tail moves, we don't check the very last segment if we are not eating.
-      // To simplify: just check if newHead is in snake.
-      // However, if we don't eat, the tail pops, so hitting the tail tip is valid.
-      // Let's simplify: Collision if newHead touches any part of the CURRENT snake.
-      // Refined: If we eat, snake grows, tail doesn't move. Collision with tail is bad.
-      // If we don't eat, tail moves. Collision with current tail tip is actually fine (it will move away).
-      
-      // Quick check: Is new head hitting body?
-      // We treat collision with *any* existing segment as death.
-      for (let i = 0; i < snake.length - 1; i++) {
-          if (newHead.x === snake[i].x && newHead.y === snake[i].y) {
-              onGameOver();
-              return;
-          }
-      }
-
-      // Check Food
-      const grew = newHead.x === food.x && newHead.y === food.y;
-      
-      onMove(newHead, grew);
-      lastTimeRef.current = time;
+  const fallbackRef = useRef(onRendererFallback);
+  fallbackRef.current = onRendererFallback;
+  const rendererRef = useRef<Renderer | null>(null);
+  useEffect(() => {
+    const fail = (reason: string) => {
+      fallbackRef.current?.(reason);
+      setFailed(active);
+    };
+    try {
+      const instance = createRenderer(active, canvasRef.current!, () => fail('Graphics context lost'));
+      rendererRef.current = instance;
+      return () => {
+        instance.dispose();
+        rendererRef.current = null;
+      };
+    } catch (error) {
+      if (active === 'canvas2d') throw error;
+      fail(error instanceof Error ? error.message : String(error));
     }
+  }, [active]);
+
+  // Snakes and watchdogs glide from their previous cells over the course of a tick
+  const draw = (now: number) => {
+    const { prev, at } = framesRef.current;
+    const alpha = Math.min(1, Math.max(0, (now - at) / speedRef.current));
+    const interpolate = smooth && prev !== game && prev.config === game.config && prev.tick + 1 === game.tick;
+    rendererRef.current?.render({
+      game,
+      prev: interpolate ? prev : game,
+      alpha,
+      showFood: status !== GameStatus.IDLE || demo,
+      cellSize,
+      now,
+      palette,
+      reducedMotion,
+      skin,
+      foodShape,
+      markers
+    });
+  };
+  const drawRef = useRef(draw);
+  drawRef.current = draw;
 
-    if (canvasRef.current) {
-        const ctx = canvasRef.current.getContext('2d');
-        if (ctx) draw(ctx);
-    }
-    
-    requestRef.current = requestAnimationFrame(gameLoop);
-  }, [status, snake, direction, food, width, height, onMove, onGameOver, draw]);
+  // One loop for the board's lifetime: ticks are scheduled at a fixed timestep, independent
+  // of React renders, and every display frame is drawn (paused or not)
+  const loopRef = useRef<ReturnType<typeof createGameLoop> | null>(null);
+  useEffect(() => {
+    const loop = createGameLoop({
+      getInterval: () => speedRef.current,
+      // The rules (movement, collisions, food) live in the engine; the loop only decides when a tick is due.
+      onTick: () => onTickRef.current(),
+      onFrame: now => drawRef.current(now)
+    });
+    loopRef.current = loop;
+    loop.start();
+    return () => loop.stop();
+  }, []);
+
+  // A heatmap for another board size would put the marks on the wrong cells
+  const heatmapRef = useRef<HTMLCanvasElement>(null);
+  const showHeatmap = heatmap !== null && heatmap.width === width && heatmap.height === height;
+  useEffect(() => {
+    const ctx = heatmapRef.current?.getContext('2d');
+    if (!ctx || !heatmap) return;
+    ctx.clearRect(0, 0, width * cellSize, height * cellSize);
+    heatmap.counts.forEach((count, i) => {
+      if (count === 0) return;
+      ctx.fillStyle = `rgba(${palette.heatmap}, ${0.2 + 0.6 * (count / heatmap.max)})`;
+      ctx.fillRect((i % width) * cellSize, Math.floor(i / width) * cellSize, cellSize, cellSize);
+    });
+  }, [heatmap, showHeatmap, width, height, cellSize, palette]);
 
+  // Resuming keeps the partial tick; anything else starts a fresh interval
+  const prevStatusRef = useRef(status);
   useEffect(() => {
-    requestRef.current = requestAnimationFrame(gameLoop);
-    return () => {
-      if (requestRef.current) cancelAnimationFrame(requestRef.current);
-    };
-  }, [gameLoop]);
+    const loop = loopRef.current;
+    if (!loop) return;
+    if (status === GameStatus.PLAYING && prevStatusRef.current !== GameStatus.PAUSED) loop.reset();
+    loop.setRunning(status === GameStatus.PLAYING);
+    prevStatusRef.current = status;
+  }, [status]);
 
   return (
-    <div className="relative border-4 border-cyber-dark bg-cyber-black shadow-[0_0_30px_rgba(0,243,255,0.1)] rounded-lg overflow-hidden">
+    <div className="relative border-4 border-cyber-dark bg-cyber-black shadow-[0_0_30px_rgb(var(--cyber-blue)/0.1)] rounded-lg overflow-hidden">
+        {/* Each renderer gets a fresh canvas: a canvas never switches context type */}
         <canvas
+            key={active}
             ref={canvasRef}
-            width={width * CELL_SIZE}
-            height={height * CELL_SIZE}
+            width={width * cellSize}
+            height={height * cellSize}
+            role="img"
+            aria-label={`Game grid, ${width} by ${height} cells`}
             className="block"
         />
         
+        {/* Death Heatmap */}
+        {showHeatmap && (
+            <>
+                <canvas
+                    ref={heatmapRef}
+                    width={width * cellSize}
+                    height={height * cellSize}
+                    className="absolute inset-0 z-20 pointer-events-none"
+                />
+                <span className="absolute top-2 right-2 z-20 px-2 py-1 border border-cyber-neonPink/60 bg-cyber-black/70 text-cyber-neonPink font-mono text-xs pointer-events-none">
+                    DEATH HEATMAP // {heatmap!.counts.reduce((a, b) => a + b, 0)} DEATHS
+                </span>
+            </>
+        )}
+
+        {/* Round / Match / Sector Result */}
+        {outcome && RESULT_STATUSES.includes(status) && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-cyber-black/80 backdrop-blur-sm z-10">
+                <h2
+                    className="text-4xl font-display font-bold text-center animate-pulse tracking-widest"
+                    style={{ color: outcome.color ?? cssColor('green'), textShadow: `0 0 10px ${outcome.color ?? cssColor('green')}` }}
+                >
+                    {outcome.title}
+                </h2>
+                {outcome.subtitle && (
+                    <p className="font-mono text-sm text-cyber-neonBlue tracking-widest">{outcome.subtitle}</p>
+                )}
+            </div>
+        )}
+
         {/* Screen Glitch Overlay for Game Over */}
-        {status === GameStatus.GAME_OVER && (
+        {status === GameStatus.GAME_OVER && !outcome && (
             <div className="absolute inset-0 flex items-center justify-center bg-cyber-black/80 backdrop-blur-sm z-10">
-                <h2 className="text-5xl font-display font-bold text-cyber-neonPink animate-pulse tracking-widest drop-shadow-[0_0_10px_rgba(255,0,255,0.8)]">
+                <h2 className="text-5xl font-display font-bold text-cyber-neonPink animate-pulse tracking-widest drop-shadow-[0_0_10px_rgb(var(--cyber-pink)/0.8)]">
                     SYSTEM FAILURE
                 </h2>
             </div>
         )}
 
+        {/* Attract Mode Banner */}
+        {demo && (
+            <div className="absolute inset-x-0 bottom-6 flex justify-center z-10 pointer-events-none">
+                <span className="px-4 py-2 border border-cyber-neonBlue/60 bg-cyber-black/70 text-cyber-neonBlue font-mono text-sm tracking-widest animate-pulse">
+                    AUTOPILOT DEMO // PRESS [SPACE] TO BREACH
+                </span>
+            </div>
+        )}
+
+        {/* Replay Badge */}
+        {status === GameStatus.REPLAY && solo && (
+            <div className="absolute top-2 left-2 flex gap-2 text-xs font-mono z-10 pointer-events-none">
+                <span className="px-2 py-1 border border-cyber-neonPink text-cyber-neonPink bg-cyber-black/70 animate-pulse">
+                    ● REPLAY T{solo.tick.toString().padStart(4, '0')}
+                </span>
+                {!solo.alive && (
+                    <span className="px-2 py-1 border border-cyber-neonPink bg-cyber-neonPink/20 text-cyber-neonPink">
+                        SIGNAL LOST: {solo.deathCause?.toUpperCase()}
+                    </span>
+                )}
+            </div>
+        )}
+
         {/* Pause Overlay */}
         {status === GameStatus.PAUSED && (
             <div className="absolute inset-0 flex items-center justify-center bg-cyber-black/60 z-10">
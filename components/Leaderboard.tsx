@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Trophy, Save } from 'lucide-react';
+import { CyberPanel, CyberButton } from './CyberUI';
+import { DIFFICULTY_PRESETS, DIFFICULTY_PRESET_IDS } from '../engine/difficulty';
+import { BUILTIN_LEVELS } from '../engine/levels';
+import {
+  BoardKey,
+  Leaderboard,
+  getEntries,
+  formatDuration,
+  MAX_NAME_LENGTH,
+  RANKED_MODES
+} from '../services/leaderboardService';
+
+interface LeaderboardPanelProps {
+  board: Leaderboard;
+  view: BoardKey;
+  onViewChange: (view: BoardKey) => void;
+  highlightId?: string | null;
+}
+
+const tabClass = (active: boolean) => `flex-1 text-[10px] py-1 border tracking-widest ${
+  active ? 'border-cyber-neonPink text-cyber-neonPink' : 'border-cyber-neonBlue/30 text-cyber-neonBlue/60 hover:text-cyber-neonBlue'
+}`;
+
+export const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ board, view, onViewChange, highlightId }) => {
+  const entries = getEntries(board, view);
+  const modes = RANKED_MODES;
+
+  return (
+    <CyberPanel title="Hall of Breach" icon={<Trophy size={16} className="text-cyber-neonYellow mr-2" />}>
+      {modes.length > 1 && (
+        <div className="flex gap-1 mb-3">
+          {modes.map(m => (
+            <button
+              key={m}
+              onClick={() => onViewChange({ ...view, mode: m })}
+              className={tabClass(m === view.mode)}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Runs on each stock sector and preset rank apart; custom rules and boards are not archived */}
+      <select
+        value={view.levelId}
+        onChange={(e) => onViewChange({ ...view, levelId: e.target.value })}
+        title="Sector"
+        className="w-full mb-1 bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-[10px] text-cyber-neonBlue uppercase tracking-widest outline-none focus:border-cyber-neonPink"
+      >
+        {BUILTIN_LEVELS.map(level => (
+          <option key={level.id} value={level.id}>{level.name}</option>
+        ))}
+      </select>
+      <div className="flex gap-1 mb-3">
+        {DIFFICULTY_PRESET_IDS.map(id => (
+          <button
+            key={id}
+            onClick={() => onViewChange({ ...view, difficulty: id })}
+            className={tabClass(id === view.difficulty)}
+          >
+            {DIFFICULTY_PRESETS[id].label.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-cyber-neonBlue/30 italic text-center text-xs py-4">No records on file...</div>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-cyber-neonBlue/50 border-b border-cyber-grid">
+              <th className="text-left font-normal pb-1">#</th>
+              <th className="text-left font-normal pb-1">HANDLE</th>
+              <th className="text-right font-normal pb-1">PTS</th>
+              <th className="text-right font-normal pb-1">LEN</th>
+              <th className="text-right font-normal pb-1">TIME</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, index) => (
+              <tr
+                key={entry.id}
+                title={`${new Date(entry.date).toLocaleString()} // seed ${entry.seed}`}
+                className={entry.id === highlightId ? 'text-cyber-neonPink animate-pulse' : index === 0 ? 'text-cyber-neonYellow' : 'text-cyber-text'}
+              >
+                <td className="py-0.5">{index + 1}</td>
+                <td className="py-0.5 truncate max-w-[6rem]">{entry.name}</td>
+                <td className="py-0.5 text-right">{entry.score}</td>
+                <td className="py-0.5 text-right">{entry.length}</td>
+                <td className="py-0.5 text-right">{formatDuration(entry.durationMs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </CyberPanel>
+  );
+};
+
+interface NameEntryPanelProps {
+  score: number;
+  initialName: string;
+  onSubmit: (name: string) => void;
+  onSkip: () => void;
+}
+
+export const NameEntryPanel: React.FC<NameEntryPanelProps> = ({ score, initialName, onSubmit, onSkip }) => {
+  const [name, setName] = useState(initialName);
+
+  return (
+    <CyberPanel title="Record Detected" glowing>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSubmit(name);
+        }}
+        className="space-y-3"
+      >
+        <p className="text-xs text-cyber-neonBlue/70">
+          Score <span className="text-cyber-neonGreen">{score}</span> qualifies for the archive. Identify yourself, runner.
+        </p>
+        <input
+          autoFocus
+          value={name}
+          maxLength={MAX_NAME_LENGTH}
+          onChange={(e) => setName(e.target.value.toUpperCase())}
+          placeholder="HANDLE"
+          className="w-full bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-cyber-neonGreen font-mono tracking-widest outline-none focus:border-cyber-neonPink"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <CyberButton type="submit" className="px-2 text-xs flex items-center justify-center gap-2">
+            <Save size={14} /> Log
+          </CyberButton>
+          <CyberButton type="button" onClick={onSkip} variant="danger" className="px-2 text-xs">
+            Skip
+          </CyberButton>
+        </div>
+      </form>
+    </CyberPanel>
+  );
+};
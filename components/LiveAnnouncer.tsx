@@ -0,0 +1,19 @@
+import React from 'react';
+
+export interface Announcement {
+  id: number; // Bumped per announcement, so repeating the same words is still read out
+  text: string;
+  urgent: boolean; // Interrupts whatever the screen reader is saying
+}
+
+// Visually hidden live regions; screen readers read each new announcement as it lands
+export const LiveAnnouncer: React.FC<{ announcement: Announcement | null }> = ({ announcement }) => (
+  <div className="sr-only">
+    <div role="status" aria-live="polite" aria-atomic="true">
+      {announcement && !announcement.urgent && <span key={announcement.id}>{announcement.text}</span>}
+    </div>
+    <div role="alert" aria-live="assertive" aria-atomic="true">
+      {announcement?.urgent && <span key={announcement.id}>{announcement.text}</span>}
+    </div>
+  </div>
+);
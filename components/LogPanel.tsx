@@ -0,0 +1,173 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Search, Download } from 'lucide-react';
+import { SystemLog } from '../types';
+import {
+  LogFilter,
+  LogFormat,
+  DEFAULT_LOG_FILTER,
+  LOG_SEVERITIES,
+  LOG_SOURCES,
+  filterLogs,
+  formatLogTime,
+  formatTick,
+  isFiltered
+} from '../services/logService';
+
+interface LogPanelProps {
+  entries: SystemLog[];
+  run: number; // The run "THIS RUN" narrows to
+  replayTick: number | null; // While watching a replay, entries past this tick are dimmed
+  canSelect: (log: SystemLog) => boolean;
+  onSelect: (log: SystemLog) => void;
+  onExport: (entries: SystemLog[], format: LogFormat) => void;
+}
+
+// Rows have a fixed height so only the ones in view need rendering
+const ROW_HEIGHT = 36;
+const OVERSCAN = 6;
+
+const toggle = <T,>(list: T[], item: T): T[] => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+const chip = (active: boolean) => `px-1 border text-[10px] leading-4 tracking-widest ${
+  active ? 'border-cyber-neonPink text-cyber-neonPink bg-cyber-neonPink/10' : 'border-cyber-neonBlue/30 text-cyber-neonBlue/40 hover:text-cyber-neonBlue'
+}`;
+
+const SOURCE_LABELS = Object.fromEntries(LOG_SOURCES.map(s => [s.source, s.label]));
+
+export const LogPanel: React.FC<LogPanelProps> = ({ entries, run, replayTick, canSelect, onSelect, onExport }) => {
+  const [filter, setFilter] = useState<LogFilter>(DEFAULT_LOG_FILTER);
+  const visible = useMemo(() => filterLogs(entries, filter, run), [entries, filter, run]);
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // Stick to the newest entry until the user scrolls up
+  const followRef = useRef(true);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(() => setViewportHeight(viewport.clientHeight));
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  const lastSeq = visible[visible.length - 1]?.seq;
+  useLayoutEffect(() => {
+    const viewport = viewportRef.current;
+    if (viewport && followRef.current) viewport.scrollTop = viewport.scrollHeight;
+  }, [lastSeq, visible.length, viewportHeight]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const viewport = e.currentTarget;
+    setScrollTop(viewport.scrollTop);
+    followRef.current = viewport.scrollTop + viewport.clientHeight >= viewport.scrollHeight - ROW_HEIGHT;
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(visible.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col font-mono text-xs">
+      <div className="flex items-center gap-1 mb-1">
+        <label className="flex-1 flex items-center border border-cyber-neonBlue/30 px-1 focus-within:border-cyber-neonPink">
+          <Search size={12} className="text-cyber-neonBlue/50 mr-1 shrink-0" />
+          <input
+            value={filter.query}
+            onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+            placeholder="search"
+            spellCheck={false}
+            aria-label="Search logs"
+            className="w-full bg-transparent text-cyber-neonBlue placeholder:text-cyber-neonBlue/30 outline-none"
+          />
+        </label>
+        {(['jsonl', 'text'] as LogFormat[]).map(format => (
+          <button
+            key={format}
+            onClick={() => onExport(visible, format)}
+            title={`Download the ${isFiltered(filter) ? 'filtered' : 'full'} log as ${format === 'jsonl' ? 'JSON Lines' : 'plain text'}`}
+            className="flex items-center gap-0.5 px-1 border border-cyber-neonBlue/30 text-[10px] leading-4 text-cyber-neonBlue/60 hover:text-cyber-neonPink hover:border-cyber-neonPink"
+          >
+            <Download size={10} /> {format === 'jsonl' ? 'JSONL' : 'TXT'}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-2">
+        {LOG_SEVERITIES.map(({ severity, label }) => (
+          <button
+            key={severity}
+            onClick={() => setFilter({ ...filter, severities: toggle(filter.severities, severity) })}
+            className={chip(filter.severities.includes(severity))}
+          >
+            {label}
+          </button>
+        ))}
+        {LOG_SOURCES.map(({ source, label }) => (
+          <button
+            key={source}
+            onClick={() => setFilter({ ...filter, sources: toggle(filter.sources, source) })}
+            className={chip(filter.sources.includes(source))}
+          >
+            {label}
+          </button>
+        ))}
+        <button
+          onClick={() => setFilter({ ...filter, currentRun: !filter.currentRun })}
+          title="Only entries since the latest run started"
+          className={chip(filter.currentRun)}
+        >
+          THIS RUN
+        </button>
+        <span className="ml-auto text-[10px] leading-4 text-cyber-neonBlue/40">{visible.length}/{entries.length}</span>
+      </div>
+
+      <div ref={viewportRef} onScroll={handleScroll} tabIndex={0} aria-label="Log entries" className="flex-1 min-h-[160px] max-h-[400px] overflow-y-auto pr-2">
+        {visible.length === 0 && (
+          <div className="text-cyber-neonBlue/30 italic text-center mt-10">
+            {entries.length === 0 ? 'No activity detected...' : 'No entries match the filter.'}
+          </div>
+        )}
+        <div className="relative" style={{ height: visible.length * ROW_HEIGHT }}>
+          {visible.slice(first, last).map((log, offset) => {
+            const index = first + offset;
+            const selectable = canSelect(log);
+            const newRun = index > 0 && visible[index - 1].run !== log.run;
+            return (
+              <div
+                key={log.seq}
+                onClick={() => selectable && onSelect(log)}
+                onKeyDown={(e) => {
+                  if (!selectable || (e.key !== 'Enter' && e.key !== ' ')) return;
+                  e.preventDefault();
+                  onSelect(log);
+                }}
+                role={selectable ? 'button' : undefined}
+                tabIndex={selectable ? 0 : undefined}
+                title={`#${log.seq} // RUN ${log.run}${log.tick === undefined ? '' : ` // ${formatTick(log.tick)}`} // ${log.message}`}
+                style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                className={`absolute inset-x-0 py-0.5 overflow-hidden leading-4 line-clamp-2 ${
+                  newRun ? 'border-t border-cyber-neonPink/30' : ''
+                } ${selectable ? 'cursor-pointer hover:bg-cyber-neonBlue/10' : ''} ${
+                  replayTick !== null && log.tick !== undefined && log.tick > replayTick ? 'opacity-40' : ''
+                }`}
+              >
+                <span className="text-cyber-neonBlue/40">[{log.time ? formatLogTime(log.time) : formatTick(log.tick ?? 0)}]</span>{' '}
+                <span className="text-cyber-neonBlue/30 text-[10px]">{SOURCE_LABELS[log.source]}</span>{' '}
+                <span className={`${
+                  log.type === 'critical' ? 'text-cyber-neonPink font-bold' :
+                  log.type === 'success' ? 'text-cyber-neonGreen' :
+                  log.type === 'warning' ? 'text-cyber-neonYellow' : 'text-cyber-text'
+                }`}>
+                  {log.type === 'critical' && '>> ERROR: '}
+                  {log.type === 'success' && '>> '}
+                  {log.message}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Wifi, WifiOff, Crown, Play } from 'lucide-react';
+import { CyberButton } from './CyberUI';
+import { ClientRole, LobbyInfo } from '../engine/protocol';
+import { ConnectionStatus } from '../hooks/useOnlineMatch';
+
+interface OnlineLobbyProps {
+  connection: ConnectionStatus;
+  lobby: LobbyInfo | null;
+  playerId: string | null;
+  role: ClientRole;
+  isHost: boolean;
+  defaultUrl: string;
+  defaultName: string;
+  onConnect: (url: string, lobby: string, name: string) => void;
+  onDisconnect: () => void;
+  onStart: () => void;
+}
+
+const inputClass = 'w-full bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-xs text-cyber-neonGreen font-mono tracking-widest outline-none focus:border-cyber-neonPink';
+
+export const OnlineLobby: React.FC<OnlineLobbyProps> = ({
+  connection,
+  lobby,
+  playerId,
+  role,
+  isHost,
+  defaultUrl,
+  defaultName,
+  onConnect,
+  onDisconnect,
+  onStart
+}) => {
+  const [url, setUrl] = useState(defaultUrl);
+  const [lobbyName, setLobbyName] = useState('lan-party');
+  const [name, setName] = useState(defaultName);
+
+  if (connection === 'offline') {
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onConnect(url, lobbyName, name);
+        }}
+        className="space-y-2"
+      >
+        <input value={url} onChange={(e) => setUrl(e.target.value)} placeholder="ws://host:8787" className={inputClass} />
+        <input value={lobbyName} onChange={(e) => setLobbyName(e.target.value)} placeholder="LOBBY" className={inputClass} />
+        <input value={name} onChange={(e) => setName(e.target.value.toUpperCase())} placeholder="HANDLE" className={inputClass} />
+        <CyberButton type="submit" className="w-full px-2 text-xs flex items-center justify-center gap-2">
+          <Wifi size={14} /> Connect
+        </CyberButton>
+      </form>
+    );
+  }
+
+  const canStart = isHost && lobby !== null && (lobby.phase === 'waiting' || lobby.phase === 'match-over')
+    && lobby.players.filter(p => p.connected).length >= 2;
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex justify-between items-center border-b border-cyber-grid pb-2">
+        <span className="text-cyber-neonBlue/70">LOBBY</span>
+        <span className={connection === 'online' ? 'text-cyber-neonGreen' : 'text-cyber-neonYellow animate-pulse'}>
+          {lobby?.id ?? '...'} // {connection.toUpperCase()}
+        </span>
+      </div>
+      <ul className="space-y-1">
+        {lobby?.players.map(player => (
+          <li key={player.id} className="flex items-center gap-2">
+            <span className={`h-2 w-2 rounded-full ${player.connected ? 'bg-cyber-neonGreen' : 'bg-cyber-neonPink animate-pulse'}`} />
+            <span className={player.id === playerId ? 'text-cyber-neonGreen' : 'text-cyber-text'}>{player.name}</span>
+            {player.id === lobby.hostId && <Crown size={12} className="text-cyber-neonYellow" />}
+            {!player.connected && <span className="text-cyber-neonPink/70">LINK LOST</span>}
+          </li>
+        ))}
+      </ul>
+      {lobby && lobby.spectators > 0 && (
+        <p className="text-cyber-neonBlue/50">{lobby.spectators} spectator{lobby.spectators === 1 ? '' : 's'} watching</p>
+      )}
+      {role === 'spectator' && (
+        <p className="text-cyber-neonYellow/80">Spectating. You get a seat when the current match ends.</p>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <CyberButton onClick={onStart} disabled={!canStart} className="px-2 text-xs flex items-center justify-center gap-2">
+          <Play size={14} /> Start
+        </CyberButton>
+        <CyberButton onClick={onDisconnect} variant="danger" className="px-2 text-xs flex items-center justify-center gap-2">
+          <WifiOff size={14} /> Leave
+        </CyberButton>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Play, Pause, SkipBack, SkipForward, Download, LogOut } from 'lucide-react';
+import { CyberButton } from './CyberUI';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  tick: number;
+  length: number;
+  playing: boolean;
+  speed: number;
+  onTogglePlay: () => void;
+  onStep: (delta: number) => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExport: () => void;
+  onExit: () => void;
+}
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({
+  tick,
+  length,
+  playing,
+  speed,
+  onTogglePlay,
+  onStep,
+  onSeek,
+  onSpeedChange,
+  onExport,
+  onExit
+}) => {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        <CyberButton onClick={() => onStep(-1)} disabled={tick <= 0} className="px-2 flex items-center justify-center">
+          <SkipBack size={16} />
+        </CyberButton>
+        <CyberButton onClick={onTogglePlay} className="px-2 flex items-center justify-center">
+          {playing ? <Pause size={16} /> : <Play size={16} />}
+        </CyberButton>
+        <CyberButton onClick={() => onStep(1)} disabled={tick >= length} className="px-2 flex items-center justify-center">
+          <SkipForward size={16} />
+        </CyberButton>
+      </div>
+
+      <div>
+        <input
+          type="range"
+          min={0}
+          max={length}
+          value={tick}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="w-full accent-cyber-neonPink"
+        />
+        <div className="flex justify-between text-xs text-cyber-neonBlue/60">
+          <span>TICK {tick.toString().padStart(4, '0')}</span>
+          <span>/ {length.toString().padStart(4, '0')}</span>
+        </div>
+      </div>
+
+      <div className="flex justify-between gap-1">
+        {REPLAY_SPEEDS.map(s => (
+          <button
+            key={s}
+            onClick={() => onSpeedChange(s)}
+            className={`flex-1 text-xs py-1 border ${
+              s === speed ? 'border-cyber-neonPink text-cyber-neonPink' : 'border-cyber-neonBlue/30 text-cyber-neonBlue/60 hover:text-cyber-neonBlue'
+            }`}
+          >
+            {s}x
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <CyberButton onClick={onExport} className="px-2 text-xs flex items-center justify-center gap-2">
+          <Download size={14} /> Export
+        </CyberButton>
+        <CyberButton onClick={onExit} variant="danger" className="px-2 text-xs flex items-center justify-center gap-2">
+          <LogOut size={14} /> Exit
+        </CyberButton>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useEffect } from 'react';
+import { History, Play, Trash2 } from 'lucide-react';
+import { CyberPanel, CyberButton } from './CyberUI';
+import { RunSnapshot } from '../services/sessionService';
+import { formatDuration } from '../services/leaderboardService';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+
+interface ResumePromptProps {
+  snapshot: RunSnapshot;
+  modeLabel: string;
+  onResume: () => void;
+  onDiscard: () => void;
+  onClose: () => void; // Decide later; the snapshot stays until a new run starts
+}
+
+// Offered on load when a run was left behind by a reload or a closed tab
+export const ResumePrompt: React.FC<ResumePromptProps> = ({ snapshot, modeLabel, onResume, onDiscard, onClose }) => {
+  const dialogRef = useDialogFocus<HTMLDivElement>();
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const { state } = snapshot;
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-cyber-black/80 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Previous session"
+        tabIndex={-1}
+        className="w-full max-w-sm font-mono outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CyberPanel title="Previous Session" icon={<History size={16} className="mr-2 text-cyber-neonYellow" />} glowing>
+          <div className="space-y-1 text-xs">
+            <p className="text-cyber-neonBlue/70">An interrupted run was found.</p>
+            <p className="text-cyber-neonBlue uppercase">{modeLabel} // {snapshot.levelName}</p>
+            <p className="text-cyber-neonGreen">
+              SCORE {state.score} // LENGTH {state.snake.length} // {formatDuration(snapshot.elapsedMs)}
+            </p>
+            <p className="text-cyber-neonBlue/50">Saved {new Date(snapshot.savedAt).toLocaleString()}</p>
+          </div>
+          <div className="grid grid-cols-2 gap-2 mt-4">
+            <CyberButton onClick={onResume} className="px-2 py-2 text-xs flex items-center justify-center gap-1">
+              <Play size={14} /> Resume
+            </CyberButton>
+            <CyberButton onClick={onDiscard} variant="danger" className="px-2 py-2 text-xs flex items-center justify-center gap-1">
+              <Trash2 size={14} /> Discard
+            </CyberButton>
+          </div>
+        </CyberPanel>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { Settings as SettingsIcon, Download, Upload, RotateCcw, X } from 'lucide-react';
+import { CyberPanel, CyberButton } from './CyberUI';
+import { BoardSection } from './settings/BoardSection';
+import { DifficultySection } from './settings/DifficultySection';
+import { DisplaySection } from './settings/DisplaySection';
+import { AudioSection } from './settings/AudioSection';
+import { ControlsSection } from './settings/ControlsSection';
+import { CommentarySection } from './settings/CommentarySection';
+import { AccessibilitySection } from './settings/AccessibilitySection';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { Settings } from '../services/settingsService';
+import { AdaptiveState } from '../engine/difficulty';
+
+interface SettingsScreenProps {
+  settings: Settings;
+  adaptive: AdaptiveState;
+  onChange: (settings: Settings) => void;
+  onImport: () => void;
+  onExport: () => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+type Tab = 'gameplay' | 'display' | 'access' | 'audio' | 'controls' | 'commentary';
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'gameplay', label: 'GAMEPLAY' },
+  { id: 'display', label: 'DISPLAY' },
+  { id: 'access', label: 'ACCESS' },
+  { id: 'audio', label: 'AUDIO' },
+  { id: 'controls', label: 'CONTROLS' },
+  { id: 'commentary', label: 'NEXUS' }
+];
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h4 className="mb-2 text-xs text-cyber-neonPink tracking-widest">{children}</h4>
+);
+
+// Every option in one place. Changes apply (and persist) immediately; gameplay changes take effect from the next run.
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({
+  settings,
+  adaptive,
+  onChange,
+  onImport,
+  onExport,
+  onReset,
+  onClose
+}) => {
+  const [tab, setTab] = useState<Tab>('gameplay');
+  const { gameplay } = settings;
+  const dialogRef = useDialogFocus<HTMLDivElement>();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // A key being captured for rebinding arrives already handled
+      if (e.key === 'Escape' && !e.defaultPrevented) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Arrow keys move between tabs, as in any tab strip
+  const handleTabKey = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    const index = TABS.findIndex(t => t.id === tab);
+    const next = (index + (e.key === 'ArrowRight' ? 1 : TABS.length - 1)) % TABS.length;
+    setTab(TABS[next].id);
+    e.currentTarget.querySelectorAll<HTMLButtonElement>('[role="tab"]')[next]?.focus();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-cyber-black/80 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="System config"
+        tabIndex={-1}
+        className="w-full max-w-lg font-mono outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CyberPanel title="System Config" icon={<SettingsIcon size={16} className="mr-2 text-cyber-neonBlue" />} glowing>
+          <div role="tablist" aria-label="Settings sections" className="flex gap-1 mb-4" onKeyDown={handleTabKey}>
+            {TABS.map(({ id, label }) => (
+              <button
+                key={id}
+                id={`settings-tab-${id}`}
+                role="tab"
+                aria-selected={tab === id}
+                aria-controls="settings-panel"
+                tabIndex={tab === id ? 0 : -1}
+                onClick={() => setTab(id)}
+                className={`flex-1 px-1 py-1 text-xs border tracking-widest ${
+                  tab === id ? 'border-cyber-neonPink text-cyber-neonPink bg-cyber-neonPink/10' : 'border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonBlue'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div
+            id="settings-panel"
+            role="tabpanel"
+            aria-labelledby={`settings-tab-${tab}`}
+            tabIndex={0}
+            className="min-h-[240px] max-h-[60vh] overflow-y-auto pr-1 space-y-4"
+          >
+            {tab === 'gameplay' && (
+              <>
+                <div>
+                  <SectionTitle>BOARD</SectionTitle>
+                  <BoardSection settings={gameplay.board} onChange={board => onChange({ ...settings, gameplay: { ...gameplay, board } })} />
+                </div>
+                <div>
+                  <SectionTitle>THREAT LEVEL</SectionTitle>
+                  <DifficultySection
+                    settings={gameplay.difficulty}
+                    adaptive={adaptive}
+                    onChange={difficulty => onChange({ ...settings, gameplay: { ...gameplay, difficulty } })}
+                  />
+                </div>
+              </>
+            )}
+            {tab === 'display' && (
+              <DisplaySection settings={settings.display} onChange={display => onChange({ ...settings, display })} />
+            )}
+            {tab === 'access' && (
+              <AccessibilitySection settings={settings.accessibility} onChange={accessibility => onChange({ ...settings, accessibility })} />
+            )}
+            {tab === 'audio' && (
+              <AudioSection settings={settings.audio} onChange={audio => onChange({ ...settings, audio })} />
+            )}
+            {tab === 'controls' && (
+              <ControlsSection settings={settings.controls} onChange={controls => onChange({ ...settings, controls })} />
+            )}
+            {tab === 'commentary' && (
+              <CommentarySection settings={settings.commentary} onChange={commentary => onChange({ ...settings, commentary })} />
+            )}
+          </div>
+
+          <div className="grid grid-cols-4 gap-2 mt-4">
+            <CyberButton onClick={onImport} title="Load a settings file" className="px-2 py-2 text-xs flex items-center justify-center gap-1">
+              <Upload size={14} /> Import
+            </CyberButton>
+            <CyberButton onClick={onExport} title="Save these settings to a file" className="px-2 py-2 text-xs flex items-center justify-center gap-1">
+              <Download size={14} /> Export
+            </CyberButton>
+            <CyberButton onClick={onReset} variant="danger" title="Restore factory defaults" className="px-2 py-2 text-xs flex items-center justify-center gap-1">
+              <RotateCcw size={14} /> Reset
+            </CyberButton>
+            <CyberButton onClick={onClose} title="Close (Esc)" className="px-2 py-2 text-xs flex items-center justify-center gap-1">
+              <X size={14} /> Close
+            </CyberButton>
+          </div>
+        </CyberPanel>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart3, Download, Flame, Trash2, X } from 'lucide-react';
+import { CyberPanel, CyberButton } from './CyberUI';
+import { DeathCause } from '../engine/snakeEngine';
+import { formatDuration } from '../services/leaderboardService';
+import {
+  RunRecord,
+  summarizeRuns,
+  packetsPerMinute,
+  turnsPerSecond,
+  nearWallShare
+} from '../services/statsService';
+import { cssColor } from '../services/themeService';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+
+interface StatsDashboardProps {
+  runs: RunRecord[];
+  heatmapOn: boolean;
+  onToggleHeatmap: () => void;
+  onExport: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Runs shown in the history charts, newest on the right
+const CHART_RUNS = 40;
+const RECENT_RUNS = 8;
+
+const CAUSES: { cause: DeathCause; label: string }[] = [
+  { cause: 'wall', label: 'FIREWALL' },
+  { cause: 'self', label: 'FEEDBACK LOOP' },
+  { cause: 'watchdog', label: 'WATCHDOG' }
+];
+
+const Tile: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="border border-cyber-neonBlue/20 px-2 py-1">
+    <p className="text-[10px] text-cyber-neonBlue/50 tracking-widest">{label}</p>
+    <p className="font-display text-lg text-cyber-neonYellow">{value}</p>
+  </div>
+);
+
+interface HistoryChartProps {
+  label: string;
+  values: number[];
+  format: (value: number) => string;
+  color: string;
+}
+
+// One bar per run, scaled to the best run in view
+const HistoryChart: React.FC<HistoryChartProps> = ({ label, values, format, color }) => {
+  const max = Math.max(0, ...values);
+  return (
+    <div>
+      <div className="flex justify-between text-[10px] tracking-widest">
+        <span className="text-cyber-neonBlue/50">{label}</span>
+        <span className="text-cyber-neonBlue/70">
+          LAST {values.length ? format(values[values.length - 1]) : '-'} // BEST {format(max)}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${CHART_RUNS} 20`} preserveAspectRatio="none" className="w-full h-10 border-b border-cyber-neonBlue/20">
+        {values.map((value, i) => {
+          const height = max > 0 ? (value / max) * 20 : 0;
+          return (
+            <rect key={i} x={CHART_RUNS - values.length + i + 0.15} y={20 - height} width={0.7} height={height} style={{ fill: color }}>
+              <title>{format(value)}</title>
+            </rect>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+// How runs go, across sessions. Assisted runs are left out unless asked for.
+export const StatsDashboard: React.FC<StatsDashboardProps> = ({ runs, heatmapOn, onToggleHeatmap, onExport, onClear, onClose }) => {
+  const dialogRef = useDialogFocus<HTMLDivElement>();
+  const [includeAssisted, setIncludeAssisted] = useState(false);
+  const shown = useMemo(() => includeAssisted ? runs : runs.filter(run => !run.assisted), [runs, includeAssisted]);
+  const summary = useMemo(() => summarizeRuns(shown), [shown]);
+  const charted = shown.slice(-CHART_RUNS);
+  const deathTotal = shown.length || 1;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-cyber-black/80 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Run telemetry"
+        tabIndex={-1}
+        className="w-full max-w-2xl font-mono outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CyberPanel title="Run Telemetry" icon={<BarChart3 size={16} className="mr-2 text-cyber-neonBlue" />} glowing>
+          <div tabIndex={0} className="max-h-[70vh] overflow-y-auto pr-1 space-y-4 text-xs">
+            <div className="flex justify-between items-center">
+              <span className="text-cyber-neonBlue/50">{shown.length} runs on file</span>
+              <button
+                onClick={() => setIncludeAssisted(!includeAssisted)}
+                title="Autopilot and hand-clocked runs"
+                className={`px-2 py-0.5 border tracking-widest ${
+                  includeAssisted ? 'border-cyber-neonPink text-cyber-neonPink bg-cyber-neonPink/10' : 'border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonBlue'
+                }`}
+              >
+                ASSISTED RUNS: {includeAssisted ? 'SHOWN' : 'HIDDEN'}
+              </button>
+            </div>
+
+            {shown.length === 0 ? (
+              <div className="text-cyber-neonBlue/30 italic text-center py-8">No runs recorded yet. Finish a solo run to start collecting telemetry.</div>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  <Tile label="PLAY TIME" value={formatDuration(summary.totalMs)} />
+                  <Tile label="BEST SCORE" value={summary.bestScore.toString()} />
+                  <Tile label="MAX LENGTH" value={summary.bestLength.toString()} />
+                  <Tile label="PACKETS / MIN" value={summary.packetsPerMinute.toFixed(1)} />
+                  <Tile label="TURNS / SEC" value={summary.turnsPerSecond.toFixed(2)} />
+                  <Tile label="NEAR FIREWALL" value={`${Math.round(summary.nearWallShare * 100)}%`} />
+                </div>
+
+                <div className="space-y-2">
+                  <HistoryChart label="SCORE" values={charted.map(run => run.score)} format={v => v.toString()} color={cssColor('blue')} />
+                  <HistoryChart label="PACKETS / MIN" values={charted.map(packetsPerMinute)} format={v => v.toFixed(1)} color={cssColor('green')} />
+                  <HistoryChart label="TURNS / SEC" values={charted.map(turnsPerSecond)} format={v => v.toFixed(2)} color={cssColor('yellow')} />
+                  <HistoryChart label="NEAR FIREWALL %" values={charted.map(run => nearWallShare(run) * 100)} format={v => v.toFixed(0)} color={cssColor('pink')} />
+                </div>
+
+                <div>
+                  <h4 className="mb-1 text-cyber-neonPink tracking-widest">CAUSE OF DEATH</h4>
+                  {CAUSES.map(({ cause, label }) => (
+                    <div key={cause} className="flex items-center gap-2">
+                      <span className="w-28 text-cyber-neonBlue/70">{label}</span>
+                      <div className="flex-1 h-2 bg-cyber-neonBlue/10">
+                        <div className="h-full bg-cyber-neonPink" style={{ width: `${(summary.deaths[cause] / deathTotal) * 100}%` }} />
+                      </div>
+                      <span className="w-8 text-right text-cyber-text">{summary.deaths[cause]}</span>
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2">
+                    <span className="w-28 text-cyber-neonBlue/70">SURVIVED</span>
+                    <div className="flex-1 h-2 bg-cyber-neonBlue/10">
+                      <div className="h-full bg-cyber-neonGreen" style={{ width: `${(summary.survived / deathTotal) * 100}%` }} />
+                    </div>
+                    <span className="w-8 text-right text-cyber-text">{summary.survived}</span>
+                  </div>
+                </div>
+
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-cyber-neonBlue/50 border-b border-cyber-grid">
+                      <th className="text-left font-normal pb-1">WHEN</th>
+                      <th className="text-left font-normal pb-1">SECTOR</th>
+                      <th className="text-right font-normal pb-1">PTS</th>
+                      <th className="text-right font-normal pb-1">TIME</th>
+                      <th className="text-right font-normal pb-1">END</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shown.slice(-RECENT_RUNS).reverse().map(run => (
+                      <tr key={run.id} title={`seed ${run.seed}`} className="text-cyber-text">
+                        <td className="py-0.5">{new Date(run.date).toLocaleDateString()}</td>
+                        <td className="py-0.5 truncate max-w-[8rem]">{run.levelName}</td>
+                        <td className="py-0.5 text-right">{run.score}</td>
+                        <td className="py-0.5 text-right">{formatDuration(run.durationMs)}</td>
+                        <td className="py-0.5 text-right">
+                          {run.death ? `${CAUSES.find(c => c.cause === run.death!.cause)!.label} @${run.death.position.x}:${run.death.position.y}` : 'SURVIVED'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-4 gap-2 mt-4">
+            <CyberButton
+              onClick={onToggleHeatmap}
+              title="Mark where runs on the selected sector ended"
+              className={`px-2 py-2 text-xs flex items-center justify-center gap-1 ${heatmapOn ? 'bg-cyber-neonBlue text-cyber-black' : ''}`}
+            >
+              <Flame size={14} /> Heatmap
+            </CyberButton>
+            <CyberButton onClick={onExport} disabled={runs.length === 0} title="Download every run as CSV" className="px-2 py-2 text-xs flex items-center justify-center gap-1">
+              <Download size={14} /> CSV
+            </CyberButton>
+            <CyberButton onClick={onClear} disabled={runs.length === 0} variant="danger" title="Forget every recorded run" className="px-2 py-2 text-xs flex items-center justify-center gap-1">
+              <Trash2 size={14} /> Clear
+            </CyberButton>
+            <CyberButton onClick={onClose} title="Close (Esc)" className="px-2 py-2 text-xs flex items-center justify-center gap-1">
+              <X size={14} /> Close
+            </CyberButton>
+          </div>
+        </CyberPanel>
+      </div>
+    </div>
+  );
+};
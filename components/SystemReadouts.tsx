@@ -0,0 +1,73 @@
+import React from 'react';
+import { ActiveEffect, EFFECT_LABELS, MAX_INTEGRITY } from '../engine/powerups';
+import { ObjectiveProgress } from '../engine/objectives';
+
+interface IntegrityMeterProps {
+  integrity: number;
+  recovering: boolean;
+}
+
+export const IntegrityMeter: React.FC<IntegrityMeterProps> = ({ integrity, recovering }) => {
+  const ratio = integrity / MAX_INTEGRITY;
+  const color = ratio > 0.6 ? 'bg-cyber-neonGreen' : ratio > 0 ? 'bg-cyber-neonYellow' : 'bg-cyber-neonPink';
+
+  return (
+    <div className="flex items-center gap-2" title={`${integrity}/${MAX_INTEGRITY} hits absorbable`}>
+      <span className="text-[10px] text-cyber-neonBlue/50">{integrity}/{MAX_INTEGRITY}</span>
+      <div className="w-24 h-2 bg-cyber-dark border border-cyber-neonBlue/30 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${color} transition-all duration-300 ${recovering ? 'animate-pulse-fast' : ''}`}
+          style={{ width: `${ratio * 100}%` }}
+        ></div>
+      </div>
+    </div>
+  );
+};
+
+interface EffectTimersProps {
+  effects: ActiveEffect[];
+  tickInterval: number;
+}
+
+export const EffectTimers: React.FC<EffectTimersProps> = ({ effects, tickInterval }) => {
+  if (effects.length === 0) return null;
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-cyber-grid">
+      {effects.map(effect => (
+        <div key={effect.kind}>
+          <div className="flex justify-between text-xs">
+            <span className="text-cyber-neonYellow">{EFFECT_LABELS[effect.kind]}</span>
+            <span className="text-cyber-neonBlue/60">{((effect.remainingTicks * tickInterval) / 1000).toFixed(1)}s</span>
+          </div>
+          <div className="h-1 bg-cyber-dark overflow-hidden">
+            <div
+              className="h-full bg-cyber-neonYellow"
+              style={{ width: `${(effect.remainingTicks / effect.totalTicks) * 100}%` }}
+            ></div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface ObjectiveMeterProps {
+  label: string;
+  progress: ObjectiveProgress;
+}
+
+export const ObjectiveMeter: React.FC<ObjectiveMeterProps> = ({ label, progress }) => (
+  <div>
+    <div className="flex justify-between text-xs">
+      <span className={progress.done ? 'text-cyber-neonGreen' : 'text-cyber-neonYellow'}>{label.toUpperCase()}</span>
+      <span className="text-cyber-neonBlue/60">{progress.value}/{progress.target}</span>
+    </div>
+    <div className="h-1 bg-cyber-dark overflow-hidden">
+      <div
+        className={`h-full ${progress.done ? 'bg-cyber-neonGreen' : 'bg-cyber-neonYellow'} transition-all duration-300`}
+        style={{ width: `${(progress.value / progress.target) * 100}%` }}
+      ></div>
+    </div>
+  </div>
+);
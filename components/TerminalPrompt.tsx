@@ -0,0 +1,93 @@
+import React, { useRef, useState } from 'react';
+import { Completion } from '../services/terminalService';
+
+interface TerminalPromptProps {
+  onSubmit: (line: string) => void;
+  onComplete: (line: string) => Completion;
+  onOptions: (options: string[]) => void; // Ambiguous Tab: show what the word could become
+}
+
+const HISTORY_SIZE = 50;
+
+// The ➜ prompt under the logs. Enter runs, Tab completes, Up/Down walk the history.
+// Tab only stays in the prompt while it has something to complete.
+export const TerminalPrompt: React.FC<TerminalPromptProps> = ({ onSubmit, onComplete, onOptions }) => {
+  const [line, setLine] = useState('');
+  const historyRef = useRef<string[]>([]);
+  // Position while browsing history; equal to its length when editing a new line
+  const cursorRef = useRef(0);
+  const draftRef = useRef('');
+  // Line whose candidates were last listed, so a second Tab on it leaves the prompt
+  const listedRef = useRef<string | null>(null);
+
+  const recall = (index: number) => {
+    const history = historyRef.current;
+    if (index < 0 || index > history.length) return;
+    if (cursorRef.current === history.length) draftRef.current = line;
+    cursorRef.current = index;
+    setLine(index === history.length ? draftRef.current : history[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'Enter': {
+        e.preventDefault();
+        const trimmed = line.trim();
+        if (!trimmed) return;
+        const history = historyRef.current;
+        if (history[history.length - 1] !== trimmed) history.push(trimmed);
+        if (history.length > HISTORY_SIZE) history.shift();
+        cursorRef.current = history.length;
+        draftRef.current = '';
+        setLine('');
+        onSubmit(trimmed);
+        break;
+      }
+      case 'Tab': {
+        if (e.shiftKey || !line.trim()) break;
+        const { line: completed, options } = onComplete(line);
+        // With nothing new to offer, Tab moves focus on as usual
+        const listed = options.length > 1 && listedRef.current !== line;
+        if (completed === line && !listed) break;
+        e.preventDefault();
+        setLine(completed);
+        if (listed) {
+          listedRef.current = completed;
+          onOptions(options);
+        }
+        break;
+      }
+      case 'ArrowUp':
+        e.preventDefault();
+        recall(cursorRef.current - 1);
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        recall(cursorRef.current + 1);
+        break;
+      case 'Escape':
+        setLine('');
+        e.currentTarget.blur();
+        break;
+    }
+  };
+
+  return (
+    <label className="flex items-center cursor-text">
+      <span className="text-cyber-neonGreen mr-2 animate-pulse">➜</span>
+      <input
+        value={line}
+        onChange={(e) => {
+          setLine(e.target.value);
+          cursorRef.current = historyRef.current.length;
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="type 'help'"
+        spellCheck={false}
+        autoComplete="off"
+        aria-label="Terminal command"
+        className="flex-1 bg-transparent text-cyber-neonGreen caret-cyber-neonGreen placeholder:text-cyber-neonGreen/30 outline-none"
+      />
+    </label>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useRef } from 'react';
+import { ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Power } from 'lucide-react';
+import { Direction } from '../types';
+import { InputCommand, swipeDirection } from '../services/inputService';
+
+interface SwipeAreaProps {
+  children: React.ReactNode;
+  enabled: boolean;
+  onCommand: (command: InputCommand) => void;
+}
+
+// Swipes anywhere on the board steer; a tap confirms (start, halt, resume)
+export const SwipeArea: React.FC<SwipeAreaProps> = ({ children, enabled, onCommand }) => {
+  const startRef = useRef<{ x: number; y: number; id: number; swiped: boolean } | null>(null);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!enabled || e.pointerType === 'mouse') return;
+    startRef.current = { x: e.clientX, y: e.clientY, id: e.pointerId, swiped: false };
+  };
+
+  // Steer as soon as the drag is long enough, so a long swipe doesn't wait for the finger to lift
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = startRef.current;
+    if (!start || start.id !== e.pointerId) return;
+    const direction = swipeDirection(e.clientX - start.x, e.clientY - start.y);
+    if (direction === null) return;
+    onCommand({ type: 'turn', direction, player: 0 });
+    startRef.current = { x: e.clientX, y: e.clientY, id: e.pointerId, swiped: true };
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const start = startRef.current;
+    if (!start || start.id !== e.pointerId) return;
+    startRef.current = null;
+    if (!start.swiped && e.type === 'pointerup' && swipeDirection(e.clientX - start.x, e.clientY - start.y) === null) {
+      onCommand({ type: 'confirm' });
+    }
+  };
+
+  return (
+    <div
+      className={enabled ? 'touch-none' : ''}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {children}
+    </div>
+  );
+};
+
+interface DPadProps {
+  onCommand: (command: InputCommand) => void;
+}
+
+const padButton = 'flex items-center justify-center w-14 h-14 border border-cyber-neonBlue/60 bg-cyber-black/70 text-cyber-neonBlue active:bg-cyber-neonBlue active:text-cyber-black select-none touch-none';
+
+// On-screen pad for touch devices. Fires on press rather than release to keep turns tight.
+export const DPad: React.FC<DPadProps> = ({ onCommand }) => {
+  const turn = (direction: Direction) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    onCommand({ type: 'turn', direction, player: 0 });
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-1 w-max mx-auto">
+      <div />
+      <button className={padButton} onPointerDown={turn(Direction.UP)} aria-label="Up"><ChevronUp size={28} /></button>
+      <div />
+      <button className={padButton} onPointerDown={turn(Direction.LEFT)} aria-label="Left"><ChevronLeft size={28} /></button>
+      <button
+        className={`${padButton} text-cyber-neonPink border-cyber-neonPink/60`}
+        onPointerDown={(e) => {
+          e.preventDefault();
+          onCommand({ type: 'confirm' });
+        }}
+        aria-label="Start or halt"
+      >
+        <Power size={22} />
+      </button>
+      <button className={padButton} onPointerDown={turn(Direction.RIGHT)} aria-label="Right"><ChevronRight size={28} /></button>
+      <div />
+      <button className={padButton} onPointerDown={turn(Direction.DOWN)} aria-label="Down"><ChevronDown size={28} /></button>
+      <div />
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { AccessibilitySettings, MotionMode, THEMES, THEME_IDS, ThemeToken } from '../../services/themeService';
+
+interface AccessibilitySectionProps {
+  settings: AccessibilitySettings;
+  onChange: (settings: AccessibilitySettings) => void;
+}
+
+const MOTION_MODES: { mode: MotionMode; label: string }[] = [
+  { mode: 'auto', label: 'Auto (system setting)' },
+  { mode: 'on', label: 'Always' },
+  { mode: 'off', label: 'Never' }
+];
+
+// Colours shown in each theme's swatch
+const SWATCH: ThemeToken[] = ['blue', 'pink', 'green', 'yellow', 'red'];
+
+// Palette, motion and screen reader options; all apply immediately
+export const AccessibilitySection: React.FC<AccessibilitySectionProps> = ({ settings, onChange }) => (
+  <div className="space-y-2 text-xs">
+    <div role="radiogroup" aria-label="Colour theme" className="space-y-1">
+      {THEME_IDS.map(id => {
+        const theme = THEMES[id];
+        const selected = settings.theme === id;
+        return (
+          <button
+            key={id}
+            role="radio"
+            aria-checked={selected}
+            onClick={() => onChange({ ...settings, theme: id })}
+            className={`w-full flex items-center gap-2 px-2 py-1 border text-left ${
+              selected ? 'border-cyber-neonPink bg-cyber-neonPink/10' : 'border-cyber-neonBlue/30 hover:border-cyber-neonBlue'
+            }`}
+          >
+            <span className="flex gap-px shrink-0" aria-hidden="true">
+              {SWATCH.map(token => (
+                <span key={token} className="w-3 h-3" style={{ background: theme.palette[token] }} />
+              ))}
+            </span>
+            <span className="flex-1">
+              <span className={`block tracking-widest uppercase ${selected ? 'text-cyber-neonPink' : 'text-cyber-neonBlue'}`}>{theme.label}</span>
+              <span className="block text-cyber-muted">{theme.description}</span>
+            </span>
+          </button>
+        );
+      })}
+    </div>
+
+    <label className="flex items-center gap-2 text-cyber-neonBlue/70">
+      <span className="w-28">REDUCE MOTION</span>
+      <select
+        value={settings.reduceMotion}
+        onChange={(e) => onChange({ ...settings, reduceMotion: e.target.value as MotionMode })}
+        title="Stops the scanline sweep, pulsing text and packet throb"
+        className="flex-1 bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-xs text-cyber-neonBlue tracking-widest uppercase outline-none focus:border-cyber-neonPink"
+      >
+        {MOTION_MODES.map(({ mode, label }) => (
+          <option key={mode} value={mode}>{label}</option>
+        ))}
+      </select>
+    </label>
+
+    <button
+      onClick={() => onChange({ ...settings, announceScore: !settings.announceScore })}
+      title="Screen readers always hear status changes; this adds the score as it climbs"
+      aria-pressed={settings.announceScore}
+      className={`w-full px-2 py-1 border tracking-widest ${
+        settings.announceScore ? 'border-cyber-neonGreen text-cyber-neonGreen bg-cyber-neonGreen/10' : 'border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonBlue'
+      }`}
+    >
+      ANNOUNCE SCORE: {settings.announceScore ? 'ON' : 'OFF'}
+    </button>
+  </div>
+);
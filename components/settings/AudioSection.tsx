@@ -0,0 +1,44 @@
+import React from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { AudioSettings } from '../../services/soundService';
+
+interface AudioSectionProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+}
+
+const CHANNELS: { key: 'master' | 'music' | 'sfx'; label: string }[] = [
+  { key: 'master', label: 'MASTER' },
+  { key: 'music', label: 'MUSIC' },
+  { key: 'sfx', label: 'SFX' }
+];
+
+export const AudioSection: React.FC<AudioSectionProps> = ({ settings, onChange }) => (
+  <div className="space-y-2 text-xs">
+    {CHANNELS.map(({ key, label }) => (
+      <label key={key} className="flex items-center gap-2 text-cyber-neonBlue/70">
+        <span className="w-14">{label}</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings[key]}
+          disabled={settings.muted}
+          onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) })}
+          className="flex-1 accent-cyber-neonPink disabled:opacity-40"
+        />
+        <span className="w-8 text-right text-cyber-neonBlue">{Math.round(settings[key] * 100)}</span>
+      </label>
+    ))}
+    <button
+      onClick={() => onChange({ ...settings, muted: !settings.muted })}
+      title="Mute (M)"
+      className={`w-full flex items-center justify-center gap-2 px-2 py-1 border tracking-widest ${
+        settings.muted ? 'border-cyber-neonPink text-cyber-neonPink bg-cyber-neonPink/10' : 'border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonBlue'
+      }`}
+    >
+      {settings.muted ? <VolumeX size={14} /> : <Volume2 size={14} />} {settings.muted ? 'MUTED' : 'SOUND ON'}
+    </button>
+  </div>
+);
@@ -0,0 +1,51 @@
+import React from 'react';
+import { BoardSettings, MIN_BOARD_SIZE, MAX_BOARD_SIZE } from '../../engine/levels';
+import { DirectionName } from '../../engine/level';
+
+interface BoardSectionProps {
+  settings: BoardSettings;
+  onChange: (settings: BoardSettings) => void;
+}
+
+const SLIDERS: { key: 'width' | 'height' | 'spawnLength'; label: string; min: number; max: number }[] = [
+  { key: 'width', label: 'WIDTH', min: MIN_BOARD_SIZE, max: MAX_BOARD_SIZE },
+  { key: 'height', label: 'HEIGHT', min: MIN_BOARD_SIZE, max: MAX_BOARD_SIZE },
+  { key: 'spawnLength', label: 'LENGTH', min: 1, max: 10 }
+];
+
+const DIRECTIONS: DirectionName[] = ['up', 'down', 'left', 'right'];
+
+// Grid size and starting snake for the open sectors; map-based sectors keep their layout
+export const BoardSection: React.FC<BoardSectionProps> = ({ settings, onChange }) => (
+  <div className="space-y-2 text-xs">
+    {SLIDERS.map(({ key, label, min, max }) => (
+      <label key={key} className="flex items-center gap-2 text-cyber-neonBlue/70">
+        <span className="w-14">{label}</span>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={1}
+          value={settings[key]}
+          onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) })}
+          className="flex-1 accent-cyber-neonPink"
+        />
+        <span className="w-8 text-right text-cyber-neonBlue">{settings[key]}</span>
+      </label>
+    ))}
+    <label className="flex items-center gap-2 text-cyber-neonBlue/70">
+      <span className="w-14">HEADING</span>
+      <select
+        value={settings.spawnDirection}
+        onChange={(e) => onChange({ ...settings, spawnDirection: e.target.value as DirectionName })}
+        title="Starting direction"
+        className="flex-1 bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-xs text-cyber-neonBlue tracking-widest uppercase outline-none focus:border-cyber-neonPink"
+      >
+        {DIRECTIONS.map(direction => (
+          <option key={direction} value={direction}>{direction}</option>
+        ))}
+      </select>
+    </label>
+    <p className="text-cyber-neonBlue/50">Applies to Open Grid and Wraparound Void. Online matches use the stock sectors.</p>
+  </div>
+);
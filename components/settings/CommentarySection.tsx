@@ -0,0 +1,87 @@
+import React from 'react';
+import {
+  CommentarySettings,
+  CommentaryProviderId,
+  PROVIDER_IDS,
+  PROVIDER_LABELS
+} from '../../services/commentaryService';
+
+interface CommentarySectionProps {
+  settings: CommentarySettings;
+  onChange: (settings: CommentarySettings) => void;
+}
+
+const fieldClass = 'w-full bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-xs text-cyber-neonBlue tracking-widest outline-none focus:border-cyber-neonPink';
+
+// Switches NEXUS on or off and picks the backend it speaks through
+export const CommentarySection: React.FC<CommentarySectionProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<CommentarySettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="space-y-2 text-xs">
+      <button
+        onClick={() => update({ enabled: !settings.enabled })}
+        title="Live commentary and incident reports in the neural logs"
+        className={`w-full px-2 py-1 border tracking-widest ${
+          settings.enabled ? 'border-cyber-neonGreen text-cyber-neonGreen bg-cyber-neonGreen/10' : 'border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonBlue'
+        }`}
+      >
+        COMMENTARY: {settings.enabled ? 'ON' : 'OFF'}
+      </button>
+      {settings.enabled && (
+      <>
+        <select
+          value={settings.provider}
+          onChange={(e) => update({ provider: e.target.value as CommentaryProviderId })}
+          title="Commentary provider"
+          className={`${fieldClass} uppercase`}
+        >
+          {PROVIDER_IDS.map(id => (
+            <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+          ))}
+        </select>
+        {settings.provider === 'openai' && (
+          <>
+            <input
+              value={settings.endpointUrl}
+              onChange={(e) => update({ endpointUrl: e.target.value })}
+              placeholder="http://localhost:8080/v1"
+              title="Endpoint base URL"
+              className={fieldClass}
+            />
+            <input
+              value={settings.endpointModel}
+              onChange={(e) => update({ endpointModel: e.target.value })}
+              placeholder="MODEL"
+              title="Model name"
+              className={fieldClass}
+            />
+            <input
+              type="password"
+              value={settings.endpointKey}
+              onChange={(e) => update({ endpointKey: e.target.value })}
+              placeholder="API KEY (OPTIONAL)"
+              title="Bearer token, if the endpoint needs one"
+              className={fieldClass}
+            />
+          </>
+        )}
+        {(settings.provider === 'gemini' || settings.provider === 'openai') && (
+          <label className="flex justify-between items-center text-cyber-neonBlue/70">
+            TIMEOUT
+            <select
+              value={settings.timeoutMs}
+              onChange={(e) => update({ timeoutMs: Number(e.target.value) })}
+              className="bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-cyber-neonBlue outline-none focus:border-cyber-neonPink"
+            >
+              {[2000, 4000, 8000, 15000].map(ms => (
+                <option key={ms} value={ms}>{ms / 1000}s</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { ControlSettings } from '../../services/settingsService';
+import {
+  InputAction,
+  INPUT_ACTIONS,
+  DEFAULT_KEY_BINDINGS,
+  RESERVED_KEYS,
+  TouchControlsMode,
+  describeKey,
+  rebindKey
+} from '../../services/inputService';
+
+interface ControlsSectionProps {
+  settings: ControlSettings;
+  onChange: (settings: ControlSettings) => void;
+}
+
+const TOUCH_MODES: { mode: TouchControlsMode; label: string }[] = [
+  { mode: 'auto', label: 'Auto (touch screens)' },
+  { mode: 'on', label: 'Always' },
+  { mode: 'off', label: 'Never' }
+];
+
+export const ControlsSection: React.FC<ControlsSectionProps> = ({ settings, onChange }) => {
+  // The action waiting for its new key, if any
+  const [listening, setListening] = useState<InputAction | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+    const capture = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      // Escape cancels instead of binding (and keeps the settings screen open)
+      if (!RESERVED_KEYS.includes(e.key)) {
+        onChange({ ...settings, bindings: rebindKey(settings.bindings, listening, e.key) });
+      }
+      setListening(null);
+    };
+    window.addEventListener('keydown', capture, { capture: true });
+    return () => window.removeEventListener('keydown', capture, { capture: true });
+  }, [listening, settings, onChange]);
+
+  return (
+    <div className="space-y-2 text-xs">
+      <button
+        onClick={() => onChange({ ...settings, pauseOnBlur: !settings.pauseOnBlur })}
+        title="Freeze solo runs when the tab is hidden or the window is minimised"
+        className={`w-full px-2 py-1 border tracking-widest ${
+          settings.pauseOnBlur ? 'border-cyber-neonGreen text-cyber-neonGreen bg-cyber-neonGreen/10' : 'border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonBlue'
+        }`}
+      >
+        PAUSE ON FOCUS LOSS: {settings.pauseOnBlur ? 'ON' : 'OFF'}
+      </button>
+
+      <label className="flex items-center gap-2 text-cyber-neonBlue/70">
+        <span className="w-20">TOUCH PAD</span>
+        <select
+          value={settings.touchControls}
+          onChange={(e) => onChange({ ...settings, touchControls: e.target.value as TouchControlsMode })}
+          title="On-screen D-pad and swipe steering"
+          className="flex-1 bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-xs text-cyber-neonBlue tracking-widest uppercase outline-none focus:border-cyber-neonPink"
+        >
+          {TOUCH_MODES.map(({ mode, label }) => (
+            <option key={mode} value={mode}>{label}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="border border-cyber-neonBlue/20">
+        {INPUT_ACTIONS.map(({ action, label }) => (
+          <div key={action} className="flex justify-between items-center px-2 py-1 border-b border-cyber-neonBlue/10 last:border-b-0">
+            <span className="text-cyber-neonBlue/70">{label}</span>
+            <button
+              onClick={() => setListening(listening === action ? null : action)}
+              title="Click, then press the new key (Esc cancels)"
+              className={`min-w-[6rem] px-2 py-0.5 border tracking-widest ${
+                listening === action
+                  ? 'border-cyber-neonPink text-cyber-neonPink animate-pulse'
+                  : 'border-cyber-neonBlue/50 text-cyber-neonYellow hover:border-cyber-neonPink'
+              }`}
+            >
+              {listening === action
+                ? 'PRESS KEY'
+                : settings.bindings[action].length > 0 ? settings.bindings[action].map(describeKey).join(' / ') : 'UNBOUND'}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center text-cyber-neonBlue/50">
+        <span>Gamepads: D-pad or left stick steers, A / Start confirms. Pad 2 steers player 2.</span>
+        <button
+          onClick={() => onChange({ ...settings, bindings: DEFAULT_KEY_BINDINGS })}
+          className="ml-2 px-2 py-0.5 border border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonPink hover:border-cyber-neonPink whitespace-nowrap"
+        >
+          DEFAULT KEYS
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { DifficultySettings } from '../../services/difficultyService';
+import {
+  AdaptiveState,
+  DifficultyPresetId,
+  DifficultyProfile,
+  DIFFICULTY_PRESETS,
+  DIFFICULTY_PRESET_IDS,
+  curveInterval
+} from '../../engine/difficulty';
+import { PacketKind, PACKET_SPECS } from '../../engine/powerups';
+import { PACKET_TOKENS, cssColor } from '../../services/themeService';
+
+interface DifficultySectionProps {
+  settings: DifficultySettings;
+  adaptive: AdaptiveState;
+  onChange: (settings: DifficultySettings) => void;
+}
+
+const fieldClass = 'w-full bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-xs text-cyber-neonBlue tracking-widest outline-none focus:border-cyber-neonPink';
+
+type NumericField = 'startIntegrity' | 'watchdogScoreStep' | 'maxWatchdogs' | 'watchdogMoveEvery';
+
+const SPEED_FIELDS: { key: keyof DifficultyProfile['speed']; label: string; step: number }[] = [
+  { key: 'baseInterval', label: 'BASE MS', step: 5 },
+  { key: 'msPerPoint', label: 'MS / PT', step: 0.5 },
+  { key: 'minInterval', label: 'FLOOR MS', step: 5 }
+];
+
+const HAZARD_FIELDS: { key: NumericField; label: string }[] = [
+  { key: 'startIntegrity', label: 'INTEGRITY' },
+  { key: 'watchdogScoreStep', label: 'DOG EVERY' },
+  { key: 'maxWatchdogs', label: 'MAX DOGS' },
+  { key: 'watchdogMoveEvery', label: 'DOG PACE' }
+];
+
+const PREVIEW_SCORES = [0, 25, 50];
+
+// Preset picker plus the custom curve editor; changes apply from the next run
+export const DifficultySection: React.FC<DifficultySectionProps> = ({ settings, adaptive, onChange }) => {
+  const profile = settings.preset === 'custom' ? settings.custom : DIFFICULTY_PRESETS[settings.preset];
+  const updateCustom = (patch: Partial<DifficultyProfile>) =>
+    onChange({ ...settings, custom: { ...settings.custom, ...patch } });
+
+  const selectPreset = (preset: DifficultySettings['preset']) => {
+    // Custom starts from whatever was selected before
+    if (preset === 'custom' && settings.preset !== 'custom') {
+      onChange({ ...settings, preset, custom: { ...profile, label: 'Custom' } });
+    } else {
+      onChange({ ...settings, preset });
+    }
+  };
+
+  const numberInput = (value: number, step: number, onValue: (value: number) => void, title: string) => (
+    <input
+      type="number"
+      value={value}
+      step={step}
+      title={title}
+      onChange={(e) => {
+        const next = Number(e.target.value);
+        if (e.target.value !== '' && Number.isFinite(next)) onValue(next);
+      }}
+      className={fieldClass}
+    />
+  );
+
+  return (
+    <div className="space-y-2 text-xs">
+        <select
+          value={settings.preset}
+          onChange={(e) => selectPreset(e.target.value as DifficultyPresetId | 'custom')}
+          title="Difficulty preset"
+          className={`${fieldClass} uppercase`}
+        >
+          {DIFFICULTY_PRESET_IDS.map(id => (
+            <option key={id} value={id}>{DIFFICULTY_PRESETS[id].label}</option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+
+        {settings.preset === 'custom' && (
+          <>
+            <div className="grid grid-cols-3 gap-1">
+              {SPEED_FIELDS.map(({ key, label, step }) => (
+                <label key={key} className="text-cyber-neonBlue/70">
+                  {label}
+                  {numberInput(settings.custom.speed[key], step, value => updateCustom({ speed: { ...settings.custom.speed, [key]: value } }), label)}
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-4 gap-1">
+              {HAZARD_FIELDS.map(({ key, label }) => (
+                <label key={key} className="text-cyber-neonBlue/70 text-[10px]">
+                  {label}
+                  {numberInput(settings.custom[key], 1, value => updateCustom({ [key]: value }), label)}
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-1">
+              {(Object.keys(PACKET_SPECS) as PacketKind[]).map(kind => (
+                <label key={kind} className="text-[10px]" style={{ color: cssColor(PACKET_TOKENS[kind]) }}>
+                  {PACKET_SPECS[kind].label.toUpperCase()}
+                  {numberInput(settings.custom.packetWeights[kind], 1, value => updateCustom({ packetWeights: { ...settings.custom.packetWeights, [kind]: value } }), `${PACKET_SPECS[kind].label} spawn weight`)}
+                </label>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-between text-cyber-neonBlue/50">
+          {PREVIEW_SCORES.map(score => (
+            <span key={score}>@{score}: {Math.round(curveInterval(profile.speed, score))}ms</span>
+          ))}
+        </div>
+
+        <button
+          onClick={() => onChange({ ...settings, adaptive: !settings.adaptive })}
+          title="Ease off after repeated early deaths, ramp up after strong runs"
+          className={`w-full px-2 py-1 border tracking-widest ${
+            settings.adaptive ? 'border-cyber-neonGreen text-cyber-neonGreen bg-cyber-neonGreen/10' : 'border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonBlue'
+          }`}
+        >
+          ADAPTIVE: {settings.adaptive ? `ON (${adaptive.rating > 0 ? '+' : ''}${Math.round(adaptive.rating * 100)}%)` : 'OFF'}
+        </button>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import {
+  DisplaySettings,
+  RendererId,
+  RENDERER_IDS,
+  RENDERER_LABELS,
+  MIN_CELL_SIZE,
+  MAX_CELL_SIZE
+} from '../../services/rendererService';
+
+interface DisplaySectionProps {
+  settings: DisplaySettings;
+  onChange: (settings: DisplaySettings) => void;
+}
+
+const TOGGLES: { key: 'smoothMotion' | 'scanlines'; label: string; title: string }[] = [
+  { key: 'smoothMotion', label: 'SMOOTH MOTION', title: 'Glide between cells instead of snapping once per tick' },
+  { key: 'scanlines', label: 'SCANLINES', title: 'CRT scanline and vignette overlay' }
+];
+
+// Render pipeline and board scale; switching takes effect on the next frame
+export const DisplaySection: React.FC<DisplaySectionProps> = ({ settings, onChange }) => (
+  <div className="space-y-2 text-xs">
+    <select
+      value={settings.renderer}
+      onChange={(e) => onChange({ ...settings, renderer: e.target.value as RendererId })}
+      title="Renderer"
+      className="w-full bg-cyber-black border border-cyber-neonBlue/50 px-2 py-1 text-xs text-cyber-neonBlue tracking-widest uppercase outline-none focus:border-cyber-neonPink"
+    >
+      {RENDERER_IDS.map(id => (
+        <option key={id} value={id}>{RENDERER_LABELS[id]}</option>
+      ))}
+    </select>
+    <label className="flex items-center gap-2 text-cyber-neonBlue/70">
+      <span className="w-14">CELL</span>
+      <input
+        type="range"
+        min={MIN_CELL_SIZE}
+        max={MAX_CELL_SIZE}
+        step={1}
+        value={settings.cellSize}
+        onChange={(e) => onChange({ ...settings, cellSize: Number(e.target.value) })}
+        className="flex-1 accent-cyber-neonPink"
+      />
+      <span className="w-8 text-right text-cyber-neonBlue">{settings.cellSize}px</span>
+    </label>
+    <div className="grid grid-cols-2 gap-2">
+      {TOGGLES.map(({ key, label, title }) => (
+        <button
+          key={key}
+          onClick={() => onChange({ ...settings, [key]: !settings[key] })}
+          title={title}
+          className={`px-2 py-1 border tracking-widest ${
+            settings[key] ? 'border-cyber-neonGreen text-cyber-neonGreen bg-cyber-neonGreen/10' : 'border-cyber-neonBlue/50 text-cyber-neonBlue/70 hover:text-cyber-neonBlue'
+          }`}
+        >
+          {label}: {settings[key] ? 'ON' : 'OFF'}
+        </button>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Coordinate, Direction } from '../types';
+import { ArenaState, createArena, createMatch, nextRound, recordRound, stepArena } from './arenaEngine';
+import { compileLevel } from './level';
+
+const OPEN = compileLevel({ id: 'open', name: 'Open', width: 12, height: 12 }).config;
+
+// Two runners with hand-placed bodies; the packet sits out of the way
+const duel = (a: Coordinate[], aDir: Direction, b: Coordinate[], bDir: Direction): ArenaState => {
+  const arena = createArena(1, OPEN, [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }]);
+  return {
+    ...arena,
+    food: { x: 11, y: 11, kind: 'data' },
+    players: [
+      { ...arena.players[0], snake: a, direction: aDir },
+      { ...arena.players[1], snake: b, direction: bDir }
+    ]
+  };
+};
+
+const deathsOf = (arena: ArenaState) =>
+  stepArena(arena, {}).events.filter(e => e.type === 'death').map(e => e.type === 'death' && [e.playerId, e.cause, e.killerId]);
+
+describe('arena', () => {
+  it('kills both snakes when their heads meet in one cell', () => {
+    const arena = duel([{ x: 3, y: 5 }, { x: 2, y: 5 }], Direction.RIGHT, [{ x: 5, y: 5 }, { x: 6, y: 5 }], Direction.LEFT);
+    const { state, events } = stepArena(arena, {});
+    expect(deathsOf(arena)).toEqual([['a', 'head-on', 'b'], ['b', 'head-on', 'a']]);
+    expect(state.roundOver).toBe(true);
+    expect(events.at(-1)).toEqual({ type: 'round-over', winnerId: null });
+  });
+
+  it('treats two heads passing through each other as head-on', () => {
+    const arena = duel([{ x: 4, y: 5 }, { x: 3, y: 5 }], Direction.RIGHT, [{ x: 5, y: 5 }, { x: 6, y: 5 }], Direction.LEFT);
+    expect(deathsOf(arena)).toEqual([['a', 'head-on', 'b'], ['b', 'head-on', 'a']]);
+  });
+
+  it('kills a snake that runs into another body and credits the owner', () => {
+    const arena = duel(
+      [{ x: 4, y: 4 }, { x: 4, y: 3 }], Direction.DOWN,
+      [{ x: 6, y: 5 }, { x: 5, y: 5 }, { x: 4, y: 5 }, { x: 3, y: 5 }], Direction.RIGHT
+    );
+    const { state, events } = stepArena(arena, {});
+    expect(deathsOf(arena)).toEqual([['a', 'body', 'b']]);
+    expect(events.at(-1)).toEqual({ type: 'round-over', winnerId: 'b' });
+    expect(state.players[1].snake[0]).toEqual({ x: 7, y: 5 });
+  });
+
+  it('lets a snake follow a tail that is moving away', () => {
+    const arena = duel(
+      [{ x: 4, y: 4 }, { x: 4, y: 3 }], Direction.DOWN,
+      [{ x: 6, y: 4 }, { x: 6, y: 5 }, { x: 5, y: 5 }, { x: 4, y: 5 }], Direction.UP
+    );
+    expect(deathsOf(arena)).toEqual([]);
+  });
+
+  it('scores the snake that eats and hands out a new packet', () => {
+    const arena = { ...duel([{ x: 3, y: 5 }, { x: 2, y: 5 }], Direction.RIGHT, [{ x: 8, y: 8 }, { x: 8, y: 9 }], Direction.UP), food: { x: 4, y: 5, kind: 'data' as const } };
+    const { state, events } = stepArena(arena, {});
+    expect(events).toContainEqual({ type: 'consume', playerId: 'a', score: 1 });
+    expect(state.players[0].snake).toHaveLength(3);
+    expect(state.food).not.toBeNull();
+    expect(state.food).not.toEqual({ x: 4, y: 5, kind: 'data' });
+  });
+
+  it('ends the match at the round target', () => {
+    let match = createMatch(['a', 'b'], 2);
+    match = nextRound(recordRound(match, 'a'));
+    expect(match).toMatchObject({ round: 2, winnerId: null, wins: { a: 1, b: 0 } });
+    match = recordRound(match, null);
+    expect(match.winnerId).toBeNull();
+    expect(recordRound(match, 'a').winnerId).toBe('a');
+  });
+});
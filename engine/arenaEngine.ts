@@ -0,0 +1,246 @@
+import { Coordinate, Direction } from '../types';
+import { RngState, createRng } from './rng';
+import { EngineConfig, cellIndex, getBoardIndex, moveCoordinate, sameCell, wrapCoordinate } from './board';
+import { resolveDirection, spawnPacket } from './snakeEngine';
+import { DEFAULT_DIFFICULTY, curveInterval } from './difficulty';
+import { Packet } from './powerups';
+
+// Multi-snake arena rules (local versus and online matches).
+// Same determinism guarantees as the single-player engine: a seed plus the
+// per-tick inputs of every player reproduce the round exactly.
+// Arena rounds use plain data packets only; power-ups and watchdogs are single-player.
+
+export type ArenaDeathCause = 'wall' | 'self' | 'body' | 'head-on';
+
+export interface ArenaPlayer {
+  id: string;
+  name: string;
+  slot: number; // Spawn point and colour index
+  snake: Coordinate[];
+  direction: Direction;
+  score: number;
+  alive: boolean;
+  deathCause: ArenaDeathCause | null;
+}
+
+export interface ArenaState {
+  config: EngineConfig;
+  seed: number;
+  rngState: RngState;
+  tick: number;
+  players: ArenaPlayer[];
+  food: Packet | null;
+  roundOver: boolean;
+}
+
+export type ArenaInputs = Record<string, Direction | undefined>;
+
+export type ArenaEvent =
+  | { type: 'consume'; playerId: string; score: number }
+  | { type: 'death'; playerId: string; cause: ArenaDeathCause; position: Coordinate; killerId?: string }
+  | { type: 'round-over'; winnerId: string | null };
+
+export interface PlayerSpec {
+  id: string;
+  name: string;
+}
+
+export const MAX_ARENA_PLAYERS = 4;
+const SPAWN_LENGTH = 3;
+
+const BEHIND: Record<Direction, Direction> = {
+  [Direction.UP]: Direction.DOWN,
+  [Direction.DOWN]: Direction.UP,
+  [Direction.LEFT]: Direction.RIGHT,
+  [Direction.RIGHT]: Direction.LEFT
+};
+
+// Preferred spawn points as fractions of the board, facing away from each other
+const SPAWN_POINTS: { fx: number; fy: number; direction: Direction }[] = [
+  { fx: 0.25, fy: 0.5, direction: Direction.UP },
+  { fx: 0.75, fy: 0.5, direction: Direction.DOWN },
+  { fx: 0.5, fy: 0.25, direction: Direction.RIGHT },
+  { fx: 0.5, fy: 0.75, direction: Direction.LEFT }
+];
+
+const buildSnake = (head: Coordinate, direction: Direction): Coordinate[] => {
+  const snake = [head];
+  while (snake.length < SPAWN_LENGTH) snake.push(moveCoordinate(snake[snake.length - 1], BEHIND[direction]));
+  return snake;
+};
+
+// Finds a spawn for `slot`, walking outward from the preferred point until the
+// whole body fits on free floor (levels may have firewalls where we'd like to spawn).
+const findSpawn = (config: EngineConfig, slot: number, taken: Set<number>): ArenaPlayer['snake'] => {
+  const { walls, portalExits } = getBoardIndex(config);
+  const point = SPAWN_POINTS[slot % SPAWN_POINTS.length];
+  const origin = { x: Math.floor(config.width * point.fx), y: Math.floor(config.height * point.fy) };
+  const fits = (snake: Coordinate[]) => snake.every(c => {
+    if (c.x < 0 || c.y < 0 || c.x >= config.width || c.y >= config.height) return false;
+    const i = cellIndex(config, c);
+    return !walls.has(i) && !portalExits.has(i) && !taken.has(i);
+  });
+
+  for (let radius = 0; radius < Math.max(config.width, config.height); radius++) {
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) !== radius) continue;
+        const snake = buildSnake({ x: origin.x + dx, y: origin.y + dy }, point.direction);
+        if (fits(snake)) return snake;
+      }
+    }
+  }
+  throw new Error(`No room to spawn player ${slot + 1} on this level.`);
+};
+
+export const createArena = (seed: number, config: EngineConfig, specs: PlayerSpec[]): ArenaState => {
+  if (specs.length === 0 || specs.length > MAX_ARENA_PLAYERS) {
+    throw new Error(`Arena needs between 1 and ${MAX_ARENA_PLAYERS} players.`);
+  }
+  const taken = new Set<number>();
+  const players = specs.map((spec, slot): ArenaPlayer => {
+    const snake = findSpawn(config, slot, taken);
+    snake.forEach(c => taken.add(cellIndex(config, c)));
+    return {
+      id: spec.id,
+      name: spec.name,
+      slot,
+      snake,
+      direction: SPAWN_POINTS[slot % SPAWN_POINTS.length].direction,
+      score: 0,
+      alive: true,
+      deathCause: null
+    };
+  });
+  const [food, rngState] = spawnPacket(config, players.flatMap(p => p.snake), createRng(seed));
+  return { config, seed, rngState, tick: 0, players, food: food && { ...food, kind: 'data' }, roundOver: false };
+};
+
+export const stepArena = (state: ArenaState, inputs: ArenaInputs): { state: ArenaState; events: ArenaEvent[] } => {
+  if (state.roundOver) return { state, events: [] };
+
+  const { config } = state;
+  const board = getBoardIndex(config);
+  const events: ArenaEvent[] = [];
+
+  // 1. Everyone moves at once
+  const moves = state.players.map(player => {
+    if (!player.alive) return { player, direction: player.direction, stepped: null, head: null, grew: false };
+    const direction = resolveDirection(player.direction, inputs[player.id]);
+    const stepped = moveCoordinate(player.snake[0], direction);
+    let head: Coordinate | null = wrapCoordinate(config, stepped);
+    if (head) {
+      const exit = board.portalExits.get(cellIndex(config, head));
+      if (exit) head = exit;
+    }
+    const grew = !!head && !!state.food && sameCell(head, state.food);
+    return { player, direction, head, grew, stepped };
+  });
+
+  const deaths = new Map<string, { cause: ArenaDeathCause; position: Coordinate; killerId?: string }>();
+  const kill = (id: string, cause: ArenaDeathCause, position: Coordinate, killerId?: string) => {
+    if (!deaths.has(id)) deaths.set(id, { cause, position, killerId });
+  };
+
+  // Bodies after the move: the tail tip vacates unless that snake is eating
+  const bodies = moves.map(m => {
+    if (!m.player.alive || !m.head) return [];
+    return m.grew ? m.player.snake : m.player.snake.slice(0, -1);
+  });
+
+  moves.forEach((m, i) => {
+    if (!m.player.alive) return;
+    const id = m.player.id;
+
+    // Walls and lethal edges
+    if (!m.head || board.walls.has(cellIndex(config, m.head))) {
+      kill(id, 'wall', m.head ?? m.stepped!);
+      return;
+    }
+    const head = m.head;
+
+    moves.forEach((other, j) => {
+      if (i === j || !other.player.alive || !other.head) return;
+      // Head-on: both heads enter the same cell, or two snakes swap cells through each other
+      const swapped = sameCell(head, other.player.snake[0]) && sameCell(other.head, m.player.snake[0]);
+      if (sameCell(head, other.head) || swapped) kill(id, 'head-on', head, other.player.id);
+    });
+
+    if (bodies[i].some(c => sameCell(c, head))) kill(id, 'self', head);
+
+    bodies.forEach((body, j) => {
+      if (i === j) return;
+      // Another snake's body (its current head included, unless that was a swap handled above)
+      if (body.some(c => sameCell(c, head))) kill(id, 'body', head, moves[j].player.id);
+    });
+  });
+
+  // 2. Apply moves for survivors, derez the dead
+  let { food, rngState } = state;
+  let eaten = false;
+  const players = moves.map(m => {
+    const { player } = m;
+    if (!player.alive) return player;
+    const death = deaths.get(player.id);
+    if (death) {
+      events.push({ type: 'death', playerId: player.id, ...death });
+      return { ...player, direction: m.direction, alive: false, deathCause: death.cause, snake: [] };
+    }
+    const snake = [m.head!, ...player.snake];
+    let score = player.score;
+    if (m.grew) {
+      eaten = true;
+      score += 1;
+      events.push({ type: 'consume', playerId: player.id, score });
+    } else {
+      snake.pop();
+    }
+    return { ...player, direction: m.direction, snake, score };
+  });
+
+  if (eaten) {
+    const [packet, next] = spawnPacket(config, players.flatMap(p => p.snake), rngState);
+    food = packet && { ...packet, kind: 'data' };
+    rngState = next;
+  }
+
+  // 3. The round ends when at most one snake is left (or the only snake in a solo lobby died)
+  const alive = players.filter(p => p.alive);
+  const roundOver = players.length > 1 ? alive.length <= 1 : alive.length === 0;
+  if (roundOver) {
+    events.push({ type: 'round-over', winnerId: players.length > 1 && alive.length === 1 ? alive[0].id : null });
+  }
+
+  return { state: { ...state, tick: state.tick + 1, players, food, rngState, roundOver }, events };
+};
+
+// Match bookkeeping: first to `roundsToWin` round wins takes the match.
+
+export interface MatchState {
+  roundsToWin: number;
+  round: number;
+  wins: Record<string, number>;
+  lastRoundWinner: string | null;
+  winnerId: string | null;
+}
+
+export const createMatch = (playerIds: string[], roundsToWin = 3): MatchState => ({
+  roundsToWin,
+  round: 1,
+  wins: Object.fromEntries(playerIds.map(id => [id, 0])),
+  lastRoundWinner: null,
+  winnerId: null
+});
+
+export const recordRound = (match: MatchState, winnerId: string | null): MatchState => {
+  const wins = { ...match.wins };
+  if (winnerId) wins[winnerId] = (wins[winnerId] ?? 0) + 1;
+  const champion = Object.keys(wins).find(id => wins[id] >= match.roundsToWin) ?? null;
+  return { ...match, wins, lastRoundWinner: winnerId, winnerId: champion };
+};
+
+export const nextRound = (match: MatchState): MatchState => ({ ...match, round: match.round + 1, lastRoundWinner: null });
+
+// Arena speed follows the leading player's score on the default (Netrunner) curve
+export const arenaTickInterval = (state: ArenaState): number =>
+  Math.round(curveInterval(DEFAULT_DIFFICULTY.speed, Math.max(0, ...state.players.map(p => p.score))));
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from './snakeEngine';
+import { DEFAULT_DIFFICULTY } from './difficulty';
+import { playHeadless } from './benchmark';
+
+// A 10x10 open board with plain data packets and no watchdogs
+const config = { ...DEFAULT_CONFIG, width: 10, height: 10, initialSnake: [{ x: 4, y: 4 }, { x: 4, y: 5 }, { x: 4, y: 6 }] };
+const calm = {
+  ...DEFAULT_DIFFICULTY,
+  watchdogScoreStep: 0,
+  packetWeights: { data: 1, overclock: 0, slowmo: 0, ghost: 0, shrink: 0, shield: 0 }
+};
+
+describe('hamiltonian autopilot', () => {
+  it('fills the board, taking shortcuts along the cycle', () => {
+    [1, 2, 3].forEach(seed => {
+      const run = playHeadless(seed, 'hamiltonian', 20000, config, calm);
+      expect(run.outcome).toBe('board-full');
+      // Walking the plain cycle costs half a lap per packet, about 4800 ticks here
+      expect(run.ticks).toBeLessThan(2500);
+    });
+  });
+});
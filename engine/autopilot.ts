@@ -0,0 +1,206 @@
+import { Coordinate, Direction } from '../types';
+import { EngineConfig, cellIndex, moveCoordinate, sameCell } from './board';
+import { GameState, step, isOpposite } from './snakeEngine';
+import { DIRECTIONS, findPath, gridDistance, reachableArea, directionTowards } from './pathfinding';
+
+// Autopilot strategies. Each one maps a game state to the direction to request
+// this tick, so the same code drives the demo screen, the in-game autopilot
+// and the headless benchmark.
+
+export type AutopilotStrategy = 'greedy' | 'astar' | 'hamiltonian';
+
+export const STRATEGY_LABELS: Record<AutopilotStrategy, string> = {
+  greedy: 'Greedy',
+  astar: 'A* + Tail Chase',
+  hamiltonian: 'Hamiltonian + Shortcuts'
+};
+
+export const STRATEGIES = Object.keys(STRATEGY_LABELS) as AutopilotStrategy[];
+
+// A move is safe when the engine itself says it neither kills nor costs integrity.
+// Running the real step covers portals, wrap, growth and watchdog movement for free.
+const isSafeMove = (state: GameState, direction: Direction): boolean => {
+  if (isOpposite(state.direction, direction)) return false;
+  const { state: next, events } = step(state, { direction });
+  return next.alive && !events.some(e => e.type === 'integrity-hit' || e.type === 'blocked');
+};
+
+const safeDirections = (state: GameState): Direction[] => DIRECTIONS.filter(d => isSafeMove(state, d));
+
+// Cells the snake cannot path through: its body minus the tail tip (which moves away) and watchdogs.
+const obstacleSet = (config: EngineConfig, snake: Coordinate[], watchdogs: Coordinate[]): Set<number> =>
+  new Set([...snake.slice(0, -1), ...watchdogs].map(c => cellIndex(config, c)));
+
+// Among the safe moves, pick the one that leaves the most room to manoeuvre.
+const roomiestMove = (state: GameState, candidates: Direction[]): Direction => {
+  let best = candidates[0] ?? state.direction;
+  let bestArea = -1;
+  for (const direction of candidates) {
+    const next = step(state, { direction }).state;
+    const blocked = obstacleSet(next.config, next.snake, next.watchdogs.map(d => d.position));
+    const area = reachableArea(next.config, next.snake[0], cell => blocked.has(cell), next.snake.length * 2);
+    if (area > bestArea) {
+      bestArea = area;
+      best = direction;
+    }
+  }
+  return best;
+};
+
+const greedy = (state: GameState): Direction => {
+  const safe = safeDirections(state);
+  if (safe.length === 0 || !state.food) return safe[0] ?? state.direction;
+  const food = state.food;
+  return safe.reduce((best, direction) => {
+    const head = step(state, { direction }).state.snake[0];
+    const bestHead = step(state, { direction: best }).state.snake[0];
+    return gridDistance(state.config, head, food) < gridDistance(state.config, bestHead, food) ? direction : best;
+  });
+};
+
+// Plans a path to the food, then checks that after eating the snake could still
+// reach its own tail. If not (or there is no path), it chases its tail instead.
+const astar = (state: GameState): Direction => {
+  const { config, snake, food } = state;
+  const head = snake[0];
+  const dogs = state.watchdogs.map(d => d.position);
+  const safe = safeDirections(state);
+  if (safe.length === 0) return state.direction;
+
+  const blocked = obstacleSet(config, snake, dogs);
+  const isBlocked = (cell: number) => blocked.has(cell);
+
+  if (food) {
+    const path = findPath(config, head, food, isBlocked);
+    if (path && path.length > 0) {
+      // Where the snake would be right after eating along this path
+      const virtualSnake = [...path].reverse().concat(snake).slice(0, snake.length + 1);
+      const virtualBlocked = obstacleSet(config, virtualSnake, dogs);
+      const tail = virtualSnake[virtualSnake.length - 1];
+      const escape = findPath(config, virtualSnake[0], tail, cell => virtualBlocked.has(cell));
+      const direction = directionTowards(config, head, path[0]);
+      if (escape && direction !== null && safe.includes(direction)) return direction;
+    }
+  }
+
+  // Tail chase keeps the snake alive until a safe path to the food opens up
+  const tail = snake[snake.length - 1];
+  if (!sameCell(tail, head)) {
+    const toTail = findPath(config, head, tail, isBlocked);
+    const direction = toTail && toTail.length > 0 ? directionTowards(config, head, toTail[0]) : null;
+    if (direction !== null && safe.includes(direction)) return direction;
+  }
+
+  return roomiestMove(state, safe);
+};
+
+// Hamiltonian cycle over the whole board. A cycle exists when one side is even;
+// on odd x odd boards the bottom-right corner is left out and handled by A*.
+interface Cycle {
+  // Position of every cell along the cycle, -1 for cells left out
+  position: Int32Array;
+  length: number;
+}
+
+const cycleCache = new WeakMap<EngineConfig, Cycle | null>();
+
+const buildCycle = (config: EngineConfig): Cycle | null => {
+  const { width: w, height: h } = config;
+  if (config.walls.length > 0 || config.portals.length > 0 || w < 2 || h < 2) return null;
+
+  const transpose = h % 2 !== 0 && w % 2 === 0;
+  const cols = transpose ? h : w;
+  const rows = transpose ? w : h;
+  const order: Coordinate[] = [];
+  const push = (x: number, y: number) => order.push(transpose ? { x: y, y: x } : { x, y });
+
+  // Serpentine through columns 1.. and return up column 0
+  const oddOdd = rows % 2 !== 0;
+  const serpentineRows = oddOdd ? rows - 2 : rows;
+  for (let y = 0; y < serpentineRows; y++) {
+    if (y % 2 === 0) for (let x = 1; x < cols; x++) push(x, y);
+    else for (let x = cols - 1; x >= 1; x--) push(x, y);
+  }
+  let returnFrom = rows - 1;
+  if (oddOdd) {
+    // Last two rows are woven together in pairs, skipping the bottom-right corner
+    const y = rows - 2;
+    push(cols - 1, y);
+    for (let x = cols - 3; x >= 0; x -= 2) {
+      push(x + 1, y);
+      push(x + 1, y + 1);
+      push(x, y + 1);
+      push(x, y);
+    }
+    returnFrom = y - 1;
+  }
+  for (let y = returnFrom; y >= 0; y--) push(0, y);
+
+  const position = new Int32Array(w * h).fill(-1);
+  order.forEach((cell, i) => {
+    position[cellIndex(config, cell)] = i;
+  });
+  return { position, length: order.length };
+};
+
+const getCycle = (config: EngineConfig): Cycle | null => {
+  if (!cycleCache.has(config)) cycleCache.set(config, buildCycle(config));
+  return cycleCache.get(config)!;
+};
+
+// Shortcuts stop once the snake covers this share of the cycle; from there it
+// just walks the cycle, which can never trap it.
+const SHORTCUT_MAX_FILL = 0.5;
+// Free cells kept between the head and the tail when skipping ahead, so food
+// eaten right after a shortcut cannot make the head catch up with the tail.
+const SHORTCUT_TAIL_MARGIN = 3;
+
+// Walks the cycle, skipping ahead along it towards the food while the skip
+// cannot overtake the tail. Skips are only taken while the body lies in cycle
+// order (true after any stretch of plain cycle walking); off the cycle, or
+// when a watchdog blocks the way, A* takes over until the snake is back on it.
+const hamiltonian = (state: GameState): Direction => {
+  const { config, snake, food } = state;
+  const cycle = getCycle(config);
+  if (!cycle) return astar(state);
+
+  const at = (cell: Coordinate) => cycle.position[cellIndex(config, cell)];
+  // Steps forward along the cycle from a to b
+  const ahead = (a: number, b: number) => (b - a + cycle.length) % cycle.length;
+  const head = at(snake[0]);
+  if (head === -1 || (food && at(food) === -1)) return astar(state);
+
+  // The body is in cycle order when every segment sits just behind the one before it
+  let span = 0;
+  for (let i = 1; i < snake.length; i++) span += ahead(at(snake[i]), at(snake[i - 1]));
+  const ordered = snake.every(cell => at(cell) !== -1) && span < cycle.length;
+  const canSkip = ordered && snake.length < cycle.length * SHORTCUT_MAX_FILL;
+  const toTail = canSkip ? ahead(head, at(snake[snake.length - 1])) : 0;
+  const toFood = food ? ahead(head, at(food)) : cycle.length;
+
+  let best: Direction | null = null;
+  let bestSkip = 0;
+  for (const direction of DIRECTIONS) {
+    const cell = moveCoordinate(snake[0], direction);
+    if (cell.x < 0 || cell.y < 0 || cell.x >= config.width || cell.y >= config.height) continue;
+    const target = at(cell);
+    if (target === -1) continue;
+    const skip = ahead(head, target);
+    // One step is the cycle itself; anything further must stop at the food and short of the tail
+    if (skip !== 1 && (!canSkip || skip > toFood || skip >= toTail - SHORTCUT_TAIL_MARGIN)) continue;
+    if (skip > bestSkip && isSafeMove(state, direction)) {
+      best = direction;
+      bestSkip = skip;
+    }
+  }
+  return best ?? astar(state);
+};
+
+const STRATEGY_IMPLEMENTATIONS: Record<AutopilotStrategy, (state: GameState) => Direction> = {
+  greedy,
+  astar,
+  hamiltonian
+};
+
+export const chooseDirection = (state: GameState, strategy: AutopilotStrategy): Direction =>
+  STRATEGY_IMPLEMENTATIONS[strategy](state);
@@ -0,0 +1,83 @@
+import { DeathCause, EngineConfig, DEFAULT_CONFIG, createInitialState, step } from './snakeEngine';
+import { AutopilotStrategy, STRATEGIES, chooseDirection } from './autopilot';
+import { DifficultyProfile, DEFAULT_DIFFICULTY } from './difficulty';
+
+// Headless solver benchmark: plays every strategy over the same seeds and
+// aggregates the results. Runs anywhere the engine runs (Node or browser).
+
+export type RunOutcome = DeathCause | 'board-full' | 'timeout';
+
+export interface BenchmarkOptions {
+  strategies?: AutopilotStrategy[];
+  seeds?: number[];
+  maxTicks?: number;
+  config?: EngineConfig;
+  difficulty?: DifficultyProfile;
+}
+
+export interface StrategyReport {
+  strategy: AutopilotStrategy;
+  games: number;
+  averageScore: number;
+  averageLength: number;
+  averageTicks: number;
+  bestScore: number;
+  outcomes: Partial<Record<RunOutcome, number>>;
+}
+
+export const playHeadless = (
+  seed: number,
+  strategy: AutopilotStrategy,
+  maxTicks: number,
+  config: EngineConfig,
+  difficulty: DifficultyProfile = DEFAULT_DIFFICULTY
+): { score: number; length: number; ticks: number; outcome: RunOutcome } => {
+  let state = createInitialState(seed, config, difficulty);
+  while (state.alive && state.food !== null && state.tick < maxTicks) {
+    state = step(state, { direction: chooseDirection(state, strategy) }).state;
+  }
+  const outcome: RunOutcome = state.deathCause ?? (state.food === null ? 'board-full' : 'timeout');
+  return { score: state.score, length: state.snake.length, ticks: state.tick, outcome };
+};
+
+export const runBenchmark = ({
+  strategies = STRATEGIES,
+  seeds = Array.from({ length: 20 }, (_, i) => i + 1),
+  maxTicks = 20000,
+  config = DEFAULT_CONFIG,
+  difficulty = DEFAULT_DIFFICULTY
+}: BenchmarkOptions = {}): StrategyReport[] =>
+  strategies.map(strategy => {
+    const runs = seeds.map(seed => playHeadless(seed, strategy, maxTicks, config, difficulty));
+    const average = (pick: (run: typeof runs[number]) => number) =>
+      runs.reduce((sum, run) => sum + pick(run), 0) / Math.max(1, runs.length);
+    const outcomes: StrategyReport['outcomes'] = {};
+    runs.forEach(run => {
+      outcomes[run.outcome] = (outcomes[run.outcome] ?? 0) + 1;
+    });
+    return {
+      strategy,
+      games: runs.length,
+      averageScore: average(run => run.score),
+      averageLength: average(run => run.length),
+      averageTicks: average(run => run.ticks),
+      bestScore: Math.max(0, ...runs.map(run => run.score)),
+      outcomes
+    };
+  });
+
+export const formatReport = (reports: StrategyReport[]): string => {
+  const header = 'STRATEGY      GAMES  AVG SCORE  AVG LEN  AVG TICKS  BEST  OUTCOMES';
+  const rows = reports.map(r =>
+    [
+      r.strategy.padEnd(12),
+      String(r.games).padStart(6),
+      r.averageScore.toFixed(1).padStart(10),
+      r.averageLength.toFixed(1).padStart(8),
+      r.averageTicks.toFixed(0).padStart(10),
+      String(r.bestScore).padStart(5),
+      ' ' + Object.entries(r.outcomes).map(([cause, count]) => `${cause}=${count}`).join(' ')
+    ].join(' ')
+  );
+  return [header, ...rows].join('\n');
+};
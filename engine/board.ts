@@ -0,0 +1,80 @@
+import { Coordinate, Direction } from '../types';
+import type { PacketKind } from './powerups';
+
+// Board geometry shared by the engine, pathfinding and level loader.
+
+export type PortalPair = [Coordinate, Coordinate];
+
+export interface EngineConfig {
+  width: number;
+  height: number;
+  initialSnake: Coordinate[];
+  initialDirection: Direction;
+  walls: Coordinate[];
+  wrap: { horizontal: boolean; vertical: boolean };
+  portals: PortalPair[];
+  foodCells: Coordinate[] | null; // null = food may spawn on any free cell
+  packetSchedule?: PacketKind[] | null; // Kinds handed out in this order (cycling) instead of rolled, e.g. the daily challenge
+}
+
+export const sameCell = (a: Coordinate, b: Coordinate): boolean => a.x === b.x && a.y === b.y;
+
+const sameCells = (a: Coordinate[], b: Coordinate[]): boolean =>
+  a.length === b.length && a.every((cell, i) => sameCell(cell, b[i]));
+
+// Whether two configs lay out the same board: size, spawn, walls, portals, food cells, edges
+// and packet order. Cells are compared in order, so layouts built alike compare equal.
+export const sameLayout = (a: EngineConfig, b: EngineConfig): boolean =>
+  a.width === b.width && a.height === b.height && a.initialDirection === b.initialDirection &&
+  sameCells(a.initialSnake, b.initialSnake) && sameCells(a.walls, b.walls) &&
+  sameCells(a.portals.flat(), b.portals.flat()) &&
+  (a.foodCells === null || b.foodCells === null ? a.foodCells === b.foodCells : sameCells(a.foodCells, b.foodCells)) &&
+  a.wrap.horizontal === b.wrap.horizontal && a.wrap.vertical === b.wrap.vertical &&
+  (a.packetSchedule ?? []).join() === (b.packetSchedule ?? []).join();
+
+export const moveCoordinate = (pos: Coordinate, direction: Direction): Coordinate => {
+  switch (direction) {
+    case Direction.UP: return { x: pos.x, y: pos.y - 1 };
+    case Direction.DOWN: return { x: pos.x, y: pos.y + 1 };
+    case Direction.LEFT: return { x: pos.x - 1, y: pos.y };
+    case Direction.RIGHT: return { x: pos.x + 1, y: pos.y };
+  }
+};
+
+// Per-config lookup tables, built once and reused every tick.
+interface BoardIndex {
+  walls: Set<number>;
+  portalExits: Map<number, Coordinate>;
+}
+
+const boardIndexCache = new WeakMap<EngineConfig, BoardIndex>();
+
+export const cellIndex = (config: EngineConfig, c: Coordinate): number => c.y * config.width + c.x;
+
+export const getBoardIndex = (config: EngineConfig): BoardIndex => {
+  let index = boardIndexCache.get(config);
+  if (!index) {
+    const portalExits = new Map<number, Coordinate>();
+    for (const [a, b] of config.portals) {
+      portalExits.set(cellIndex(config, a), b);
+      portalExits.set(cellIndex(config, b), a);
+    }
+    index = { walls: new Set(config.walls.map(w => cellIndex(config, w))), portalExits };
+    boardIndexCache.set(config, index);
+  }
+  return index;
+};
+
+// Applies wrap-around edges. Returns null when the position leaves a lethal edge.
+export const wrapCoordinate = (config: EngineConfig, pos: Coordinate): Coordinate | null => {
+  let { x, y } = pos;
+  if (x < 0 || x >= config.width) {
+    if (!config.wrap.horizontal) return null;
+    x = (x + config.width) % config.width;
+  }
+  if (y < 0 || y >= config.height) {
+    if (!config.wrap.vertical) return null;
+    y = (y + config.height) % config.height;
+  }
+  return { x, y };
+};
@@ -0,0 +1,96 @@
+import { LevelDefinition, Level, LevelFormatError, compileLevel } from './level';
+import { LEVEL_DEFINITIONS } from './levels';
+import { Objective, objectiveTarget } from './objectives';
+
+// Campaign sector format. A sector is a level plus an objective and the two extra
+// conditions that earn its second and third star (clearing it earns the first).
+
+export type StarCriterion =
+  | { type: 'time'; seconds: number } // Clear within this many seconds
+  | { type: 'flawless' } // No integrity hits
+  | { type: 'no-pause' }
+  | { type: 'score'; min: number };
+
+export interface SectorDefinition {
+  id: string;
+  name: string;
+  briefing: string;
+  level: string | Omit<LevelDefinition, 'id' | 'name'>; // A built-in level id, or a layout of its own
+  objective: Objective;
+  stars: [StarCriterion, StarCriterion];
+  requiredStars?: number; // Campaign stars needed on top of clearing the previous sector
+}
+
+export interface Sector {
+  id: string;
+  name: string;
+  briefing: string;
+  level: Level;
+  objective: Objective;
+  stars: [StarCriterion, StarCriterion];
+  requiredStars: number;
+}
+
+export const MAX_SECTOR_STARS = 3;
+
+const isPositiveInt = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+export const compileSector = (def: SectorDefinition): Sector => {
+  const layout = typeof def.level === 'string' ? LEVEL_DEFINITIONS.find(l => l.id === def.level) : def.level;
+  if (!layout) throw new LevelFormatError(`Sector ${def.id} uses unknown level "${def.level}".`);
+  // The sector's own id keeps its runs apart from endless runs on the same layout
+  const level = compileLevel({ ...layout, id: def.id, name: def.name, description: def.briefing });
+
+  if (!isPositiveInt(objectiveTarget(def.objective))) {
+    throw new LevelFormatError(`Sector ${def.id} needs a positive whole-number objective.`);
+  }
+  if (def.objective.type === 'keys') {
+    const { config } = level;
+    const blocked = new Set([...config.walls, ...config.portals.flat(), ...config.initialSnake].map(c => `${c.x},${c.y}`));
+    for (const key of def.objective.keys) {
+      if (key.x < 0 || key.x >= config.width || key.y < 0 || key.y >= config.height) {
+        throw new LevelFormatError(`key is outside the ${config.width}x${config.height} board.`, key.y, key.x);
+      }
+      if (blocked.has(`${key.x},${key.y}`)) throw new LevelFormatError('key sits on a wall, portal or the spawn.', key.y, key.x);
+    }
+  }
+
+  return {
+    id: def.id,
+    name: def.name,
+    briefing: def.briefing,
+    level,
+    objective: def.objective,
+    stars: def.stars,
+    requiredStars: def.requiredStars ?? 0
+  };
+};
+
+// How a clear went, for the star conditions
+export interface SectorResult {
+  elapsedMs: number;
+  integrityHits: number;
+  pauses: number;
+  score: number;
+}
+
+export const meetsCriterion = (criterion: StarCriterion, result: SectorResult): boolean => {
+  switch (criterion.type) {
+    case 'time': return result.elapsedMs <= criterion.seconds * 1000;
+    case 'flawless': return result.integrityHits === 0;
+    case 'no-pause': return result.pauses === 0;
+    case 'score': return result.score >= criterion.min;
+  }
+};
+
+export const describeCriterion = (criterion: StarCriterion): string => {
+  switch (criterion.type) {
+    case 'time': return `Clear within ${criterion.seconds} s`;
+    case 'flawless': return 'Take no integrity hits';
+    case 'no-pause': return 'Never pause';
+    case 'score': return `Score ${criterion.min} or more`;
+  }
+};
+
+export const starsFor = (sector: Sector, result: SectorResult): number =>
+  1 + sector.stars.filter(criterion => meetsCriterion(criterion, result)).length;
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { DAILY_SCHEDULE_LENGTH, createDailyChallenge, dailyKey } from './daily';
+import { createInitialState } from './snakeEngine';
+
+describe('daily challenge', () => {
+  it('gives every player the same run on the same UTC day', () => {
+    const morning = createDailyChallenge(new Date('2026-03-14T00:05:00Z'));
+    const evening = createDailyChallenge(new Date('2026-03-14T23:55:00Z'));
+    expect(morning.key).toBe('2026-03-14');
+    expect(evening).toEqual(morning);
+    expect(morning.level.config.packetSchedule).toHaveLength(DAILY_SCHEDULE_LENGTH);
+
+    const start = (c: typeof morning) => createInitialState(c.seed, c.level.config, c.difficulty);
+    expect(start(evening)).toEqual(start(morning));
+  });
+
+  it('changes with the date', () => {
+    const today = createDailyChallenge(new Date('2026-03-14T12:00:00Z'));
+    const tomorrow = createDailyChallenge(new Date('2026-03-15T12:00:00Z'));
+    expect(tomorrow.seed).not.toBe(today.seed);
+    expect(tomorrow.level.config.packetSchedule).not.toEqual(today.level.config.packetSchedule);
+  });
+
+  it('keys by the UTC date, not the local one', () => {
+    expect(dailyKey(new Date('2026-03-14T23:30:00-05:00'))).toBe('2026-03-15');
+  });
+});
@@ -0,0 +1,56 @@
+import { Level } from './level';
+import { BUILTIN_LEVELS } from './levels';
+import { DifficultyProfile, DEFAULT_DIFFICULTY } from './difficulty';
+import { PacketKind, rollPacketKind } from './powerups';
+import { createRng, nextInt } from './rng';
+
+// Daily challenge. Everything about the run is derived from the UTC date, so every
+// player gets the same seed, sector, rules and packet order on the same day.
+
+// Packets per schedule cycle; runs rarely get this far
+export const DAILY_SCHEDULE_LENGTH = 64;
+
+export interface DailyChallenge {
+  key: string; // UTC date, YYYY-MM-DD
+  seed: number;
+  level: Level;
+  difficulty: DifficultyProfile;
+}
+
+export const dailyKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+// FNV-1a over the date key
+export const dailySeed = (key: string): number => {
+  let hash = 0x811c9dc5;
+  for (const char of `cybersnake-daily:${key}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const createDailyChallenge = (date: Date): DailyChallenge => {
+  const key = dailyKey(date);
+  const seed = dailySeed(key);
+  // The sector and packet order come from their own stream, apart from the run's
+  let [index, rng] = nextInt(createRng(seed ^ 0x9e3779b9), BUILTIN_LEVELS.length);
+  const packetSchedule: PacketKind[] = [];
+  while (packetSchedule.length < DAILY_SCHEDULE_LENGTH) {
+    const [kind, next] = rollPacketKind(rng, DEFAULT_DIFFICULTY.packetWeights);
+    packetSchedule.push(kind);
+    rng = next;
+  }
+  const base = BUILTIN_LEVELS[index];
+  return {
+    key,
+    seed,
+    level: {
+      ...base,
+      id: `daily-${key}`,
+      name: `Daily: ${base.name}`,
+      description: `${base.description} Today's packet order is the same for everyone.`,
+      config: { ...base.config, packetSchedule }
+    },
+    difficulty: DEFAULT_DIFFICULTY
+  };
+};
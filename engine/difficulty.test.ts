@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, INITIAL_ADAPTIVE_STATE, adaptProfile, presetOf, recordAdaptiveRun, sanitizeProfile, watchdogQuota
+} from './difficulty';
+
+const EARLY = { score: 2, ticks: 80 };
+const STRONG = { score: 30, ticks: 900 };
+const STEADY = { score: 12, ticks: 400 };
+
+describe('difficulty profiles', () => {
+  it('leaves the presets untouched', () => {
+    Object.values(DIFFICULTY_PRESETS).forEach(profile => expect(sanitizeProfile(profile)).toEqual(profile));
+  });
+
+  it('clamps custom profiles to playable limits', () => {
+    const wild = sanitizeProfile({
+      label: '',
+      speed: { baseInterval: 5, msPerPoint: -3, minInterval: 9000 },
+      packetWeights: { data: 0, overclock: 0, slowmo: 0, ghost: 0, shrink: 0, shield: 0 },
+      startIntegrity: 9.6,
+      watchdogScoreStep: -4,
+      maxWatchdogs: 40,
+      watchdogMoveEvery: 0
+    });
+    expect(wild).toEqual({
+      label: 'Custom',
+      speed: { baseInterval: 500, msPerPoint: 0, minInterval: 500 },
+      packetWeights: { data: 1, overclock: 0, slowmo: 0, ghost: 0, shrink: 0, shield: 0 },
+      startIntegrity: 3,
+      watchdogScoreStep: 0,
+      maxWatchdogs: 8,
+      watchdogMoveEvery: 1
+    });
+    expect(watchdogQuota(wild, 500)).toBe(0);
+  });
+
+  it('recognises the presets by their rules alone', () => {
+    expect(presetOf(DIFFICULTY_PRESETS['black-ice'])).toBe('black-ice');
+    expect(presetOf(JSON.parse(JSON.stringify({ ...DIFFICULTY_PRESETS['script-kiddie'], label: 'Custom' })))).toBe('script-kiddie');
+    expect(presetOf({ ...DEFAULT_DIFFICULTY, maxWatchdogs: 4 })).toBeNull();
+    expect(presetOf(adaptProfile(DEFAULT_DIFFICULTY, 0.25))).toBeNull();
+  });
+});
+
+describe('adaptive rating', () => {
+  it('eases off after two early deaths in a row', () => {
+    const once = recordAdaptiveRun(INITIAL_ADAPTIVE_STATE, EARLY);
+    expect(once).toEqual({ rating: 0, earlyDeaths: 1 });
+    expect(recordAdaptiveRun(once, EARLY)).toEqual({ rating: -0.25, earlyDeaths: 0 });
+    // A decent run in between resets the count
+    expect(recordAdaptiveRun(recordAdaptiveRun(once, STEADY), EARLY)).toEqual({ rating: 0, earlyDeaths: 1 });
+  });
+
+  it('ramps up after strong runs and stays within -1 to 1', () => {
+    let state = INITIAL_ADAPTIVE_STATE;
+    for (let i = 0; i < 6; i++) state = recordAdaptiveRun(state, STRONG);
+    expect(state).toEqual({ rating: 1, earlyDeaths: 0 });
+    for (let i = 0; i < 20; i++) state = recordAdaptiveRun(state, EARLY);
+    expect(state.rating).toBe(-1);
+  });
+
+  it('speeds the clock up with the rating', () => {
+    expect(adaptProfile(DEFAULT_DIFFICULTY, 0)).toBe(DEFAULT_DIFFICULTY);
+    const harder = adaptProfile(DEFAULT_DIFFICULTY, 0.5);
+    expect(harder.label).toBe('Netrunner +50%');
+    expect(harder.speed.baseInterval).toBeLessThan(DEFAULT_DIFFICULTY.speed.baseInterval);
+    const easier = adaptProfile(DEFAULT_DIFFICULTY, -0.5);
+    expect(easier.speed.baseInterval).toBeGreaterThan(DEFAULT_DIFFICULTY.speed.baseInterval);
+    expect(easier.startIntegrity).toBe(DEFAULT_DIFFICULTY.startIntegrity + 1);
+  });
+});
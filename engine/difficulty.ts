@@ -0,0 +1,159 @@
+import { PacketKind, DEFAULT_PACKET_WEIGHTS, START_INTEGRITY } from './powerups';
+import { WATCHDOG_SCORE_STEP, MAX_WATCHDOGS, WATCHDOG_MOVE_EVERY } from './watchdogs';
+
+// One place for everything that makes a run harder or easier: how fast the clock
+// runs, which packets spawn and how quickly watchdogs pile up. A run carries its
+// profile in the engine state, so replays reproduce the rules they were played with.
+
+export interface SpeedCurve {
+  baseInterval: number; // ms per tick at score 0
+  msPerPoint: number; // Shaved off the interval for every point scored
+  minInterval: number; // Floor of the curve
+}
+
+export interface DifficultyProfile {
+  label: string;
+  speed: SpeedCurve;
+  packetWeights: Record<PacketKind, number>; // Relative spawn chance of each packet kind
+  startIntegrity: number;
+  watchdogScoreStep: number; // One more watchdog per this many points; 0 disables watchdogs
+  maxWatchdogs: number;
+  watchdogMoveEvery: number; // Watchdogs move on every n-th tick
+}
+
+export type DifficultyPresetId = 'script-kiddie' | 'netrunner' | 'black-ice';
+
+export const DIFFICULTY_PRESETS: Record<DifficultyPresetId, DifficultyProfile> = {
+  'script-kiddie': {
+    label: 'Script Kiddie',
+    speed: { baseInterval: 180, msPerPoint: 1.5, minInterval: 80 },
+    packetWeights: { data: 76, overclock: 2, slowmo: 8, ghost: 5, shrink: 4, shield: 6 },
+    startIntegrity: 2,
+    watchdogScoreStep: 15,
+    maxWatchdogs: 2,
+    watchdogMoveEvery: 3
+  },
+  // The original rules
+  netrunner: {
+    label: 'Netrunner',
+    speed: { baseInterval: 150, msPerPoint: 2, minInterval: 50 },
+    packetWeights: DEFAULT_PACKET_WEIGHTS,
+    startIntegrity: START_INTEGRITY,
+    watchdogScoreStep: WATCHDOG_SCORE_STEP,
+    maxWatchdogs: MAX_WATCHDOGS,
+    watchdogMoveEvery: WATCHDOG_MOVE_EVERY
+  },
+  'black-ice': {
+    label: 'Black ICE',
+    speed: { baseInterval: 120, msPerPoint: 2.5, minInterval: 40 },
+    packetWeights: { data: 84, overclock: 8, slowmo: 2, ghost: 3, shrink: 2, shield: 1 },
+    startIntegrity: 0,
+    watchdogScoreStep: 6,
+    maxWatchdogs: 5,
+    watchdogMoveEvery: 2
+  }
+};
+
+export const DIFFICULTY_PRESET_IDS = Object.keys(DIFFICULTY_PRESETS) as DifficultyPresetId[];
+
+export const DEFAULT_DIFFICULTY = DIFFICULTY_PRESETS.netrunner;
+
+// The reference for the speed readout: 1.00x is the default curve at score 0
+export const REFERENCE_INTERVAL = DEFAULT_DIFFICULTY.speed.baseInterval;
+
+// Milliseconds between ticks at `score`, before effects
+export const curveInterval = (curve: SpeedCurve, score: number): number =>
+  Math.max(curve.minInterval, curve.baseInterval - score * curve.msPerPoint);
+
+export const watchdogQuota = (profile: DifficultyProfile, score: number): number =>
+  profile.watchdogScoreStep > 0 ? Math.min(profile.maxWatchdogs, Math.floor(score / profile.watchdogScoreStep)) : 0;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Limits for custom profiles, so an imported or hand-edited profile can't stall or flood the game
+export const sanitizeProfile = (profile: DifficultyProfile): DifficultyProfile => {
+  const minInterval = Math.round(clamp(profile.speed.minInterval, 30, 500));
+  const weights = Object.fromEntries(
+    Object.keys(DEFAULT_PACKET_WEIGHTS).map(kind => [kind, clamp(profile.packetWeights[kind as PacketKind] ?? 0, 0, 1000)])
+  ) as Record<PacketKind, number>;
+  // Something always has to spawn
+  if (Object.values(weights).every(weight => weight === 0)) weights.data = 1;
+  return {
+    label: profile.label.slice(0, 24) || 'Custom',
+    speed: {
+      baseInterval: Math.round(clamp(profile.speed.baseInterval, minInterval, 500)),
+      msPerPoint: clamp(profile.speed.msPerPoint, 0, 20),
+      minInterval
+    },
+    packetWeights: weights,
+    startIntegrity: Math.round(clamp(profile.startIntegrity, 0, 3)),
+    watchdogScoreStep: Math.round(clamp(profile.watchdogScoreStep, 0, 100)),
+    maxWatchdogs: Math.round(clamp(profile.maxWatchdogs, 0, 8)),
+    watchdogMoveEvery: Math.round(clamp(profile.watchdogMoveEvery, 1, 6))
+  };
+};
+
+// The preset a profile plays by, whatever its label; null for custom or adapted rules
+export const presetOf = (profile: DifficultyProfile): DifficultyPresetId | null =>
+  DIFFICULTY_PRESET_IDS.find(id => {
+    const preset = DIFFICULTY_PRESETS[id];
+    return preset.speed.baseInterval === profile.speed.baseInterval &&
+      preset.speed.msPerPoint === profile.speed.msPerPoint &&
+      preset.speed.minInterval === profile.speed.minInterval &&
+      (Object.keys(DEFAULT_PACKET_WEIGHTS) as PacketKind[]).every(kind => preset.packetWeights[kind] === profile.packetWeights[kind]) &&
+      preset.startIntegrity === profile.startIntegrity &&
+      preset.watchdogScoreStep === profile.watchdogScoreStep &&
+      preset.maxWatchdogs === profile.maxWatchdogs &&
+      preset.watchdogMoveEvery === profile.watchdogMoveEvery;
+  }) ?? null;
+
+// Adaptive mode ---------------------------------------------------------------
+// A rating in [-1, 1] nudges the chosen profile: repeated early deaths ease it off,
+// strong runs ramp it up. The rating only changes between runs.
+
+export interface AdaptiveState {
+  rating: number;
+  earlyDeaths: number; // Consecutive runs that ended early
+}
+
+export interface RunSummary {
+  score: number;
+  ticks: number;
+}
+
+export const INITIAL_ADAPTIVE_STATE: AdaptiveState = { rating: 0, earlyDeaths: 0 };
+
+const EARLY_DEATH_SCORE = 5;
+const EARLY_DEATH_TICKS = 200;
+const EARLY_DEATHS_TO_EASE = 2;
+const STRONG_RUN_SCORE = 25;
+const RATING_STEP = 0.25;
+
+export const recordAdaptiveRun = (state: AdaptiveState, run: RunSummary): AdaptiveState => {
+  if (run.score < EARLY_DEATH_SCORE || run.ticks < EARLY_DEATH_TICKS) {
+    const earlyDeaths = state.earlyDeaths + 1;
+    if (earlyDeaths < EARLY_DEATHS_TO_EASE) return { ...state, earlyDeaths };
+    return { rating: clamp(state.rating - RATING_STEP, -1, 1), earlyDeaths: 0 };
+  }
+  if (run.score >= STRONG_RUN_SCORE) return { rating: clamp(state.rating + RATING_STEP, -1, 1), earlyDeaths: 0 };
+  return { ...state, earlyDeaths: 0 };
+};
+
+// At +1 the clock runs 20% faster and watchdogs arrive 30% sooner; at -1 the reverse,
+// plus an extra integrity point
+export const adaptProfile = (profile: DifficultyProfile, rating: number): DifficultyProfile => {
+  if (rating === 0) return profile;
+  const pace = 1 - 0.2 * rating;
+  const percent = Math.round(rating * 100);
+  return sanitizeProfile({
+    ...profile,
+    label: `${profile.label} ${percent > 0 ? '+' : ''}${percent}%`,
+    speed: {
+      ...profile.speed,
+      baseInterval: profile.speed.baseInterval * pace,
+      minInterval: profile.speed.minInterval * pace
+    },
+    startIntegrity: profile.startIntegrity + (rating <= -0.5 ? 1 : 0),
+    watchdogScoreStep: profile.watchdogScoreStep > 0 ? Math.max(1, profile.watchdogScoreStep * (1 - 0.3 * rating)) : 0
+  });
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Direction } from '../types';
+import { LevelDefinition, LevelFormatError, compileLevel } from './level';
+import { BUILTIN_LEVELS, DEFAULT_BOARD_SETTINGS, LEVEL_DEFINITIONS, sizeBuiltinLevels } from './levels';
+import { sameLayout } from './board';
+
+const mapLevel = (map: string[], extra: Partial<LevelDefinition> = {}) => compileLevel({ id: 'test', name: 'Test', map, ...extra });
+
+// The error a definition fails with, so its message and cell can be checked together
+const failure = (def: LevelDefinition): LevelFormatError => {
+  try {
+    compileLevel(def);
+  } catch (error) {
+    if (error instanceof LevelFormatError) return error;
+    throw error;
+  }
+  throw new Error('Level compiled.');
+};
+
+describe('level format', () => {
+  it('compiles walls, portals, food zones and the spawn from a map', () => {
+    const { config } = mapLevel([
+      '#######',
+      '#1...+#',
+      '#..>..#',
+      '#+...1#',
+      '#######'
+    ], { wrap: { horizontal: true } });
+    expect(config).toMatchObject({ width: 7, height: 5, initialDirection: Direction.RIGHT, wrap: { horizontal: true, vertical: false } });
+    expect(config.initialSnake).toEqual([{ x: 3, y: 2 }, { x: 2, y: 2 }, { x: 1, y: 2 }]);
+    expect(config.walls).toHaveLength(20);
+    expect(config.portals).toEqual([[{ x: 1, y: 1 }, { x: 5, y: 3 }]]);
+    expect(config.foodCells).toEqual([{ x: 5, y: 1 }, { x: 1, y: 3 }]);
+  });
+
+  it('points map errors at the row and column', () => {
+    const ragged = failure({ id: 'a', name: 'A', map: ['.....', '...', '.....', '.....', '.....'] });
+    expect(ragged.message).toBe('Row 2, column 4: row is 3 cells wide, expected 5.');
+    expect([ragged.row, ragged.column]).toEqual([1, 3]);
+
+    expect(failure({ id: 'a', name: 'A', map: ['.....', '..x..', '.....', '.....', '.....'] }).message)
+      .toBe("Row 2, column 3: unknown tile 'x'.");
+    expect(failure({ id: 'a', name: 'A', map: ['.....', '.^...', '.....', '...v.', '.....'] }).message)
+      .toBe('Row 4, column 4: second spawn marker; a level has exactly one.');
+    expect(failure({ id: 'a', name: 'A', map: ['.....', '.2...', '.....', '.....', '.....'] }).message)
+      .toBe('Row 2, column 2: portal 2 has no partner.');
+  });
+
+  it('rejects fields that leave the board or collide', () => {
+    expect(failure({ id: 'a', name: 'A', width: 8, height: 8, walls: [{ x: 8, y: 2 }] }).message)
+      .toBe('Row 3, column 9: walls[0] is outside the 8x8 board.');
+    expect(failure({ id: 'a', name: 'A', width: 8, height: 8, spawn: { x: 3, y: 6, direction: 'up', length: 4 } }).message)
+      .toBe('Row 7, column 4: spawned snake body runs off the board.');
+    expect(failure({ id: 'a', name: 'A', width: 4, height: 8 }).message).toMatch(/at least 5/);
+    expect(failure({ id: '', name: 'A', width: 8, height: 8 }).message).toBe('Level is missing an id.');
+  });
+
+  it('compiles every built-in level', () => {
+    LEVEL_DEFINITIONS.forEach(def => expect(() => compileLevel(def)).not.toThrow());
+  });
+
+  it('tells a stock layout from a resized or respawned one', () => {
+    const stock = BUILTIN_LEVELS.map(level => level.config);
+    sizeBuiltinLevels(DEFAULT_BOARD_SETTINGS).forEach((level, i) => expect(sameLayout(level.config, stock[i])).toBe(true));
+    const wide = sizeBuiltinLevels({ ...DEFAULT_BOARD_SETTINGS, width: 30 });
+    const long = sizeBuiltinLevels({ ...DEFAULT_BOARD_SETTINGS, spawnLength: 5 });
+    expect(sameLayout(wide[0].config, stock[0])).toBe(false);
+    expect(sameLayout(long[0].config, stock[0])).toBe(false);
+    expect(sameLayout({ ...stock[0], packetSchedule: ['data'] }, stock[0])).toBe(false);
+  });
+});
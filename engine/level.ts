@@ -0,0 +1,251 @@
+import { Coordinate, Direction } from '../types';
+import { EngineConfig, PortalPair, moveCoordinate } from './snakeEngine';
+
+// Level format.
+// A level can be written as plain JSON, as an ASCII map, or a mix of both
+// (explicit fields are added on top of whatever the map declares).
+//
+// ASCII legend:
+//   .        empty floor
+//   #        firewall (lethal wall)
+//   + / :    food spawn zone (if any exist, packets only spawn on them)
+//   ^ v < >  snake head spawn, facing that way; the body trails behind it
+//   1-9      portal endpoints; every digit must appear exactly twice
+
+export type DirectionName = 'up' | 'down' | 'left' | 'right';
+
+export interface ZoneRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  map?: string[];
+  width?: number;
+  height?: number;
+  walls?: Coordinate[];
+  portals?: [Coordinate, Coordinate][];
+  spawn?: Coordinate & { direction: DirectionName; length?: number };
+  foodZones?: ZoneRect[];
+  wrap?: boolean | { horizontal?: boolean; vertical?: boolean };
+}
+
+export interface Level {
+  id: string;
+  name: string;
+  description: string;
+  config: EngineConfig;
+}
+
+export class LevelFormatError extends Error {
+  row?: number;
+  column?: number;
+
+  constructor(message: string, row?: number, column?: number) {
+    super(row !== undefined && column !== undefined ? `Row ${row + 1}, column ${column + 1}: ${message}` : message);
+    this.name = 'LevelFormatError';
+    this.row = row;
+    this.column = column;
+  }
+}
+
+const DIRECTION_NAMES: Record<DirectionName, Direction> = {
+  up: Direction.UP,
+  down: Direction.DOWN,
+  left: Direction.LEFT,
+  right: Direction.RIGHT
+};
+
+const SPAWN_GLYPHS: Record<string, Direction> = {
+  '^': Direction.UP,
+  'v': Direction.DOWN,
+  '<': Direction.LEFT,
+  '>': Direction.RIGHT
+};
+
+const BEHIND: Record<Direction, Direction> = {
+  [Direction.UP]: Direction.DOWN,
+  [Direction.DOWN]: Direction.UP,
+  [Direction.LEFT]: Direction.RIGHT,
+  [Direction.RIGHT]: Direction.LEFT
+};
+
+const DEFAULT_SPAWN_LENGTH = 3;
+
+const isInt = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+const key = (c: Coordinate) => `${c.x},${c.y}`;
+
+interface ParsedMap {
+  width: number;
+  height: number;
+  walls: Coordinate[];
+  foodCells: Coordinate[];
+  portals: Map<string, Coordinate[]>;
+  spawn: { position: Coordinate; direction: Direction } | null;
+}
+
+const parseMap = (rows: string[]): ParsedMap => {
+  if (rows.length === 0) throw new LevelFormatError('Map has no rows.');
+  const width = rows[0].length;
+  if (width === 0) throw new LevelFormatError('Map rows are empty.', 0, 0);
+
+  const parsed: ParsedMap = { width, height: rows.length, walls: [], foodCells: [], portals: new Map(), spawn: null };
+
+  rows.forEach((row, y) => {
+    if (row.length !== width) {
+      throw new LevelFormatError(`row is ${row.length} cells wide, expected ${width}.`, y, Math.min(row.length, width));
+    }
+    for (let x = 0; x < row.length; x++) {
+      const glyph = row[x];
+      const cell = { x, y };
+      if (glyph === '.') continue;
+      if (glyph === '#') parsed.walls.push(cell);
+      else if (glyph === '+' || glyph === ':') parsed.foodCells.push(cell);
+      else if (glyph in SPAWN_GLYPHS) {
+        if (parsed.spawn) throw new LevelFormatError('second spawn marker; a level has exactly one.', y, x);
+        parsed.spawn = { position: cell, direction: SPAWN_GLYPHS[glyph] };
+      } else if (/[1-9]/.test(glyph)) {
+        const ends = parsed.portals.get(glyph) ?? [];
+        if (ends.length === 2) throw new LevelFormatError(`portal ${glyph} appears more than twice.`, y, x);
+        parsed.portals.set(glyph, [...ends, cell]);
+      } else {
+        throw new LevelFormatError(`unknown tile '${glyph}'.`, y, x);
+      }
+    }
+  });
+
+  for (const [id, ends] of parsed.portals) {
+    if (ends.length !== 2) throw new LevelFormatError(`portal ${id} has no partner.`, ends[0].y, ends[0].x);
+  }
+
+  return parsed;
+};
+
+const checkInBounds = (c: unknown, width: number, height: number, what: string): Coordinate => {
+  const cell = c as Coordinate;
+  if (!isInt(cell?.x) || !isInt(cell?.y)) throw new LevelFormatError(`${what} is not an {x, y} coordinate.`);
+  if (cell.x < 0 || cell.x >= width || cell.y < 0 || cell.y >= height) {
+    throw new LevelFormatError(`${what} is outside the ${width}x${height} board.`, cell.y, cell.x);
+  }
+  return { x: cell.x, y: cell.y };
+};
+
+export const compileLevel = (def: LevelDefinition): Level => {
+  if (typeof def?.id !== 'string' || !def.id) throw new LevelFormatError('Level is missing an id.');
+  if (typeof def.name !== 'string' || !def.name) throw new LevelFormatError('Level is missing a name.');
+
+  const map = def.map ? parseMap(def.map) : null;
+  const width = map?.width ?? def.width;
+  const height = map?.height ?? def.height;
+  if (!isInt(width) || !isInt(height) || width < 5 || height < 5) {
+    throw new LevelFormatError('Level needs a map or integer width and height of at least 5.');
+  }
+  if (map && ((def.width !== undefined && def.width !== width) || (def.height !== undefined && def.height !== height))) {
+    throw new LevelFormatError(`Map is ${width}x${height} but the level declares ${def.width}x${def.height}.`);
+  }
+
+  // Walls
+  const walls = [...(map?.walls ?? [])];
+  (def.walls ?? []).forEach((w, i) => walls.push(checkInBounds(w, width, height, `walls[${i}]`)));
+  const wallKeys = new Set(walls.map(key));
+
+  // Portals
+  const portals: PortalPair[] = [];
+  map?.portals.forEach(([a, b]) => portals.push([a, b]));
+  (def.portals ?? []).forEach((pair, i) => {
+    if (!Array.isArray(pair) || pair.length !== 2) throw new LevelFormatError(`portals[${i}] must be a pair of coordinates.`);
+    portals.push([
+      checkInBounds(pair[0], width, height, `portals[${i}][0]`),
+      checkInBounds(pair[1], width, height, `portals[${i}][1]`)
+    ]);
+  });
+  const portalKeys = new Set<string>();
+  for (const end of portals.flat()) {
+    if (wallKeys.has(key(end))) throw new LevelFormatError('portal sits on a firewall.', end.y, end.x);
+    if (portalKeys.has(key(end))) throw new LevelFormatError('two portals share this cell.', end.y, end.x);
+    portalKeys.add(key(end));
+  }
+
+  // Spawn
+  let spawn = map?.spawn ?? null;
+  if (def.spawn) {
+    if (spawn) throw new LevelFormatError('Spawn is declared both in the map and as a field.');
+    const direction = DIRECTION_NAMES[def.spawn.direction];
+    if (direction === undefined) throw new LevelFormatError(`Unknown spawn direction '${def.spawn.direction}'.`);
+    spawn = { position: checkInBounds(def.spawn, width, height, 'spawn'), direction };
+  }
+  if (!spawn) {
+    spawn = { position: { x: Math.floor(width / 2), y: Math.floor(height / 2) }, direction: Direction.UP };
+  }
+  const length = def.spawn?.length ?? DEFAULT_SPAWN_LENGTH;
+  if (!isInt(length) || length < 1) throw new LevelFormatError('Spawn length must be a positive integer.');
+
+  const initialSnake = [spawn.position];
+  while (initialSnake.length < length) {
+    initialSnake.push(moveCoordinate(initialSnake[initialSnake.length - 1], BEHIND[spawn.direction]));
+  }
+  for (const segment of initialSnake) {
+    if (segment.x < 0 || segment.x >= width || segment.y < 0 || segment.y >= height) {
+      throw new LevelFormatError('spawned snake body runs off the board.', spawn.position.y, spawn.position.x);
+    }
+    if (wallKeys.has(key(segment)) || portalKeys.has(key(segment))) {
+      throw new LevelFormatError('spawned snake body overlaps a wall or portal.', segment.y, segment.x);
+    }
+  }
+
+  // Food zones
+  const foodCells = [...(map?.foodCells ?? [])];
+  (def.foodZones ?? []).forEach((zone, i) => {
+    if (![zone?.x, zone?.y, zone?.width, zone?.height].every(isInt) || zone.width < 1 || zone.height < 1) {
+      throw new LevelFormatError(`foodZones[${i}] must have integer x, y, width and height.`);
+    }
+    for (let y = zone.y; y < zone.y + zone.height; y++) {
+      for (let x = zone.x; x < zone.x + zone.width; x++) {
+        foodCells.push(checkInBounds({ x, y }, width, height, `foodZones[${i}]`));
+      }
+    }
+  });
+  const blocked = new Set([...wallKeys, ...portalKeys]);
+  const usableFood = foodCells.filter(c => !blocked.has(key(c)));
+  if (foodCells.length > 0 && usableFood.length === 0) {
+    throw new LevelFormatError('Every food zone cell is covered by a wall or portal.');
+  }
+
+  const wrap = typeof def.wrap === 'boolean'
+    ? { horizontal: def.wrap, vertical: def.wrap }
+    : { horizontal: !!def.wrap?.horizontal, vertical: !!def.wrap?.vertical };
+
+  return {
+    id: def.id,
+    name: def.name,
+    description: def.description ?? '',
+    config: {
+      width,
+      height,
+      initialSnake,
+      initialDirection: spawn.direction,
+      walls,
+      wrap,
+      portals,
+      foodCells: usableFood.length > 0 ? usableFood : null
+    }
+  };
+};
+
+// Accepts a parsed definition or raw JSON text (e.g. from an imported file).
+export const loadLevel = (source: LevelDefinition | string): Level => {
+  if (typeof source !== 'string') return compileLevel(source);
+  let def: LevelDefinition;
+  try {
+    def = JSON.parse(source);
+  } catch {
+    throw new LevelFormatError('Level file is not valid JSON.');
+  }
+  return compileLevel(def);
+};
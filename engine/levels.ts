@@ -0,0 +1,143 @@
+import { Coordinate } from '../types';
+import { DirectionName, LevelDefinition, Level, compileLevel } from './level';
+
+// Built-in arenas. Written in the same format as imported level files.
+
+export const LEVEL_DEFINITIONS: LevelDefinition[] = [
+  {
+    id: 'open-grid',
+    name: 'Open Grid',
+    description: 'The classic empty sector. Every edge is lethal.',
+    width: 25,
+    height: 25,
+    spawn: { x: 10, y: 10, direction: 'up' }
+  },
+  {
+    id: 'wraparound-void',
+    name: 'Wraparound Void',
+    description: 'No firewalls at all; leaving one edge re-enters from the opposite side.',
+    width: 25,
+    height: 25,
+    wrap: true,
+    spawn: { x: 12, y: 12, direction: 'up' }
+  },
+  {
+    id: 'firewall-ring',
+    name: 'Firewall Ring',
+    description: 'A walled core with four breaches. Corner portals link the outer ring diagonally.',
+    map: [
+      '.........................',
+      '.1.....................2.',
+      '.........................',
+      '.........................',
+      '....########.########....',
+      '....#...............#....',
+      '....#...............#....',
+      '....#...............#....',
+      '....#...............#....',
+      '....#...............#....',
+      '....#...............#....',
+      '....#...............#....',
+      '.........................',
+      '....#...............#....',
+      '....#.......^.......#....',
+      '....#...............#....',
+      '....#...............#....',
+      '....#...............#....',
+      '....#...............#....',
+      '....#...............#....',
+      '....########.########....',
+      '.........................',
+      '.........................',
+      '.2.....................1.',
+      '.........................'
+    ]
+  },
+  {
+    id: 'data-cross',
+    name: 'Data Cross',
+    description: 'Packets only spawn in the four caches. The left and right edges wrap.',
+    wrap: { horizontal: true },
+    map: [
+      '.........................',
+      '......>..................',
+      '.........................',
+      '............#............',
+      '............#............',
+      '.....+++....#....+++.....',
+      '.....+++....#....+++.....',
+      '.....+++....#....+++.....',
+      '............#............',
+      '............#............',
+      '.........................',
+      '.........................',
+      '...#######.....#######...',
+      '.........................',
+      '.........................',
+      '............#............',
+      '............#............',
+      '.....+++....#....+++.....',
+      '.....+++....#....+++.....',
+      '.....+++....#....+++.....',
+      '............#............',
+      '............#............',
+      '.........................',
+      '.........................',
+      '.........................'
+    ]
+  }
+];
+
+export const BUILTIN_LEVELS: Level[] = LEVEL_DEFINITIONS.map(compileLevel);
+
+export const DEFAULT_LEVEL = BUILTIN_LEVELS[0];
+
+export const findLevel = (id: string): Level | undefined => BUILTIN_LEVELS.find(level => level.id === id);
+
+// Player-chosen board for the open arenas. Levels drawn from a map keep their own layout.
+export interface BoardSettings {
+  width: number;
+  height: number;
+  spawnLength: number;
+  spawnDirection: DirectionName;
+}
+
+export const MIN_BOARD_SIZE = 10;
+export const MAX_BOARD_SIZE = 40;
+
+export const DEFAULT_BOARD_SETTINGS: BoardSettings = { width: 25, height: 25, spawnLength: 3, spawnDirection: 'up' };
+
+// Which way the body trails from the head
+const TRAIL: Record<DirectionName, Coordinate> = {
+  up: { x: 0, y: 1 },
+  down: { x: 0, y: -1 },
+  left: { x: 1, y: 0 },
+  right: { x: -1, y: 0 }
+};
+
+// Built-in levels rebuilt for the given board. The level's own spawn point is kept when the
+// snake still fits there, then the snake is centred, and the stock level is the last resort.
+export const sizeBuiltinLevels = (board: BoardSettings): Level[] =>
+  LEVEL_DEFINITIONS.map((def, i) => {
+    if (def.map || !def.spawn) return BUILTIN_LEVELS[i];
+    const trail = TRAIL[board.spawnDirection];
+    const offset = Math.floor((board.spawnLength - 1) / 2);
+    const centred = {
+      x: Math.floor(board.width / 2) - trail.x * offset,
+      y: Math.floor(board.height / 2) - trail.y * offset
+    };
+    const candidates = [def.spawn, centred];
+    for (const { x, y } of candidates) {
+      try {
+        return compileLevel({
+          ...def,
+          width: board.width,
+          height: board.height,
+          spawn: { x, y, direction: board.spawnDirection, length: board.spawnLength }
+        });
+      } catch {
+        // Try the next spawn point
+      }
+    }
+    return BUILTIN_LEVELS[i];
+  });
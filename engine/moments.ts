@@ -0,0 +1,81 @@
+import { Direction } from '../types';
+import { DeathCause, EngineEvent, GameState, isOpposite, step } from './snakeEngine';
+import { DIRECTIONS } from './pathfinding';
+
+// Spots the moments worth commenting on (close calls, streaks, records) by
+// comparing consecutive engine states. Pure, so replays would see the same moments.
+
+export type Moment =
+  | { type: 'near-miss'; hazard: DeathCause }
+  | { type: 'streak'; count: number }
+  | { type: 'record'; previousBest: number };
+
+export interface MomentTracker {
+  bestScore: number; // Best score before this run
+  recordAnnounced: boolean;
+  streak: number;
+  lastConsumeTick: number;
+  lastNearMissTick: number;
+}
+
+export const STREAK_WINDOW = 25; // Max ticks between packets to keep a streak alive
+export const STREAK_STEP = 5; // Announce every n packets of a streak
+export const NEAR_MISS_COOLDOWN = 60; // Ticks between two near-miss announcements
+
+export const createMomentTracker = (bestScore: number): MomentTracker => ({
+  bestScore,
+  recordAnnounced: false,
+  streak: 0,
+  lastConsumeTick: -Infinity,
+  lastNearMissTick: -Infinity
+});
+
+// What a move from `state` in `direction` would run into, if anything
+const hazardOf = (state: GameState, direction: Direction): DeathCause | null => {
+  const { events } = step(state, { direction });
+  for (const event of events) {
+    if (event.type === 'death' || event.type === 'integrity-hit' || event.type === 'blocked') return event.cause;
+  }
+  return null;
+};
+
+// A near miss: the move taken was the only safe one, and the alternatives would have
+// hit the trail or a watchdog (running along the outer firewall doesn't count).
+const nearMiss = (prev: GameState, taken: Direction): DeathCause | null => {
+  const options = DIRECTIONS.filter(d => !isOpposite(prev.direction, d) && d !== taken);
+  const hazards = options.map(d => hazardOf(prev, d));
+  if (hazards.some(h => h === null)) return null;
+  return hazards.find(h => h === 'self' || h === 'watchdog') ?? null;
+};
+
+export const detectMoments = (
+  tracker: MomentTracker,
+  prev: GameState,
+  next: GameState,
+  events: EngineEvent[]
+): [Moment[], MomentTracker] => {
+  const moments: Moment[] = [];
+  let updated = tracker;
+  if (!next.alive) return [moments, updated];
+
+  if (next.tick - tracker.lastNearMissTick >= NEAR_MISS_COOLDOWN && !events.some(e => e.type === 'integrity-hit')) {
+    const hazard = nearMiss(prev, next.direction);
+    if (hazard) {
+      moments.push({ type: 'near-miss', hazard });
+      updated = { ...updated, lastNearMissTick: next.tick };
+    }
+  }
+
+  if (events.some(e => e.type === 'consume')) {
+    const streak = next.tick - updated.lastConsumeTick <= STREAK_WINDOW ? updated.streak + 1 : 1;
+    if (streak % STREAK_STEP === 0) moments.push({ type: 'streak', count: streak });
+    updated = { ...updated, streak, lastConsumeTick: next.tick };
+  }
+
+  if (!updated.recordAnnounced && updated.bestScore > 0 && next.score > updated.bestScore) {
+    moments.push({ type: 'record', previousBest: updated.bestScore });
+    updated = { ...updated, recordAnnounced: true };
+  }
+
+  return [moments, updated];
+};
@@ -0,0 +1,78 @@
+import { Coordinate } from '../types';
+import { EngineEvent, GameState } from './snakeEngine';
+
+// Campaign objectives. A sector is cleared on the tick its objective is met; progress is
+// tracked like the run telemetry, from consecutive engine states.
+
+export type Objective =
+  | { type: 'packets'; count: number } // Consume this many packets
+  | { type: 'survive'; seconds: number } // Stay online this long (wall clock, pauses excluded)
+  | { type: 'length'; length: number } // Grow the trail to this many segments
+  | { type: 'keys'; keys: Coordinate[] }; // Run the head over each key, in order
+
+export interface ObjectiveProgress {
+  value: number;
+  target: number;
+  done: boolean;
+}
+
+export const objectiveTarget = (objective: Objective): number => {
+  switch (objective.type) {
+    case 'packets': return objective.count;
+    case 'survive': return objective.seconds;
+    case 'length': return objective.length;
+    case 'keys': return objective.keys.length;
+  }
+};
+
+export const describeObjective = (objective: Objective): string => {
+  switch (objective.type) {
+    case 'packets': return `Consume ${objective.count} packets`;
+    case 'survive': return `Survive ${objective.seconds} s`;
+    case 'length': return `Reach length ${objective.length}`;
+    case 'keys': return `Collect ${objective.keys.length} keys in order`;
+  }
+};
+
+export const createObjectiveProgress = (objective: Objective, initial: GameState): ObjectiveProgress => ({
+  value: objective.type === 'length' ? Math.min(initial.snake.length, objective.length) : 0,
+  target: objectiveTarget(objective),
+  done: false
+});
+
+const sameCell = (a: Coordinate | undefined, b: Coordinate | undefined) => !!a && !!b && a.x === b.x && a.y === b.y;
+
+// Returns the very same progress when nothing moved, so callers can skip re-rendering
+export const advanceObjective = (
+  objective: Objective,
+  progress: ObjectiveProgress,
+  state: GameState,
+  events: EngineEvent[],
+  elapsedMs: number
+): ObjectiveProgress => {
+  if (progress.done || !state.alive) return progress;
+  let value = progress.value;
+  switch (objective.type) {
+    case 'packets':
+      value += events.filter(e => e.type === 'consume').length;
+      break;
+    case 'survive':
+      value = Math.floor(elapsedMs / 1000);
+      break;
+    case 'length':
+      value = state.snake.length;
+      break;
+    case 'keys':
+      if (sameCell(state.snake[0], objective.keys[value])) value++;
+      break;
+  }
+  value = Math.min(value, progress.target);
+  if (value === progress.value) return progress;
+  return { ...progress, value, done: value >= progress.target };
+};
+
+// Keys still to collect, with their place in the order
+export const pendingKeys = (objective: Objective, progress: ObjectiveProgress | null): { position: Coordinate; order: number }[] =>
+  objective.type === 'keys'
+    ? objective.keys.map((position, order) => ({ position, order })).slice(progress?.value ?? 0)
+    : [];
@@ -0,0 +1,151 @@
+import { Coordinate, Direction } from '../types';
+import { EngineConfig, cellIndex, moveCoordinate, wrapCoordinate, getBoardIndex } from './board';
+
+// Grid A* shared by the watchdogs and the autopilot.
+// Respects firewalls and wrap-around edges. Portals are treated as plain floor:
+// hunters don't know how to use them, which keeps them escapable.
+
+export const DIRECTIONS: Direction[] = [Direction.UP, Direction.RIGHT, Direction.DOWN, Direction.LEFT];
+
+export interface Neighbor {
+  direction: Direction;
+  position: Coordinate;
+}
+
+// Cells reachable in one step, ignoring anything but the board layout.
+export const neighbors = (config: EngineConfig, pos: Coordinate): Neighbor[] => {
+  const { walls } = getBoardIndex(config);
+  const result: Neighbor[] = [];
+  for (const direction of DIRECTIONS) {
+    const position = wrapCoordinate(config, moveCoordinate(pos, direction));
+    if (position && !walls.has(cellIndex(config, position))) result.push({ direction, position });
+  }
+  return result;
+};
+
+// Shortest-path distance lower bound, aware of wrap-around edges.
+export const gridDistance = (config: EngineConfig, a: Coordinate, b: Coordinate): number => {
+  let dx = Math.abs(a.x - b.x);
+  let dy = Math.abs(a.y - b.y);
+  if (config.wrap.horizontal) dx = Math.min(dx, config.width - dx);
+  if (config.wrap.vertical) dy = Math.min(dy, config.height - dy);
+  return dx + dy;
+};
+
+// Minimal binary heap keyed by f-score
+class OpenSet {
+  private items: { index: number; f: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(index: number, f: number) {
+    const items = this.items;
+    items.push({ index, f });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].f <= items[i].f) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].f < items[smallest].f) smallest = left;
+        if (right < items.length && items[right].f < items[smallest].f) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top.index;
+  }
+}
+
+// Returns the path from `start` (exclusive) to `goal` (inclusive), or null if unreachable.
+// `blocked` is consulted for every cell except the goal itself.
+export const findPath = (
+  config: EngineConfig,
+  start: Coordinate,
+  goal: Coordinate,
+  blocked: (cell: number) => boolean
+): Coordinate[] | null => {
+  const startIndex = cellIndex(config, start);
+  const goalIndex = cellIndex(config, goal);
+  if (startIndex === goalIndex) return [];
+
+  const size = config.width * config.height;
+  const gScore = new Float64Array(size).fill(Infinity);
+  const cameFrom = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  const open = new OpenSet();
+
+  gScore[startIndex] = 0;
+  open.push(startIndex, gridDistance(config, start, goal));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === goalIndex) {
+      const path: Coordinate[] = [];
+      for (let i = current; i !== startIndex; i = cameFrom[i]) {
+        path.push({ x: i % config.width, y: Math.floor(i / config.width) });
+      }
+      return path.reverse();
+    }
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const pos = { x: current % config.width, y: Math.floor(current / config.width) };
+    for (const { position } of neighbors(config, pos)) {
+      const next = cellIndex(config, position);
+      if (closed[next] || (next !== goalIndex && blocked(next))) continue;
+      const tentative = gScore[current] + 1;
+      if (tentative < gScore[next]) {
+        gScore[next] = tentative;
+        cameFrom[next] = current;
+        open.push(next, tentative + gridDistance(config, position, goal));
+      }
+    }
+  }
+  return null;
+};
+
+// Number of cells reachable from `start` without crossing blocked cells (flood fill).
+export const reachableArea = (
+  config: EngineConfig,
+  start: Coordinate,
+  blocked: (cell: number) => boolean,
+  limit = Infinity
+): number => {
+  const seen = new Uint8Array(config.width * config.height);
+  const stack = [start];
+  seen[cellIndex(config, start)] = 1;
+  let count = 0;
+  while (stack.length > 0 && count < limit) {
+    const pos = stack.pop()!;
+    count++;
+    for (const { position } of neighbors(config, pos)) {
+      const next = cellIndex(config, position);
+      if (seen[next] || blocked(next)) continue;
+      seen[next] = 1;
+      stack.push(position);
+    }
+  }
+  return count;
+};
+
+// The direction that takes `from` onto the adjacent cell `to`, if they are neighbours.
+export const directionTowards = (config: EngineConfig, from: Coordinate, to: Coordinate): Direction | null =>
+  neighbors(config, from).find(n => n.position.x === to.x && n.position.y === to.y)?.direction ?? null;
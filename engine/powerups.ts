@@ -0,0 +1,103 @@
+import { Coordinate } from '../types';
+import { RngState, nextFloat } from './rng';
+
+// Packet kinds and the timed effects they grant.
+// All durations are measured in ticks so effects replay deterministically.
+
+export type PacketKind = 'data' | 'overclock' | 'slowmo' | 'ghost' | 'shrink' | 'shield';
+
+export type EffectKind = 'overclock' | 'slowmo' | 'ghost';
+
+export interface Packet extends Coordinate {
+  kind: PacketKind;
+}
+
+export interface ActiveEffect {
+  kind: EffectKind;
+  remainingTicks: number;
+  totalTicks: number;
+}
+
+interface PacketSpec {
+  label: string;
+  weight: number; // Relative spawn chance
+  effect?: { kind: EffectKind; ticks: number };
+}
+
+export const PACKET_SPECS: Record<PacketKind, PacketSpec> = {
+  data: { label: 'Data Packet', weight: 80 },
+  overclock: { label: 'Overclock', weight: 5, effect: { kind: 'overclock', ticks: 60 } },
+  slowmo: { label: 'Slow-Mo', weight: 5, effect: { kind: 'slowmo', ticks: 40 } },
+  ghost: { label: 'Ghost Phase', weight: 4, effect: { kind: 'ghost', ticks: 120 } },
+  shrink: { label: 'Shrink', weight: 3 },
+  shield: { label: 'Shield', weight: 3 }
+};
+
+export const EFFECT_LABELS: Record<EffectKind, string> = {
+  overclock: 'OVERCLOCK',
+  slowmo: 'SLOW-MO',
+  ghost: 'GHOST PHASE'
+};
+
+// Tick interval multipliers while an effect is active
+export const EFFECT_SPEED: Partial<Record<EffectKind, number>> = {
+  overclock: 0.7,
+  slowmo: 1.6
+};
+
+export const MAX_INTEGRITY = 3;
+export const START_INTEGRITY = 1;
+export const SHRINK_SEGMENTS = 3;
+export const MIN_SHRINK_LENGTH = 3;
+
+// After a hit is absorbed, further collisions are blocked without extra damage for this long
+export const HIT_GRACE_TICKS = 5;
+
+const PACKET_KINDS = Object.keys(PACKET_SPECS) as PacketKind[];
+
+export const DEFAULT_PACKET_WEIGHTS = Object.fromEntries(
+  PACKET_KINDS.map(kind => [kind, PACKET_SPECS[kind].weight])
+) as Record<PacketKind, number>;
+
+// `weights` overrides the spec weights, e.g. from the difficulty profile
+export const rollPacketKind = (
+  rngState: RngState,
+  weights: Record<PacketKind, number> = DEFAULT_PACKET_WEIGHTS
+): [PacketKind, RngState] => {
+  const [value, next] = nextFloat(rngState);
+  let roll = value * PACKET_KINDS.reduce((sum, kind) => sum + weights[kind], 0);
+  for (const kind of PACKET_KINDS) {
+    roll -= weights[kind];
+    if (roll < 0) return [kind, next];
+  }
+  return ['data', next];
+};
+
+export const hasEffect = (effects: ActiveEffect[], kind: EffectKind): boolean =>
+  effects.some(effect => effect.kind === kind);
+
+// Starting an effect that is already running refreshes its timer
+export const addEffect = (effects: ActiveEffect[], kind: EffectKind, ticks: number): ActiveEffect[] => [
+  ...effects.filter(effect => effect.kind !== kind),
+  { kind, remainingTicks: ticks, totalTicks: ticks }
+];
+
+export const removeEffect = (effects: ActiveEffect[], kind: EffectKind): ActiveEffect[] =>
+  effects.filter(effect => effect.kind !== kind);
+
+// Counts every effect down by one tick, returning the survivors and the ones that ran out
+export const tickEffects = (effects: ActiveEffect[]): [ActiveEffect[], EffectKind[]] => {
+  const remaining: ActiveEffect[] = [];
+  const expired: EffectKind[] = [];
+  for (const effect of effects) {
+    if (effect.remainingTicks <= 1) expired.push(effect.kind);
+    else remaining.push({ ...effect, remainingTicks: effect.remainingTicks - 1 });
+  }
+  return [remaining, expired];
+};
+
+export const speedMultiplier = (effects: ActiveEffect[]): number =>
+  effects.reduce((multiplier, effect) => multiplier * (EFFECT_SPEED[effect.kind] ?? 1), 1);
+
+export const pointsFor = (kind: PacketKind, effects: ActiveEffect[]): number =>
+  kind === 'data' && hasEffect(effects, 'overclock') ? 2 : 1;
@@ -0,0 +1,109 @@
+import { Direction } from '../types';
+import { EngineConfig } from './board';
+import { ArenaEvent, ArenaState, MatchState } from './arenaEngine';
+
+// Wire format shared by the multiplayer server and the browser client.
+// Messages are JSON objects with a `type` tag; the server is authoritative,
+// clients only ever send join requests and direction inputs.
+
+export const PROTOCOL_VERSION = 1;
+export const DEFAULT_SERVER_PORT = 8787;
+export const INPUT_DELAY_TICKS = 2; // Inputs land this many ticks after the tick the player saw
+export const MAX_LOBBY_NAME_LENGTH = 24;
+
+export type LobbyPhase = 'waiting' | 'playing' | 'round-over' | 'match-over';
+export type ClientRole = 'player' | 'spectator';
+
+export interface LobbyMember {
+  id: string;
+  name: string;
+  connected: boolean;
+}
+
+export interface LobbyInfo {
+  id: string;
+  hostId: string | null;
+  phase: LobbyPhase;
+  levelId: string;
+  players: LobbyMember[];
+  spectators: number;
+  match: MatchState | null;
+}
+
+// Per-tick state without the (static) board layout, which is sent once per round
+export type ArenaSnapshot = Omit<ArenaState, 'config'>;
+
+export type ClientMessage =
+  | { type: 'join'; version: number; lobby: string; name: string; token?: string }
+  | { type: 'input'; tick: number; direction: Direction }
+  | { type: 'start'; levelId: string }
+  | { type: 'leave' };
+
+export type ServerMessage =
+  | { type: 'welcome'; playerId: string; token: string; role: ClientRole; inputDelay: number }
+  | { type: 'lobby'; lobby: LobbyInfo }
+  | { type: 'round-start'; config: EngineConfig; snapshot: ArenaSnapshot; match: MatchState }
+  | { type: 'tick'; snapshot: ArenaSnapshot; events: ArenaEvent[] }
+  | { type: 'error'; message: string };
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+export const toSnapshot = ({ config, ...snapshot }: ArenaState): ArenaSnapshot => snapshot;
+
+export const fromSnapshot = (config: EngineConfig, snapshot: ArenaSnapshot): ArenaState => ({ ...snapshot, config });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDirection = (value: unknown): value is Direction =>
+  typeof value === 'number' && Direction[value] !== undefined;
+
+// Validates an incoming client message. The server never trusts the shape of what it receives.
+export const parseClientMessage = (text: string): ClientMessage => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProtocolError('Message is not valid JSON.');
+  }
+  if (!isRecord(data)) throw new ProtocolError('Message must be an object.');
+
+  switch (data.type) {
+    case 'join': {
+      if (data.version !== PROTOCOL_VERSION) {
+        throw new ProtocolError(`Unsupported protocol version ${String(data.version)} (expected ${PROTOCOL_VERSION}).`);
+      }
+      if (typeof data.lobby !== 'string' || typeof data.name !== 'string') {
+        throw new ProtocolError('Join needs a lobby and a name.');
+      }
+      const lobby = data.lobby.trim().toLowerCase().slice(0, MAX_LOBBY_NAME_LENGTH);
+      if (!lobby) throw new ProtocolError('Lobby name cannot be empty.');
+      const token = typeof data.token === 'string' ? data.token : undefined;
+      return { type: 'join', version: PROTOCOL_VERSION, lobby, name: data.name, token };
+    }
+    case 'input':
+      if (!isDirection(data.direction) || typeof data.tick !== 'number' || !Number.isInteger(data.tick)) {
+        throw new ProtocolError('Input needs a direction and a tick.');
+      }
+      return { type: 'input', tick: data.tick, direction: data.direction };
+    case 'start':
+      if (typeof data.levelId !== 'string') throw new ProtocolError('Start needs a level id.');
+      return { type: 'start', levelId: data.levelId };
+    case 'leave':
+      return { type: 'leave' };
+    default:
+      throw new ProtocolError(`Unknown message type "${String(data.type)}".`);
+  }
+};
+
+// Server messages come from our own server, so the client only checks the tag.
+export const parseServerMessage = (text: string): ServerMessage => {
+  const data: unknown = JSON.parse(text);
+  if (!isRecord(data) || typeof data.type !== 'string') throw new ProtocolError('Malformed server message.');
+  return data as unknown as ServerMessage;
+};
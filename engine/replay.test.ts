@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Direction } from '../types';
+import { createInitialState, step } from './snakeEngine';
+import { DEFAULT_DIFFICULTY } from './difficulty';
+import { Replay, ReplayFormatError, buildTimeline, createReplay, parseReplay, replayLength, serializeReplay, stateAtTick } from './replay';
+
+// Records a run that heads left until it hits the edge
+const recordToDeath = (): Replay => {
+  let state = createInitialState(7, undefined, { ...DEFAULT_DIFFICULTY, startIntegrity: 0 });
+  const replay = createReplay(state);
+  while (state.alive) {
+    replay.inputs.push(Direction.LEFT);
+    state = step(state, { direction: Direction.LEFT }).state;
+  }
+  replay.finalScore = state.score;
+  return replay;
+};
+
+describe('replays', () => {
+  it('round-trip through serialization and rebuild every tick', () => {
+    const replay = recordToDeath();
+    const parsed = parseReplay(serializeReplay(replay));
+    expect(parsed).toEqual(replay);
+    const timeline = buildTimeline(parsed);
+    expect(stateAtTick(timeline, replayLength(parsed)).alive).toBe(false);
+    expect(stateAtTick(timeline, 3).tick).toBe(3);
+  });
+
+  it('stops seeking at the end of the run', () => {
+    const replay = recordToDeath();
+    const timeline = buildTimeline(replay);
+    // The timeline is built from a valid replay, then given more inputs than the run lasted
+    replay.inputs.push(Direction.UP, Direction.UP, Direction.UP);
+    const state = stateAtTick(timeline, replayLength(replay));
+    expect(state.alive).toBe(false);
+    expect(state.tick).toBe(replayLength(replay) - 3);
+  });
+
+  it('rejects inputs past the death tick', () => {
+    const replay = recordToDeath();
+    replay.inputs.push(Direction.UP);
+    const parsed = parseReplay(serializeReplay(replay));
+    expect(() => buildTimeline(parsed)).toThrow(/past the end of the run/);
+  });
+
+  it('rejects boards out of range and cells off the board', () => {
+    const replay = recordToDeath();
+    expect(() => parseReplay(serializeReplay({ ...replay, config: { ...replay.config, width: 100000 } }))).toThrow(/between/);
+    expect(() => parseReplay(serializeReplay({ ...replay, config: { ...replay.config, walls: [{ x: -1, y: 3 }] } }))).toThrow(/outside/);
+    expect(() => parseReplay(serializeReplay({
+      ...replay,
+      config: { ...replay.config, portals: [[{ x: 1, y: 1 }, { x: 1, y: replay.config.height }]] }
+    }))).toThrow(/outside/);
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => parseReplay('{')).toThrow(ReplayFormatError);
+    expect(() => parseReplay(JSON.stringify({ version: 99 }))).toThrow(/version/);
+  });
+});
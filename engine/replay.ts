@@ -0,0 +1,194 @@
+import { Coordinate, Direction, LogSource, SystemLog } from '../types';
+import { EngineConfig, GameState, createInitialState, step } from './snakeEngine';
+import { DifficultyProfile, DEFAULT_DIFFICULTY, sanitizeProfile } from './difficulty';
+import { PACKET_SPECS } from './powerups';
+
+// A replay is the seed plus the direction that was requested on every tick.
+// Because the engine is deterministic that is enough to rebuild any frame.
+
+export const REPLAY_VERSION = 1;
+
+export interface ReplayLogEntry {
+  tick: number;
+  message: string;
+  type: SystemLog['type'];
+  source?: LogSource; // Missing in replays recorded before logs had sources
+}
+
+export interface Replay {
+  version: number;
+  seed: number;
+  config: EngineConfig;
+  difficulty: DifficultyProfile;
+  inputs: Direction[];
+  logs: ReplayLogEntry[];
+  finalScore: number;
+  recordedAt: string;
+}
+
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+export const createReplay = (initial: GameState): Replay => ({
+  version: REPLAY_VERSION,
+  seed: initial.seed,
+  config: initial.config,
+  difficulty: initial.difficulty,
+  inputs: [],
+  logs: [],
+  finalScore: 0,
+  recordedAt: new Date().toISOString()
+});
+
+// Total number of ticks in the recording.
+export const replayLength = (replay: Replay): number => replay.inputs.length;
+
+// Snapshots are kept every CHECKPOINT_INTERVAL ticks so scrubbing only ever
+// re-simulates a short stretch instead of the whole run.
+const CHECKPOINT_INTERVAL = 100;
+
+export interface ReplayTimeline {
+  replay: Replay;
+  checkpoints: GameState[];
+}
+
+// Throws ReplayFormatError when the inputs carry on after the snake died: a recording ends
+// on the tick of death, so such a file was edited or recorded by something else.
+export const buildTimeline = (replay: Replay): ReplayTimeline => {
+  let state = createInitialState(replay.seed, replay.config, replay.difficulty);
+  const checkpoints: GameState[] = [state];
+  for (let i = 0; i < replay.inputs.length; i++) {
+    if (!state.alive) throw new ReplayFormatError(`Replay continues past the end of the run at tick ${state.tick}.`);
+    state = step(state, { direction: replay.inputs[i] }).state;
+    if ((i + 1) % CHECKPOINT_INTERVAL === 0) checkpoints.push(state);
+  }
+  return { replay, checkpoints };
+};
+
+export const stateAtTick = (timeline: ReplayTimeline, tick: number): GameState => {
+  const { replay, checkpoints } = timeline;
+  const target = Math.max(0, Math.min(tick, replay.inputs.length));
+  const checkpointIndex = Math.min(Math.floor(target / CHECKPOINT_INTERVAL), checkpoints.length - 1);
+  let state = checkpoints[checkpointIndex];
+  // A dead snake's tick stops advancing, so the run's end is as far as seeking can go
+  while (state.tick < target && state.alive) {
+    state = step(state, { direction: replay.inputs[state.tick] }).state;
+  }
+  return state;
+};
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCoordinate = (value: unknown): value is Coordinate => isRecord(value) && isInteger(value.x) && isInteger(value.y);
+
+const isCoordinateList = (value: unknown): value is Coordinate[] => Array.isArray(value) && value.every(isCoordinate);
+
+const isPortal = (value: unknown): value is [Coordinate, Coordinate] =>
+  Array.isArray(value) && value.length === 2 && value.every(isCoordinate);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Board sizes a replay may declare; the lower bound matches compileLevel
+const MIN_BOARD_SIZE = 5;
+const MAX_BOARD_SIZE = 200;
+
+const inBounds = (config: { width: number; height: number }) => (c: Coordinate) =>
+  c.x >= 0 && c.x < config.width && c.y >= 0 && c.y < config.height;
+
+const DIRECTIONS = new Set<unknown>([Direction.UP, Direction.DOWN, Direction.LEFT, Direction.RIGHT]);
+const LOG_TYPES = new Set<unknown>(['info', 'warning', 'critical', 'success']);
+const LOG_SOURCES = new Set<unknown>(['engine', 'ai', 'input', 'network', 'system']);
+
+const parseConfig = (config: unknown): EngineConfig => {
+  if (
+    !isRecord(config) ||
+    !isInteger(config.width) || !isInteger(config.height) ||
+    !isCoordinateList(config.initialSnake) || config.initialSnake.length === 0 ||
+    !DIRECTIONS.has(config.initialDirection)
+  ) {
+    throw new ReplayFormatError('Replay board configuration is invalid.');
+  }
+  const { width, height, initialSnake, walls, portals, wrap, foodCells, packetSchedule } = config;
+  if (
+    !isCoordinateList(walls) ||
+    !Array.isArray(portals) || !portals.every(isPortal) ||
+    !isRecord(wrap) || typeof wrap.horizontal !== 'boolean' || typeof wrap.vertical !== 'boolean' ||
+    !(foodCells === null || isCoordinateList(foodCells)) ||
+    !(packetSchedule == null || (Array.isArray(packetSchedule) && packetSchedule.every(k => typeof k === 'string' && k in PACKET_SPECS)))
+  ) {
+    throw new ReplayFormatError('Replay level layout is invalid.');
+  }
+  if (width < MIN_BOARD_SIZE || width > MAX_BOARD_SIZE || height < MIN_BOARD_SIZE || height > MAX_BOARD_SIZE) {
+    throw new ReplayFormatError(`Replay board must be between ${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE} cells a side.`);
+  }
+  const onBoard = inBounds({ width, height });
+  const zone: Coordinate[] = isCoordinateList(foodCells) ? foodCells : [];
+  if (!initialSnake.every(onBoard) || !walls.every(onBoard) || !portals.flat().every(onBoard) || !zone.every(onBoard)) {
+    throw new ReplayFormatError('Replay level has cells outside the board.');
+  }
+  // Other fields ride along untouched, as they did when the run was recorded
+  return config as unknown as EngineConfig;
+};
+
+const parseDifficulty = (d: unknown): DifficultyProfile => {
+  if (
+    !isRecord(d) || typeof d.label !== 'string' || !isRecord(d.speed) || !isRecord(d.packetWeights) ||
+    ![d.speed.baseInterval, d.speed.msPerPoint, d.speed.minInterval, d.startIntegrity, d.watchdogScoreStep, d.maxWatchdogs, d.watchdogMoveEvery]
+      .concat(Object.values(d.packetWeights))
+      .every(isFiniteNumber)
+  ) {
+    throw new ReplayFormatError('Replay difficulty profile is invalid.');
+  }
+  return sanitizeProfile(d as unknown as DifficultyProfile);
+};
+
+const isLogEntry = (l: unknown): l is ReplayLogEntry =>
+  isRecord(l) && isInteger(l.tick) && typeof l.message === 'string' && LOG_TYPES.has(l.type) &&
+  (l.source === undefined || LOG_SOURCES.has(l.source));
+
+// Checks the file's structure. Whether the inputs fit the run is only known once it is
+// simulated, which buildTimeline does.
+export const parseReplay = (text: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ReplayFormatError('Replay file is not valid JSON.');
+  }
+  if (!isRecord(data)) throw new ReplayFormatError('Replay file is empty.');
+  if (data.version !== REPLAY_VERSION) {
+    throw new ReplayFormatError(`Unsupported replay version: ${String(data.version)}.`);
+  }
+  if (!isInteger(data.seed)) throw new ReplayFormatError('Replay seed is missing.');
+  const config = parseConfig(data.config);
+  // Recordings from before difficulty profiles were played on the default rules
+  const difficulty = data.difficulty === undefined ? DEFAULT_DIFFICULTY : parseDifficulty(data.difficulty);
+
+  const { inputs } = data;
+  if (!Array.isArray(inputs)) throw new ReplayFormatError('Replay inputs are missing.');
+  const badInput = inputs.findIndex(input => !DIRECTIONS.has(input));
+  if (badInput !== -1) throw new ReplayFormatError(`Invalid input at tick ${badInput}.`);
+
+  const logs: unknown[] = Array.isArray(data.logs) ? data.logs : [];
+  if (!logs.every(isLogEntry)) throw new ReplayFormatError('Replay log entries are invalid.');
+
+  return {
+    version: REPLAY_VERSION,
+    seed: data.seed >>> 0,
+    config,
+    difficulty,
+    inputs: inputs as Direction[],
+    logs,
+    finalScore: isInteger(data.finalScore) ? data.finalScore : 0,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : new Date(0).toISOString()
+  };
+};
@@ -0,0 +1,26 @@
+// Deterministic PRNG (mulberry32).
+// The whole generator state is a single uint32 so it can live inside the
+// serializable game state and be replayed, saved or shared as a seed.
+
+export type RngState = number;
+
+export const createRng = (seed: number): RngState => seed >>> 0;
+
+// Returns a float in [0, 1) together with the advanced generator state.
+export const nextFloat = (state: RngState): [number, RngState] => {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return [value, next];
+};
+
+// Returns an integer in [0, max) together with the advanced generator state.
+export const nextInt = (state: RngState, max: number): [number, RngState] => {
+  const [value, next] = nextFloat(state);
+  return [Math.floor(value * max), next];
+};
+
+// Fresh seed for a new session. This is the only non-deterministic call in the engine.
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
@@ -0,0 +1,77 @@
+import { Coordinate } from '../types';
+import {
+  DeathCause,
+  EngineConfig,
+  EngineEvent,
+  GameState,
+  cellIndex,
+  getBoardIndex,
+  moveCoordinate,
+  wrapCoordinate
+} from './snakeEngine';
+import { DIRECTIONS } from './pathfinding';
+
+// Per-run telemetry, accumulated tick by tick from consecutive engine states.
+// Pure like the moment tracker, so a replay would produce the same numbers.
+
+export interface RunTracker {
+  ticks: number;
+  packets: number;
+  turns: number;
+  maxLength: number;
+  nearWallTicks: number; // Ticks that ended with the head next to a firewall
+  powerups: number; // Packets other than plain data
+  watchdogsPurged: number;
+  integrityHits: number;
+  pauses: number;
+  cleared: boolean; // The run completed its sector rather than ending in a death or an abort
+  // Where the head was when the run ended; a firewall impact can lie off the board, the head never does
+  death: { cause: DeathCause; position: Coordinate } | null;
+}
+
+export const createRunTracker = (initial: GameState): RunTracker => ({
+  ticks: 0,
+  packets: 0,
+  turns: 0,
+  maxLength: initial.snake.length,
+  nearWallTicks: 0,
+  powerups: 0,
+  watchdogsPurged: 0,
+  integrityHits: 0,
+  pauses: 0,
+  cleared: false,
+  death: null
+});
+
+// A lethal edge or a wall cell on any side of `pos`
+export const isNearWall = (config: EngineConfig, pos: Coordinate): boolean => {
+  const { walls } = getBoardIndex(config);
+  return DIRECTIONS.some(direction => {
+    const next = wrapCoordinate(config, moveCoordinate(pos, direction));
+    return next === null || walls.has(cellIndex(config, next));
+  });
+};
+
+export const trackRun = (tracker: RunTracker, prev: GameState, next: GameState, events: EngineEvent[]): RunTracker => {
+  const death = events.find((e): e is Extract<EngineEvent, { type: 'death' }> => e.type === 'death');
+  const head = next.snake[0]; // A fatal tick leaves the snake where it was
+  return {
+    ticks: tracker.ticks + 1,
+    packets: tracker.packets + events.filter(e => e.type === 'consume').length,
+    turns: tracker.turns + (next.direction !== prev.direction ? 1 : 0),
+    maxLength: Math.max(tracker.maxLength, next.snake.length),
+    nearWallTicks: tracker.nearWallTicks + (next.alive && head && isNearWall(next.config, head) ? 1 : 0),
+    powerups: tracker.powerups + events.filter(e => e.type === 'consume' && e.kind !== 'data').length,
+    watchdogsPurged: tracker.watchdogsPurged + events.filter(e => e.type === 'watchdog-purged').length,
+    integrityHits: tracker.integrityHits + events.filter(e => e.type === 'integrity-hit').length,
+    pauses: tracker.pauses,
+    cleared: tracker.cleared || events.some(e => e.type === 'board-full'),
+    death: death ? { cause: death.cause, position: { ...head } } : tracker.death
+  };
+};
+
+// Pausing happens outside the engine, so the app reports it
+export const recordPause = (tracker: RunTracker): RunTracker => ({ ...tracker, pauses: tracker.pauses + 1 });
+
+// Objectives are judged outside the engine too, so the app reports a cleared sector
+export const recordClear = (tracker: RunTracker): RunTracker => ({ ...tracker, cleared: true });
@@ -0,0 +1,148 @@
+import { Sector, SectorDefinition, compileSector } from './campaign';
+
+// The campaign, in play order. Each sector unlocks once the one before it is cleared
+// and the campaign holds enough stars.
+
+export const SECTOR_DEFINITIONS: SectorDefinition[] = [
+  {
+    id: 'sector-boot',
+    name: 'Boot Sector',
+    briefing: 'A small open grid to warm up on. Every edge is lethal.',
+    level: { width: 15, height: 15, spawn: { x: 7, y: 9, direction: 'up' } },
+    objective: { type: 'packets', count: 5 },
+    stars: [{ type: 'time', seconds: 40 }, { type: 'flawless' }]
+  },
+  {
+    id: 'sector-buffer',
+    name: 'Buffer Overflow',
+    briefing: 'Grow until the buffer spills over.',
+    level: { width: 18, height: 18, spawn: { x: 9, y: 10, direction: 'up' } },
+    objective: { type: 'length', length: 12 },
+    stars: [{ type: 'time', seconds: 75 }, { type: 'no-pause' }]
+  },
+  {
+    id: 'sector-keyring',
+    name: 'Keyring',
+    briefing: 'Four brackets guard the corners. Take the keys in order.',
+    level: {
+      map: [
+        '...............',
+        '...............',
+        '..###.....###..',
+        '..#.........#..',
+        '..#.........#..',
+        '...............',
+        '...............',
+        '.......^.......',
+        '...............',
+        '...............',
+        '..#.........#..',
+        '..#.........#..',
+        '..###.....###..',
+        '...............',
+        '...............'
+      ]
+    },
+    objective: { type: 'keys', keys: [{ x: 3, y: 3 }, { x: 11, y: 11 }, { x: 11, y: 3 }] },
+    stars: [{ type: 'time', seconds: 30 }, { type: 'flawless' }]
+  },
+  {
+    id: 'sector-void',
+    name: 'Void Drift',
+    briefing: 'No firewalls, no exits. Hold out while the stream speeds up.',
+    level: 'wraparound-void',
+    objective: { type: 'survive', seconds: 60 },
+    stars: [{ type: 'flawless' }, { type: 'score', min: 15 }],
+    requiredStars: 4
+  },
+  {
+    id: 'sector-ring',
+    name: 'Ring Breach',
+    briefing: 'The walled core again, this time with a quota.',
+    level: 'firewall-ring',
+    objective: { type: 'packets', count: 12 },
+    stars: [{ type: 'time', seconds: 90 }, { type: 'flawless' }],
+    requiredStars: 6
+  },
+  {
+    id: 'sector-cross',
+    name: 'Cache Run',
+    briefing: 'Packets only spawn in the caches. Grow long enough to bridge them.',
+    level: 'data-cross',
+    objective: { type: 'length', length: 20 },
+    stars: [{ type: 'time', seconds: 120 }, { type: 'no-pause' }],
+    requiredStars: 8
+  },
+  {
+    id: 'sector-vault',
+    name: 'The Vault',
+    briefing: 'Portals link the corners. The third key waits inside the vault.',
+    level: {
+      map: [
+        '....................',
+        '.1................2.',
+        '....................',
+        '...######..######...',
+        '...#............#...',
+        '...#............#...',
+        '...#....####....#...',
+        '........#..#........',
+        '........#..#........',
+        '...#....#..#....#...',
+        '...#....#..#....#...',
+        '...#............#...',
+        '...#.....^......#...',
+        '...#............#...',
+        '...######..######...',
+        '....................',
+        '....................',
+        '.2................1.',
+        '....................',
+        '....................'
+      ]
+    },
+    objective: { type: 'keys', keys: [{ x: 18, y: 9 }, { x: 1, y: 12 }, { x: 10, y: 8 }, { x: 18, y: 18 }] },
+    stars: [{ type: 'time', seconds: 60 }, { type: 'flawless' }],
+    requiredStars: 11
+  },
+  {
+    id: 'sector-core',
+    name: 'Core Meltdown',
+    briefing: 'The last sector. Pillars everywhere and the stream never lets up.',
+    level: {
+      map: [
+        '.....................',
+        '.....................',
+        '..#######...#######..',
+        '..#...............#..',
+        '..#...............#..',
+        '..#....#.....#....#..',
+        '.......#.....#.......',
+        '.......#.....#.......',
+        '..#....#.....#....#..',
+        '..#...............#..',
+        '..#.......^.......#..',
+        '..#...............#..',
+        '..#....#.....#....#..',
+        '.......#.....#.......',
+        '.......#.....#.......',
+        '..#....#.....#....#..',
+        '..#...............#..',
+        '..#...............#..',
+        '..#######...#######..',
+        '.....................',
+        '.....................'
+      ]
+    },
+    objective: { type: 'survive', seconds: 90 },
+    stars: [{ type: 'flawless' }, { type: 'score', min: 30 }],
+    requiredStars: 14
+  }
+];
+
+export const CAMPAIGN_SECTORS: Sector[] = SECTOR_DEFINITIONS.map(compileSector);
+
+export const findSector = (id: string): Sector | undefined => CAMPAIGN_SECTORS.find(sector => sector.id === id);
+
+export const nextSector = (id: string): Sector | undefined =>
+  CAMPAIGN_SECTORS[CAMPAIGN_SECTORS.findIndex(sector => sector.id === id) + 1];
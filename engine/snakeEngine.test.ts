@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Coordinate, Direction } from '../types';
+import { EngineConfig, GameState, DEFAULT_CONFIG, createInitialState, simulate, step } from './snakeEngine';
+import { DEFAULT_DIFFICULTY } from './difficulty';
+
+// No integrity, so the first collision is fatal
+const FRAGILE = { ...DEFAULT_DIFFICULTY, startIntegrity: 0 };
+
+const stateWith = (snake: Coordinate[], direction: Direction, food: Coordinate | null = { x: 9, y: 9 }, config: Partial<EngineConfig> = {}): GameState => ({
+  ...createInitialState(1, { ...DEFAULT_CONFIG, width: 10, height: 10, ...config }, FRAGILE),
+  snake,
+  direction,
+  food: food && { ...food, kind: 'data' }
+});
+
+// A square loop: the head at (1, 1) heading left, the tail tip right below it
+const LOOP = [{ x: 1, y: 1 }, { x: 2, y: 1 }, { x: 2, y: 2 }, { x: 1, y: 2 }];
+
+describe('step', () => {
+  it('lets the head move into the cell the tail tip is leaving', () => {
+    const { state, events } = step(stateWith(LOOP, Direction.LEFT), { direction: Direction.DOWN });
+    expect(state.alive).toBe(true);
+    expect(state.snake).toEqual([{ x: 1, y: 2 }, { x: 1, y: 1 }, { x: 2, y: 1 }, { x: 2, y: 2 }]);
+    expect(events).toContainEqual({ type: 'move', head: { x: 1, y: 2 } });
+  });
+
+  it('blocks the tail tip when the snake grows on the same tick', () => {
+    const { state } = step(stateWith(LOOP, Direction.LEFT, { x: 1, y: 2 }), { direction: Direction.DOWN });
+    expect(state.alive).toBe(false);
+    expect(state.deathCause).toBe('self');
+  });
+
+  it('ends the run on the body', () => {
+    const body = [{ x: 1, y: 1 }, { x: 2, y: 1 }, { x: 2, y: 2 }, { x: 1, y: 2 }, { x: 0, y: 2 }];
+    const { state, events } = step(stateWith(body, Direction.LEFT), { direction: Direction.DOWN });
+    expect(state.deathCause).toBe('self');
+    expect(events).toContainEqual({ type: 'death', cause: 'self', position: { x: 1, y: 2 } });
+  });
+
+  it('ends the run at a lethal edge and on a firewall', () => {
+    const edge = step(stateWith([{ x: 0, y: 5 }, { x: 1, y: 5 }], Direction.LEFT)).state;
+    expect(edge.deathCause).toBe('wall');
+    const firewall = step(stateWith([{ x: 5, y: 5 }, { x: 6, y: 5 }], Direction.LEFT, null, { walls: [{ x: 4, y: 5 }] })).state;
+    expect(firewall.deathCause).toBe('wall');
+  });
+
+  it('wraps around open edges', () => {
+    const { state } = step(stateWith([{ x: 0, y: 5 }, { x: 1, y: 5 }], Direction.LEFT, null, { wrap: { horizontal: true, vertical: false } }));
+    expect(state.alive).toBe(true);
+    expect(state.snake[0]).toEqual({ x: 9, y: 5 });
+  });
+
+  it('grows by one, scores and places a new packet on a free cell when eating', () => {
+    const start = stateWith([{ x: 5, y: 5 }, { x: 6, y: 5 }, { x: 7, y: 5 }], Direction.LEFT, { x: 4, y: 5 });
+    const { state, events } = step(start);
+    expect(state.snake).toEqual([{ x: 4, y: 5 }, { x: 5, y: 5 }, { x: 6, y: 5 }, { x: 7, y: 5 }]);
+    expect(state.score).toBeGreaterThan(0);
+    expect(events.some(event => event.type === 'consume')).toBe(true);
+    expect(state.food).not.toBeNull();
+    expect(state.snake.some(segment => segment.x === state.food!.x && segment.y === state.food!.y)).toBe(false);
+  });
+
+  it('ignores a turn straight back into the neck', () => {
+    const { state } = step(stateWith([{ x: 5, y: 5 }, { x: 6, y: 5 }], Direction.LEFT), { direction: Direction.RIGHT });
+    expect(state.snake[0]).toEqual({ x: 4, y: 5 });
+  });
+
+  it('is deterministic for a seed', () => {
+    const run = () => {
+      let state = createInitialState(42);
+      for (let i = 0; i < 50 && state.alive; i++) state = step(state, { direction: i % 10 < 5 ? Direction.LEFT : Direction.UP }).state;
+      return state;
+    };
+    expect(run()).toEqual(run());
+  });
+});
+
+describe('simulate', () => {
+  it('plays the run at the given difficulty', () => {
+    const straightOn = (state: GameState) => ({ direction: state.direction });
+    const fragile = simulate(7, straightOn, 1000, DEFAULT_CONFIG, FRAGILE);
+    expect(fragile.difficulty).toBe(FRAGILE);
+    expect(fragile.alive).toBe(false);
+    expect(simulate(7, straightOn, 1000).difficulty).toBe(DEFAULT_DIFFICULTY);
+  });
+});
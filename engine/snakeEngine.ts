@@ -0,0 +1,391 @@
+import { Coordinate, Direction } from '../types';
+import { RngState, createRng, nextInt } from './rng';
+import {
+  EngineConfig,
+  cellIndex,
+  getBoardIndex,
+  moveCoordinate,
+  sameCell,
+  wrapCoordinate
+} from './board';
+import {
+  ActiveEffect,
+  EffectKind,
+  Packet,
+  PacketKind,
+  PACKET_SPECS,
+  MAX_INTEGRITY,
+  SHRINK_SEGMENTS,
+  MIN_SHRINK_LENGTH,
+  HIT_GRACE_TICKS,
+  rollPacketKind,
+  hasEffect,
+  addEffect,
+  removeEffect,
+  tickEffects,
+  speedMultiplier,
+  pointsFor
+} from './powerups';
+import { Watchdog, spawnWatchdog, planWatchdogMove } from './watchdogs';
+import { DifficultyProfile, DEFAULT_DIFFICULTY, curveInterval, watchdogQuota } from './difficulty';
+
+// Headless snake rules. Everything in here is pure: the same state and input
+// always produce the same next state, so runs can be simulated in Node,
+// replayed from a seed and unit-tested without React or a canvas.
+
+export type { EngineConfig, PortalPair } from './board';
+export { cellIndex, getBoardIndex, moveCoordinate, sameCell, wrapCoordinate } from './board';
+
+export type DeathCause = 'wall' | 'self' | 'watchdog';
+
+export interface GameState {
+  config: EngineConfig;
+  difficulty: DifficultyProfile;
+  seed: number;
+  rngState: RngState;
+  tick: number;
+  snake: Coordinate[];
+  direction: Direction;
+  food: Packet | null;
+  score: number;
+  effects: ActiveEffect[];
+  integrity: number; // Hit buffer: each point absorbs one collision
+  graceTicks: number; // Ticks left in which collisions are blocked for free after a hit
+  watchdogs: Watchdog[];
+  nextWatchdogId: number;
+  packetsSpawned: number; // Packets placed after the opening one; indexes the packet schedule
+  alive: boolean;
+  deathCause: DeathCause | null;
+}
+
+export interface StepInput {
+  direction?: Direction;
+}
+
+export type EngineEvent =
+  | { type: 'move'; head: Coordinate }
+  | { type: 'teleport'; from: Coordinate; to: Coordinate }
+  | { type: 'consume'; position: Coordinate; kind: PacketKind; points: number; score: number }
+  | { type: 'effect-start'; effect: EffectKind }
+  | { type: 'effect-end'; effect: EffectKind }
+  | { type: 'shrink'; removed: number }
+  | { type: 'integrity-restore'; integrity: number }
+  | { type: 'integrity-hit'; cause: DeathCause; integrity: number }
+  | { type: 'blocked'; cause: DeathCause }
+  | { type: 'phase'; position: Coordinate }
+  | { type: 'watchdog-spawn'; id: number; position: Coordinate }
+  | { type: 'watchdog-purged'; id: number }
+  | { type: 'food-stolen'; id: number; position: Coordinate }
+  | { type: 'death'; cause: DeathCause; position: Coordinate }
+  | { type: 'board-full' };
+
+export interface StepResult {
+  state: GameState;
+  events: EngineEvent[];
+}
+
+export const DEFAULT_CONFIG: EngineConfig = {
+  width: 25,
+  height: 25,
+  initialSnake: [
+    { x: 10, y: 10 },
+    { x: 10, y: 11 },
+    { x: 10, y: 12 }
+  ],
+  initialDirection: Direction.UP,
+  walls: [],
+  wrap: { horizontal: false, vertical: false },
+  portals: [],
+  foodCells: null
+};
+
+const OPPOSITES: Record<Direction, Direction> = {
+  [Direction.UP]: Direction.DOWN,
+  [Direction.DOWN]: Direction.UP,
+  [Direction.LEFT]: Direction.RIGHT,
+  [Direction.RIGHT]: Direction.LEFT
+};
+
+export const isOpposite = (a: Direction, b: Direction): boolean => OPPOSITES[a] === b;
+
+// Picks a uniformly random free cell. Enumerating the free cells (instead of
+// re-rolling until we miss the snake) keeps the RNG consumption bounded and
+// lets us detect a completely filled board.
+export const spawnFood = (
+  config: EngineConfig,
+  occupied: Coordinate[],
+  rngState: RngState
+): [Coordinate | null, RngState] => {
+  const { walls, portalExits } = getBoardIndex(config);
+  const taken = new Set(occupied.map(s => cellIndex(config, s)));
+  const isFree = (c: Coordinate) => {
+    const i = cellIndex(config, c);
+    return !taken.has(i) && !walls.has(i) && !portalExits.has(i);
+  };
+  const free: Coordinate[] = [];
+  if (config.foodCells) {
+    free.push(...config.foodCells.filter(isFree));
+  } else {
+    for (let y = 0; y < config.height; y++) {
+      for (let x = 0; x < config.width; x++) {
+        if (isFree({ x, y })) free.push({ x, y });
+      }
+    }
+  }
+  if (free.length === 0) return [null, rngState];
+  const [index, next] = nextInt(rngState, free.length);
+  return [free[index], next];
+};
+
+// Places the next packet and rolls what kind it is, unless the config fixes the order.
+export const spawnPacket = (
+  config: EngineConfig,
+  occupied: Coordinate[],
+  rngState: RngState,
+  weights?: Record<PacketKind, number>,
+  spawned = 0
+): [Packet | null, RngState] => {
+  const [cell, afterCell] = spawnFood(config, occupied, rngState);
+  if (!cell) return [null, afterCell];
+  const schedule = config.packetSchedule;
+  if (schedule && schedule.length > 0) return [{ ...cell, kind: schedule[spawned % schedule.length] }, afterCell];
+  const [kind, next] = rollPacketKind(afterCell, weights);
+  return [{ ...cell, kind }, next];
+};
+
+export const createInitialState = (
+  seed: number,
+  config: EngineConfig = DEFAULT_CONFIG,
+  difficulty: DifficultyProfile = DEFAULT_DIFFICULTY
+): GameState => {
+  const snake = config.initialSnake.map(s => ({ ...s }));
+  const [cell, rngState] = spawnFood(config, snake, createRng(seed));
+  return {
+    config,
+    difficulty,
+    seed,
+    rngState,
+    tick: 0,
+    snake,
+    direction: config.initialDirection,
+    // The opening packet is always plain data
+    food: cell && { ...cell, kind: 'data' },
+    score: 0,
+    effects: [],
+    integrity: difficulty.startIntegrity,
+    graceTicks: 0,
+    watchdogs: [],
+    nextWatchdogId: 1,
+    packetsSpawned: 0,
+    alive: true,
+    deathCause: null
+  };
+};
+
+// Milliseconds between ticks. Speed increases as score increases along the difficulty's
+// speed curve (lower interval = faster), then active effects such as overclock or slow-mo scale the result.
+export const getTickInterval = (state: Pick<GameState, 'score' | 'effects' | 'difficulty'>): number =>
+  Math.round(curveInterval(state.difficulty.speed, state.score) * speedMultiplier(state.effects));
+
+// Resolves the heading for this tick. Reversing straight into the neck is ignored.
+export const resolveDirection = (current: Direction, requested?: Direction): Direction => {
+  if (requested === undefined || isOpposite(current, requested)) return current;
+  return requested;
+};
+
+export const step = (state: GameState, input: StepInput = {}): StepResult => {
+  if (!state.alive) return { state, events: [] };
+  const result = stepSnake(state, input);
+  return result.state.alive ? stepWatchdogs(result) : result;
+};
+
+const stepSnake = (state: GameState, input: StepInput): StepResult => {
+  const { config, snake } = state;
+  const direction = resolveDirection(state.direction, input.direction);
+  const tick = state.tick + 1;
+  const events: EngineEvent[] = [];
+  const board = getBoardIndex(config);
+
+  let [effects, expired] = tickEffects(state.effects);
+  expired.forEach(effect => events.push({ type: 'effect-end', effect }));
+  const graceTicks = Math.max(0, state.graceTicks - 1);
+
+  // A collision either costs integrity (move cancelled, heading kept) or ends the run.
+  // A watchdog that is rammed while integrity absorbs the hit is destroyed.
+  const collide = (cause: DeathCause, position: Coordinate, watchdogId?: number): StepResult => {
+    if (graceTicks > 0) {
+      return { state: { ...state, tick, effects, graceTicks }, events: [...events, { type: 'blocked', cause }] };
+    }
+    if (state.integrity > 0) {
+      const integrity = state.integrity - 1;
+      const hitEvents: EngineEvent[] = [...events, { type: 'integrity-hit', cause, integrity }];
+      let { watchdogs } = state;
+      if (watchdogId !== undefined) {
+        watchdogs = watchdogs.filter(dog => dog.id !== watchdogId);
+        hitEvents.push({ type: 'watchdog-purged', id: watchdogId });
+      }
+      return {
+        state: { ...state, tick, effects, integrity, graceTicks: HIT_GRACE_TICKS, watchdogs },
+        events: hitEvents
+      };
+    }
+    return {
+      state: { ...state, tick, direction, effects, graceTicks, alive: false, deathCause: cause },
+      events: [...events, { type: 'death', cause, position }]
+    };
+  };
+
+  const stepped = moveCoordinate(snake[0], direction);
+  let newHead = wrapCoordinate(config, stepped);
+
+  // Check Collision (Walls): lethal edges and firewall cells
+  if (newHead === null || board.walls.has(cellIndex(config, newHead))) {
+    return collide('wall', newHead ?? stepped);
+  }
+
+  // Portals move the head to the paired endpoint within the same tick
+  const exit = board.portalExits.get(cellIndex(config, newHead));
+  if (exit) {
+    events.push({ type: 'teleport', from: newHead, to: exit });
+    newHead = exit;
+  }
+  const head = newHead;
+
+  // Check Collision (Watchdogs)
+  const rammed = state.watchdogs.find(dog => sameCell(dog.position, head));
+  if (rammed) return collide('watchdog', head, rammed.id);
+
+  const grew = state.food !== null && sameCell(head, state.food);
+
+  // Check Collision (Self). When not growing, the tail tip moves out of the
+  // way on this very tick, so entering the cell it currently occupies is legal.
+  // When growing the tail stays put and counts like any other segment.
+  const blocking = grew ? snake : snake.slice(0, -1);
+  if (blocking.some(segment => sameCell(segment, head))) {
+    if (!hasEffect(effects, 'ghost')) return collide('self', head);
+    // Ghost phase lets the head slip through the body once
+    effects = removeEffect(effects, 'ghost');
+    events.push({ type: 'phase', position: head });
+  }
+
+  let newSnake = [head, ...snake];
+  if (!grew) newSnake.pop();
+
+  events.push({ type: 'move', head });
+  let { food, rngState, score, integrity, packetsSpawned } = state;
+
+  if (grew && food) {
+    const points = pointsFor(food.kind, effects);
+    score += points;
+    events.push({ type: 'consume', position: head, kind: food.kind, points, score });
+
+    const { effect } = PACKET_SPECS[food.kind];
+    if (effect) {
+      effects = addEffect(effects, effect.kind, effect.ticks);
+      events.push({ type: 'effect-start', effect: effect.kind });
+    } else if (food.kind === 'shrink') {
+      const removed = Math.max(0, Math.min(SHRINK_SEGMENTS, newSnake.length - MIN_SHRINK_LENGTH));
+      newSnake = newSnake.slice(0, newSnake.length - removed);
+      events.push({ type: 'shrink', removed });
+    } else if (food.kind === 'shield') {
+      integrity = Math.min(MAX_INTEGRITY, integrity + 1);
+      events.push({ type: 'integrity-restore', integrity });
+    }
+
+    [food, rngState] = spawnPacket(
+      config,
+      [...newSnake, ...state.watchdogs.map(dog => dog.position)],
+      rngState,
+      state.difficulty.packetWeights,
+      packetsSpawned
+    );
+    if (food === null) events.push({ type: 'board-full' });
+    else packetsSpawned++;
+  }
+
+  return {
+    state: { ...state, tick, direction, snake: newSnake, food, rngState, score, effects, integrity, graceTicks, packetsSpawned },
+    events
+  };
+};
+
+// Spawns watchdogs as the score rises and moves them one step toward their target.
+const stepWatchdogs = ({ state, events }: StepResult): StepResult => {
+  const { config, snake, tick, difficulty } = state;
+  const head = snake[0];
+  let { watchdogs, nextWatchdogId, rngState, food, integrity, graceTicks, packetsSpawned } = state;
+  const positions = () => watchdogs.map(dog => dog.position);
+
+  if (watchdogs.length < watchdogQuota(difficulty, state.score)) {
+    const occupied = food ? [...snake, ...positions(), food] : [...snake, ...positions()];
+    const [position, next] = spawnWatchdog(config, occupied, head, rngState);
+    rngState = next;
+    if (position) {
+      const id = nextWatchdogId++;
+      watchdogs = [...watchdogs, { id, position, mode: 'hunt' }];
+      events.push({ type: 'watchdog-spawn', id, position });
+    }
+  }
+
+  if (tick % difficulty.watchdogMoveEvery === 0 && watchdogs.length > 0) {
+    const body = new Set(snake.slice(1).map(s => cellIndex(config, s)));
+    const survivors: Watchdog[] = [];
+
+    for (const [i, dog] of watchdogs.entries()) {
+      const others = new Set(
+        [...survivors, ...watchdogs.slice(i + 1)].map(other => cellIndex(config, other.position))
+      );
+      const plan = planWatchdogMove(config, dog, head, food, cell => body.has(cell) || others.has(cell));
+
+      if (sameCell(plan.position, head)) {
+        if (graceTicks > 0) {
+          // Grace period: the snake is untouchable, the watchdog waits
+          survivors.push(dog);
+          continue;
+        }
+        if (integrity > 0) {
+          integrity -= 1;
+          graceTicks = HIT_GRACE_TICKS;
+          events.push({ type: 'integrity-hit', cause: 'watchdog', integrity });
+          events.push({ type: 'watchdog-purged', id: dog.id });
+          continue;
+        }
+        return {
+          state: { ...state, watchdogs, nextWatchdogId, rngState, food, integrity, packetsSpawned, alive: false, deathCause: 'watchdog' },
+          events: [...events, { type: 'death', cause: 'watchdog', position: head }]
+        };
+      }
+
+      const moved = { ...dog, position: plan.position, mode: plan.mode };
+      survivors.push(moved);
+
+      if (food && sameCell(plan.position, food)) {
+        events.push({ type: 'food-stolen', id: dog.id, position: plan.position });
+        const occupied = [...snake, ...survivors.map(d => d.position), ...watchdogs.slice(i + 1).map(d => d.position)];
+        [food, rngState] = spawnPacket(config, occupied, rngState, difficulty.packetWeights, packetsSpawned);
+        if (food) packetsSpawned++;
+      }
+    }
+    watchdogs = survivors;
+  }
+
+  return {
+    state: { ...state, watchdogs, nextWatchdogId, rngState, food, integrity, graceTicks, packetsSpawned },
+    events
+  };
+};
+
+// Runs a whole game without rendering. `policy` is asked for an input every tick.
+export const simulate = (
+  seed: number,
+  policy: (state: GameState) => StepInput,
+  maxTicks = 100000,
+  config: EngineConfig = DEFAULT_CONFIG,
+  difficulty: DifficultyProfile = DEFAULT_DIFFICULTY
+): GameState => {
+  let state = createInitialState(seed, config, difficulty);
+  while (state.alive && state.food !== null && state.tick < maxTicks) {
+    state = step(state, policy(state)).state;
+  }
+  return state;
+};
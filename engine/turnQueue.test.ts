@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { Direction } from '../types';
+import { MAX_QUEUED_TURNS, TurnQueue, enqueueTurn, takeTurn } from './turnQueue';
+
+const { UP, DOWN, LEFT, RIGHT } = Direction;
+
+const press = (heading: Direction, ...directions: Direction[]): TurnQueue =>
+  directions.reduce<TurnQueue>((queue, direction) => enqueueTurn(queue, heading, direction), []);
+
+describe('turn queue', () => {
+  it('lets two quick turns inside one tick both land', () => {
+    expect(press(RIGHT, UP, LEFT)).toEqual([UP, LEFT]);
+  });
+
+  it('drops repeats and reversals of the turn queued before', () => {
+    expect(press(UP, UP, DOWN)).toEqual([]);
+    expect(press(UP, LEFT, LEFT, RIGHT, DOWN)).toEqual([LEFT, DOWN]);
+  });
+
+  it('keeps the oldest turns once full', () => {
+    const queue = press(UP, LEFT, UP, RIGHT, DOWN, LEFT);
+    expect(queue).toHaveLength(MAX_QUEUED_TURNS);
+    expect(queue).toEqual([LEFT, UP, RIGHT]);
+  });
+
+  it('hands out one turn per tick', () => {
+    const [first, rest] = takeTurn([LEFT, UP]);
+    expect(first).toBe(LEFT);
+    expect(takeTurn(rest)).toEqual([UP, []]);
+    expect(takeTurn([])).toEqual([undefined, []]);
+  });
+});
@@ -0,0 +1,24 @@
+import { Direction } from '../types';
+import { isOpposite } from './snakeEngine';
+
+// Buffered turns, consumed one per tick. Two quick presses inside one tick both land
+// (e.g. UP then LEFT to double back around a corner) instead of the second overwriting
+// the first. Each turn is checked against the turn queued before it, not against the
+// heading the snake had when the key went down.
+
+export const MAX_QUEUED_TURNS = 3;
+
+export type TurnQueue = Direction[];
+
+// `heading` is the direction the snake is currently moving in
+export const enqueueTurn = (queue: TurnQueue, heading: Direction, direction: Direction): TurnQueue => {
+  const last = queue.length > 0 ? queue[queue.length - 1] : heading;
+  if (direction === last || isOpposite(last, direction)) return queue;
+  // A full buffer keeps the oldest turns; the player is mashing faster than the snake moves
+  if (queue.length >= MAX_QUEUED_TURNS) return queue;
+  return [...queue, direction];
+};
+
+// The turn to apply this tick (undefined keeps the heading) and what is left
+export const takeTurn = (queue: TurnQueue): [Direction | undefined, TurnQueue] =>
+  queue.length === 0 ? [undefined, queue] : [queue[0], queue.slice(1)];
@@ -0,0 +1,67 @@
+import { Coordinate } from '../types';
+import { RngState, nextInt } from './rng';
+import { EngineConfig, cellIndex, getBoardIndex } from './board';
+import { findPath, gridDistance } from './pathfinding';
+
+// Cyber-watchdogs: hostile daemons that appear as the score rises and chase
+// the snake head across the grid. When a packet is closer to them than to the
+// snake they go after it instead and steal it.
+
+export type WatchdogMode = 'hunt' | 'forage';
+
+export interface Watchdog {
+  id: number;
+  position: Coordinate;
+  mode: WatchdogMode;
+}
+
+// Defaults for the Netrunner difficulty; the active profile decides during a run
+export const WATCHDOG_SCORE_STEP = 10; // One more watchdog per this many points
+export const MAX_WATCHDOGS = 3;
+export const WATCHDOG_MOVE_EVERY = 2; // Watchdogs move on every n-th tick, so the snake can outrun them
+export const SPAWN_MIN_DISTANCE = 8; // Never spawn right next to the snake head
+
+export const spawnWatchdog = (
+  config: EngineConfig,
+  occupied: Coordinate[],
+  head: Coordinate,
+  rngState: RngState
+): [Coordinate | null, RngState] => {
+  const { walls, portalExits } = getBoardIndex(config);
+  const taken = new Set(occupied.map(c => cellIndex(config, c)));
+  const candidates: Coordinate[] = [];
+  for (let y = 0; y < config.height; y++) {
+    for (let x = 0; x < config.width; x++) {
+      const cell = { x, y };
+      const index = cellIndex(config, cell);
+      if (taken.has(index) || walls.has(index) || portalExits.has(index)) continue;
+      if (gridDistance(config, cell, head) >= SPAWN_MIN_DISTANCE) candidates.push(cell);
+    }
+  }
+  if (candidates.length === 0) return [null, rngState];
+  const [index, next] = nextInt(rngState, candidates.length);
+  return [candidates[index], next];
+};
+
+// Decides where a watchdog steps next. `blocked` marks cells it may not enter
+// (snake body, other watchdogs); the target cell itself is always allowed.
+export const planWatchdogMove = (
+  config: EngineConfig,
+  dog: Watchdog,
+  head: Coordinate,
+  food: Coordinate | null,
+  blocked: (cell: number) => boolean
+): { position: Coordinate; mode: WatchdogMode } => {
+  const toHead = findPath(config, dog.position, head, blocked);
+  const toFood = food ? findPath(config, dog.position, food, blocked) : null;
+
+  // Forage only when the dog would reach the packet strictly before the snake
+  if (toFood && toFood.length > 0 && food && toFood.length < gridDistance(config, head, food)) {
+    return { position: toFood[0], mode: 'forage' };
+  }
+  if (toHead && toHead.length > 0) {
+    return { position: toHead[0], mode: 'hunt' };
+  }
+  // Boxed in: hold position
+  return { position: dog.position, mode: dog.mode };
+};
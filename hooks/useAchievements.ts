@@ -0,0 +1,62 @@
+import { useState, useRef, useCallback } from 'react';
+import { LogSource, SystemLog } from '../types';
+import {
+  AchievementProfile,
+  AchievementCheck,
+  CosmeticKind,
+  RunMetrics,
+  loadAchievementProfile,
+  saveAchievementProfile,
+  checkAchievements,
+  finishRun,
+  equipCosmetic,
+  cosmeticName
+} from '../services/achievementService';
+
+export interface Achievements {
+  profile: AchievementProfile;
+  // Checks the goals against a run in progress; true when something unlocked
+  track: (metrics: RunMetrics) => boolean;
+  // Books a finished run into the lifetime totals
+  finish: (metrics: RunMetrics) => void;
+  equip: (kind: CosmeticKind, id: string) => void;
+}
+
+// Achievement progress moves every tick but is only rendered and saved when something
+// unlocks or a run ends. The callbacks keep their identity, so the tick loop can hold them.
+export const useAchievements = (
+  addLog: (message: string, type?: SystemLog['type'], source?: LogSource) => void
+): Achievements => {
+  const [profile, setProfile] = useState<AchievementProfile>(loadAchievementProfile);
+  const profileRef = useRef(profile);
+
+  const commit = useCallback(({ profile: next, unlocked }: AchievementCheck) => {
+    profileRef.current = next;
+    setProfile(next);
+    saveAchievementProfile(next);
+    for (const def of unlocked) {
+      addLog(`Achievement unlocked: ${def.name}. ${def.description}`, 'success', 'system');
+      if (def.reward) {
+        const kind = def.reward.kind === 'skin' ? 'Snake skin' : 'Packet style';
+        addLog(`${kind} "${cosmeticName(def.reward.kind, def.reward.id)}" unlocked. Equip it from the achievements screen.`, 'info', 'system');
+      }
+    }
+  }, [addLog]);
+
+  const track = useCallback((metrics: RunMetrics) => {
+    const check = checkAchievements(profileRef.current, metrics);
+    if (check.unlocked.length === 0) {
+      profileRef.current = check.profile;
+      return false;
+    }
+    commit(check);
+    return true;
+  }, [commit]);
+
+  const finish = useCallback((metrics: RunMetrics) => commit(finishRun(profileRef.current, metrics)), [commit]);
+
+  const equip = useCallback((kind: CosmeticKind, id: string) =>
+    commit({ profile: equipCosmetic(profileRef.current, kind, id), unlocked: [] }), [commit]);
+
+  return { profile, track, finish, equip };
+};
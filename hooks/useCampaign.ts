@@ -0,0 +1,83 @@
+import { useState, useRef, useCallback } from 'react';
+import { GameState, EngineEvent } from '../engine/snakeEngine';
+import { Sector, SectorResult, starsFor } from '../engine/campaign';
+import { nextSector } from '../engine/sectors';
+import { ObjectiveProgress, createObjectiveProgress, advanceObjective } from '../engine/objectives';
+import { CampaignProgress, SectorClear, loadCampaignProgress, selectSector, recordSectorClear } from '../services/campaignService';
+
+export interface CampaignClear extends SectorClear {
+  stars: number;
+  complete: boolean; // It was the last sector
+}
+
+export interface Campaign {
+  progress: CampaignProgress;
+  // Objective progress of the current (or last) campaign run, and the result of the last clear
+  objective: ObjectiveProgress | null;
+  lastClear: { stars: number; elapsedMs: number } | null;
+  currentObjective: () => ObjectiveProgress | null;
+  // A picked sector shows no objective until its run starts
+  select: (sectorId: string) => void;
+  // Runs outside the campaign pass no sector
+  beginRun: (sector: Sector | undefined, initial: GameState) => void;
+  resumeRun: (objective: ObjectiveProgress | null) => void;
+  // The objective after a tick, or null when the tick did not move it
+  advance: (sector: Sector, state: GameState, events: EngineEvent[], elapsedMs: number) => ObjectiveProgress | null;
+  recordClear: (sector: Sector, result: SectorResult) => CampaignClear;
+}
+
+// Campaign progress and the objective of the run in progress. The objective moves every
+// tick through a ref; the callbacks keep their identity, so the tick loop can hold them.
+export const useCampaign = (): Campaign => {
+  const [progress, setProgress] = useState<CampaignProgress>(loadCampaignProgress);
+  const progressRef = useRef(progress);
+  const [objective, setObjective] = useState<ObjectiveProgress | null>(null);
+  const objectiveRef = useRef<ObjectiveProgress | null>(null);
+  const [lastClear, setLastClear] = useState<Campaign['lastClear']>(null);
+
+  const commitProgress = useCallback((next: CampaignProgress) => {
+    progressRef.current = next;
+    setProgress(next);
+  }, []);
+
+  const commitObjective = useCallback((next: ObjectiveProgress | null) => {
+    objectiveRef.current = next;
+    setObjective(next);
+  }, []);
+
+  const currentObjective = useCallback(() => objectiveRef.current, []);
+
+  const select = useCallback((sectorId: string) => {
+    commitProgress(selectSector(progressRef.current, sectorId));
+    commitObjective(null);
+  }, [commitProgress, commitObjective]);
+
+  const beginRun = useCallback((sector: Sector | undefined, initial: GameState) => {
+    commitObjective(sector ? createObjectiveProgress(sector.objective, initial) : null);
+    setLastClear(null);
+  }, [commitObjective]);
+
+  const resumeRun = useCallback((saved: ObjectiveProgress | null) => {
+    commitObjective(saved);
+    setLastClear(null);
+  }, [commitObjective]);
+
+  const advance = useCallback((sector: Sector, state: GameState, events: EngineEvent[], elapsedMs: number) => {
+    const current = objectiveRef.current;
+    if (!current) return null;
+    const next = advanceObjective(sector.objective, current, state, events, elapsedMs);
+    if (next === current) return null;
+    commitObjective(next);
+    return next;
+  }, [commitObjective]);
+
+  const recordClear = useCallback((sector: Sector, result: SectorResult) => {
+    const stars = starsFor(sector, result);
+    const clear = recordSectorClear(progressRef.current, sector.id, stars, result.elapsedMs);
+    commitProgress(clear.progress);
+    setLastClear({ stars, elapsedMs: result.elapsedMs });
+    return { ...clear, stars, complete: !nextSector(sector.id) };
+  }, [commitProgress]);
+
+  return { progress, objective, lastClear, currentObjective, select, beginRun, resumeRun, advance, recordClear };
+};
@@ -0,0 +1,86 @@
+import { useEffect, useRef } from 'react';
+import { InputCommand, KeyBindings, commandForKey, createGamepadPoller } from '../services/inputService';
+
+// Controls that answer Enter and Space themselves
+const PRESSABLE = 'button, a[href], summary, [role="button"], [role="link"], [role="checkbox"], [role="switch"], [role="tab"], [role="radio"], [role="option"], [role="menuitem"]';
+// Widgets that move their own selection with the arrow keys
+const ARROW_WIDGETS = '[role="tab"], [role="radio"], [role="option"], [role="menuitem"], [role="slider"]';
+const ARROW_KEYS = new Set(['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight']);
+
+// True when the focused element handles the key itself: typing in form fields, pressing
+// a focused button or link, or moving through a tab list. Other keys still steer.
+const ownsKey = (target: EventTarget | null, key: string): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    target.isContentEditable
+  ) return true;
+  if ((key === 'Enter' || key === ' ') && target.closest(PRESSABLE)) return true;
+  return ARROW_KEYS.has(key) && target.closest(ARROW_WIDGETS) !== null;
+};
+
+// Feeds keyboard and gamepad input into `onCommand`. Touch controls call the same handler
+// directly. While `enabled` is false (a menu has focus) nothing is forwarded.
+export const useInputCommands = (
+  bindings: KeyBindings,
+  enabled: boolean,
+  onCommand: (command: InputCommand) => void,
+  onGamepad?: (name: string, connected: boolean) => void
+) => {
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+  const onGamepadRef = useRef(onGamepad);
+  onGamepadRef.current = onGamepad;
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!enabledRef.current || e.repeat || ownsKey(e.target, e.key)) return;
+      const command = commandForKey(bindings, e.key);
+      if (!command) return;
+      // Keeps arrows and space from scrolling the page
+      e.preventDefault();
+      onCommandRef.current(command);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings]);
+
+  // Pads are polled once per frame, and only while at least one is connected
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return;
+    const poller = createGamepadPoller();
+    let frame: number | null = null;
+    let connected = 0;
+
+    const loop = () => {
+      const commands = poller.poll();
+      if (enabledRef.current) commands.forEach(command => onCommandRef.current(command));
+      frame = requestAnimationFrame(loop);
+    };
+    const handleConnect = (e: GamepadEvent) => {
+      connected += 1;
+      onGamepadRef.current?.(e.gamepad.id, true);
+      if (frame === null) frame = requestAnimationFrame(loop);
+    };
+    const handleDisconnect = (e: GamepadEvent) => {
+      connected = Math.max(0, connected - 1);
+      onGamepadRef.current?.(e.gamepad.id, false);
+      if (connected === 0 && frame !== null) {
+        cancelAnimationFrame(frame);
+        frame = null;
+      }
+    };
+
+    window.addEventListener('gamepadconnected', handleConnect);
+    window.addEventListener('gamepaddisconnected', handleDisconnect);
+    return () => {
+      window.removeEventListener('gamepadconnected', handleConnect);
+      window.removeEventListener('gamepaddisconnected', handleDisconnect);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, []);
+};
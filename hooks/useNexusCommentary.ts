@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react';
+import { SystemLog } from '../types';
+import { Commentator, CommentaryQueue, createCommentaryQueue } from '../services/commentaryService';
+
+// Background NEXUS commentary feeding the neural logs. The queue outlives provider
+// changes; it always asks whichever commentator is current. While disabled, requests are dropped.
+export const useNexusCommentary = (
+  commentator: Commentator,
+  addLog: (message: string, type?: SystemLog['type']) => void,
+  enabled = true
+): CommentaryQueue => {
+  const commentatorRef = useRef(commentator);
+  commentatorRef.current = commentator;
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+
+  const queueRef = useRef<CommentaryQueue | null>(null);
+  if (!queueRef.current) {
+    const queue = createCommentaryQueue(
+      () => commentatorRef.current,
+      (text, request) => request.trigger === 'incident-report'
+        ? addLog(`INCIDENT REPORT: ${text}`, 'warning')
+        : addLog(text, 'success')
+    );
+    queueRef.current = {
+      enqueue: request => {
+        if (enabledRef.current) queue.enqueue(request);
+      },
+      clear: queue.clear
+    };
+  }
+
+  useEffect(() => {
+    if (!enabled) queueRef.current?.clear();
+  }, [enabled]);
+
+  return queueRef.current;
+};
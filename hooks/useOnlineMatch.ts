@@ -0,0 +1,189 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Direction, SystemLog } from '../types';
+import { EngineConfig } from '../engine/board';
+import { ArenaState, MatchState } from '../engine/arenaEngine';
+import {
+  ClientMessage,
+  ClientRole,
+  LobbyInfo,
+  PROTOCOL_VERSION,
+  ServerMessage,
+  fromSnapshot,
+  parseServerMessage
+} from '../engine/protocol';
+import { describeArenaEvent } from './useVersusMatch';
+
+export type ConnectionStatus = 'offline' | 'connecting' | 'online' | 'reconnecting';
+
+const RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY = 1000; // Doubles on every failed attempt
+
+interface ConnectionParams {
+  url: string;
+  lobby: string;
+  name: string;
+}
+
+// Client side of an online match. The server runs the game; this hook mirrors its
+// snapshots into React state and forwards direction inputs.
+export const useOnlineMatch = (addLog: (message: string, type?: SystemLog['type']) => void) => {
+  const [connection, setConnection] = useState<ConnectionStatus>('offline');
+  const [lobby, setLobby] = useState<LobbyInfo | null>(null);
+  const [arena, setArena] = useState<ArenaState | null>(null);
+  const [match, setMatch] = useState<MatchState | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [role, setRole] = useState<ClientRole>('spectator');
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const paramsRef = useRef<ConnectionParams | null>(null);
+  const tokenRef = useRef<string | undefined>(undefined); // Reclaims our seat after a dropped connection
+  const configRef = useRef<EngineConfig | null>(null);
+  const arenaRef = useRef<ArenaState | null>(null);
+  const lobbyRef = useRef<LobbyInfo | null>(null);
+  const attemptsRef = useRef(0);
+  const retryTimerRef = useRef<number | null>(null);
+
+  const nameOf = useCallback((id: string | undefined) =>
+    lobbyRef.current?.players.find(p => p.id === id)?.name
+      ?? arenaRef.current?.players.find(p => p.id === id)?.name
+      ?? 'UNKNOWN', []);
+
+  const send = (message: ClientMessage) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const handleMessage = useCallback((message: ServerMessage) => {
+    switch (message.type) {
+      case 'welcome':
+        tokenRef.current = message.token;
+        attemptsRef.current = 0;
+        setPlayerId(message.playerId);
+        setRole(message.role);
+        setConnection('online');
+        addLog(message.role === 'player'
+          ? `Linked to lobby "${paramsRef.current?.lobby}". Input delay ${message.inputDelay} ticks.`
+          : `Linked to lobby "${paramsRef.current?.lobby}" as spectator. Match in progress.`, 'success');
+        break;
+      case 'lobby':
+        lobbyRef.current = message.lobby;
+        setLobby(message.lobby);
+        setMatch(message.lobby.match);
+        break;
+      case 'round-start': {
+        const state = fromSnapshot(message.config, message.snapshot);
+        configRef.current = message.config;
+        arenaRef.current = state;
+        setArena(state);
+        setMatch(message.match);
+        addLog(`Round ${message.match.round} // first to ${message.match.roundsToWin} takes the node.`, 'info');
+        break;
+      }
+      case 'tick': {
+        if (!configRef.current) break;
+        const state = fromSnapshot(configRef.current, message.snapshot);
+        arenaRef.current = state;
+        setArena(state);
+        for (const event of message.events) {
+          const line = describeArenaEvent(event, nameOf);
+          if (line) addLog(line.message, line.type);
+          if (event.type === 'round-over') {
+            addLog(event.winnerId ? `${nameOf(event.winnerId)} takes the round.` : "Round ends in a draw.", 'success');
+          }
+        }
+        break;
+      }
+      case 'error':
+        addLog(`Server: ${message.message}`, 'warning');
+        break;
+    }
+  }, [addLog, nameOf]);
+
+  const open = useCallback((params: ConnectionParams) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(params.url);
+    } catch (error) {
+      setConnection('offline');
+      addLog(`Invalid server address: ${error instanceof Error ? error.message : String(error)}`, 'critical');
+      return;
+    }
+    socketRef.current = socket;
+
+    socket.onopen = () => {
+      send({ type: 'join', version: PROTOCOL_VERSION, lobby: params.lobby, name: params.name, token: tokenRef.current });
+    };
+    socket.onmessage = (e) => {
+      try {
+        handleMessage(parseServerMessage(String(e.data)));
+      } catch {
+        addLog("Garbled packet from server ignored.", 'warning');
+      }
+    };
+    socket.onclose = () => {
+      if (socketRef.current !== socket) return; // Closed on purpose
+      socketRef.current = null;
+      if (attemptsRef.current >= RECONNECT_ATTEMPTS) {
+        setConnection('offline');
+        addLog("Server unreachable. Link severed.", 'critical');
+        return;
+      }
+      const delay = RECONNECT_BASE_DELAY * 2 ** attemptsRef.current++;
+      setConnection('reconnecting');
+      addLog(`Link dropped. Retrying in ${delay / 1000}s...`, 'warning');
+      retryTimerRef.current = window.setTimeout(() => open(params), delay);
+    };
+  }, [addLog, handleMessage]);
+
+  const connect = useCallback((url: string, lobbyName: string, name: string) => {
+    const params = { url, lobby: lobbyName.trim().toLowerCase(), name };
+    // A token is only good for the lobby (and server) that issued it
+    const previous = paramsRef.current;
+    if (!previous || previous.url !== params.url || previous.lobby !== params.lobby) tokenRef.current = undefined;
+    paramsRef.current = params;
+    attemptsRef.current = 0;
+    setConnection('connecting');
+    addLog(`Dialing ${url}...`, 'info');
+    open(params);
+  }, [addLog, open]);
+
+  const disconnect = useCallback(() => {
+    if (retryTimerRef.current !== null) window.clearTimeout(retryTimerRef.current);
+    retryTimerRef.current = null;
+    const socket = socketRef.current;
+    socketRef.current = null;
+    if (socket) {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'leave' } satisfies ClientMessage));
+      socket.close();
+    }
+    tokenRef.current = undefined;
+    configRef.current = null;
+    arenaRef.current = null;
+    lobbyRef.current = null;
+    setConnection('offline');
+    setLobby(null);
+    setArena(null);
+    setMatch(null);
+    setPlayerId(null);
+    setRole('spectator');
+  }, []);
+
+  // The tick sent along tells the server what we were looking at, so it can apply the fixed input delay.
+  const sendInput = useCallback((direction: Direction) => {
+    if (role !== 'player') return;
+    send({ type: 'input', tick: arenaRef.current?.tick ?? 0, direction });
+  }, [role]);
+
+  const startMatch = useCallback((levelId: string) => send({ type: 'start', levelId }), []);
+
+  useEffect(() => () => {
+    if (retryTimerRef.current !== null) window.clearTimeout(retryTimerRef.current);
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+  }, []);
+
+  const isHost = playerId !== null && lobby?.hostId === playerId;
+
+  return { connection, lobby, arena, match, playerId, role, isHost, connect, disconnect, sendInput, startMatch, nameOf };
+};
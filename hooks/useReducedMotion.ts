@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { MotionMode, isMotionReduced, prefersReducedMotion, watchReducedMotion } from '../services/themeService';
+
+// Whether animation should hold still: forced by the setting, or in 'auto' following the
+// system preference as it changes
+export const useReducedMotion = (mode: MotionMode): boolean => {
+  const [systemPrefers, setSystemPrefers] = useState(prefersReducedMotion);
+  useEffect(() => watchReducedMotion(setSystemPrefers), []);
+  return isMotionReduced(mode, systemPrefers);
+};
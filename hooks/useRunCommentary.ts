@@ -0,0 +1,43 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { SystemLog } from '../types';
+import { GameState } from '../engine/snakeEngine';
+import { EFFECT_LABELS } from '../engine/powerups';
+import { CommentaryRequest, CommentarySettings, GameContext, createCommentator, createProvider } from '../services/commentaryService';
+import { useNexusCommentary } from './useNexusCommentary';
+
+export interface RunCommentary {
+  comment: (trigger: CommentaryRequest['trigger'], state: GameState, details?: CommentaryRequest['details']) => void;
+  clear: () => void;
+}
+
+// NEXUS commentary on the live run. `comment` keeps its identity for the whole session and
+// reads the record and sector name when it is called, so the tick loop never holds a stale copy.
+export const useRunCommentary = (
+  settings: CommentarySettings,
+  addLog: (message: string, type?: SystemLog['type']) => void,
+  highScore: number,
+  sector: string
+): RunCommentary => {
+  // Rebuilt whenever the provider settings change
+  const commentator = useMemo(() => createCommentator(createProvider(settings), settings), [settings]);
+  const nexus = useNexusCommentary(commentator, addLog, settings.enabled);
+
+  const runRef = useRef({ highScore, sector });
+  runRef.current = { highScore, sector };
+
+  const comment = useCallback((trigger: CommentaryRequest['trigger'], state: GameState, details?: CommentaryRequest['details']) => {
+    const context: GameContext = {
+      score: state.score,
+      highScore: runRef.current.highScore,
+      length: state.snake.length,
+      tick: state.tick,
+      integrity: state.integrity,
+      effects: state.effects.map(e => EFFECT_LABELS[e.kind]),
+      watchdogs: state.watchdogs.length,
+      sector: runRef.current.sector
+    };
+    nexus.enqueue({ trigger, context, details });
+  }, [nexus]);
+
+  return useMemo(() => ({ comment, clear: nexus.clear }), [comment, nexus]);
+};
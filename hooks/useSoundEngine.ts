@@ -0,0 +1,42 @@
+import { useRef, useEffect, useCallback } from 'react';
+import { AudioSettings, SoundEngine, SoundEffect, createSoundEngine } from '../services/soundService';
+
+// Owns the app's single sound engine: unlocks audio on the first gesture, runs the
+// music while `musicOn` and keeps its tempo locked to the game's tick interval.
+// Volumes come from the settings screen, which also persists them.
+export const useSoundEngine = (musicOn: boolean, tickInterval: number, settings: AudioSettings) => {
+  const engineRef = useRef<SoundEngine | null>(null);
+  if (!engineRef.current) engineRef.current = createSoundEngine();
+  const engine = engineRef.current;
+
+  useEffect(() => {
+    const unlock = () => {
+      engine.unlock();
+      engine.apply(settings);
+    };
+    window.addEventListener('keydown', unlock);
+    window.addEventListener('pointerdown', unlock);
+    return () => {
+      window.removeEventListener('keydown', unlock);
+      window.removeEventListener('pointerdown', unlock);
+    };
+  }, [engine, settings]);
+
+  useEffect(() => {
+    if (!musicOn) return;
+    engine.startMusic();
+    return () => engine.stopMusic();
+  }, [engine, musicOn]);
+
+  useEffect(() => {
+    engine.setTempo(tickInterval);
+  }, [engine, tickInterval]);
+
+  useEffect(() => {
+    engine.apply(settings);
+  }, [engine, settings]);
+
+  const play = useCallback((effect: SoundEffect) => engine.play(effect), [engine]);
+
+  return { play };
+};
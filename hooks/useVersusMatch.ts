@@ -0,0 +1,127 @@
+import { useState, useRef, useCallback } from 'react';
+import { Direction, SystemLog } from '../types';
+import { EngineConfig } from '../engine/board';
+import { randomSeed } from '../engine/rng';
+import { TurnQueue, enqueueTurn, takeTurn } from '../engine/turnQueue';
+import {
+  ArenaState,
+  ArenaDeathCause,
+  ArenaEvent,
+  MatchState,
+  PlayerSpec,
+  createArena,
+  stepArena,
+  createMatch,
+  recordRound,
+  nextRound
+} from '../engine/arenaEngine';
+
+export const VERSUS_PLAYERS: PlayerSpec[] = [
+  { id: 'p1', name: 'PLAYER 1' },
+  { id: 'p2', name: 'PLAYER 2' }
+];
+
+const DEATH_MESSAGES: Record<ArenaDeathCause, string> = {
+  wall: 'hit a firewall',
+  self: 'looped into their own trail',
+  body: 'crashed into',
+  'head-on': 'collided head-on with'
+};
+
+// Log line for a per-player arena event (shared with online matches)
+export const describeArenaEvent = (
+  event: ArenaEvent,
+  nameOf: (id: string | undefined) => string
+): { message: string; type: SystemLog['type'] } | null => {
+  switch (event.type) {
+    case 'consume':
+      return { message: `${nameOf(event.playerId)} consumed a packet (${event.score}).`, type: 'info' };
+    case 'death': {
+      const victim = nameOf(event.playerId);
+      const message = event.killerId
+        ? `${victim} ${DEATH_MESSAGES[event.cause]} ${nameOf(event.killerId)}.`
+        : `${victim} ${DEATH_MESSAGES[event.cause]}.`;
+      return { message, type: 'critical' };
+    }
+    default:
+      return null;
+  }
+};
+
+export type VersusTickResult = 'continue' | 'round-over' | 'match-over';
+
+// Local two-player match: one shared board, both players on the same keyboard.
+export const useVersusMatch = (addLog: (message: string, type?: SystemLog['type']) => void) => {
+  const [arena, setArena] = useState<ArenaState | null>(null);
+  const [match, setMatch] = useState<MatchState | null>(null);
+  const arenaRef = useRef<ArenaState | null>(null);
+  const matchRef = useRef<MatchState | null>(null);
+  const turnsRef = useRef<Record<string, TurnQueue>>({});
+
+  const nameOf = (id: string | undefined) => VERSUS_PLAYERS.find(p => p.id === id)?.name ?? 'UNKNOWN';
+
+  const beginRound = useCallback((config: EngineConfig, state: MatchState) => {
+    const next = createArena(randomSeed(), config, VERSUS_PLAYERS);
+    arenaRef.current = next;
+    matchRef.current = state;
+    turnsRef.current = {};
+    setArena(next);
+    setMatch(state);
+    addLog(`Round ${state.round} // first to ${state.roundsToWin} takes the node.`, 'info');
+  }, [addLog]);
+
+  const startMatch = useCallback((config: EngineConfig) => {
+    beginRound(config, createMatch(VERSUS_PLAYERS.map(p => p.id)));
+  }, [beginRound]);
+
+  const startNextRound = useCallback((config: EngineConfig) => {
+    if (matchRef.current) beginRound(config, nextRound(matchRef.current));
+  }, [beginRound]);
+
+  const queueInput = useCallback((playerId: string, direction: Direction) => {
+    const player = arenaRef.current?.players.find(p => p.id === playerId);
+    if (!player) return;
+    turnsRef.current[playerId] = enqueueTurn(turnsRef.current[playerId] ?? [], player.direction, direction);
+  }, []);
+
+  const tick = useCallback((): VersusTickResult => {
+    const current = arenaRef.current;
+    if (!current || !matchRef.current) return 'continue';
+
+    const inputs: Record<string, Direction | undefined> = {};
+    for (const [playerId, queue] of Object.entries(turnsRef.current)) {
+      [inputs[playerId], turnsRef.current[playerId]] = takeTurn(queue);
+    }
+    const { state, events } = stepArena(current, inputs);
+    arenaRef.current = state;
+    setArena(state);
+
+    let result: VersusTickResult = 'continue';
+    for (const event of events) {
+      const line = describeArenaEvent(event, nameOf);
+      if (line) addLog(line.message, line.type);
+      if (event.type === 'round-over') {
+        const updated = recordRound(matchRef.current, event.winnerId);
+        matchRef.current = updated;
+        setMatch(updated);
+        addLog(event.winnerId ? `${nameOf(event.winnerId)} takes round ${updated.round}.` : `Round ${updated.round} is a draw.`, 'success');
+        if (updated.winnerId) {
+          addLog(`${nameOf(updated.winnerId)} wins the match.`, 'success');
+          result = 'match-over';
+        } else {
+          result = 'round-over';
+        }
+      }
+    }
+    return result;
+  }, [addLog]);
+
+  const reset = useCallback(() => {
+    arenaRef.current = null;
+    matchRef.current = null;
+    setArena(null);
+    setMatch(null);
+  }, []);
+
+  return { arena, match, startMatch, startNextRound, queueInput, tick, reset, nameOf };
+};
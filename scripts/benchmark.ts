@@ -0,0 +1,44 @@
+// Usage: npm run benchmark -- [--seeds 50] [--max-ticks 20000] [--level open-grid] [--strategy astar] [--difficulty black-ice]
+import { runBenchmark, formatReport } from '../engine/benchmark';
+import { AutopilotStrategy, STRATEGIES } from '../engine/autopilot';
+import { BUILTIN_LEVELS, DEFAULT_LEVEL } from '../engine/levels';
+import { DifficultyPresetId, DIFFICULTY_PRESETS, DIFFICULTY_PRESET_IDS } from '../engine/difficulty';
+
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const seedCount = Number(option('seeds') ?? 20);
+const maxTicks = Number(option('max-ticks') ?? 20000);
+const levelId = option('level') ?? DEFAULT_LEVEL.id;
+const level = BUILTIN_LEVELS.find(l => l.id === levelId);
+const strategy = option('strategy') as AutopilotStrategy | undefined;
+const difficultyId = (option('difficulty') ?? 'netrunner') as DifficultyPresetId;
+
+if (!level) {
+  console.error(`Unknown level "${levelId}". Available: ${BUILTIN_LEVELS.map(l => l.id).join(', ')}`);
+  process.exit(1);
+}
+if (strategy && !STRATEGIES.includes(strategy)) {
+  console.error(`Unknown strategy "${strategy}". Available: ${STRATEGIES.join(', ')}`);
+  process.exit(1);
+}
+if (!DIFFICULTY_PRESET_IDS.includes(difficultyId)) {
+  console.error(`Unknown difficulty "${difficultyId}". Available: ${DIFFICULTY_PRESET_IDS.join(', ')}`);
+  process.exit(1);
+}
+const difficulty = DIFFICULTY_PRESETS[difficultyId];
+
+console.log(`Benchmarking on ${level.name} (${difficulty.label}): ${seedCount} seeds, max ${maxTicks} ticks per game\n`);
+const started = Date.now();
+const reports = runBenchmark({
+  strategies: strategy ? [strategy] : STRATEGIES,
+  seeds: Array.from({ length: seedCount }, (_, i) => i + 1),
+  maxTicks,
+  config: level.config,
+  difficulty
+});
+console.log(formatReport(reports));
+console.log(`\nDone in ${((Date.now() - started) / 1000).toFixed(1)}s`);
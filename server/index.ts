@@ -0,0 +1,83 @@
+// Usage: npm run server -- [--port 8787]
+// Hosts CyberSnake lobbies on the local network. Players connect from the app's Online mode.
+import { WebSocketServer, WebSocket } from 'ws';
+import { DEFAULT_SERVER_PORT, ProtocolError, ServerMessage, parseClientMessage } from '../engine/protocol';
+import { Lobby } from './lobby';
+
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const port = Number(option('port') ?? DEFAULT_SERVER_PORT);
+const HEARTBEAT_MS = 10000; // Drops sockets that stop answering pings (e.g. a laptop lid closed)
+
+const lobbies = new Map<string, Lobby>();
+
+const getLobby = (id: string): Lobby => {
+  let lobby = lobbies.get(id);
+  if (!lobby) {
+    lobby = new Lobby(id, empty => {
+      lobbies.delete(empty.id);
+      console.log(`Lobby "${empty.id}" closed.`);
+    });
+    lobbies.set(id, lobby);
+    console.log(`Lobby "${id}" opened.`);
+  }
+  return lobby;
+};
+
+const reply = (socket: WebSocket, message: ServerMessage) => socket.send(JSON.stringify(message));
+
+const server = new WebSocketServer({ port });
+const alive = new WeakSet<WebSocket>();
+
+server.on('connection', socket => {
+  let session: { lobby: Lobby; memberId: string } | null = null;
+  alive.add(socket);
+  socket.on('pong', () => alive.add(socket));
+
+  socket.on('message', data => {
+    try {
+      const message = parseClientMessage(data.toString());
+      if (session) {
+        session.lobby.handle(session.memberId, message);
+        // Leaving frees the socket to join again
+        if (message.type === 'leave') session = null;
+      } else if (message.type === 'join') {
+        const lobby = getLobby(message.lobby);
+        session = { lobby, memberId: lobby.join(socket, message.name, message.token) };
+      } else {
+        reply(socket, { type: 'error', message: 'Join a lobby first.' });
+      }
+    } catch (error) {
+      if (error instanceof ProtocolError) return reply(socket, { type: 'error', message: error.message });
+      // A bug in one lobby must not take the others down with it
+      console.error('Failed to handle message:', error);
+      reply(socket, { type: 'error', message: 'Server error.' });
+    }
+  });
+
+  socket.on('close', () => {
+    if (session && lobbies.get(session.lobby.id) === session.lobby) session.lobby.disconnect(session.memberId, socket);
+  });
+});
+
+const heartbeat = setInterval(() => {
+  server.clients.forEach(socket => {
+    if (!alive.has(socket)) return socket.terminate();
+    alive.delete(socket);
+    socket.ping();
+  });
+}, HEARTBEAT_MS);
+
+server.on('close', () => clearInterval(heartbeat));
+server.on('listening', () => console.log(`CyberSnake server listening on ws://0.0.0.0:${port}`));
+
+const shutdown = () => {
+  lobbies.forEach(lobby => lobby.close());
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Direction } from '../types';
+import { DEFAULT_LEVEL } from '../engine/levels';
+import { LobbyInfo, ServerMessage } from '../engine/protocol';
+import { stepArena } from '../engine/arenaEngine';
+import { Connection, Lobby, RECONNECT_GRACE_MS } from './lobby';
+
+// Lets a test make one arena step fail
+vi.mock('../engine/arenaEngine', async importOriginal => {
+  const actual = await importOriginal<typeof import('../engine/arenaEngine')>();
+  return { ...actual, stepArena: vi.fn(actual.stepArena) };
+});
+
+// Records everything the lobby sends down one socket
+const client = () => {
+  const messages: ServerMessage[] = [];
+  const connection: Connection = { send: text => void messages.push(JSON.parse(text)) };
+  const last = <K extends ServerMessage['type']>(type: K) =>
+    [...messages].reverse().find(m => m.type === type) as Extract<ServerMessage, { type: K }> | undefined;
+  return { connection, messages, last, lobby: (): LobbyInfo => last('lobby')!.lobby };
+};
+
+describe('lobby', () => {
+  let onEmpty: ReturnType<typeof vi.fn>;
+  let lobby: Lobby;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    onEmpty = vi.fn();
+    lobby = new Lobby('den', onEmpty);
+  });
+
+  afterEach(() => {
+    lobby.close();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('seats the first runner as host and hands out reconnect tokens', () => {
+    const a = client();
+    const b = client();
+    const aId = lobby.join(a.connection, 'ada');
+    const bId = lobby.join(b.connection, 'bob');
+
+    expect(a.last('welcome')).toMatchObject({ playerId: aId, role: 'player' });
+    expect(b.last('welcome')?.token).toMatch(/^[0-9a-f]{32}$/);
+    expect(b.lobby()).toMatchObject({ hostId: aId, phase: 'waiting' });
+    expect(b.lobby().players.map(p => [p.id, p.name])).toEqual([[aId, 'ADA'], [bId, 'BOB']]);
+  });
+
+  it('only lets the host start, with two runners, on a known sector', () => {
+    const a = client();
+    const b = client();
+    const aId = lobby.join(a.connection, 'ada');
+    lobby.handle(aId, { type: 'start', levelId: DEFAULT_LEVEL.id });
+    expect(a.last('error')?.message).toBe('Waiting for a second runner.');
+
+    const bId = lobby.join(b.connection, 'bob');
+    lobby.handle(bId, { type: 'start', levelId: DEFAULT_LEVEL.id });
+    expect(b.last('error')?.message).toBe('Only the host can start the match.');
+    lobby.handle(aId, { type: 'start', levelId: 'nowhere' });
+    expect(a.last('error')?.message).toBe('Unknown sector "nowhere".');
+
+    lobby.handle(aId, { type: 'start', levelId: DEFAULT_LEVEL.id });
+    expect(b.last('round-start')).toBeDefined();
+    expect(b.lobby().phase).toBe('playing');
+  });
+
+  it('keeps a dropped seat for the grace period and frees it afterwards', () => {
+    const a = client();
+    const b = client();
+    lobby.join(a.connection, 'ada');
+    const bId = lobby.join(b.connection, 'bob');
+
+    lobby.disconnect(bId, b.connection);
+    expect(a.lobby().players.find(p => p.id === bId)?.connected).toBe(false);
+    vi.advanceTimersByTime(RECONNECT_GRACE_MS);
+    expect(a.lobby().players.map(p => p.id)).not.toContain(bId);
+  });
+
+  it('ignores the close of a socket that a reconnect already replaced', () => {
+    const a = client();
+    const old = client();
+    const fresh = client();
+    lobby.join(a.connection, 'ada');
+    const bId = lobby.join(old.connection, 'bob');
+    const token = old.last('welcome')!.token;
+
+    expect(lobby.join(fresh.connection, 'bob', token)).toBe(bId);
+    lobby.disconnect(bId, old.connection);
+    vi.advanceTimersByTime(RECONNECT_GRACE_MS);
+    expect(a.lobby().players.find(p => p.id === bId)?.connected).toBe(true);
+  });
+
+  it('hands the host role on when the host leaves and closes when empty', () => {
+    const a = client();
+    const b = client();
+    const aId = lobby.join(a.connection, 'ada');
+    const bId = lobby.join(b.connection, 'bob');
+
+    lobby.handle(aId, { type: 'leave' });
+    expect(b.lobby().hostId).toBe(bId);
+    expect(onEmpty).not.toHaveBeenCalled();
+    lobby.handle(bId, { type: 'leave' });
+    expect(onEmpty).toHaveBeenCalledWith(lobby);
+  });
+
+  describe('during a match', () => {
+    let a: ReturnType<typeof client>;
+    let aId: string;
+
+    // Starts a two-runner match hosted by `a`
+    const start = () => {
+      a = client();
+      aId = lobby.join(a.connection, 'ada');
+      lobby.join(client().connection, 'bob');
+      lobby.handle(aId, { type: 'start', levelId: DEFAULT_LEVEL.id });
+    };
+    // The first runner's heading after each of the next ticks
+    const headings = (ticks: number) => {
+      const seen: Direction[] = [];
+      for (let i = 0; i < ticks; i++) {
+        vi.advanceTimersToNextTimer();
+        seen.push(a.last('tick')!.snapshot.players.find(p => p.id === aId)!.direction);
+      }
+      return seen;
+    };
+
+    it('caps how far ahead a runner can queue turns', () => {
+      start();
+      const heading = a.last('round-start')!.snapshot.players.find(p => p.id === aId)!.direction;
+      expect(heading).toBe(Direction.UP);
+      for (let i = 0; i < 20; i++) lobby.handle(aId, { type: 'input', tick: 0, direction: i % 2 ? Direction.UP : Direction.LEFT });
+
+      const { UP, LEFT } = Direction;
+      // Three turns land, two ticks after the tick the runner saw; the rest are dropped
+      expect(headings(10)).toEqual([UP, UP, LEFT, UP, LEFT, LEFT, LEFT, LEFT, LEFT, LEFT]);
+    });
+
+    it('drops turns that repeat or reverse the one before', () => {
+      start();
+      const { DOWN, UP, LEFT } = Direction;
+      [UP, DOWN, LEFT, LEFT, Direction.RIGHT].forEach(direction => lobby.handle(aId, { type: 'input', tick: 0, direction }));
+      expect(headings(4)).toEqual([UP, UP, LEFT, LEFT]);
+    });
+
+    it('ends only the match when a tick fails', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      start();
+      vi.mocked(stepArena).mockImplementationOnce(() => {
+        throw new Error('boom');
+      });
+      vi.advanceTimersToNextTimer();
+      expect(a.last('error')?.message).toBe('Match aborted by a server error.');
+      expect(a.lobby().phase).toBe('waiting');
+      expect(vi.getTimerCount()).toBe(0);
+
+      // The lobby is still usable
+      lobby.handle(aId, { type: 'start', levelId: DEFAULT_LEVEL.id });
+      expect(a.lobby().phase).toBe('playing');
+    });
+  });
+});
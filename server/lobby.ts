@@ -0,0 +1,303 @@
+import { randomBytes } from 'crypto';
+import { Direction } from '../types';
+import { randomSeed } from '../engine/rng';
+import { DEFAULT_LEVEL, findLevel } from '../engine/levels';
+import { isOpposite } from '../engine/snakeEngine';
+import { MAX_QUEUED_TURNS } from '../engine/turnQueue';
+import {
+  ArenaInputs,
+  ArenaState,
+  MatchState,
+  MAX_ARENA_PLAYERS,
+  arenaTickInterval,
+  createArena,
+  createMatch,
+  nextRound,
+  recordRound,
+  stepArena
+} from '../engine/arenaEngine';
+import {
+  ClientMessage,
+  ClientRole,
+  INPUT_DELAY_TICKS,
+  LobbyInfo,
+  LobbyPhase,
+  ServerMessage,
+  toSnapshot
+} from '../engine/protocol';
+
+export const ROUND_BREAK_MS = 3000; // Pause between rounds so everyone sees the result
+export const RECONNECT_GRACE_MS = 30000; // How long a dropped player keeps their seat
+const MAX_PLAYER_NAME_LENGTH = 12;
+
+// Anything that can carry a text frame to one client (a ws socket in production)
+export interface Connection {
+  send(text: string): void;
+}
+
+interface Member {
+  id: string;
+  token: string; // Secret handed out on join, presented again to reconnect
+  name: string;
+  role: ClientRole;
+  connection: Connection | null;
+  dropTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const sanitizeName = (name: string): string =>
+  name.replace(/[^\w\- .]/g, '').trim().toUpperCase().slice(0, MAX_PLAYER_NAME_LENGTH) || 'ANON';
+
+// One match room. The lobby owns the authoritative arena and advances it on its
+// own clock; clients only see snapshots and can only submit direction changes.
+export class Lobby {
+  private members = new Map<string, Member>(); // Insertion order doubles as join order
+  private hostId: string | null = null;
+  private phase: LobbyPhase = 'waiting';
+  private levelId = DEFAULT_LEVEL.id;
+  private arena: ArenaState | null = null;
+  private match: MatchState | null = null;
+  private scheduled = new Map<number, ArenaInputs>(); // Inputs keyed by the tick they apply on
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextMemberId = 1;
+
+  constructor(readonly id: string, private onEmpty: (lobby: Lobby) => void) {}
+
+  get size() {
+    return this.members.size;
+  }
+
+  // Returns the member id the connection is now bound to.
+  join(connection: Connection, name: string, token?: string): string {
+    const returning = token ? [...this.members.values()].find(m => m.token === token) : undefined;
+    if (returning) {
+      if (returning.dropTimer) clearTimeout(returning.dropTimer);
+      returning.dropTimer = null;
+      returning.connection = connection;
+      this.welcome(returning);
+      this.broadcastLobby();
+      return returning.id;
+    }
+
+    const seatFree = this.phase !== 'playing' && this.phase !== 'round-over' && this.players().length < MAX_ARENA_PLAYERS;
+    const member: Member = {
+      id: `${this.id}-${this.nextMemberId++}`,
+      token: randomBytes(16).toString('hex'),
+      name: sanitizeName(name),
+      role: seatFree ? 'player' : 'spectator',
+      connection,
+      dropTimer: null
+    };
+    this.members.set(member.id, member);
+    if (member.role === 'player' && !this.hostId) this.hostId = member.id;
+    this.welcome(member);
+    this.broadcastLobby();
+    return member.id;
+  }
+
+  handle(memberId: string, message: ClientMessage) {
+    const member = this.members.get(memberId);
+    if (!member) return;
+    switch (message.type) {
+      case 'input':
+        this.queueInput(member, message.tick, message.direction);
+        break;
+      case 'start':
+        this.startMatch(member, message.levelId);
+        break;
+      case 'leave':
+        this.remove(member);
+        break;
+      case 'join':
+        this.send(member, { type: 'error', message: 'Already joined.' });
+        break;
+    }
+  }
+
+  // The seat is kept for a while so the player can reconnect mid-match. A socket that has
+  // already been replaced by a reconnect closing late is ignored.
+  disconnect(memberId: string, connection: Connection) {
+    const member = this.members.get(memberId);
+    if (!member || member.connection !== connection) return;
+    member.connection = null;
+    member.dropTimer = setTimeout(() => this.remove(member), RECONNECT_GRACE_MS);
+    this.broadcastLobby();
+  }
+
+  close() {
+    if (this.timer) clearTimeout(this.timer);
+    this.members.forEach(m => m.dropTimer && clearTimeout(m.dropTimer));
+    this.timer = null;
+  }
+
+  private players() {
+    return [...this.members.values()].filter(m => m.role === 'player');
+  }
+
+  private remove(member: Member) {
+    if (member.dropTimer) clearTimeout(member.dropTimer);
+    this.members.delete(member.id);
+    if (this.hostId === member.id) this.hostId = this.players()[0]?.id ?? null;
+    // A departed player's snake stays on the board until it crashes; the seat frees up after the round
+    if (this.phase === 'waiting' || this.phase === 'match-over') this.promoteSpectators();
+    if (this.members.size === 0) {
+      this.close();
+      this.onEmpty(this);
+      return;
+    }
+    this.broadcastLobby();
+  }
+
+  private promoteSpectators() {
+    for (const member of this.members.values()) {
+      if (this.players().length >= MAX_ARENA_PLAYERS) break;
+      if (member.role !== 'spectator' || !member.connection) continue;
+      member.role = 'player';
+      this.hostId = this.hostId ?? member.id;
+      this.welcome(member);
+    }
+  }
+
+  private startMatch(member: Member, levelId: string) {
+    if (member.id !== this.hostId) return this.send(member, { type: 'error', message: 'Only the host can start the match.' });
+    if (this.phase === 'playing' || this.phase === 'round-over') return;
+    if (!findLevel(levelId)) return this.send(member, { type: 'error', message: `Unknown sector "${levelId}".` });
+    const players = this.players().filter(p => p.connection);
+    if (players.length < 2) return this.send(member, { type: 'error', message: 'Waiting for a second runner.' });
+
+    this.levelId = levelId;
+    this.match = createMatch(players.map(p => p.id));
+    this.startRound();
+  }
+
+  private startRound() {
+    const level = findLevel(this.levelId) ?? DEFAULT_LEVEL;
+    const players = this.players().filter(p => this.match && p.id in this.match.wins);
+    // Not enough runners left to continue the match
+    if (!this.match || players.length < 2) return this.endMatch();
+
+    this.arena = createArena(randomSeed(), level.config, players.map(p => ({ id: p.id, name: p.name })));
+    this.scheduled.clear();
+    this.phase = 'playing';
+    this.broadcastLobby();
+    this.broadcast({ type: 'round-start', config: this.arena.config, snapshot: toSnapshot(this.arena), match: this.match });
+    this.scheduleTick();
+  }
+
+  // Inputs are delayed by a fixed number of ticks after the tick the player last saw, so
+  // a player with a slower link gets the same reaction window as everyone else.
+  // Turns follow the client's turn queue rules: each is checked against the turn before it,
+  // and a player can only be MAX_QUEUED_TURNS ticks ahead of the latest slot.
+  private queueInput(member: Member, seenTick: number, direction: Direction) {
+    if (this.phase !== 'playing' || !this.arena || member.role !== 'player') return;
+    const player = this.arena.players.find(p => p.id === member.id);
+    if (!player?.alive) return;
+    const current = this.arena.tick;
+
+    let lastTick = -1;
+    let last = player.direction;
+    this.scheduled.forEach((inputs, tick) => {
+      const queued = inputs[member.id];
+      if (queued !== undefined && tick > lastTick) [lastTick, last] = [tick, queued];
+    });
+    if (direction === last || isOpposite(last, direction)) return;
+
+    // Two quick turns must both land, so a later input takes the tick after the one before it
+    const tick = Math.max(Math.min(Math.max(seenTick + INPUT_DELAY_TICKS, current), current + INPUT_DELAY_TICKS), lastTick + 1);
+    if (tick >= current + INPUT_DELAY_TICKS + MAX_QUEUED_TURNS) return;
+    this.scheduled.set(tick, { ...this.scheduled.get(tick), [member.id]: direction });
+  }
+
+  private scheduleTick() {
+    if (!this.arena) return;
+    this.timer = setTimeout(() => this.tick(), arenaTickInterval(this.arena));
+  }
+
+  private tick() {
+    this.timer = null;
+    const { arena, match } = this;
+    if (!arena || !match || this.phase !== 'playing') return;
+    this.guarded(() => this.advance(arena, match));
+  }
+
+  // Timer callbacks run outside any handler, so an exception there would take the whole
+  // server down. Only this lobby's match is lost instead.
+  private guarded(work: () => void) {
+    try {
+      work();
+    } catch (error) {
+      console.error(`Lobby "${this.id}" match aborted:`, error);
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = null;
+      this.broadcast({ type: 'error', message: 'Match aborted by a server error.' });
+      this.endMatch();
+    }
+  }
+
+  private advance(arena: ArenaState, match: MatchState) {
+    const inputs = this.scheduled.get(arena.tick) ?? {};
+    this.scheduled.delete(arena.tick);
+    const { state, events } = stepArena(arena, inputs);
+    this.arena = state;
+    this.broadcast({ type: 'tick', snapshot: toSnapshot(state), events });
+
+    const roundOver = events.find(e => e.type === 'round-over');
+    if (!roundOver) {
+      this.scheduleTick();
+      return;
+    }
+    this.match = recordRound(match, roundOver.winnerId);
+    if (this.match.winnerId) {
+      this.phase = 'match-over';
+      this.promoteSpectators();
+    } else {
+      this.phase = 'round-over';
+      this.timer = setTimeout(() => this.guarded(() => {
+        this.match = this.match && nextRound(this.match);
+        this.startRound();
+      }), ROUND_BREAK_MS);
+    }
+    this.broadcastLobby();
+  }
+
+  private endMatch() {
+    this.phase = 'waiting';
+    this.arena = null;
+    this.match = null;
+    this.scheduled.clear();
+    this.promoteSpectators();
+    this.broadcastLobby();
+  }
+
+  private info(): LobbyInfo {
+    return {
+      id: this.id,
+      hostId: this.hostId,
+      phase: this.phase,
+      levelId: this.levelId,
+      players: this.players().map(p => ({ id: p.id, name: p.name, connected: p.connection !== null })),
+      spectators: [...this.members.values()].filter(m => m.role === 'spectator').length,
+      match: this.match
+    };
+  }
+
+  private welcome(member: Member) {
+    this.send(member, { type: 'welcome', playerId: member.id, token: member.token, role: member.role, inputDelay: INPUT_DELAY_TICKS });
+    // Late joiners and reconnecting players pick the round up where it is
+    if (this.arena && this.match && this.phase !== 'waiting') {
+      this.send(member, { type: 'round-start', config: this.arena.config, snapshot: toSnapshot(this.arena), match: this.match });
+    }
+  }
+
+  private send(member: Member, message: ServerMessage) {
+    member.connection?.send(JSON.stringify(message));
+  }
+
+  private broadcast(message: ServerMessage) {
+    const text = JSON.stringify(message);
+    this.members.forEach(m => m.connection?.send(text));
+  }
+
+  private broadcastLobby() {
+    this.broadcast({ type: 'lobby', lobby: this.info() });
+  }
+}
@@ -0,0 +1,128 @@
+import { GameState } from '../engine/snakeEngine';
+import { RunTracker } from '../engine/runStats';
+import { loadVersioned, saveVersioned } from './storageService';
+import { ACHIEVEMENTS, SKINS, FOOD_STYLES, DEFAULT_SKIN, DEFAULT_FOOD_STYLE } from './achievements/definitions';
+import { AchievementDef, CosmeticKind, FoodStyleDef, RunMetric, RunMetrics, SkinDef } from './achievements/types';
+
+export type { AchievementDef, CosmeticKind, FoodStyleDef, RunMetric, RunMetrics, SkinDef } from './achievements/types';
+export { ACHIEVEMENTS, SKINS, FOOD_STYLES } from './achievements/definitions';
+
+// Achievement progress, unlocks and equipped cosmetics. Checking is cheap enough to run every tick;
+// it returns the very same profile when nothing moved, so callers can skip re-rendering.
+
+const STORAGE_KEY = 'cybersnake.achievements';
+const SCHEMA_VERSION = 1;
+
+export interface AchievementProfile {
+  unlocked: Record<string, string>; // Achievement id to unlock date (ISO)
+  best: Record<string, number>; // Run goals: best qualifying progress so far
+  career: Partial<Record<RunMetric, number>>; // Totals over finished runs
+  skin: string;
+  foodStyle: string;
+}
+
+const emptyProfile = (): AchievementProfile => ({
+  unlocked: {},
+  best: {},
+  career: {},
+  skin: DEFAULT_SKIN,
+  foodStyle: DEFAULT_FOOD_STYLE
+});
+
+export const loadAchievementProfile = (): AchievementProfile => ({
+  ...emptyProfile(),
+  ...loadVersioned<Partial<AchievementProfile>>(STORAGE_KEY, SCHEMA_VERSION, emptyProfile)
+});
+
+export const saveAchievementProfile = (profile: AchievementProfile) =>
+  saveVersioned<AchievementProfile>(STORAGE_KEY, SCHEMA_VERSION, profile);
+
+const withinLimits = (def: AchievementDef, metrics: RunMetrics) =>
+  Object.entries(def.goal.limits ?? {}).every(([metric, ceiling]) => metrics[metric as RunMetric] <= ceiling!);
+
+// Where a goal stands, from 0 to its target. `metrics` is the run in progress, if any.
+export const progressOf = (profile: AchievementProfile, def: AchievementDef, metrics?: RunMetrics): number => {
+  const { metric, target, scope = 'run' } = def.goal;
+  if (profile.unlocked[def.id]) return target;
+  const current = scope === 'career'
+    ? (profile.career[metric] ?? 0) + (metrics?.[metric] ?? 0)
+    : Math.max(profile.best[def.id] ?? 0, metrics && withinLimits(def, metrics) ? metrics[metric] : 0);
+  return Math.min(target, current);
+};
+
+export interface AchievementCheck {
+  profile: AchievementProfile;
+  unlocked: AchievementDef[];
+}
+
+const check = (profile: AchievementProfile, metrics: RunMetrics | undefined): AchievementCheck => {
+  let updated = profile;
+  const unlocked: AchievementDef[] = [];
+  for (const def of ACHIEVEMENTS) {
+    if (updated.unlocked[def.id]) continue;
+    const progress = progressOf(updated, def, metrics);
+    if (progress >= def.goal.target) {
+      updated = { ...updated, unlocked: { ...updated.unlocked, [def.id]: new Date().toISOString() } };
+      unlocked.push(def);
+    } else if ((def.goal.scope ?? 'run') === 'run' && progress > (updated.best[def.id] ?? 0)) {
+      updated = { ...updated, best: { ...updated.best, [def.id]: progress } };
+    }
+  }
+  return { profile: updated, unlocked };
+};
+
+// During a run: progress on the run in progress
+export const checkAchievements = (profile: AchievementProfile, metrics: RunMetrics): AchievementCheck =>
+  check(profile, metrics);
+
+// At the end of a run: its figures join the career totals
+export const finishRun = (profile: AchievementProfile, metrics: RunMetrics): AchievementCheck => {
+  const { profile: checked, unlocked } = check(profile, metrics);
+  const career = { ...checked.career };
+  (Object.keys(metrics) as RunMetric[]).forEach(metric => {
+    career[metric] = (career[metric] ?? 0) + metrics[metric];
+  });
+  return { profile: { ...checked, career }, unlocked };
+};
+
+export const rewardOf = (kind: CosmeticKind, id: string): AchievementDef | undefined =>
+  ACHIEVEMENTS.find(def => def.reward?.kind === kind && def.reward.id === id);
+
+// Defaults are owned from the start; everything else comes from an unlocked achievement
+export const ownsCosmetic = (profile: AchievementProfile, kind: CosmeticKind, id: string): boolean => {
+  if (id === (kind === 'skin' ? DEFAULT_SKIN : DEFAULT_FOOD_STYLE)) return true;
+  const source = rewardOf(kind, id);
+  return source !== undefined && profile.unlocked[source.id] !== undefined;
+};
+
+export const cosmeticName = (kind: CosmeticKind, id: string): string =>
+  (kind === 'skin' ? SKINS : FOOD_STYLES).find(c => c.id === id)?.name ?? id;
+
+export const equipCosmetic = (profile: AchievementProfile, kind: CosmeticKind, id: string): AchievementProfile => {
+  if (!ownsCosmetic(profile, kind, id)) return profile;
+  return kind === 'skin' ? { ...profile, skin: id } : { ...profile, foodStyle: id };
+};
+
+// What the board should draw; falls back to the defaults if a stored id is unknown or not owned
+export const equippedSkin = (profile: AchievementProfile): SkinDef =>
+  SKINS.find(s => s.id === profile.skin && ownsCosmetic(profile, 'skin', s.id)) ?? SKINS.find(s => s.id === DEFAULT_SKIN)!;
+
+export const equippedFoodStyle = (profile: AchievementProfile): FoodStyleDef =>
+  FOOD_STYLES.find(f => f.id === profile.foodStyle && ownsCosmetic(profile, 'food', f.id)) ??
+  FOOD_STYLES.find(f => f.id === DEFAULT_FOOD_STYLE)!;
+
+// The figures goals are checked against, for a run in progress or just finished
+export const runMetricsOf = (tracker: RunTracker, state: GameState, elapsedMs: number): RunMetrics => ({
+  score: state.score,
+  length: state.snake.length,
+  packets: tracker.packets,
+  powerups: tracker.powerups,
+  ticks: tracker.ticks,
+  elapsedMs,
+  turns: tracker.turns,
+  nearWallTicks: tracker.nearWallTicks,
+  watchdogsPurged: tracker.watchdogsPurged,
+  integrityHits: tracker.integrityHits,
+  pauses: tracker.pauses,
+  cleared: tracker.cleared ? 1 : 0
+});
@@ -0,0 +1,86 @@
+import { AchievementDef, FoodStyleDef, SkinDef } from './types';
+
+// The achievement catalogue. Entries are plain data checked against run metrics, so a new
+// achievement needs only a new entry here (and a cosmetic below if it rewards one).
+// Ids are stored in player profiles: never rename one.
+
+export const ACHIEVEMENTS: AchievementDef[] = [
+  {
+    id: 'first-breach',
+    name: 'First Breach',
+    description: 'Score a point.',
+    goal: { metric: 'score', target: 1 }
+  },
+  {
+    id: 'overclocked',
+    name: 'Overclocked',
+    description: 'Score 20 in under 60 seconds.',
+    goal: { metric: 'score', target: 20, limits: { elapsedMs: 60000 } },
+    reward: { kind: 'skin', id: 'ember' }
+  },
+  {
+    id: 'clean-line',
+    name: 'Clean Line',
+    description: 'Reach length 50 without ever passing next to a firewall.',
+    goal: { metric: 'length', target: 50, limits: { nearWallTicks: 0 } },
+    reward: { kind: 'skin', id: 'phantom' }
+  },
+  {
+    id: 'edge-runner',
+    name: 'Edge Runner',
+    description: 'Spend 300 ticks of one run hugging a firewall.',
+    goal: { metric: 'nearWallTicks', target: 300 },
+    reward: { kind: 'food', id: 'diamond' }
+  },
+  {
+    id: 'unbroken',
+    name: 'Unbroken',
+    description: 'Clear a sector without pausing.',
+    goal: { metric: 'cleared', target: 1, limits: { pauses: 0 } },
+    reward: { kind: 'skin', id: 'glitch' }
+  },
+  {
+    id: 'untouchable',
+    name: 'Untouchable',
+    description: 'Survive 1000 ticks without taking a hit.',
+    goal: { metric: 'ticks', target: 1000, limits: { integrityHits: 0 } },
+    reward: { kind: 'food', id: 'ring' }
+  },
+  {
+    id: 'watchdog-hunter',
+    name: 'Watchdog Hunter',
+    description: 'Derez 10 watchdogs across all runs.',
+    goal: { metric: 'watchdogsPurged', target: 10, scope: 'career' }
+  },
+  {
+    id: 'packet-hoarder',
+    name: 'Packet Hoarder',
+    description: 'Consume 500 packets across all runs.',
+    goal: { metric: 'packets', target: 500, scope: 'career' },
+    reward: { kind: 'food', id: 'orb' }
+  },
+  {
+    id: 'power-surge',
+    name: 'Power Surge',
+    description: 'Grab 5 power-up packets in one run.',
+    goal: { metric: 'powerups', target: 5 }
+  }
+];
+
+export const SKINS: SkinDef[] = [
+  { id: 'neon', name: 'Neon', head: '#0aff0a', body: '0, 243, 255' },
+  { id: 'ember', name: 'Ember', head: '#fcee0a', body: '255, 96, 0' },
+  { id: 'phantom', name: 'Phantom', head: '#ffffff', body: '180, 80, 255', stripe: '120, 40, 200' },
+  { id: 'glitch', name: 'Glitch', head: '#ff00ff', body: '10, 255, 10', stripe: '255, 0, 255' }
+];
+
+export const FOOD_STYLES: FoodStyleDef[] = [
+  { id: 'block', name: 'Data Block', shape: 'block' },
+  { id: 'orb', name: 'Plasma Orb', shape: 'orb' },
+  { id: 'diamond', name: 'Shard', shape: 'diamond' },
+  { id: 'ring', name: 'Halo', shape: 'ring' }
+];
+
+// Owned from the start
+export const DEFAULT_SKIN = 'neon';
+export const DEFAULT_FOOD_STYLE = 'block';
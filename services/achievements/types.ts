@@ -0,0 +1,49 @@
+import { FoodShape, SnakeSkin } from '../renderer/types';
+
+// Figures an achievement can be about. Run metrics are measured live during a run;
+// career totals add every finished run together.
+export interface RunMetrics {
+  score: number;
+  length: number;
+  packets: number;
+  powerups: number;
+  ticks: number;
+  elapsedMs: number; // Wall clock, pauses excluded
+  turns: number;
+  nearWallTicks: number;
+  watchdogsPurged: number;
+  integrityHits: number;
+  pauses: number;
+  cleared: number; // 1 once the run has completed its sector
+}
+
+export type RunMetric = keyof RunMetrics;
+
+export interface AchievementGoal {
+  metric: RunMetric;
+  target: number; // Reached when the metric is at least this
+  scope?: 'run' | 'career'; // Default 'run': within a single run
+  // Run goals only: ceilings that must hold when the target is reached, e.g. { elapsedMs: 60000 }
+  limits?: Partial<Record<RunMetric, number>>;
+}
+
+export type CosmeticKind = 'skin' | 'food';
+
+export interface AchievementDef {
+  id: string;
+  name: string;
+  description: string;
+  goal: AchievementGoal;
+  reward?: { kind: CosmeticKind; id: string };
+}
+
+export interface SkinDef extends SnakeSkin {
+  id: string;
+  name: string;
+}
+
+export interface FoodStyleDef {
+  id: string;
+  name: string;
+  shape: FoodShape;
+}
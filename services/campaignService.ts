@@ -0,0 +1,70 @@
+import { Sector, MAX_SECTOR_STARS } from '../engine/campaign';
+import { CAMPAIGN_SECTORS } from '../engine/sectors';
+import { loadVersioned, saveVersioned } from './storageService';
+
+// Campaign progress: best rating per sector and the sector last picked. Local only.
+
+const STORAGE_KEY = 'cybersnake.campaign';
+const SCHEMA_VERSION = 1;
+
+export interface SectorRecord {
+  stars: number; // Best rating so far
+  bestMs: number; // Fastest clear
+  clears: number;
+}
+
+export interface CampaignProgress {
+  sectors: Record<string, SectorRecord>;
+  current: string; // Sector id
+}
+
+const emptyProgress = (): CampaignProgress => ({ sectors: {}, current: CAMPAIGN_SECTORS[0].id });
+
+export const loadCampaignProgress = (): CampaignProgress => {
+  const progress = { ...emptyProgress(), ...loadVersioned<Partial<CampaignProgress>>(STORAGE_KEY, SCHEMA_VERSION, emptyProgress) };
+  // A sector that was dropped or is locked again falls back to the first one
+  return isUnlocked(progress, progress.current) ? progress : { ...progress, current: CAMPAIGN_SECTORS[0].id };
+};
+
+const save = (progress: CampaignProgress): CampaignProgress => {
+  saveVersioned(STORAGE_KEY, SCHEMA_VERSION, progress);
+  return progress;
+};
+
+export const totalStars = (progress: CampaignProgress): number =>
+  CAMPAIGN_SECTORS.reduce((total, sector) => total + (progress.sectors[sector.id]?.stars ?? 0), 0);
+
+export const maxStars = (): number => CAMPAIGN_SECTORS.length * MAX_SECTOR_STARS;
+
+export const isUnlocked = (progress: CampaignProgress, sectorId: string): boolean => {
+  const index = CAMPAIGN_SECTORS.findIndex(sector => sector.id === sectorId);
+  if (index <= 0) return index === 0;
+  const previous = CAMPAIGN_SECTORS[index - 1];
+  return progress.sectors[previous.id] !== undefined && totalStars(progress) >= CAMPAIGN_SECTORS[index].requiredStars;
+};
+
+export const isCampaignComplete = (progress: CampaignProgress): boolean =>
+  CAMPAIGN_SECTORS.every(sector => progress.sectors[sector.id] !== undefined);
+
+export const selectSector = (progress: CampaignProgress, sectorId: string): CampaignProgress =>
+  isUnlocked(progress, sectorId) ? save({ ...progress, current: sectorId }) : progress;
+
+export interface SectorClear {
+  progress: CampaignProgress;
+  improved: boolean; // More stars than the sector had before
+  unlocked: Sector[]; // Sectors this clear opened up
+}
+
+// Keeps the best rating and time, persists, and reports what the clear changed
+export const recordSectorClear = (progress: CampaignProgress, sectorId: string, stars: number, elapsedMs: number): SectorClear => {
+  const previous = progress.sectors[sectorId];
+  const record: SectorRecord = previous
+    ? { stars: Math.max(previous.stars, stars), bestMs: Math.min(previous.bestMs, elapsedMs), clears: previous.clears + 1 }
+    : { stars, bestMs: elapsedMs, clears: 1 };
+  const updated = save({ ...progress, sectors: { ...progress.sectors, [sectorId]: record } });
+  return {
+    progress: updated,
+    improved: stars > (previous?.stars ?? 0),
+    unlocked: CAMPAIGN_SECTORS.filter(sector => !isUnlocked(progress, sector.id) && isUnlocked(updated, sector.id))
+  };
+};
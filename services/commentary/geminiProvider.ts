@@ -0,0 +1,29 @@
+import { GoogleGenAI } from "@google/genai";
+import { CommentaryError, CommentaryProvider } from './types';
+import { buildPrompt, cleanResponse } from './prompt';
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+// The client is created on first use, so the app loads fine without an API key.
+export const createGeminiProvider = (apiKey: string | undefined): CommentaryProvider => {
+  let ai: GoogleGenAI | null = null;
+
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    async generate(request, signal) {
+      if (!apiKey) throw new CommentaryError('No Gemini API key configured.');
+      ai = ai ?? new GoogleGenAI({ apiKey });
+
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: buildPrompt(request),
+        config: { abortSignal: signal }
+      });
+
+      const text = cleanResponse(response.text, request);
+      if (!text) throw new CommentaryError('Gemini returned an empty response.');
+      return text;
+    }
+  };
+};
@@ -0,0 +1,22 @@
+import { CommentaryError, CommentaryProvider } from './types';
+
+interface MockOptions {
+  delayMs?: number;
+  fail?: boolean;
+}
+
+// Deterministic stand-in for development and automated runs: no key, no network.
+export const createMockProvider = ({ delayMs = 0, fail = false }: MockOptions = {}): CommentaryProvider => ({
+  id: 'mock',
+  label: 'Mock',
+  generate: (request, signal) => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      if (fail) reject(new CommentaryError('Mock provider failure.'));
+      else resolve(`Mock uplink: ${request.trigger} at score ${request.context.score} acknowledged.`);
+    }, delayMs);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new CommentaryError('Request aborted.'));
+    });
+  })
+});
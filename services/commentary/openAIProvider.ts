@@ -0,0 +1,37 @@
+import { CommentaryError, CommentaryProvider } from './types';
+import { NEXUS_PERSONA, buildPrompt, cleanResponse, isReport } from './prompt';
+
+// Any server that speaks the OpenAI chat completions API: llama.cpp, Ollama, LM Studio, vLLM...
+export const createOpenAICompatibleProvider = (
+  baseUrl: string,
+  model: string,
+  apiKey?: string
+): CommentaryProvider => ({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  async generate(request, signal) {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: NEXUS_PERSONA },
+          { role: 'user', content: buildPrompt(request) }
+        ],
+        max_tokens: isReport(request) ? 160 : 40,
+        temperature: 0.9
+      }),
+      signal
+    });
+    if (!response.ok) throw new CommentaryError(`Endpoint answered ${response.status} ${response.statusText}.`);
+
+    const data = await response.json();
+    const text = cleanResponse(data?.choices?.[0]?.message?.content, request);
+    if (!text) throw new CommentaryError('Endpoint returned an empty completion.');
+    return text;
+  }
+});
@@ -0,0 +1,38 @@
+import { CommentaryRequest, CommentaryTrigger } from './types';
+
+// Prompt shared by the language-model providers.
+
+export const NEXUS_PERSONA =
+  'You are a cyberpunk AI system named "NEXUS". The user is playing a hacking simulation (Snake game).';
+
+const TRIGGER_BRIEFS: Record<CommentaryTrigger, string> = {
+  milestone: 'The runner just reached a new score milestone.',
+  'near-miss': 'The runner just dodged a fatal collision by a single cell.',
+  streak: 'The runner is on a fast packet-collection streak.',
+  'power-up': 'The runner just picked up a power-up packet.',
+  record: 'The runner just beat their best recorded score.',
+  death: 'The runner was just disconnected. Comment on the cause.',
+  'incident-report': 'The run is over. File a post-mortem incident report on it.'
+};
+
+export const isReport = (request: CommentaryRequest) => request.trigger === 'incident-report';
+
+export const buildPrompt = (request: CommentaryRequest): string => `
+  ${NEXUS_PERSONA}
+  ${TRIGGER_BRIEFS[request.trigger]}
+  Game context (JSON): ${JSON.stringify({ ...request.context, ...request.details })}
+  ${isReport(request)
+    ? 'Write a terse incident report of at most 3 short sentences: what happened, the cause of failure, a recommendation.'
+    : 'Generate a very short, cool, cryptic, single-sentence status update (max 12 words).'}
+  It should sound like a terminal log or a hacking progress update.
+  Use technical jargon like "breach", "packet", "synapse", "override", "daemon".
+  Do not use quotes.
+`;
+
+// Models like to wrap answers in quotes or add extra lines; keep the first clean sentence
+// (or, for reports, the whole text on a single line).
+export const cleanResponse = (text: string | undefined | null, request: CommentaryRequest): string => {
+  const trimmed = (text ?? '').trim();
+  const body = isReport(request) ? trimmed.replace(/\s*\n+\s*/g, ' ') : trimmed.split('\n')[0];
+  return body.replace(/^["'`]+|["'`]+$/g, '').trim();
+};
@@ -0,0 +1,116 @@
+import { CommentaryProvider, CommentaryRequest } from './types';
+
+// Offline NEXUS: expands a small grammar instead of calling a model.
+// `{symbol}` expands to a random production of that rule; a symbol that names a
+// request value (`{score}`, `{cause}`, ...) is filled in from the request instead.
+
+type Grammar = Record<string, string[]>;
+
+const GRAMMAR: Grammar = {
+  milestone: [
+    '{status}. {directive}.',
+    '{subject} {event} at {score} packets. {directive}.',
+    '{warning}: {subject} {event}.',
+    '{subject} {event}. {status}.',
+    'Score {score} logged. {status}.'
+  ],
+  'near-miss': [
+    'Collision vector averted. {directive}.',
+    '{warning}: {hazard} proximity at one cell. Trace narrowly evaded.',
+    'That was a single-cycle margin, runner. {directive}.',
+    'Synapse reflex override engaged. {hazard} missed.'
+  ],
+  streak: [
+    '{streak} packets in rapid succession. {status}.',
+    'Ingestion streak x{streak}. Buffer overclocking.',
+    'Chain of {streak} unbroken. {directive}.'
+  ],
+  'power-up': [
+    '{powerUp} protocol integrated. {status}.',
+    'Payload {powerUp} unpacked. {directive}.',
+    '{powerUp} daemon spliced into your trail.'
+  ],
+  record: [
+    'Previous record of {previousBest} overwritten. {status}.',
+    'Archive threshold {previousBest} exceeded. You are rewriting history.',
+    'New high-water mark. {subject} {event}.'
+  ],
+  death: [
+    '{cause} terminated the link at {score} packets.',
+    'Signal lost. Root cause: {cause}.',
+    '{cause} breach detected. Runner flatlined.'
+  ],
+  'incident-report': [
+    'INCIDENT {hex}: runner disconnected in {sector} after {duration}. Cause: {cause}. Recommendation: {advice}.',
+    'Post-mortem: {score} packets, trail length {length}, terminated by {cause} in {sector}. {advice}.',
+    'Case {hex} closed. {cause} ended a {duration} run at {score} packets. Recommendation: {advice}.'
+  ],
+  status: [
+    'Neural link stable',
+    'Memory buffer expanding',
+    'Synapse throughput at {percent}%',
+    'Encryption layer {layer} bypassed',
+    'Trace evasion nominal',
+    'Daemon handshake spoofed'
+  ],
+  directive: [
+    'Keep consuming',
+    'Proceed with caution',
+    'Do not break the chain',
+    'Stay off the trace',
+    'Push deeper into the grid',
+    'Feed the uplink'
+  ],
+  advice: [
+    'plan exits before entering tight corridors',
+    'keep the trail away from firewall edges',
+    'bait watchdogs into dead ends',
+    'save shield packets for late game',
+    'slow down; speed kills'
+  ],
+  warning: ['Warning', 'Alert', 'Notice', 'Anomaly'],
+  subject: [
+    'Sector {layer} firewall',
+    'The ICE daemon',
+    'Packet router {hex}',
+    'Your synapse bridge',
+    'Watchdog cluster {hex}',
+    'The override kernel'
+  ],
+  event: [
+    'breached',
+    'rerouted',
+    'overclocked',
+    'lost your signature',
+    'flagged the intrusion',
+    'yielded root access'
+  ],
+  layer: ['3', '5', '7', '9', '12'],
+  percent: ['97', '104', '110', '127', '133'],
+  hex: ['0x1F', '0x3C', '0x7E', '0xA4', '0xFF']
+};
+
+const requestValues = (request: CommentaryRequest): Record<string, string> => {
+  const values: Record<string, string> = {};
+  Object.entries({ ...request.context, ...request.details }).forEach(([key, value]) => {
+    if (typeof value === 'string' || typeof value === 'number') values[key] = String(value);
+  });
+  return values;
+};
+
+const expand = (symbol: string, values: Record<string, string>, random: () => number, depth = 0): string => {
+  if (symbol in values) return values[symbol];
+  const options = GRAMMAR[symbol];
+  if (!options || depth > 8) return symbol;
+  const production = options[Math.floor(random() * options.length)];
+  return production.replace(/\{(\w+)\}/g, (_, name: string) => expand(name, values, random, depth + 1));
+};
+
+export const generateTemplateLine = (request: CommentaryRequest, random: () => number = Math.random): string =>
+  expand(request.trigger, requestValues(request), random);
+
+export const createTemplateProvider = (random: () => number = Math.random): CommentaryProvider => ({
+  id: 'template',
+  label: 'Offline Grammar',
+  generate: async (request) => generateTemplateLine(request, random)
+});
@@ -0,0 +1,45 @@
+// Contract shared by every NEXUS commentary backend.
+
+export type CommentaryProviderId = 'gemini' | 'openai' | 'template' | 'mock';
+
+// What prompted NEXUS to speak
+export type CommentaryTrigger =
+  | 'milestone'
+  | 'near-miss'
+  | 'streak'
+  | 'power-up'
+  | 'record'
+  | 'death'
+  | 'incident-report';
+
+// Snapshot of the run handed to the provider alongside the trigger
+export interface GameContext {
+  score: number;
+  highScore: number;
+  length: number;
+  tick: number;
+  integrity: number;
+  effects: string[];
+  watchdogs: number;
+  sector: string;
+}
+
+export interface CommentaryRequest {
+  trigger: CommentaryTrigger;
+  context: GameContext;
+  details?: Record<string, string | number>; // Trigger specifics, e.g. { cause: 'Firewall' }
+}
+
+export interface CommentaryProvider {
+  id: CommentaryProviderId;
+  label: string;
+  // Resolves with the commentary text. Implementations must honour `signal`.
+  generate(request: CommentaryRequest, signal: AbortSignal): Promise<string>;
+}
+
+export class CommentaryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommentaryError';
+  }
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CommentaryProvider, CommentaryRequest, CommentaryTrigger, createCommentaryQueue, createCommentator } from './commentaryService';
+import { createMockProvider } from './commentary/mockProvider';
+import { createTemplateProvider } from './commentary/templateProvider';
+
+// Everything here runs on the mock and the offline grammar: no key, no network.
+
+const request = (trigger: CommentaryTrigger, score = 10): CommentaryRequest => ({
+  trigger,
+  context: { score, highScore: 50, length: 4, tick: 30, integrity: 1, effects: [], watchdogs: 0, sector: 'Sector 0' },
+  details: { cause: 'Firewall' }
+});
+
+const failing = (): CommentaryProvider => ({
+  id: 'template',
+  label: 'Broken Grammar',
+  generate: () => Promise.reject(new Error('grammar offline'))
+});
+
+describe('commentator', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('answers from the provider and caches the line', async () => {
+    const provider = createMockProvider();
+    const generate = vi.spyOn(provider, 'generate');
+    const commentator = createCommentator(provider, { timeoutMs: 1000, minIntervalMs: 0 });
+
+    const line = await commentator.comment(request('milestone'));
+    expect(line).toBe('Mock uplink: milestone at score 10 acknowledged.');
+    expect(await commentator.comment(request('milestone'))).toBe(line);
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the offline grammar on failure, timeout and throttling', async () => {
+    const fallback = createTemplateProvider(() => 0);
+    const offline = await fallback.generate(request('death'), new AbortController().signal);
+
+    const broken = createCommentator(createMockProvider({ fail: true }), { timeoutMs: 1000, minIntervalMs: 0, fallback });
+    expect(await broken.comment(request('death'))).toBe(offline);
+
+    vi.useFakeTimers();
+    const slow = createCommentator(createMockProvider({ delayMs: 5000 }), { timeoutMs: 100, minIntervalMs: 0, fallback });
+    const pending = slow.comment(request('death'));
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await pending).toBe(offline);
+    vi.useRealTimers();
+
+    const throttled = createCommentator(createMockProvider(), { timeoutMs: 1000, minIntervalMs: 60000, fallback });
+    await throttled.comment(request('milestone', 1));
+    expect(await throttled.comment(request('death'))).toBe(offline);
+  });
+});
+
+describe('commentary queue', () => {
+  const offlineCommentator = () => createCommentator(createTemplateProvider(), { timeoutMs: 1000, minIntervalMs: 0 });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('answers queued moments in order with the offline grammar', async () => {
+    const lines: string[] = [];
+    const queue = createCommentaryQueue(offlineCommentator, (_, req) => lines.push(req.trigger));
+    queue.enqueue(request('milestone', 1));
+    queue.enqueue(request('streak', 2));
+    await vi.waitFor(() => expect(lines).toEqual(['milestone', 'streak']));
+  });
+
+  it('keeps the queue draining when the fallback itself throws', async () => {
+    const lines: string[] = [];
+    let commentator = createCommentator(failing(), { timeoutMs: 1000, minIntervalMs: 0, fallback: failing() });
+    const queue = createCommentaryQueue(() => commentator, text => lines.push(text));
+
+    queue.enqueue(request('death'));
+    await vi.waitFor(() => expect(console.warn).toHaveBeenCalledWith('Commentary dropped:', expect.any(Error)));
+
+    commentator = offlineCommentator();
+    queue.enqueue(request('record'));
+    await vi.waitFor(() => expect(lines).toHaveLength(1));
+  });
+
+  it('discards answers still in flight when cleared', async () => {
+    const lines: string[] = [];
+    const commentator = createCommentator(createMockProvider({ delayMs: 20 }), { timeoutMs: 1000, minIntervalMs: 0 });
+    const queue = createCommentaryQueue(() => commentator, text => lines.push(text));
+
+    queue.enqueue(request('milestone'));
+    queue.clear();
+    queue.enqueue(request('record'));
+    await vi.waitFor(() => expect(lines).toEqual(['Mock uplink: record at score 10 acknowledged.']));
+  });
+});
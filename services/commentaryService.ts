@@ -0,0 +1,213 @@
+import { CommentaryProvider, CommentaryProviderId, CommentaryRequest, CommentaryTrigger } from './commentary/types';
+import { createGeminiProvider, GEMINI_MODEL } from './commentary/geminiProvider';
+import { createOpenAICompatibleProvider } from './commentary/openAIProvider';
+import { createTemplateProvider } from './commentary/templateProvider';
+import { createMockProvider } from './commentary/mockProvider';
+
+export type {
+  CommentaryProvider,
+  CommentaryProviderId,
+  CommentaryRequest,
+  CommentaryTrigger,
+  GameContext
+} from './commentary/types';
+
+const CACHE_SIZE = 32;
+const MAX_PENDING = 3; // Queued requests beyond this push out the least important one
+const STALE_AFTER_MS = 6000; // Commentary on something that long ago is no longer news
+const RECENT_LINES = 12; // Window for de-duplicating lines
+
+export interface CommentarySettings {
+  enabled: boolean;
+  provider: CommentaryProviderId;
+  endpointUrl: string; // OpenAI-compatible base URL, e.g. http://localhost:8080/v1
+  endpointModel: string;
+  endpointKey: string;
+  timeoutMs: number;
+  minIntervalMs: number; // Requests closer together than this are answered offline
+}
+
+export const PROVIDER_LABELS: Record<CommentaryProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible',
+  template: 'Offline Grammar',
+  mock: 'Mock'
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDER_LABELS) as CommentaryProviderId[];
+
+// Note: process.env.API_KEY is injected by the environment.
+const GEMINI_API_KEY: string | undefined = process.env.API_KEY || undefined;
+
+export const DEFAULT_COMMENTARY_SETTINGS: CommentarySettings = {
+  enabled: true,
+  provider: GEMINI_API_KEY ? 'gemini' : 'template',
+  endpointUrl: 'http://localhost:8080/v1',
+  endpointModel: 'local-model',
+  endpointKey: '',
+  timeoutMs: 4000,
+  minIntervalMs: 3000
+};
+
+export const createProvider = (settings: CommentarySettings): CommentaryProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(GEMINI_API_KEY);
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.endpointUrl, settings.endpointModel, settings.endpointKey || undefined);
+    case 'mock':
+      return createMockProvider();
+    case 'template':
+      return createTemplateProvider();
+  }
+};
+
+// Short tag for the footer readout
+export const describeProvider = (settings: CommentarySettings): string => {
+  if (!settings.enabled) return 'NEXUS-OFFLINE';
+  switch (settings.provider) {
+    case 'gemini':
+      return GEMINI_MODEL.toUpperCase();
+    case 'openai':
+      return settings.endpointModel.toUpperCase();
+    default:
+      return PROVIDER_LABELS[settings.provider].toUpperCase().replace(/\s+/g, '-');
+  }
+};
+
+export interface Commentator {
+  comment(request: CommentaryRequest): Promise<string>;
+}
+
+interface CommentatorOptions {
+  timeoutMs: number;
+  minIntervalMs: number;
+  fallback?: CommentaryProvider;
+}
+
+// The same moment at the same score gets the same answer without another round trip
+const cacheKey = ({ trigger, context, details }: CommentaryRequest) => JSON.stringify([trigger, context.score, details]);
+
+// Wraps a provider with a per-request timeout, a minimum gap between requests and a
+// small cache of recent answers. Whenever the provider can't answer in time (or at all)
+// the offline grammar fills in, so the logs never wait on the network.
+export const createCommentator = (
+  provider: CommentaryProvider,
+  { timeoutMs, minIntervalMs, fallback = createTemplateProvider() }: CommentatorOptions
+): Commentator => {
+  const cache = new Map<string, string>();
+  let lastRequestAt = -Infinity;
+
+  const offline = (request: CommentaryRequest) => fallback.generate(request, new AbortController().signal);
+
+  return {
+    async comment(request) {
+      const key = cacheKey(request);
+      const cached = cache.get(key);
+      if (cached !== undefined) return cached;
+
+      const now = Date.now();
+      // The post-mortem is a once-per-run event and is never throttled
+      const throttled = request.trigger !== 'incident-report' && now - lastRequestAt < minIntervalMs;
+      if (provider.id === fallback.id || throttled) return offline(request);
+      lastRequestAt = now;
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const text = await provider.generate(request, controller.signal);
+        cache.set(key, text);
+        // Evict the oldest entry (Maps iterate in insertion order)
+        if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+        return text;
+      } catch (error) {
+        console.warn(`${provider.label} commentary unavailable:`, error);
+        return offline(request);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+};
+
+// When several moments pile up, the rarer ones win
+const TRIGGER_PRIORITY: Record<CommentaryTrigger, number> = {
+  'incident-report': 5,
+  death: 4,
+  record: 3,
+  'near-miss': 2,
+  streak: 2,
+  'power-up': 1,
+  milestone: 1
+};
+
+export interface CommentaryQueue {
+  enqueue(request: CommentaryRequest): void;
+  clear(): void; // Drops pending requests and discards answers still in flight
+}
+
+const normalizeLine = (text: string) => text.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+
+// Serialises commentary so callers never wait on it: requests are answered one at a
+// time in the background and `onLine` is called with each fresh, non-repeated line.
+export const createCommentaryQueue = (
+  getCommentator: () => Commentator,
+  onLine: (text: string, request: CommentaryRequest) => void,
+  fallback: CommentaryProvider = createTemplateProvider()
+): CommentaryQueue => {
+  let pending: { request: CommentaryRequest; queuedAt: number }[] = [];
+  let recent: string[] = [];
+  let generation = 0;
+  let running = false;
+
+  // Repeats get a couple of offline rerolls before the line is dropped
+  const dedupe = async (text: string, request: CommentaryRequest): Promise<string | null> => {
+    let candidate = text;
+    for (let attempt = 0; attempt < 3; attempt++) {
+      if (!recent.includes(normalizeLine(candidate))) return candidate;
+      candidate = await fallback.generate(request, new AbortController().signal);
+    }
+    return null;
+  };
+
+  const drain = async () => {
+    running = true;
+    try {
+      while (pending.length > 0) {
+        const { request, queuedAt } = pending.shift()!;
+        if (request.trigger !== 'incident-report' && Date.now() - queuedAt > STALE_AFTER_MS) continue;
+        const started = generation;
+        let text: string | null;
+        try {
+          text = await dedupe(await getCommentator().comment(request), request);
+        } catch (error) {
+          // Even the offline grammar failed; this moment goes unremarked
+          console.warn('Commentary dropped:', error);
+          continue;
+        }
+        if (started !== generation || !text) continue;
+        recent = [...recent, normalizeLine(text)].slice(-RECENT_LINES);
+        onLine(text, request);
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    enqueue(request) {
+      pending.push({ request, queuedAt: Date.now() });
+      if (pending.length > MAX_PENDING) {
+        // Evict the lowest-priority request, oldest first
+        const victim = pending.reduce((low, item, i) =>
+          TRIGGER_PRIORITY[item.request.trigger] < TRIGGER_PRIORITY[pending[low].request.trigger] ? i : low, 0);
+        pending.splice(victim, 1);
+      }
+      if (!running) void drain();
+    },
+    clear() {
+      pending = [];
+      generation++;
+    }
+  };
+};
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { attemptFor, beginDailyAttempt, finishDailyAttempt, formatDailyShare, loadDailyHistory } from './dailyService';
+import { storeRaw, stubStorage } from '../test/memoryStorage';
+
+const RESULT = { score: 12, length: 9, durationMs: 65000, gains: [0, 4, 8], assisted: false };
+
+describe('daily attempts', () => {
+  beforeEach(() => stubStorage());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('uses up the day when the run starts and files the score when it ends', () => {
+    const started = beginDailyAttempt([], '2026-03-14');
+    expect(attemptFor(loadDailyHistory(), '2026-03-14')).toMatchObject({ finished: false, score: 0 });
+    // A second start the same day is practice and leaves the attempt alone
+    expect(beginDailyAttempt(started, '2026-03-14')).toBe(started);
+
+    const finished = finishDailyAttempt(started, '2026-03-14', RESULT);
+    expect(loadDailyHistory()).toEqual(finished);
+    expect(formatDailyShare(attemptFor(finished, '2026-03-14')!)).toContain('SCORE 12 // LENGTH 9 // 1:05');
+  });
+
+  it('leaves a run that never finished on file with no score', () => {
+    beginDailyAttempt([], '2026-03-14');
+    // The page went away: whatever loads next sees the spent, unscored attempt
+    const attempt = attemptFor(loadDailyHistory(), '2026-03-14')!;
+    expect(attempt.finished).toBe(false);
+    expect(formatDailyShare(attempt)).toBe('CYBERSNAKE DAILY 2026-03-14\nCONNECTION LOST // NO SCORE');
+  });
+
+  it('drops malformed days and keeps the rest', () => {
+    const good = { key: '2026-03-13', finished: true, ...RESULT };
+    storeRaw('cybersnake.daily', 1, [good, { key: '2026-03-14', finished: 'yes' }, null]);
+    expect(loadDailyHistory()).toEqual([good]);
+  });
+});
@@ -0,0 +1,87 @@
+import { isObject, loadVersioned, saveVersioned } from './storageService';
+import { formatDuration } from './leaderboardService';
+
+// Daily challenge attempts, one scored attempt per UTC day. Local only.
+
+const STORAGE_KEY = 'cybersnake.daily';
+const SCHEMA_VERSION = 1;
+
+// Oldest days are dropped beyond this
+export const MAX_DAILY_HISTORY = 366;
+
+// Columns in the shared sparkline
+export const SPARKLINE_BUCKETS = 10;
+const SPARK_LEVELS = ['⬛', '🟦', '🟩', '🟨', '🟥'];
+
+export interface DailyAttempt {
+  key: string; // UTC date, YYYY-MM-DD
+  finished: boolean; // False while the run is live, or if the page went away mid-run
+  score: number;
+  length: number;
+  durationMs: number;
+  gains: number[]; // Points scored in each slice of the run, for the sparkline
+  assisted: boolean;
+}
+
+export type DailyHistory = DailyAttempt[];
+
+const isAttempt = (value: unknown): value is DailyAttempt =>
+  isObject(value) &&
+  typeof value.key === 'string' && typeof value.finished === 'boolean' && typeof value.score === 'number' &&
+  typeof value.length === 'number' && typeof value.durationMs === 'number' && typeof value.assisted === 'boolean' &&
+  Array.isArray(value.gains) && value.gains.every(gain => typeof gain === 'number');
+
+// A malformed day is dropped on its own; the rest of the history survives
+export const loadDailyHistory = (): DailyHistory => {
+  const stored = loadVersioned<unknown>(STORAGE_KEY, SCHEMA_VERSION, () => []);
+  return Array.isArray(stored) ? stored.filter(isAttempt).slice(-MAX_DAILY_HISTORY) : [];
+};
+
+const save = (history: DailyHistory): DailyHistory => {
+  const trimmed = history.slice(-MAX_DAILY_HISTORY);
+  saveVersioned(STORAGE_KEY, SCHEMA_VERSION, trimmed);
+  return trimmed;
+};
+
+export const attemptFor = (history: DailyHistory, key: string): DailyAttempt | undefined =>
+  history.find(attempt => attempt.key === key);
+
+// The attempt is used up the moment the run starts, so a reload cannot buy a retry. A run
+// that never reaches finishDailyAttempt (a crash, or a reload without resuming) stays on
+// file unfinished, with no score; the daily panel says so up front.
+export const beginDailyAttempt = (history: DailyHistory, key: string): DailyHistory =>
+  attemptFor(history, key)
+    ? history
+    : save([...history, { key, finished: false, score: 0, length: 0, durationMs: 0, gains: [], assisted: false }]);
+
+export const finishDailyAttempt = (history: DailyHistory, key: string, result: Omit<DailyAttempt, 'key' | 'finished'>): DailyHistory =>
+  save(history.map(attempt => attempt.key === key ? { ...result, key, finished: true } : attempt));
+
+// Splits a per-tick score trail into equal slices and returns the points gained in each
+export const scoreGains = (trail: number[], buckets = SPARKLINE_BUCKETS): number[] => {
+  if (trail.length === 0) return [];
+  const gains: number[] = [];
+  let previous = 0;
+  for (let i = 1; i <= buckets; i++) {
+    const score = trail[Math.ceil((i * trail.length) / buckets) - 1];
+    gains.push(Math.max(0, score - previous));
+    previous = score;
+  }
+  return gains;
+};
+
+export const sparkline = (gains: number[]): string => {
+  const max = Math.max(0, ...gains);
+  return gains
+    .map(gain => SPARK_LEVELS[gain === 0 ? 0 : Math.max(1, Math.ceil((gain / max) * (SPARK_LEVELS.length - 1)))])
+    .join('');
+};
+
+// Safe to paste into a chat: no seed, no sector and no moves
+export const formatDailyShare = (attempt: DailyAttempt): string => [
+  `CYBERSNAKE DAILY ${attempt.key}`,
+  attempt.finished
+    ? `SCORE ${attempt.score} // LENGTH ${attempt.length} // ${formatDuration(attempt.durationMs)}${attempt.assisted ? ' // ASSISTED' : ''}`
+    : 'CONNECTION LOST // NO SCORE',
+  ...(attempt.finished && attempt.gains.length > 0 ? [sparkline(attempt.gains)] : [])
+].join('\n');
@@ -0,0 +1,47 @@
+import { isObject, loadVersioned, saveVersioned } from './storageService';
+import {
+  AdaptiveState,
+  DifficultyPresetId,
+  DifficultyProfile,
+  DIFFICULTY_PRESETS,
+  INITIAL_ADAPTIVE_STATE,
+  adaptProfile,
+  sanitizeProfile
+} from '../engine/difficulty';
+
+const ADAPTIVE_KEY = 'cybersnake.adaptive';
+const SCHEMA_VERSION = 1;
+
+export interface DifficultySettings {
+  preset: DifficultyPresetId | 'custom';
+  custom: DifficultyProfile; // Used when `preset` is 'custom'
+  adaptive: boolean;
+}
+
+export const DEFAULT_DIFFICULTY_SETTINGS: DifficultySettings = {
+  preset: 'netrunner',
+  custom: { ...DIFFICULTY_PRESETS.netrunner, label: 'Custom' },
+  adaptive: false
+};
+
+// Fields that are missing or out of range start over from the initial state
+export const loadAdaptiveState = (): AdaptiveState => {
+  const stored = loadVersioned<unknown>(ADAPTIVE_KEY, SCHEMA_VERSION, () => null);
+  if (!isObject(stored)) return INITIAL_ADAPTIVE_STATE;
+  const { rating, earlyDeaths } = stored;
+  return {
+    rating: typeof rating === 'number' && rating >= -1 && rating <= 1 ? rating : INITIAL_ADAPTIVE_STATE.rating,
+    earlyDeaths: typeof earlyDeaths === 'number' && Number.isInteger(earlyDeaths) && earlyDeaths >= 0
+      ? earlyDeaths
+      : INITIAL_ADAPTIVE_STATE.earlyDeaths
+  };
+};
+
+export const saveAdaptiveState = (state: AdaptiveState) => saveVersioned(ADAPTIVE_KEY, SCHEMA_VERSION, state);
+
+// The profile the next run is played with. Custom values are only clamped here, so
+// half-typed numbers in the editor are left alone.
+export const resolveDifficulty = (settings: DifficultySettings, adaptive: AdaptiveState): DifficultyProfile => {
+  const base = settings.preset === 'custom' ? sanitizeProfile(settings.custom) : DIFFICULTY_PRESETS[settings.preset];
+  return settings.adaptive ? adaptProfile(base, adaptive.rating) : base;
+};
@@ -0,0 +1,45 @@
+// Browser helpers for moving data in and out of the app as plain files.
+
+export const downloadFile = (filename: string, content: string, mimeType = 'application/json') => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const readFileAsText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsText(file);
+  });
+
+// Opens the native file picker and resolves with the chosen file's text, or null if cancelled.
+export const pickTextFile = (accept: string): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) return resolve(null);
+      readFileAsText(file).then(resolve, reject);
+    };
+    input.click();
+  });
+
+// Puts text on the clipboard. Resolves false where the browser refuses (no permission, insecure context).
+export const copyText = async (text: string): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,73 @@
+// Fixed-timestep scheduler. One requestAnimationFrame loop for the lifetime of the
+// board: simulation ticks are paid out of an accumulator at the current tick
+// interval, and every display frame is handed to `onFrame` for (interpolated) drawing.
+
+export const MAX_FRAME_GAP_MS = 250; // Longer gaps (debugger, frozen tab) are not caught up
+export const MAX_CATCH_UP_TICKS = 5; // Ticks simulated in one frame at most
+
+export interface GameLoopOptions {
+  getInterval: () => number;
+  onTick: () => void;
+  onFrame: (now: number) => void;
+}
+
+export interface GameLoop {
+  start(): void;
+  stop(): void;
+  // Paused loops keep drawing and keep the partial tick in the accumulator, so resuming is seamless
+  setRunning(running: boolean): void;
+  reset(): void; // Next tick is due one full interval from now
+}
+
+export const createGameLoop = ({ getInterval, onTick, onFrame }: GameLoopOptions): GameLoop => {
+  let frame = 0;
+  let last = 0;
+  let accumulator = 0;
+  let running = false;
+
+  const loop = (now: number) => {
+    frame = requestAnimationFrame(loop);
+    const delta = Math.min(Math.max(0, now - last), MAX_FRAME_GAP_MS);
+    last = now;
+
+    if (running) {
+      accumulator += delta;
+      let interval = getInterval();
+      let ticks = 0;
+      while (accumulator >= interval && ticks < MAX_CATCH_UP_TICKS) {
+        onTick();
+        accumulator -= interval;
+        ticks++;
+        interval = getInterval();
+      }
+      // Too far behind: drop the backlog instead of fast-forwarding the player to their death
+      if (ticks === MAX_CATCH_UP_TICKS) accumulator = Math.min(accumulator, interval);
+    }
+    onFrame(now);
+  };
+
+  // A hidden tab gets no frames; don't count that time when it comes back
+  const onVisibilityChange = () => {
+    if (!document.hidden) last = performance.now();
+  };
+
+  return {
+    start() {
+      if (frame) return;
+      last = performance.now();
+      frame = requestAnimationFrame(loop);
+      document.addEventListener('visibilitychange', onVisibilityChange);
+    },
+    stop() {
+      cancelAnimationFrame(frame);
+      frame = 0;
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    },
+    setRunning(next) {
+      running = next;
+    },
+    reset() {
+      accumulator = 0;
+    }
+  };
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { Direction } from '../types';
+import { DEFAULT_KEY_BINDINGS, MIN_SWIPE_PX, commandForKey, rebindKey, sanitizeBindings, swipeDirection } from './inputService';
+
+describe('key bindings', () => {
+  it('maps bound keys to commands, ignoring case', () => {
+    expect(commandForKey(DEFAULT_KEY_BINDINGS, 'W')).toEqual({ type: 'turn', direction: Direction.UP, player: 0 });
+    expect(commandForKey(DEFAULT_KEY_BINDINGS, 'ArrowLeft')).toEqual({ type: 'turn', direction: Direction.LEFT, player: 1 });
+    expect(commandForKey(DEFAULT_KEY_BINDINGS, 'Enter')).toEqual({ type: 'confirm' });
+    expect(commandForKey(DEFAULT_KEY_BINDINGS, 'q')).toBeNull();
+  });
+
+  it('moves a rebound key away from its old action', () => {
+    const bindings = rebindKey(DEFAULT_KEY_BINDINGS, 'up', 'M');
+    expect(bindings.up).toEqual(['m']);
+    expect(bindings.mute).toEqual([]);
+    expect(commandForKey(bindings, 'w')).toBeNull();
+    expect(commandForKey(bindings, 'm')).toEqual({ type: 'turn', direction: Direction.UP, player: 0 });
+  });
+
+  it('keeps defaults for missing actions and drops reserved or broken keys', () => {
+    expect(sanitizeBindings(null)).toEqual(DEFAULT_KEY_BINDINGS);
+    const bindings = sanitizeBindings({ up: ['I', 'Escape', 3, ''], down: 'k' });
+    expect(bindings.up).toEqual(['i']);
+    expect(bindings.down).toEqual(DEFAULT_KEY_BINDINGS.down);
+  });
+});
+
+describe('swipes', () => {
+  it('treats short drags as taps', () => {
+    expect(swipeDirection(MIN_SWIPE_PX - 1, 0)).toBeNull();
+    expect(swipeDirection(-10, MIN_SWIPE_PX - 1)).toBeNull();
+  });
+
+  it('follows the dominant axis', () => {
+    expect(swipeDirection(MIN_SWIPE_PX, 0)).toBe(Direction.RIGHT);
+    expect(swipeDirection(-40, 30)).toBe(Direction.LEFT);
+    expect(swipeDirection(30, 40)).toBe(Direction.DOWN);
+    expect(swipeDirection(0, -MIN_SWIPE_PX)).toBe(Direction.UP);
+  });
+});
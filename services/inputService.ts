@@ -0,0 +1,181 @@
+import { Direction } from '../types';
+
+// Keyboard, touch and gamepad all boil down to the same commands, so the game only
+// ever handles one stream regardless of where an input came from.
+
+export type PlayerSlot = 0 | 1;
+
+export type InputCommand =
+  | { type: 'turn'; direction: Direction; player: PlayerSlot }
+  | { type: 'confirm' } // Start, halt, resume, next round
+  | { type: 'mute' };
+
+export type InputAction =
+  | 'up' | 'down' | 'left' | 'right'
+  | 'p2Up' | 'p2Down' | 'p2Left' | 'p2Right'
+  | 'confirm' | 'mute';
+
+export type KeyBindings = Record<InputAction, string[]>;
+
+export type TouchControlsMode = 'auto' | 'on' | 'off';
+
+// Escape always closes menus, so it can't be bound
+export const RESERVED_KEYS = ['Escape'];
+
+export const INPUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: 'up', label: 'UP' },
+  { action: 'down', label: 'DOWN' },
+  { action: 'left', label: 'LEFT' },
+  { action: 'right', label: 'RIGHT' },
+  { action: 'p2Up', label: 'P2 UP' },
+  { action: 'p2Down', label: 'P2 DOWN' },
+  { action: 'p2Left', label: 'P2 LEFT' },
+  { action: 'p2Right', label: 'P2 RIGHT' },
+  { action: 'confirm', label: 'START / HALT' },
+  { action: 'mute', label: 'MUTE' }
+];
+
+// Solo runs answer to both players' keys; versus splits them
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  up: ['w'],
+  down: ['s'],
+  left: ['a'],
+  right: ['d'],
+  p2Up: ['ArrowUp'],
+  p2Down: ['ArrowDown'],
+  p2Left: ['ArrowLeft'],
+  p2Right: ['ArrowRight'],
+  confirm: [' ', 'Enter'],
+  mute: ['m']
+};
+
+const ACTION_COMMANDS: Record<InputAction, InputCommand> = {
+  up: { type: 'turn', direction: Direction.UP, player: 0 },
+  down: { type: 'turn', direction: Direction.DOWN, player: 0 },
+  left: { type: 'turn', direction: Direction.LEFT, player: 0 },
+  right: { type: 'turn', direction: Direction.RIGHT, player: 0 },
+  p2Up: { type: 'turn', direction: Direction.UP, player: 1 },
+  p2Down: { type: 'turn', direction: Direction.DOWN, player: 1 },
+  p2Left: { type: 'turn', direction: Direction.LEFT, player: 1 },
+  p2Right: { type: 'turn', direction: Direction.RIGHT, player: 1 },
+  confirm: { type: 'confirm' },
+  mute: { type: 'mute' }
+};
+
+// Letters are matched case-insensitively so Caps Lock and Shift don't break steering
+export const normalizeKey = (key: string): string => key.length === 1 ? key.toLowerCase() : key;
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'SPACE',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→'
+};
+
+export const describeKey = (key: string): string => KEY_NAMES[key] ?? key.toUpperCase();
+
+export const commandForKey = (bindings: KeyBindings, key: string): InputCommand | null => {
+  const normalized = normalizeKey(key);
+  const action = INPUT_ACTIONS.find(({ action }) => bindings[action].includes(normalized))?.action;
+  return action ? ACTION_COMMANDS[action] : null;
+};
+
+// Binds `key` to `action` alone, taking it away from whatever action had it before
+export const rebindKey = (bindings: KeyBindings, action: InputAction, key: string): KeyBindings => {
+  const normalized = normalizeKey(key);
+  const next = { ...bindings };
+  for (const { action: other } of INPUT_ACTIONS) {
+    next[other] = bindings[other].filter(k => k !== normalized);
+  }
+  next[action] = [normalized];
+  return next;
+};
+
+export const sanitizeBindings = (raw: unknown): KeyBindings => {
+  const source = (typeof raw === 'object' && raw !== null ? raw : {}) as Partial<Record<InputAction, unknown>>;
+  const bindings = { ...DEFAULT_KEY_BINDINGS };
+  for (const { action } of INPUT_ACTIONS) {
+    const keys = source[action];
+    if (Array.isArray(keys)) {
+      bindings[action] = keys
+        .filter((k): k is string => typeof k === 'string' && k.length > 0 && !RESERVED_KEYS.includes(k))
+        .map(normalizeKey);
+    }
+  }
+  return bindings;
+};
+
+// Touch
+
+export const MIN_SWIPE_PX = 24;
+
+// The dominant axis of a drag, or null for a tap
+export const swipeDirection = (dx: number, dy: number): Direction | null => {
+  if (Math.max(Math.abs(dx), Math.abs(dy)) < MIN_SWIPE_PX) return null;
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? Direction.RIGHT : Direction.LEFT;
+  return dy > 0 ? Direction.DOWN : Direction.UP;
+};
+
+export const isTouchDevice = (): boolean =>
+  typeof window !== 'undefined' && typeof window.matchMedia === 'function' && window.matchMedia('(pointer: coarse)').matches;
+
+// Gamepads (standard mapping)
+
+const STICK_DEADZONE = 0.5;
+
+const PAD_BUTTONS: { button: number; command: (player: PlayerSlot) => InputCommand }[] = [
+  { button: 12, command: player => ({ type: 'turn', direction: Direction.UP, player }) },
+  { button: 13, command: player => ({ type: 'turn', direction: Direction.DOWN, player }) },
+  { button: 14, command: player => ({ type: 'turn', direction: Direction.LEFT, player }) },
+  { button: 15, command: player => ({ type: 'turn', direction: Direction.RIGHT, player }) },
+  { button: 0, command: () => ({ type: 'confirm' }) }, // A / Cross
+  { button: 9, command: () => ({ type: 'confirm' }) } // Start
+];
+
+// What a pad is holding right now, as a set of control names
+const heldControls = (pad: Gamepad): Set<string> => {
+  const held = new Set<string>();
+  PAD_BUTTONS.forEach(({ button }) => {
+    if (pad.buttons[button]?.pressed) held.add(`b${button}`);
+  });
+  const [x = 0, y = 0] = pad.axes;
+  if (Math.abs(x) > STICK_DEADZONE || Math.abs(y) > STICK_DEADZONE) {
+    if (Math.abs(x) > Math.abs(y)) held.add(x > 0 ? 'b15' : 'b14');
+    else held.add(y > 0 ? 'b13' : 'b12');
+  }
+  return held;
+};
+
+export interface GamepadPoller {
+  poll(): InputCommand[]; // Commands for controls pressed since the last poll
+}
+
+// Edge-triggered: a held button or stick fires once. The first two pads map to players 1 and 2.
+export const createGamepadPoller = (): GamepadPoller => {
+  const previous = new Map<number, Set<string>>();
+
+  return {
+    poll() {
+      const commands: InputCommand[] = [];
+      const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+      const seen = new Set<number>();
+      for (const pad of pads) {
+        if (!pad || !pad.connected) continue;
+        seen.add(pad.index);
+        const held = heldControls(pad);
+        const before = previous.get(pad.index) ?? new Set<string>();
+        const player: PlayerSlot = pad.index % 2 === 0 ? 0 : 1;
+        PAD_BUTTONS.forEach(({ button, command }) => {
+          const control = `b${button}`;
+          if (held.has(control) && !before.has(control)) commands.push(command(player));
+        });
+        previous.set(pad.index, held);
+      }
+      for (const index of previous.keys()) {
+        if (!seen.has(index)) previous.delete(index);
+      }
+      return commands;
+    }
+  };
+};
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameMode } from '../types';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, adaptProfile } from '../engine/difficulty';
+import { BUILTIN_LEVELS, DEFAULT_BOARD_SETTINGS, DEFAULT_LEVEL, sizeBuiltinLevels } from '../engine/levels';
+import { DEFAULT_BOARD, getEntries, getTopScore, loadLeaderboard, rankedBoard, submitEntry } from './leaderboardService';
+import { storeRaw, stubStorage } from '../test/memoryStorage';
+
+const run = (score: number) => ({
+  name: 'ace', score, length: 4, durationMs: 1000, date: '2026-01-01T00:00:00.000Z', seed: score, mode: GameMode.CLASSIC
+});
+
+const stock = { difficulty: DEFAULT_DIFFICULTY, config: DEFAULT_LEVEL.config };
+
+describe('leaderboard', () => {
+  beforeEach(() => stubStorage());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('ranks preset runs on stock layouts only', () => {
+    expect(rankedBoard(GameMode.CLASSIC, { ...stock, difficulty: { ...DIFFICULTY_PRESETS['black-ice'], label: 'Mine' } }, DEFAULT_LEVEL.id))
+      .toEqual({ ...DEFAULT_BOARD, difficulty: 'black-ice' });
+    expect(rankedBoard(GameMode.CLASSIC, { ...stock, difficulty: adaptProfile(DEFAULT_DIFFICULTY, -0.5) }, DEFAULT_LEVEL.id)).toBeNull();
+    expect(rankedBoard(GameMode.CLASSIC, { ...stock, difficulty: { ...DEFAULT_DIFFICULTY, startIntegrity: 9 } }, DEFAULT_LEVEL.id)).toBeNull();
+    expect(rankedBoard(GameMode.VERSUS, stock, DEFAULT_LEVEL.id)).toBeNull();
+
+    const small = sizeBuiltinLevels({ ...DEFAULT_BOARD_SETTINGS, width: 12, height: 12 })[0];
+    expect(rankedBoard(GameMode.CLASSIC, { ...stock, config: small.config }, small.id)).toBeNull();
+    expect(rankedBoard(GameMode.CLASSIC, stock, 'imported-map')).toBeNull();
+    expect(rankedBoard(GameMode.CLASSIC, stock, BUILTIN_LEVELS[1].id)).toBeNull();
+  });
+
+  it('keeps each level and preset on its own board', () => {
+    const ring = { ...DEFAULT_BOARD, levelId: BUILTIN_LEVELS[2].id };
+    submitEntry({ ...run(50), ...DEFAULT_BOARD, difficulty: 'script-kiddie' });
+    submitEntry({ ...run(40), ...ring });
+    const { board, rank } = submitEntry({ ...run(20), ...DEFAULT_BOARD });
+    expect(rank).toBe(1);
+    expect(getTopScore(board, DEFAULT_BOARD)).toBe(20);
+    expect(getTopScore(board, ring)).toBe(40);
+    expect(getTopScore(loadLeaderboard(), { ...DEFAULT_BOARD, difficulty: 'script-kiddie' })).toBe(50);
+  });
+
+  it('files older entries under the default sector and preset', () => {
+    const old = { ...run(9), id: 'old', name: 'ACE' };
+    storeRaw('cybersnake.leaderboard', 1, { entries: { [GameMode.CLASSIC]: [old, null] }, lastName: 'ACE' });
+    expect(getEntries(loadLeaderboard(), DEFAULT_BOARD)).toEqual([{ ...old, difficulty: 'netrunner', levelId: DEFAULT_LEVEL.id }]);
+
+    const hard = { ...old, difficulty: 'black-ice' };
+    storeRaw('cybersnake.leaderboard', 2, { boards: { [`${GameMode.CLASSIC}/black-ice`]: [hard] } });
+    expect(getEntries(loadLeaderboard(), { ...DEFAULT_BOARD, difficulty: 'black-ice' })).toEqual([{ ...hard, levelId: DEFAULT_LEVEL.id }]);
+  });
+});
@@ -0,0 +1,162 @@
+import { GameMode } from '../types';
+import { DIFFICULTY_PRESET_IDS, DifficultyPresetId, DifficultyProfile, presetOf } from '../engine/difficulty';
+import { EngineConfig, sameLayout } from '../engine/board';
+import { DEFAULT_LEVEL, findLevel } from '../engine/levels';
+import { Migration, isObject, loadVersioned, saveVersioned } from './storageService';
+
+const STORAGE_KEY = 'cybersnake.leaderboard';
+const SCHEMA_VERSION = 3;
+
+export const LEADERBOARD_SIZE = 10;
+export const MAX_NAME_LENGTH = 12;
+
+// Modes that keep a leaderboard; versus matches are decided on the board, not by score
+export const RANKED_MODES: GameMode[] = [GameMode.CLASSIC];
+
+export interface LeaderboardEntry {
+  id: string;
+  name: string;
+  score: number;
+  length: number;
+  durationMs: number;
+  date: string;
+  seed: number;
+  mode: GameMode;
+  levelId: string;
+  difficulty: DifficultyPresetId;
+}
+
+// Each mode keeps one board per stock level and difficulty preset
+export interface BoardKey {
+  mode: GameMode;
+  levelId: string;
+  difficulty: DifficultyPresetId;
+}
+
+export const DEFAULT_BOARD: BoardKey = { mode: GameMode.CLASSIC, levelId: DEFAULT_LEVEL.id, difficulty: 'netrunner' };
+
+export const boardId = (key: BoardKey): string => `${key.mode}/${key.levelId}/${key.difficulty}`;
+
+// Entries by board id
+export type Leaderboard = Record<string, LeaderboardEntry[]>;
+
+interface LeaderboardRecord {
+  boards: Leaderboard;
+  lastName: string;
+}
+
+const emptyRecord = (): LeaderboardRecord => ({ boards: {}, lastName: '' });
+
+const MODES = new Set<unknown>(Object.values(GameMode));
+const PRESETS = new Set<unknown>(DIFFICULTY_PRESET_IDS);
+
+const isEntry = (value: unknown): value is LeaderboardEntry =>
+  isObject(value) &&
+  typeof value.id === 'string' && typeof value.name === 'string' && typeof value.date === 'string' &&
+  typeof value.score === 'number' && typeof value.length === 'number' &&
+  typeof value.durationMs === 'number' && typeof value.seed === 'number' && MODES.has(value.mode) && typeof value.levelId === 'string' && PRESETS.has(value.difficulty);
+
+// A malformed entry, or one filed under the wrong board, is dropped on its own; the rest survive
+const readRecord = (data: unknown): LeaderboardRecord => {
+  const record = emptyRecord();
+  if (!isObject(data)) return record;
+  if (typeof data.lastName === 'string') record.lastName = data.lastName;
+  if (isObject(data.boards)) {
+    for (const [id, entries] of Object.entries(data.boards)) {
+      if (Array.isArray(entries)) record.boards[id] = entries.filter(e => isEntry(e) && boardId(e) === id);
+    }
+  }
+  return record;
+};
+
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 1 kept one board per mode and recorded no difficulty. Only classic was ranked,
+  // and the default rules are the best guess for what its runs played by.
+  1: data => {
+    const classic = isObject(data) && isObject(data.entries) ? data.entries[GameMode.CLASSIC] : null;
+    return {
+      lastName: isObject(data) ? data.lastName : '',
+      boards: {
+        [`${GameMode.CLASSIC}/${DEFAULT_BOARD.difficulty}`]: Array.isArray(classic)
+          ? classic.map(e => isObject(e) ? { ...e, difficulty: DEFAULT_BOARD.difficulty } : e)
+          : []
+      }
+    };
+  },
+  // Version 2 recorded no level, so every sector shared a board. They move to the default sector.
+  2: data => {
+    const boards: Record<string, unknown> = {};
+    if (isObject(data) && isObject(data.boards)) {
+      for (const [id, entries] of Object.entries(data.boards)) {
+        const [mode, difficulty] = id.split('/');
+        boards[`${mode}/${DEFAULT_LEVEL.id}/${difficulty}`] = Array.isArray(entries)
+          ? entries.map(e => isObject(e) ? { ...e, levelId: DEFAULT_LEVEL.id } : e)
+          : [];
+      }
+    }
+    return { lastName: isObject(data) ? data.lastName : '', boards };
+  }
+};
+
+const loadRecord = (): LeaderboardRecord => readRecord(loadVersioned<unknown>(STORAGE_KEY, SCHEMA_VERSION, emptyRecord, MIGRATIONS));
+
+export const loadLeaderboard = (): Leaderboard => loadRecord().boards;
+
+export const loadLastPlayerName = (): string => loadRecord().lastName;
+
+// The board a run competes on; null keeps it off the archive. Custom and adapted rules match
+// no preset, and resized, respawned or imported layouts match no stock level, so none of them
+// can outrank runs on the stock game.
+export const rankedBoard = (
+  mode: GameMode,
+  run: { difficulty: DifficultyProfile; config: EngineConfig },
+  levelId: string
+): BoardKey | null => {
+  const preset = presetOf(run.difficulty);
+  const stock = findLevel(levelId);
+  if (!RANKED_MODES.includes(mode) || !preset || !stock || !sameLayout(run.config, stock.config)) return null;
+  return { mode, levelId, difficulty: preset };
+};
+
+export const getEntries = (board: Leaderboard, key: BoardKey): LeaderboardEntry[] => board[boardId(key)] ?? [];
+
+export const getTopScore = (board: Leaderboard, key: BoardKey): number => getEntries(board, key)[0]?.score ?? 0;
+
+// Higher score wins; ties go to the faster run, then to whoever got there first.
+const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry) =>
+  b.score - a.score || a.durationMs - b.durationMs || a.date.localeCompare(b.date);
+
+export const qualifies = (board: Leaderboard, key: BoardKey, score: number): boolean => {
+  if (score <= 0) return false;
+  const entries = getEntries(board, key);
+  return entries.length < LEADERBOARD_SIZE || score > entries[entries.length - 1].score;
+};
+
+export const sanitizeName = (name: string): string =>
+  name.replace(/[^\w\- .]/g, '').trim().toUpperCase().slice(0, MAX_NAME_LENGTH) || 'ANON';
+
+// Inserts the entry, persists the board and returns it along with the new entry's 1-based rank
+// (null when it did not make the cut).
+export const submitEntry = (
+  entry: Omit<LeaderboardEntry, 'id' | 'name'> & { name: string }
+): { board: Leaderboard; rank: number | null; entry: LeaderboardEntry } => {
+  const record = loadRecord();
+  const newEntry: LeaderboardEntry = {
+    ...entry,
+    id: `${Date.now().toString(36)}-${entry.seed.toString(36)}`,
+    name: sanitizeName(entry.name)
+  };
+  const entries = [...getEntries(record.boards, newEntry), newEntry].sort(compareEntries).slice(0, LEADERBOARD_SIZE);
+  const board = { ...record.boards, [boardId(newEntry)]: entries };
+  saveVersioned<LeaderboardRecord>(STORAGE_KEY, SCHEMA_VERSION, { boards: board, lastName: newEntry.name });
+
+  const index = entries.findIndex(e => e.id === newEntry.id);
+  return { board, rank: index === -1 ? null : index + 1, entry: newEntry };
+};
+
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
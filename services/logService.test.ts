@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SystemLog } from '../types';
+import {
+  DEFAULT_LOG_FILTER, MAX_LOG_ENTRIES, appendLog, createLogStore, filterLogs, isFiltered, loadLogStore, serializeLogs
+} from './logService';
+import { storeRaw, stubStorage } from '../test/memoryStorage';
+
+const entry = (seq: number, rest: Partial<SystemLog> = {}): SystemLog => ({
+  seq, time: 0, run: 1, source: 'engine', type: 'info', message: `line ${seq}`, ...rest
+});
+
+describe('log store', () => {
+  beforeEach(() => stubStorage());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('keeps only the newest entries while counting on', () => {
+    let store = createLogStore();
+    for (let i = 0; i < MAX_LOG_ENTRIES + 5; i++) store = appendLog(store, { message: `line ${i}`, type: 'info', source: 'system' }, 0);
+    expect(store.entries).toHaveLength(MAX_LOG_ENTRIES);
+    expect(store.entries[0].seq).toBe(6);
+    expect(store.nextSeq).toBe(MAX_LOG_ENTRIES + 6);
+  });
+
+  it('drops malformed entries on load and never reuses their numbers', () => {
+    storeRaw('cybersnake.logs', 1, { entries: [entry(4), { ...entry(5), source: 'radio' }, null, entry(9, { run: 3, tick: 12 })], nextSeq: 2 });
+    expect(loadLogStore()).toEqual({ entries: [entry(4), entry(9, { run: 3, tick: 12 })], nextSeq: 10, run: 3 });
+
+    storeRaw('cybersnake.logs', 1, ['not', 'a', 'store']);
+    expect(loadLogStore()).toEqual(createLogStore());
+  });
+
+  it('filters by severity, source, run and a case-insensitive query', () => {
+    const entries = [
+      entry(1, { message: 'Packet consumed' }),
+      entry(2, { type: 'critical', message: 'Firewall breach' }),
+      entry(3, { source: 'ai', run: 2, message: 'Autopilot engaged' })
+    ];
+    const run = 2;
+    expect(isFiltered(DEFAULT_LOG_FILTER)).toBe(false);
+    expect(filterLogs(entries, DEFAULT_LOG_FILTER, run)).toEqual(entries);
+    expect(filterLogs(entries, { ...DEFAULT_LOG_FILTER, severities: ['critical'] }, run).map(e => e.seq)).toEqual([2]);
+    expect(filterLogs(entries, { ...DEFAULT_LOG_FILTER, sources: ['engine'] }, run).map(e => e.seq)).toEqual([1, 2]);
+    expect(filterLogs(entries, { ...DEFAULT_LOG_FILTER, currentRun: true }, run).map(e => e.seq)).toEqual([3]);
+    expect(filterLogs(entries, { ...DEFAULT_LOG_FILTER, query: ' FIRE ' }, run).map(e => e.seq)).toEqual([2]);
+  });
+
+  it('exports one line per entry', () => {
+    const entries = [entry(1, { time: Date.UTC(2026, 0, 1), tick: 42 }), entry(12, { type: 'warning', source: 'network' })];
+    expect(serializeLogs([], 'jsonl')).toBe('');
+    expect(serializeLogs(entries, 'jsonl').split('\n').slice(0, -1).map(line => JSON.parse(line))).toEqual(entries);
+    expect(serializeLogs(entries, 'text')).toBe(
+      '2026-01-01T00:00:00.000Z #1      R1    T0042  ENG  INFO  line 1\n' +
+      '-                        #12     R1    -      NET  WARN  line 12\n'
+    );
+  });
+});
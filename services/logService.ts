@@ -0,0 +1,135 @@
+import { LogSource, SystemLog } from '../types';
+import { loadVersioned, saveVersioned, isObject } from './storageService';
+
+// The Neural Logs store. Entries get a sequence number that only ever grows, even across
+// reloads, so exports from different sessions interleave cleanly. The store is plain data;
+// the app keeps it in state and persists it through saveLogStore.
+
+const STORAGE_KEY = 'cybersnake.logs';
+const SCHEMA_VERSION = 1;
+
+// Oldest entries are dropped beyond this, in memory and on disk
+export const MAX_LOG_ENTRIES = 1000;
+
+export type LogSeverity = SystemLog['type'];
+export type LogFormat = 'jsonl' | 'text';
+
+export const LOG_SEVERITIES: { severity: LogSeverity; label: string }[] = [
+  { severity: 'info', label: 'INFO' },
+  { severity: 'success', label: 'OK' },
+  { severity: 'warning', label: 'WARN' },
+  { severity: 'critical', label: 'ERR' }
+];
+
+export const LOG_SOURCES: { source: LogSource; label: string }[] = [
+  { source: 'engine', label: 'ENG' },
+  { source: 'ai', label: 'AI' },
+  { source: 'input', label: 'INP' },
+  { source: 'network', label: 'NET' },
+  { source: 'system', label: 'SYS' }
+];
+
+export interface LogStore {
+  entries: SystemLog[];
+  nextSeq: number;
+  run: number;
+}
+
+export type LogDraft = Pick<SystemLog, 'message' | 'type' | 'source' | 'tick'>;
+
+export const createLogStore = (): LogStore => ({ entries: [], nextSeq: 1, run: 0 });
+
+const SEVERITY_SET = new Set<unknown>(LOG_SEVERITIES.map(s => s.severity));
+const SOURCE_SET = new Set<unknown>(LOG_SOURCES.map(s => s.source));
+
+export const isLogSource = (value: unknown): value is LogSource => SOURCE_SET.has(value);
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+const isEntry = (value: unknown): value is SystemLog =>
+  isObject(value) &&
+  isInteger(value.seq) && typeof value.time === 'number' && isInteger(value.run) &&
+  isLogSource(value.source) && SEVERITY_SET.has(value.type) && typeof value.message === 'string' &&
+  (value.tick === undefined || isInteger(value.tick));
+
+export const loadLogStore = (): LogStore => {
+  const stored = loadVersioned<unknown>(STORAGE_KEY, SCHEMA_VERSION, createLogStore);
+  if (!isObject(stored)) return createLogStore();
+  const entries = Array.isArray(stored.entries) ? stored.entries.filter(isEntry).slice(-MAX_LOG_ENTRIES) : [];
+  // Never hand out a sequence number or run that is already on disk
+  const nextSeq = Math.max(isInteger(stored.nextSeq) ? stored.nextSeq : 1, ...entries.map(e => e.seq + 1));
+  const run = Math.max(isInteger(stored.run) ? stored.run : 0, ...entries.map(e => e.run));
+  return { entries, nextSeq, run };
+};
+
+export const saveLogStore = (store: LogStore) => saveVersioned<LogStore>(STORAGE_KEY, SCHEMA_VERSION, store);
+
+export const appendLog = (store: LogStore, draft: LogDraft, time = Date.now()): LogStore => {
+  const entry: SystemLog = { seq: store.nextSeq, time, run: store.run, ...draft };
+  const entries = store.entries.length >= MAX_LOG_ENTRIES
+    ? [...store.entries.slice(store.entries.length - MAX_LOG_ENTRIES + 1), entry]
+    : [...store.entries, entry];
+  return { ...store, entries, nextSeq: store.nextSeq + 1 };
+};
+
+// Later entries belong to a new run; earlier ones stay for the record
+export const beginRun = (store: LogStore): LogStore => ({ ...store, run: store.run + 1 });
+
+// Drops the entries but keeps counting, so sequence numbers stay unique
+export const clearLogs = (store: LogStore): LogStore => ({ ...store, entries: [] });
+
+export interface LogFilter {
+  severities: LogSeverity[];
+  sources: LogSource[];
+  query: string;
+  currentRun: boolean;
+}
+
+export const DEFAULT_LOG_FILTER: LogFilter = {
+  severities: LOG_SEVERITIES.map(s => s.severity),
+  sources: LOG_SOURCES.map(s => s.source),
+  query: '',
+  currentRun: false
+};
+
+export const isFiltered = (filter: LogFilter): boolean =>
+  filter.query.trim() !== '' || filter.currentRun ||
+  filter.severities.length < LOG_SEVERITIES.length || filter.sources.length < LOG_SOURCES.length;
+
+// Search is a case-insensitive substring match on the message
+export const filterLogs = (entries: SystemLog[], filter: LogFilter, run: number): SystemLog[] => {
+  const query = filter.query.trim().toLowerCase();
+  return entries.filter(e =>
+    filter.severities.includes(e.type) &&
+    filter.sources.includes(e.source) &&
+    (!filter.currentRun || e.run === run) &&
+    (!query || e.message.toLowerCase().includes(query))
+  );
+};
+
+export const formatLogTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const formatTick = (tick: number) => `T${tick.toString().padStart(4, '0')}`;
+
+const sourceLabel = (source: LogSource) => LOG_SOURCES.find(s => s.source === source)!.label;
+const severityLabel = (severity: LogSeverity) => LOG_SEVERITIES.find(s => s.severity === severity)!.label;
+
+// One line per entry either way: JSON Lines for tooling, aligned plain text for reading
+export const serializeLogs = (entries: SystemLog[], format: LogFormat): string => {
+  if (format === 'jsonl') return entries.map(e => JSON.stringify(e)).join('\n') + (entries.length ? '\n' : '');
+  return entries.map(e => [
+    e.time ? new Date(e.time).toISOString() : '-'.padEnd(24),
+    `#${e.seq}`.padEnd(7),
+    `R${e.run}`.padEnd(5),
+    (e.tick === undefined ? '-' : formatTick(e.tick)).padEnd(6),
+    sourceLabel(e.source).padEnd(4),
+    severityLabel(e.type).padEnd(5),
+    e.message
+  ].join(' ')).join('\n') + (entries.length ? '\n' : '');
+};
+
+export const LOG_FORMATS: Record<LogFormat, { extension: string; mimeType: string }> = {
+  jsonl: { extension: 'jsonl', mimeType: 'application/x-ndjson' },
+  text: { extension: 'txt', mimeType: 'text/plain' }
+};
@@ -0,0 +1,16 @@
+import { Renderer, RendererError } from './types';
+import { createScenePainter } from './scenePainter';
+
+// The baseline: draws straight to the board canvas with fake glow sprites instead of shadowBlur
+export const createCanvasRenderer = (canvas: HTMLCanvasElement): Renderer => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new RendererError('2D canvas context unavailable');
+  const painter = createScenePainter(ctx, { glow: true });
+
+  return {
+    id: 'canvas2d',
+    label: 'Canvas2D',
+    render: painter.paint,
+    dispose() {}
+  };
+};
@@ -0,0 +1,331 @@
+import { Coordinate } from '../../types';
+import { EngineConfig } from '../../engine/board';
+import { hasEffect } from '../../engine/powerups';
+import { BoardPalette, FoodShape, RenderFrame, SnakeSkin } from './types';
+
+// Canvas2D drawing of the board, shared by both renderers. The static parts of a level
+// (grid, food zones, firewalls, portals) are rendered once into an offscreen layer;
+// per frame only the moving pieces are drawn, batched into a handful of fills.
+
+export type Surface = HTMLCanvasElement | OffscreenCanvas;
+export type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const HIGHLIGHT = '#ffffff'; // Packet cores and the stunned head, the same in every theme
+const OPACITY_BANDS = 10; // Tail fade steps; each step is one fill call
+
+export const createSurface = (width: number, height: number): Surface => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  return Object.assign(document.createElement('canvas'), { width, height });
+};
+
+export const get2DContext = (surface: Surface): Context2D => {
+  const ctx = surface.getContext('2d') as Context2D | null;
+  if (!ctx) throw new Error('2D canvas context unavailable');
+  return ctx;
+};
+
+// '#rrggbb' to 'r, g, b'
+const toRgb = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return `${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}`;
+};
+
+// Where a segment is drawn `alpha` of the way from its previous cell; jumps (wrap edges,
+// portals, freshly grown tail) snap straight to the new cell
+export const lerpCell = (from: Coordinate | undefined, to: Coordinate, alpha: number): Coordinate => {
+  if (!from || Math.abs(from.x - to.x) + Math.abs(from.y - to.y) !== 1) return to;
+  return { x: from.x + (to.x - from.x) * alpha, y: from.y + (to.y - from.y) * alpha };
+};
+
+const drawStaticLayer = (ctx: Context2D, config: EngineConfig, cellSize: number, palette: BoardPalette) => {
+  const { width, height, walls, portals, foodCells, wrap } = config;
+
+  // Grid lines, all in one path
+  ctx.strokeStyle = palette.grid;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let x = 0; x <= width; x++) {
+    ctx.moveTo(x * cellSize, 0);
+    ctx.lineTo(x * cellSize, height * cellSize);
+  }
+  for (let y = 0; y <= height; y++) {
+    ctx.moveTo(0, y * cellSize);
+    ctx.lineTo(width * cellSize, y * cellSize);
+  }
+  ctx.stroke();
+
+  // Food spawn zones (faint data caches)
+  if (foodCells) {
+    ctx.fillStyle = palette.foodZone;
+    foodCells.forEach(cell => ctx.fillRect(cell.x * cellSize, cell.y * cellSize, cellSize, cellSize));
+  }
+
+  // Wrap-around edges are drawn as dashed open borders
+  if (wrap.horizontal || wrap.vertical) {
+    ctx.save();
+    ctx.strokeStyle = palette.wrapEdge;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 6]);
+    ctx.beginPath();
+    if (wrap.horizontal) {
+      ctx.moveTo(1, 0); ctx.lineTo(1, height * cellSize);
+      ctx.moveTo(width * cellSize - 1, 0); ctx.lineTo(width * cellSize - 1, height * cellSize);
+    }
+    if (wrap.vertical) {
+      ctx.moveTo(0, 1); ctx.lineTo(width * cellSize, 1);
+      ctx.moveTo(0, height * cellSize - 1); ctx.lineTo(width * cellSize, height * cellSize - 1);
+    }
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Firewalls (hatched neon blocks)
+  if (walls.length > 0) {
+    ctx.fillStyle = `rgba(${palette.wall}, 0.15)`;
+    ctx.strokeStyle = `rgba(${palette.wall}, 0.8)`;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    walls.forEach(wall => {
+      const px = wall.x * cellSize;
+      const py = wall.y * cellSize;
+      ctx.fillRect(px + 1, py + 1, cellSize - 2, cellSize - 2);
+      ctx.rect(px + 2.5, py + 2.5, cellSize - 5, cellSize - 5);
+      ctx.moveTo(px + 2.5, py + cellSize - 2.5);
+      ctx.lineTo(px + cellSize - 2.5, py + 2.5);
+    });
+    ctx.stroke();
+  }
+
+  // Portals (paired rings sharing a colour). Real shadow blur is fine here: it is paid once per level.
+  portals.forEach((pair, index) => {
+    const color = palette.portals[index % palette.portals.length];
+    ctx.strokeStyle = color;
+    ctx.shadowColor = color;
+    ctx.shadowBlur = 12;
+    ctx.lineWidth = 2;
+    pair.forEach(end => {
+      ctx.beginPath();
+      ctx.arc((end.x + 0.5) * cellSize, (end.y + 0.5) * cellSize, cellSize / 2 - 3, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc((end.x + 0.5) * cellSize, (end.y + 0.5) * cellSize, cellSize / 4 - 1, 0, Math.PI * 2);
+      ctx.stroke();
+    });
+    ctx.shadowBlur = 0;
+  });
+};
+
+export interface PainterOptions {
+  glow: boolean; // Fake glow sprites; off when a post-process supplies real bloom
+}
+
+export interface ScenePainter {
+  paint(frame: RenderFrame): void;
+}
+
+export const createScenePainter = (ctx: Context2D, { glow }: PainterOptions): ScenePainter => {
+  let layer: { config: EngineConfig; palette: BoardPalette; surface: Surface } | null = null;
+  const glowSprites = new Map<string, Surface>();
+  let cellSize = 0; // Pixels per grid cell; both caches are rebuilt when it changes
+
+  // Radial gradient blob standing in for shadowBlur, rendered once per colour
+  const glowSprite = (rgb: string) => {
+    let sprite = glowSprites.get(rgb);
+    if (!sprite) {
+      sprite = createSurface(cellSize * 2, cellSize * 2);
+      const sctx = get2DContext(sprite);
+      const gradient = sctx.createRadialGradient(cellSize, cellSize, cellSize / 4, cellSize, cellSize, cellSize);
+      gradient.addColorStop(0, `rgba(${rgb}, 0.6)`);
+      gradient.addColorStop(1, `rgba(${rgb}, 0)`);
+      sctx.fillStyle = gradient;
+      sctx.fillRect(0, 0, cellSize * 2, cellSize * 2);
+      glowSprites.set(rgb, sprite);
+    }
+    return sprite;
+  };
+
+  const drawGlow = (rgb: string, cell: Coordinate, scale = 1) => {
+    if (!glow) return;
+    const size = cellSize * 2 * scale;
+    ctx.drawImage(glowSprite(rgb), (cell.x + 0.5) * cellSize - size / 2, (cell.y + 0.5) * cellSize - size / 2, size, size);
+  };
+
+  const staticLayer = (config: EngineConfig, palette: BoardPalette) => {
+    if (layer?.config !== config || layer.palette !== palette) {
+      const surface = createSurface(config.width * cellSize, config.height * cellSize);
+      drawStaticLayer(get2DContext(surface), config, cellSize, palette);
+      layer = { config, palette, surface };
+    }
+    return layer.surface;
+  };
+
+  const drawSnake = (
+    snake: Coordinate[],
+    prevSnake: Coordinate[] | undefined,
+    skin: SnakeSkin,
+    headColor: string,
+    ghosted: boolean,
+    alpha: number,
+    minOpacity: number
+  ) => {
+    if (snake.length === 0) return;
+    const cells = snake.map((cell, index) => lerpCell(prevSnake?.[index], cell, alpha));
+
+    // Gradient fade for tail, quantised so each band (per colour) is a single fill
+    const bands = new Map<string, Path2D>();
+    const outline = new Path2D();
+    cells.forEach((segment, index) => {
+      if (index === 0) return;
+      const opacity = Math.max(minOpacity, 1 - index / (snake.length + 5)) * (ghosted ? 0.4 : 1);
+      const rgb = skin.stripe && index % 2 === 0 ? skin.stripe : skin.body;
+      const band = `rgba(${rgb}, ${Math.round(opacity * OPACITY_BANDS) / OPACITY_BANDS})`;
+      let path = bands.get(band);
+      if (!path) bands.set(band, path = new Path2D());
+      path.rect(segment.x * cellSize + 1, segment.y * cellSize + 1, cellSize - 2, cellSize - 2);
+      outline.rect(segment.x * cellSize + 1, segment.y * cellSize + 1, cellSize - 2, cellSize - 2);
+    });
+
+    // Cheap glow: one wide translucent stroke around the whole body
+    if (glow && cells.length > 1) {
+      ctx.strokeStyle = `rgba(${skin.body}, ${ghosted ? 0.1 : 0.25})`;
+      ctx.lineWidth = 4;
+      ctx.stroke(outline);
+    }
+    bands.forEach((path, color) => {
+      ctx.fillStyle = color;
+      ctx.fill(path);
+    });
+
+    const head = cells[0];
+    drawGlow(toRgb(headColor), head, 1.2);
+    ctx.fillStyle = headColor;
+    ctx.fillRect(head.x * cellSize + 1, head.y * cellSize + 1, cellSize - 2, cellSize - 2);
+  };
+
+  // The packet colour always comes from its kind; the shape is cosmetic
+  const drawFood = (cell: Coordinate, color: string, pulseSize: number, shape: FoodShape) => {
+    const cx = (cell.x + 0.5) * cellSize;
+    const cy = (cell.y + 0.5) * cellSize;
+    const r = (cellSize - 4 + pulseSize) / 2;
+    const core = cellSize / 2 - Math.round(cellSize * 0.32);
+    ctx.fillStyle = color;
+    switch (shape) {
+      case 'block':
+        ctx.fillRect(cx - r, cy - r, r * 2, r * 2);
+        // Inner core of food
+        ctx.fillStyle = HIGHLIGHT;
+        ctx.fillRect(cx - core, cy - core, core * 2, core * 2);
+        return;
+      case 'orb':
+        ctx.beginPath();
+        ctx.arc(cx, cy, r, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = HIGHLIGHT;
+        ctx.beginPath();
+        ctx.arc(cx, cy, core, 0, Math.PI * 2);
+        ctx.fill();
+        return;
+      case 'diamond':
+        ctx.beginPath();
+        ctx.moveTo(cx, cy - r);
+        ctx.lineTo(cx + r, cy);
+        ctx.lineTo(cx, cy + r);
+        ctx.lineTo(cx - r, cy);
+        ctx.closePath();
+        ctx.fill();
+        ctx.fillStyle = HIGHLIGHT;
+        ctx.fillRect(cx - core / 2, cy - core / 2, core, core);
+        return;
+      case 'ring':
+        ctx.strokeStyle = color;
+        ctx.lineWidth = Math.max(2, cellSize / 8);
+        ctx.beginPath();
+        ctx.arc(cx, cy, r - ctx.lineWidth / 2, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.fillStyle = HIGHLIGHT;
+        ctx.fillRect(cx - 1, cy - 1, 2, 2);
+        return;
+    }
+  };
+
+  const paint = (frame: RenderFrame) => {
+    const { game, prev, alpha, showFood, now, palette, reducedMotion = false, foodShape = 'block' } = frame;
+    if (frame.cellSize !== cellSize) {
+      cellSize = frame.cellSize;
+      layer = null;
+      glowSprites.clear();
+    }
+    const arena = 'players' in game ? game : null;
+    const solo = 'players' in game ? null : game;
+    const prevArena = prev !== game && 'players' in prev ? prev : null;
+    const prevSolo = prev !== game && !('players' in prev) ? prev : null;
+    const { food } = game;
+
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.drawImage(staticLayer(game.config, palette), 0, 0);
+
+    // Draw Food (Glowing Pulse)
+    if (showFood && food) {
+      const pulseSize = reducedMotion ? 0 : Math.sin(now / 200) * 2;
+      const packetColor = palette.packets[food.kind];
+      drawGlow(toRgb(packetColor), food, 1 + pulseSize / 20);
+      drawFood(food, packetColor, pulseSize, foodShape);
+    }
+
+    // Draw Markers (campaign keys; only the next one is lit)
+    frame.markers?.forEach(marker => {
+      const x = marker.position.x * cellSize;
+      const y = marker.position.y * cellSize;
+      const color = marker.active ? palette.marker : `rgba(${toRgb(palette.marker)}, 0.35)`;
+      if (marker.active) drawGlow(toRgb(palette.marker), marker.position);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x + 3, y + 3, cellSize - 6, cellSize - 6);
+      ctx.fillStyle = color;
+      ctx.font = `bold ${Math.round(cellSize * 0.5)}px monospace`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(marker.label, x + cellSize / 2, y + cellSize / 2 + 1);
+    });
+
+    // Draw Watchdogs (red diamonds; the core turns yellow while foraging for packets)
+    solo?.watchdogs.forEach(dog => {
+      const from = prevSolo?.watchdogs.find(other => other.id === dog.id)?.position;
+      const position = lerpCell(from, dog.position, alpha);
+      const cx = (position.x + 0.5) * cellSize;
+      const cy = (position.y + 0.5) * cellSize;
+      const r = cellSize / 2 - 2;
+      drawGlow(toRgb(palette.watchdog), position);
+      ctx.fillStyle = `rgba(${toRgb(palette.watchdog)}, 0.25)`;
+      ctx.strokeStyle = palette.watchdog;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(cx, cy - r);
+      ctx.lineTo(cx + r, cy);
+      ctx.lineTo(cx, cy + r);
+      ctx.lineTo(cx - r, cy);
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = dog.mode === 'forage' ? palette.forage : palette.watchdog;
+      ctx.fillRect(cx - 3, cy - 3, 6, 6);
+    });
+
+    // Draw Snake
+    if (solo) {
+      // Head flickers while the post-impact grace period is running; with reduced motion it holds steady
+      const stunned = solo.graceTicks > 0 && (reducedMotion || Math.floor(now / 80) % 2 === 0);
+      const skin = frame.skin ?? palette.players[0];
+      const headColor = stunned ? HIGHLIGHT : hasEffect(solo.effects, 'overclock') ? palette.overclock : skin.head;
+      drawSnake(solo.snake, prevSolo?.snake, skin, headColor, hasEffect(solo.effects, 'ghost'), alpha, palette.minTailOpacity);
+    } else {
+      arena!.players.forEach(player => {
+        const skin = palette.players[player.slot % palette.players.length];
+        const prevSnake = prevArena?.players.find(other => other.id === player.id)?.snake;
+        drawSnake(player.snake, prevSnake, skin, skin.head, false, alpha, palette.minTailOpacity);
+      });
+    }
+  };
+
+  return { paint };
+};
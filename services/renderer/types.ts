@@ -0,0 +1,74 @@
+import { GameState } from '../../engine/snakeEngine';
+import { ArenaState } from '../../engine/arenaEngine';
+import { Coordinate } from '../../types';
+import { PacketKind } from '../../engine/powerups';
+
+export type RendererId = 'canvas2d' | 'webgl';
+
+export const DEFAULT_CELL_SIZE = 25;
+export const MIN_CELL_SIZE = 12;
+export const MAX_CELL_SIZE = 40;
+
+// Colours of the solo snake: head colour, body RGB and an optional RGB for every other segment
+export interface SnakeSkin {
+  head: string;
+  body: string;
+  stripe?: string;
+}
+
+// Board colours from the active theme. Hex strings unless noted; 'r, g, b' triplets are
+// for colours drawn at more than one opacity.
+export interface BoardPalette {
+  background: string;
+  grid: string; // Any CSS colour
+  foodZone: string; // Any CSS colour
+  wrapEdge: string; // Any CSS colour
+  wall: string; // 'r, g, b'
+  portals: string[];
+  watchdog: string;
+  forage: string; // Watchdog core while it hunts packets
+  marker: string;
+  overclock: string; // Head colour while overclocked
+  players: SnakeSkin[]; // Per player slot; slot 0 is also the solo snake's default
+  packets: Record<PacketKind, string>;
+  heatmap: string; // 'r, g, b'
+  minTailOpacity: number; // Where the tail fade stops, 0..1
+}
+
+export type FoodShape = 'block' | 'orb' | 'diamond' | 'ring';
+
+// A labelled cell drawn on the board, e.g. a campaign key; `active` marks the one to go for next
+export interface BoardMarker {
+  position: Coordinate;
+  label: string;
+  active: boolean;
+}
+
+// Everything a renderer needs for one display frame
+export interface RenderFrame {
+  game: GameState | ArenaState;
+  prev: GameState | ArenaState; // The state one tick earlier, or `game` itself when there is nothing to interpolate from
+  alpha: number; // Progress from `prev` to `game`, 0..1
+  showFood: boolean;
+  cellSize: number; // Pixels per grid cell
+  now: number; // Frame timestamp, drives pulses and flicker
+  palette: BoardPalette;
+  reducedMotion?: boolean; // No packet throb or head flicker
+  skin?: SnakeSkin; // Solo runs only; versus snakes keep their slot palettes
+  foodShape?: FoodShape;
+  markers?: BoardMarker[];
+}
+
+export interface Renderer {
+  id: RendererId;
+  label: string;
+  render(frame: RenderFrame): void;
+  dispose(): void;
+}
+
+export class RendererError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RendererError';
+  }
+}
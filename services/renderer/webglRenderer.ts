@@ -0,0 +1,217 @@
+import { Renderer, RendererError } from './types';
+import { ScenePainter, Surface, createScenePainter, createSurface, get2DContext } from './scenePainter';
+
+// The board is painted with Canvas2D into an offscreen scene (no glow sprites), then run
+// through a WebGL post-process: bright pass, separable Gaussian blur at half resolution,
+// and a composite that adds the bloom back with scanlines, barrel curvature and vignette.
+
+const BLOOM_SCALE = 2; // Bloom buffers are this many times smaller than the board
+
+const VERTEX_SHADER = `
+attribute vec2 position;
+varying vec2 uv;
+void main() {
+  uv = position * 0.5 + 0.5;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+const BRIGHT_SHADER = `
+precision mediump float;
+varying vec2 uv;
+uniform sampler2D source;
+void main() {
+  vec4 color = texture2D(source, uv);
+  float peak = max(color.r, max(color.g, color.b));
+  gl_FragColor = color * smoothstep(0.45, 0.9, peak);
+}`;
+
+// 9-tap Gaussian folded into 5 linear samples
+const BLUR_SHADER = `
+precision mediump float;
+varying vec2 uv;
+uniform sampler2D source;
+uniform vec2 direction;
+void main() {
+  vec4 sum = texture2D(source, uv) * 0.227027;
+  sum += (texture2D(source, uv + direction * 1.384615) + texture2D(source, uv - direction * 1.384615)) * 0.316216;
+  sum += (texture2D(source, uv + direction * 3.230769) + texture2D(source, uv - direction * 3.230769)) * 0.070270;
+  gl_FragColor = sum;
+}`;
+
+const COMPOSITE_SHADER = `
+precision mediump float;
+varying vec2 uv;
+uniform sampler2D scene;
+uniform sampler2D bloom;
+uniform vec2 resolution;
+uniform vec3 background;
+void main() {
+  vec2 centered = uv * 2.0 - 1.0;
+  centered *= 1.0 + 0.03 * dot(centered, centered);
+  vec2 p = centered * 0.5 + 0.5;
+  if (p.x < 0.0 || p.x > 1.0 || p.y < 0.0 || p.y > 1.0) {
+    gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+    return;
+  }
+  vec4 base = texture2D(scene, p);
+  vec3 color = background * (1.0 - base.a) + base.rgb + texture2D(bloom, p).rgb * 1.6;
+  color *= 0.85 + 0.15 * sin(p.y * resolution.y * 3.14159);
+  vec2 edge = p * (1.0 - p);
+  color *= pow(edge.x * edge.y * 16.0, 0.15);
+  gl_FragColor = vec4(color, 1.0);
+}`;
+
+// '#rrggbb' to 0..1 channels, for the background behind the scene
+const toUnitRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+};
+
+interface Target {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+  width: number;
+  height: number;
+}
+
+export const createWebGLRenderer = (canvas: HTMLCanvasElement, onLost: () => void): Renderer => {
+  const gl = canvas.getContext('webgl', { alpha: false, antialias: false });
+  if (!gl) throw new RendererError('WebGL unavailable');
+
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new RendererError(`Shader compile failed: ${gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+  };
+
+  const vertex = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+  const link = (fragmentSource: string) => {
+    const program = gl.createProgram()!;
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, compile(gl.FRAGMENT_SHADER, fragmentSource));
+    gl.bindAttribLocation(program, 0, 'position');
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new RendererError(`Shader link failed: ${gl.getProgramInfoLog(program)}`);
+    }
+    return program;
+  };
+
+  const bright = link(BRIGHT_SHADER);
+  const blur = link(BLUR_SHADER);
+  const composite = link(COMPOSITE_SHADER);
+
+  // One full-screen triangle strip shared by every pass
+  const quad = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+  const createTexture = (width: number, height: number) => {
+    const texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+    return texture;
+  };
+
+  const createTarget = (width: number, height: number): Target => {
+    const texture = createTexture(width, height);
+    const framebuffer = gl.createFramebuffer()!;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    return { texture, framebuffer, width, height };
+  };
+
+  const deleteTarget = (target: Target) => {
+    gl.deleteFramebuffer(target.framebuffer);
+    gl.deleteTexture(target.texture);
+  };
+
+  // Sized lazily to the canvas, which changes with the level
+  let size = { width: 0, height: 0 };
+  let scene: Surface | null = null;
+  let painter: ScenePainter | null = null;
+  let targets: [Target, Target] | null = null;
+  const sceneTexture = createTexture(1, 1);
+
+  const resize = (width: number, height: number) => {
+    size = { width, height };
+    scene = createSurface(width, height);
+    painter = createScenePainter(get2DContext(scene), { glow: false });
+    targets?.forEach(deleteTarget);
+    const w = Math.max(1, Math.floor(width / BLOOM_SCALE));
+    const h = Math.max(1, Math.floor(height / BLOOM_SCALE));
+    targets = [createTarget(w, h), createTarget(w, h)];
+  };
+
+  const pass = (program: WebGLProgram, target: Target | null, textures: WebGLTexture[], uniforms: (program: WebGLProgram) => void) => {
+    gl.useProgram(program);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target?.framebuffer ?? null);
+    gl.viewport(0, 0, target?.width ?? size.width, target?.height ?? size.height);
+    textures.forEach((texture, unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+    });
+    uniforms(program);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  };
+
+  let lost = false;
+  const handleLost = (event: Event) => {
+    event.preventDefault();
+    lost = true;
+    onLost();
+  };
+  canvas.addEventListener('webglcontextlost', handleLost);
+
+  return {
+    id: 'webgl',
+    label: 'WebGL Bloom',
+    render(frame) {
+      if (lost) return;
+      if (canvas.width !== size.width || canvas.height !== size.height) resize(canvas.width, canvas.height);
+      painter!.paint(frame);
+
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, sceneTexture);
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+      gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, scene!);
+
+      const [a, b] = targets!;
+      pass(bright, a, [sceneTexture], program => gl.uniform1i(gl.getUniformLocation(program, 'source'), 0));
+      pass(blur, b, [a.texture], program => {
+        gl.uniform1i(gl.getUniformLocation(program, 'source'), 0);
+        gl.uniform2f(gl.getUniformLocation(program, 'direction'), 1 / a.width, 0);
+      });
+      pass(blur, a, [b.texture], program => {
+        gl.uniform1i(gl.getUniformLocation(program, 'source'), 0);
+        gl.uniform2f(gl.getUniformLocation(program, 'direction'), 0, 1 / b.height);
+      });
+      const background = toUnitRgb(frame.palette.background);
+      pass(composite, null, [sceneTexture, a.texture], program => {
+        gl.uniform1i(gl.getUniformLocation(program, 'scene'), 0);
+        gl.uniform1i(gl.getUniformLocation(program, 'bloom'), 1);
+        gl.uniform2f(gl.getUniformLocation(program, 'resolution'), size.width, size.height);
+        gl.uniform3f(gl.getUniformLocation(program, 'background'), background[0], background[1], background[2]);
+      });
+    },
+    dispose() {
+      canvas.removeEventListener('webglcontextlost', handleLost);
+      if (lost) return;
+      targets?.forEach(deleteTarget);
+      gl.deleteTexture(sceneTexture);
+      [bright, blur, composite].forEach(program => gl.deleteProgram(program));
+      gl.deleteBuffer(quad);
+    }
+  };
+};
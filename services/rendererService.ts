@@ -0,0 +1,38 @@
+import { DEFAULT_CELL_SIZE, Renderer, RendererId } from './renderer/types';
+import { createCanvasRenderer } from './renderer/canvasRenderer';
+import { createWebGLRenderer } from './renderer/webglRenderer';
+
+export type { Renderer, RendererId, RenderFrame, SnakeSkin, FoodShape, BoardMarker, BoardPalette } from './renderer/types';
+export { DEFAULT_CELL_SIZE, MIN_CELL_SIZE, MAX_CELL_SIZE, RendererError } from './renderer/types';
+
+export interface DisplaySettings {
+  renderer: RendererId;
+  cellSize: number; // Pixels per grid cell
+  smoothMotion: boolean; // Interpolate movement between ticks
+  scanlines: boolean; // Full-screen scanline overlay
+}
+
+export const RENDERER_LABELS: Record<RendererId, string> = {
+  canvas2d: 'Canvas2D',
+  webgl: 'WebGL Bloom + CRT'
+};
+
+export const RENDERER_IDS = Object.keys(RENDERER_LABELS) as RendererId[];
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  renderer: 'canvas2d',
+  cellSize: DEFAULT_CELL_SIZE,
+  smoothMotion: true,
+  scanlines: true
+};
+
+// Throws a RendererError when the pipeline can't start on this canvas. A canvas only ever
+// gets one kind of context, so falling back means starting over on a fresh canvas.
+export const createRenderer = (id: RendererId, canvas: HTMLCanvasElement, onLost: () => void): Renderer => {
+  switch (id) {
+    case 'webgl':
+      return createWebGLRenderer(canvas, onLost);
+    case 'canvas2d':
+      return createCanvasRenderer(canvas);
+  }
+};
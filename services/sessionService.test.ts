@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Direction, GameMode } from '../types';
+import { createInitialState, step } from '../engine/snakeEngine';
+import { createReplay } from '../engine/replay';
+import { createRunTracker } from '../engine/runStats';
+import { createMomentTracker } from '../engine/moments';
+import { RunSnapshot, SnapshotError, loadSnapshot, saveSnapshot } from './sessionService';
+import { storeRaw, stubStorage } from '../test/memoryStorage';
+
+// A classic run five ticks in, saved the way the app saves it
+const snapshot = (): RunSnapshot => {
+  let state = createInitialState(7);
+  const replay = createReplay(state);
+  for (let i = 0; i < 5; i++) {
+    replay.inputs.push(Direction.UP);
+    state = step(state, { direction: Direction.UP }).state;
+  }
+  return {
+    savedAt: '2026-01-01T00:00:00.000Z', mode: GameMode.CLASSIC, levelId: 'open-grid', levelName: 'Open Grid',
+    state, turns: [Direction.LEFT], replay, tracker: { ...createRunTracker(state), ticks: 5 },
+    moments: createMomentTracker(12), elapsedMs: 750, assisted: false, objective: null, daily: null
+  };
+};
+
+// Saves a valid snapshot, then lets the test damage the stored copy
+const storeDamaged = (damage: (data: Record<string, any>) => void) => {
+  const data = JSON.parse(JSON.stringify(snapshot()));
+  damage(data);
+  storeRaw('cybersnake.session', 1, data);
+};
+
+describe('saved sessions', () => {
+  beforeEach(() => {
+    stubStorage();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('resumes a saved run exactly', () => {
+    expect(loadSnapshot()).toBeNull();
+    const saved = snapshot();
+    saveSnapshot(saved);
+    expect(loadSnapshot()).toEqual(saved);
+  });
+
+  it('rejects corrupt and partial sessions', () => {
+    localStorage.setItem('cybersnake.session', '{nope');
+    expect(loadSnapshot).toThrow(SnapshotError);
+
+    storeDamaged(data => delete data.tracker.pauses);
+    expect(loadSnapshot).toThrow('Saved session is unreadable, incomplete or from another version.');
+    storeDamaged(data => { data.mode = GameMode.VERSUS; });
+    expect(loadSnapshot).toThrow(SnapshotError);
+    storeDamaged(data => { data.turns = [Direction.UP, Direction.UP, Direction.UP, Direction.UP]; });
+    expect(loadSnapshot).toThrow(SnapshotError);
+    storeDamaged(data => { data.objective = { value: 2 }; });
+    expect(loadSnapshot).toThrow(SnapshotError);
+  });
+
+  it('rejects sessions that disagree with their recording', () => {
+    storeDamaged(data => { data.replay.inputs = 'up'; });
+    expect(loadSnapshot).toThrow('Saved session recording is invalid: ');
+    storeDamaged(data => { data.state.score = 99; });
+    expect(loadSnapshot).toThrow('Saved session does not match its recording.');
+  });
+});
@@ -0,0 +1,138 @@
+import { Direction, GameMode } from '../types';
+import { GameState } from '../engine/snakeEngine';
+import { Replay, ReplayTimeline, parseReplay, buildTimeline, stateAtTick, replayLength } from '../engine/replay';
+import { RunTracker } from '../engine/runStats';
+import { MomentTracker } from '../engine/moments';
+import { ObjectiveProgress } from '../engine/objectives';
+import { MAX_QUEUED_TURNS } from '../engine/turnQueue';
+import { loadVersioned, saveVersioned, removeStored, hasStored, isObject } from './storageService';
+
+// Snapshot of a solo run in progress, written on pause and when the page is hidden so a
+// reload or a closed tab can pick the run back up. The engine state is checked against a
+// re-simulation of the recording before it is trusted.
+
+const STORAGE_KEY = 'cybersnake.session';
+const SCHEMA_VERSION = 1;
+
+// Modes whose runs can be saved; versus and online matches live elsewhere
+export const RESUMABLE_MODES: GameMode[] = [GameMode.CLASSIC, GameMode.CAMPAIGN, GameMode.DAILY];
+
+export interface RunSnapshot {
+  savedAt: string;
+  mode: GameMode;
+  levelId: string;
+  levelName: string;
+  state: GameState;
+  turns: Direction[]; // Buffered turns not yet taken
+  replay: Replay; // Inputs and log entries of the run so far
+  tracker: RunTracker;
+  moments: MomentTracker;
+  elapsedMs: number; // Run clock at the time of the snapshot, pauses excluded
+  assisted: boolean;
+  objective: ObjectiveProgress | null; // Campaign runs
+  daily: { key: string; trail: number[] } | null; // Scored daily attempts
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+export const saveSnapshot = (snapshot: RunSnapshot): boolean => saveVersioned(STORAGE_KEY, SCHEMA_VERSION, snapshot);
+
+export const clearSnapshot = () => removeStored(STORAGE_KEY);
+
+// What moves during a run; the board and rules are already covered by the recording
+const dynamicPart = ({ config, difficulty, ...rest }: { config?: unknown; difficulty?: unknown }) => rest;
+
+// The tracker's counters; how the run ended is decided after the resume
+type RunCounts = Omit<RunTracker, 'cleared' | 'death'>;
+
+// A snapshot as it comes back from storage. The engine state and the recording are checked
+// by re-simulating rather than field by field, and JSON has turned the moment tracker's
+// -Infinity ticks into null.
+type StoredSnapshot = Omit<RunSnapshot, 'state' | 'replay' | 'tracker' | 'moments'> & {
+  state: Record<string, unknown>;
+  replay: unknown;
+  tracker: RunCounts;
+  moments: unknown;
+};
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+const DIRECTIONS = new Set<unknown>([Direction.UP, Direction.DOWN, Direction.LEFT, Direction.RIGHT]);
+const TRACKER_COUNTS = [
+  'ticks', 'packets', 'turns', 'maxLength', 'nearWallTicks', 'powerups', 'watchdogsPurged', 'integrityHits', 'pauses'
+] as const;
+
+const isTracker = (value: unknown): value is RunCounts =>
+  isObject(value) && TRACKER_COUNTS.every(field => isCount(value[field]));
+
+const isObjective = (value: unknown): value is ObjectiveProgress =>
+  isObject(value) && isCount(value.value) && isCount(value.target) && typeof value.done === 'boolean';
+
+const isDailyRun = (value: unknown): value is RunSnapshot['daily'] =>
+  isObject(value) && typeof value.key === 'string' && Array.isArray(value.trail) && value.trail.every(isCount);
+
+const isStoredSnapshot = (data: unknown): data is StoredSnapshot =>
+  isObject(data) &&
+  typeof data.savedAt === 'string' &&
+  RESUMABLE_MODES.includes(data.mode as GameMode) &&
+  typeof data.levelId === 'string' &&
+  typeof data.levelName === 'string' &&
+  isObject(data.state) &&
+  Array.isArray(data.turns) && data.turns.length <= MAX_QUEUED_TURNS && data.turns.every(t => DIRECTIONS.has(t)) &&
+  isTracker(data.tracker) &&
+  typeof data.elapsedMs === 'number' && Number.isFinite(data.elapsedMs) && data.elapsedMs >= 0 &&
+  typeof data.assisted === 'boolean' &&
+  (data.objective === null || isObjective(data.objective)) &&
+  (data.daily === null || isDailyRun(data.daily));
+
+const restoreMoments = (value: unknown): MomentTracker => {
+  const moments = isObject(value) ? value : {};
+  const tick = (t: unknown) => typeof t === 'number' ? t : -Infinity;
+  return {
+    bestScore: isCount(moments.bestScore) ? moments.bestScore : 0,
+    recordAnnounced: moments.recordAnnounced === true,
+    streak: isCount(moments.streak) ? moments.streak : 0,
+    lastConsumeTick: tick(moments.lastConsumeTick),
+    lastNearMissTick: tick(moments.lastNearMissTick)
+  };
+};
+
+// Null when nothing is saved; throws SnapshotError when what is saved cannot be trusted
+export const loadSnapshot = (): RunSnapshot | null => {
+  if (!hasStored(STORAGE_KEY)) return null;
+  const data = loadVersioned<StoredSnapshot | null>(STORAGE_KEY, SCHEMA_VERSION, () => null, {}, isStoredSnapshot);
+  if (data === null) throw new SnapshotError('Saved session is unreadable, incomplete or from another version.');
+
+  // The recording has to replay into exactly the saved state, which also catches engine changes
+  let timeline: ReplayTimeline;
+  try {
+    timeline = buildTimeline(parseReplay(JSON.stringify(data.replay)));
+  } catch (error) {
+    throw new SnapshotError(`Saved session recording is invalid: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const { replay } = timeline;
+  const state = stateAtTick(timeline, replayLength(replay));
+  if (!state.alive || JSON.stringify(dynamicPart(state)) !== JSON.stringify(dynamicPart(data.state))) {
+    throw new SnapshotError('Saved session does not match its recording.');
+  }
+
+  return {
+    savedAt: data.savedAt,
+    mode: data.mode,
+    levelId: data.levelId,
+    levelName: data.levelName,
+    state,
+    turns: data.turns,
+    replay,
+    tracker: { ...data.tracker, cleared: false, death: null },
+    moments: restoreMoments(data.moments),
+    elapsedMs: data.elapsedMs,
+    assisted: data.assisted,
+    objective: data.objective,
+    daily: data.daily
+  };
+};
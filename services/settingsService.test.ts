@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, SettingsFormatError, normalizeSettings, parseSettings, serializeSettings } from './settingsService';
+
+describe('settings', () => {
+  it('fills malformed sections and fields with defaults', () => {
+    expect(normalizeSettings(null)).toEqual(DEFAULT_SETTINGS);
+    expect(normalizeSettings([1, 2])).toEqual(DEFAULT_SETTINGS);
+
+    const settings = normalizeSettings({
+      gameplay: { board: { width: 90, height: 'tall' }, difficulty: { custom: { speed: 5, maxWatchdogs: 40 } } },
+      audio: { master: 0.5, muted: 'yes' },
+      commentary: 'on'
+    });
+    expect(settings.gameplay.board).toMatchObject({ width: 40, height: DEFAULT_SETTINGS.gameplay.board.height });
+    expect(settings.gameplay.difficulty.custom.speed).toEqual(DEFAULT_SETTINGS.gameplay.difficulty.custom.speed);
+    expect(settings.gameplay.difficulty.custom.maxWatchdogs).toBe(8);
+    expect(settings.audio).toMatchObject({ master: 0.5, muted: DEFAULT_SETTINGS.audio.muted });
+    expect(settings.commentary).toEqual(DEFAULT_SETTINGS.commentary);
+  });
+
+  it('reads its own files and rejects anything else', () => {
+    expect(parseSettings(serializeSettings(DEFAULT_SETTINGS))).toEqual(DEFAULT_SETTINGS);
+
+    const file = (data: unknown) => () => parseSettings(JSON.stringify(data));
+    expect(() => parseSettings('{nope')).toThrow('Settings file is not valid JSON.');
+    expect(file(['cybersnake'])).toThrow('Not a CyberSnake settings file.');
+    expect(file({ app: 'cybersnake', version: '1', settings: {} })).toThrow('Settings file has no valid version.');
+    expect(file({ app: 'cybersnake', version: 9, settings: {} })).toThrow(SettingsFormatError);
+  });
+});
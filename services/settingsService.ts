@@ -0,0 +1,194 @@
+import { loadVersioned, saveVersioned, isObject, Migration } from './storageService';
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS } from './soundService';
+import { CommentarySettings, DEFAULT_COMMENTARY_SETTINGS, PROVIDER_IDS } from './commentaryService';
+import { DisplaySettings, DEFAULT_DISPLAY_SETTINGS, RENDERER_IDS, MIN_CELL_SIZE, MAX_CELL_SIZE } from './rendererService';
+import { AccessibilitySettings, DEFAULT_ACCESSIBILITY_SETTINGS, THEME_IDS } from './themeService';
+import { DifficultySettings, DEFAULT_DIFFICULTY_SETTINGS } from './difficultyService';
+import { KeyBindings, TouchControlsMode, DEFAULT_KEY_BINDINGS, sanitizeBindings } from './inputService';
+import { BoardSettings, DEFAULT_BOARD_SETTINGS, MIN_BOARD_SIZE, MAX_BOARD_SIZE } from '../engine/levels';
+import { DifficultyProfile, DIFFICULTY_PRESET_IDS, sanitizeProfile } from '../engine/difficulty';
+import { PacketKind } from '../engine/powerups';
+
+// Every user-facing option in one versioned record, so a whole setup can be
+// exported to a file and loaded on another machine.
+
+const STORAGE_KEY = 'cybersnake.settings';
+export const SETTINGS_VERSION = 1;
+
+export interface ControlSettings {
+  pauseOnBlur: boolean; // Freeze solo runs when the tab is hidden
+  bindings: KeyBindings;
+  touchControls: TouchControlsMode; // 'auto' shows the D-pad on touch screens only
+}
+
+export interface Settings {
+  gameplay: {
+    board: BoardSettings;
+    difficulty: DifficultySettings;
+  };
+  display: DisplaySettings;
+  accessibility: AccessibilitySettings;
+  audio: AudioSettings;
+  controls: ControlSettings;
+  commentary: CommentarySettings;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  gameplay: { board: DEFAULT_BOARD_SETTINGS, difficulty: DEFAULT_DIFFICULTY_SETTINGS },
+  display: DEFAULT_DISPLAY_SETTINGS,
+  accessibility: DEFAULT_ACCESSIBILITY_SETTINGS,
+  audio: DEFAULT_AUDIO_SETTINGS,
+  controls: { pauseOnBlur: true, bindings: DEFAULT_KEY_BINDINGS, touchControls: 'auto' },
+  commentary: DEFAULT_COMMENTARY_SETTINGS
+};
+
+// `MIGRATIONS[n]` upgrades a version n settings record to version n + 1
+const MIGRATIONS: Record<number, Migration> = {};
+
+export class SettingsFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingsFormatError';
+  }
+}
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const pick = <T>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? value as T : fallback;
+
+const flag = (value: unknown, fallback: boolean): boolean => typeof value === 'boolean' ? value : fallback;
+
+const text = (value: unknown, fallback: string): string => typeof value === 'string' ? value : fallback;
+
+const num = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const section = (value: unknown): Record<string, unknown> => isObject(value) ? value : {};
+
+// Field by field over the default custom profile, then clamped like any other profile
+const customProfile = (raw: unknown, base: DifficultyProfile): DifficultyProfile => {
+  if (!isObject(raw)) return base;
+  const speed = section(raw.speed);
+  const weights = section(raw.packetWeights);
+  return sanitizeProfile({
+    label: text(raw.label, base.label),
+    speed: {
+      baseInterval: num(speed.baseInterval, base.speed.baseInterval),
+      msPerPoint: num(speed.msPerPoint, base.speed.msPerPoint),
+      minInterval: num(speed.minInterval, base.speed.minInterval)
+    },
+    packetWeights: Object.fromEntries(
+      Object.entries(base.packetWeights).map(([kind, weight]) => [kind, num(weights[kind], weight)])
+    ) as Record<PacketKind, number>,
+    startIntegrity: num(raw.startIntegrity, base.startIntegrity),
+    watchdogScoreStep: num(raw.watchdogScoreStep, base.watchdogScoreStep),
+    maxWatchdogs: num(raw.maxWatchdogs, base.maxWatchdogs),
+    watchdogMoveEvery: num(raw.watchdogMoveEvery, base.watchdogMoveEvery)
+  });
+};
+
+// Fills gaps with defaults and clamps everything into range. Accepts any shape, so it
+// also guards imported files and records written by older builds.
+export const normalizeSettings = (raw: unknown): Settings => {
+  const d = DEFAULT_SETTINGS;
+  const root = section(raw);
+  const gameplay = section(root.gameplay);
+  const board = section(gameplay.board);
+  const difficulty = section(gameplay.difficulty);
+  const display = section(root.display);
+  const accessibility = section(root.accessibility);
+  const audio = section(root.audio);
+  const controls = section(root.controls);
+  const commentary = section(root.commentary);
+
+  return {
+    gameplay: {
+      board: {
+        width: Math.round(clamp(board.width, MIN_BOARD_SIZE, MAX_BOARD_SIZE, d.gameplay.board.width)),
+        height: Math.round(clamp(board.height, MIN_BOARD_SIZE, MAX_BOARD_SIZE, d.gameplay.board.height)),
+        spawnLength: Math.round(clamp(board.spawnLength, 1, 10, d.gameplay.board.spawnLength)),
+        spawnDirection: pick(board.spawnDirection, ['up', 'down', 'left', 'right'] as const, d.gameplay.board.spawnDirection)
+      },
+      difficulty: {
+        preset: pick(difficulty.preset, [...DIFFICULTY_PRESET_IDS, 'custom' as const], d.gameplay.difficulty.preset),
+        custom: customProfile(difficulty.custom, d.gameplay.difficulty.custom),
+        adaptive: flag(difficulty.adaptive, d.gameplay.difficulty.adaptive)
+      }
+    },
+    display: {
+      renderer: pick(display.renderer, RENDERER_IDS, d.display.renderer),
+      cellSize: Math.round(clamp(display.cellSize, MIN_CELL_SIZE, MAX_CELL_SIZE, d.display.cellSize)),
+      smoothMotion: flag(display.smoothMotion, d.display.smoothMotion),
+      scanlines: flag(display.scanlines, d.display.scanlines)
+    },
+    accessibility: {
+      theme: pick(accessibility.theme, THEME_IDS, d.accessibility.theme),
+      reduceMotion: pick(accessibility.reduceMotion, ['auto', 'on', 'off'] as const, d.accessibility.reduceMotion),
+      announceScore: flag(accessibility.announceScore, d.accessibility.announceScore)
+    },
+    audio: {
+      master: clamp(audio.master, 0, 1, d.audio.master),
+      music: clamp(audio.music, 0, 1, d.audio.music),
+      sfx: clamp(audio.sfx, 0, 1, d.audio.sfx),
+      muted: flag(audio.muted, d.audio.muted)
+    },
+    controls: {
+      pauseOnBlur: flag(controls.pauseOnBlur, d.controls.pauseOnBlur),
+      bindings: sanitizeBindings(controls.bindings),
+      touchControls: pick(controls.touchControls, ['auto', 'on', 'off'] as const, d.controls.touchControls)
+    },
+    commentary: {
+      enabled: flag(commentary.enabled, d.commentary.enabled),
+      provider: pick(commentary.provider, PROVIDER_IDS, d.commentary.provider),
+      endpointUrl: text(commentary.endpointUrl, d.commentary.endpointUrl),
+      endpointModel: text(commentary.endpointModel, d.commentary.endpointModel),
+      endpointKey: text(commentary.endpointKey, d.commentary.endpointKey),
+      timeoutMs: Math.round(clamp(commentary.timeoutMs, 500, 60000, d.commentary.timeoutMs)),
+      minIntervalMs: Math.round(clamp(commentary.minIntervalMs, 0, 60000, d.commentary.minIntervalMs))
+    }
+  };
+};
+
+export const saveSettings = (settings: Settings) => saveVersioned(STORAGE_KEY, SETTINGS_VERSION, settings);
+
+export const loadSettings = (): Settings => {
+  const stored = loadVersioned<unknown>(STORAGE_KEY, SETTINGS_VERSION, () => null, MIGRATIONS);
+  return stored === null ? DEFAULT_SETTINGS : normalizeSettings(stored);
+};
+
+// Settings files share the storage envelope plus an app tag, and go through the same migrations.
+// The endpoint key stays on this machine; files are meant to be passed around.
+export const serializeSettings = (settings: Settings): string => {
+  const shared = { ...settings, commentary: { ...settings.commentary, endpointKey: '' } };
+  return JSON.stringify({ app: 'cybersnake', version: SETTINGS_VERSION, settings: shared }, null, 2);
+};
+
+export const parseSettings = (text: string): Settings => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SettingsFormatError('Settings file is not valid JSON.');
+  }
+  if (!isObject(data) || data.app !== 'cybersnake' || !isObject(data.settings)) {
+    throw new SettingsFormatError('Not a CyberSnake settings file.');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new SettingsFormatError('Settings file has no valid version.');
+  }
+  if (data.version > SETTINGS_VERSION) {
+    throw new SettingsFormatError(`Settings file is version ${data.version}; this build reads up to ${SETTINGS_VERSION}.`);
+  }
+
+  let version = data.version;
+  let settings: unknown = data.settings;
+  while (version < SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new SettingsFormatError(`No migration from settings version ${version}.`);
+    settings = migrate(settings);
+    version += 1;
+  }
+  return normalizeSettings(settings);
+};
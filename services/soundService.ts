@@ -0,0 +1,226 @@
+// WebAudio sound subsystem. Everything is synthesized on the fly: no samples to load.
+// The AudioContext is only created on the first user gesture (browsers block audio before that).
+
+export interface AudioSettings {
+  master: number; // 0..1
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { master: 0.8, music: 0.5, sfx: 0.7, muted: false };
+
+export type SoundEffect = 'consume' | 'powerup' | 'turn' | 'hit' | 'pause' | 'resume' | 'death' | 'highscore';
+
+export interface SoundEngine {
+  unlock(): void;
+  apply(settings: AudioSettings): void;
+  play(effect: SoundEffect): void;
+  startMusic(): void;
+  stopMusic(): void;
+  setTempo(tickInterval: number): void; // One sixteenth note per game tick
+}
+
+// Synthwave in A minor: i - VI - III - VII, one chord per bar (MIDI note numbers)
+const PROGRESSION = [
+  [57, 60, 64],
+  [53, 57, 60],
+  [55, 60, 64],
+  [55, 59, 62]
+];
+const ARP_PATTERN = [0, 1, 2, 1, 0, 2, 1, 2];
+const STEPS_PER_BAR = 16;
+const LOOKAHEAD_S = 0.1; // How far ahead the music scheduler books notes
+const SCHEDULER_MS = 25;
+const MIN_STEP_S = 0.06; // Caps the tempo once the snake gets very fast
+
+const midiToFrequency = (note: number) => 440 * 2 ** ((note - 69) / 12);
+
+export const createSoundEngine = (): SoundEngine => {
+  let ctx: AudioContext | null = null;
+  let master: GainNode;
+  let musicBus: GainNode;
+  let sfxBus: GainNode;
+  let noise: AudioBuffer;
+  let settings = DEFAULT_AUDIO_SETTINGS;
+
+  let stepDuration = 0.15;
+  let musicTimer: ReturnType<typeof setInterval> | null = null;
+  let nextStepTime = 0;
+  let step = 0;
+
+  const applyGains = () => {
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    master.gain.setTargetAtTime(settings.muted ? 0 : settings.master, now, 0.02);
+    musicBus.gain.setTargetAtTime(settings.music * 0.5, now, 0.02);
+    sfxBus.gain.setTargetAtTime(settings.sfx, now, 0.02);
+  };
+
+  const unlock = () => {
+    if (ctx) {
+      if (ctx.state === 'suspended') void ctx.resume();
+      return;
+    }
+    const AudioContextClass = window.AudioContext ?? (window as any).webkitAudioContext;
+    if (!AudioContextClass) return;
+    ctx = new AudioContextClass() as AudioContext;
+    master = ctx.createGain();
+    musicBus = ctx.createGain();
+    sfxBus = ctx.createGain();
+    musicBus.connect(master);
+    sfxBus.connect(master);
+    master.connect(ctx.destination);
+
+    // One second of white noise, reused for drums and glitches
+    noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = noise.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    applyGains();
+  };
+
+  // Building blocks ---------------------------------------------------------
+
+  const tone = (
+    bus: AudioNode,
+    type: OscillatorType,
+    from: number,
+    to: number,
+    start: number,
+    duration: number,
+    volume: number
+  ) => {
+    if (!ctx) return;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = type;
+    osc.frequency.setValueAtTime(from, start);
+    if (to !== from) osc.frequency.exponentialRampToValueAtTime(Math.max(1, to), start + duration);
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    osc.connect(gain).connect(bus);
+    osc.start(start);
+    osc.stop(start + duration + 0.02);
+  };
+
+  const burst = (
+    bus: AudioNode,
+    filterType: BiquadFilterType,
+    frequency: number,
+    start: number,
+    duration: number,
+    volume: number
+  ) => {
+    if (!ctx) return;
+    const source = ctx.createBufferSource();
+    const filter = ctx.createBiquadFilter();
+    const gain = ctx.createGain();
+    source.buffer = noise;
+    filter.type = filterType;
+    filter.frequency.setValueAtTime(frequency, start);
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    source.connect(filter).connect(gain).connect(bus);
+    source.start(start, Math.random() * 0.5);
+    source.stop(start + duration + 0.02);
+  };
+
+  // Sound effects -----------------------------------------------------------
+
+  const play = (effect: SoundEffect) => {
+    if (!ctx || settings.muted) return;
+    const t = ctx.currentTime;
+    switch (effect) {
+      case 'consume':
+        tone(sfxBus, 'square', 880, 880, t, 0.05, 0.15);
+        tone(sfxBus, 'square', 1320, 1320, t + 0.05, 0.07, 0.15);
+        break;
+      case 'powerup':
+        [0, 4, 7, 12].forEach((interval, i) =>
+          tone(sfxBus, 'triangle', midiToFrequency(72 + interval), midiToFrequency(72 + interval), t + i * 0.06, 0.12, 0.25));
+        break;
+      case 'turn':
+        tone(sfxBus, 'sine', 320, 220, t, 0.03, 0.05);
+        break;
+      case 'hit':
+        tone(sfxBus, 'sine', 160, 40, t, 0.25, 0.5);
+        burst(sfxBus, 'lowpass', 800, t, 0.15, 0.3);
+        break;
+      case 'pause':
+        tone(sfxBus, 'sine', 660, 220, t, 0.2, 0.2);
+        break;
+      case 'resume':
+        tone(sfxBus, 'sine', 220, 660, t, 0.2, 0.2);
+        break;
+      case 'death':
+        // Pitch dive plus stuttering noise bursts at random bands
+        tone(sfxBus, 'sawtooth', 400, 40, t, 0.7, 0.3);
+        for (let i = 0; i < 8; i++) {
+          burst(sfxBus, 'bandpass', 300 + Math.random() * 4000, t + i * 0.07, 0.05, 0.4);
+        }
+        break;
+      case 'highscore':
+        [60, 64, 67, 72, 76].forEach((note, i) =>
+          tone(sfxBus, 'square', midiToFrequency(note), midiToFrequency(note), t + i * 0.09, i === 4 ? 0.4 : 0.1, 0.15));
+        break;
+    }
+  };
+
+  // Music -------------------------------------------------------------------
+
+  const scheduleStep = (index: number, time: number) => {
+    const chord = PROGRESSION[Math.floor(index / STEPS_PER_BAR) % PROGRESSION.length];
+    const beat = index % STEPS_PER_BAR;
+
+    if (beat % 4 === 0) tone(musicBus, 'sine', 150, 45, time, 0.25, 0.9); // Kick
+    if (beat % 8 === 4) burst(musicBus, 'bandpass', 1800, time, 0.12, 0.35); // Snare
+    if (beat % 2 === 1) burst(musicBus, 'highpass', 7000, time, 0.03, 0.12); // Hi-hat
+
+    if (beat % 2 === 0) {
+      const bass = chord[0] - 24 + (beat % 4 === 2 ? 12 : 0);
+      tone(musicBus, 'sawtooth', midiToFrequency(bass), midiToFrequency(bass), time, stepDuration * 1.8, 0.18);
+    }
+    const arp = chord[ARP_PATTERN[beat % ARP_PATTERN.length]] + 12;
+    tone(musicBus, 'square', midiToFrequency(arp), midiToFrequency(arp), time, stepDuration * 0.9, 0.05);
+
+    // Pad holds the chord for the whole bar
+    if (beat === 0) {
+      chord.forEach(note => tone(musicBus, 'triangle', midiToFrequency(note), midiToFrequency(note), time, stepDuration * STEPS_PER_BAR, 0.06));
+    }
+  };
+
+  const scheduleAhead = () => {
+    if (!ctx) return;
+    while (nextStepTime < ctx.currentTime + LOOKAHEAD_S) {
+      scheduleStep(step, nextStepTime);
+      nextStepTime += stepDuration;
+      step++;
+    }
+  };
+
+  const startMusic = () => {
+    if (!ctx || musicTimer !== null) return;
+    nextStepTime = ctx.currentTime + 0.05;
+    step = 0;
+    musicTimer = setInterval(scheduleAhead, SCHEDULER_MS);
+  };
+
+  const stopMusic = () => {
+    if (musicTimer !== null) clearInterval(musicTimer);
+    musicTimer = null;
+  };
+
+  return {
+    unlock,
+    apply(next) {
+      settings = next;
+      applyGains();
+    },
+    play,
+    startMusic,
+    stopMusic,
+    setTempo(tickInterval) {
+      stepDuration = Math.max(MIN_STEP_S, tickInterval / 1000);
+    }
+  };
+};
@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameMode } from '../types';
+import { RunRecord, loadRunHistory, summarizeRuns } from './statsService';
+import { storeRaw, stubStorage } from '../test/memoryStorage';
+
+const run = (score: number, death: RunRecord['death'] = null): RunRecord => ({
+  id: `run-${score}`, date: '2026-01-01T00:00:00.000Z', mode: GameMode.CLASSIC, levelId: 'open', levelName: 'Open Grid',
+  width: 25, height: 25, seed: 1, score, durationMs: 60000, ticks: 600, packets: score, turns: 30,
+  maxLength: score + 3, nearWallTicks: 60, death, assisted: false
+});
+
+describe('run history', () => {
+  beforeEach(() => stubStorage());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('drops malformed runs and keeps the rest', () => {
+    const wall = run(7, { cause: 'wall', position: { x: 0, y: 3 } });
+    storeRaw('cybersnake.stats', 1, [run(2), { ...run(3), score: '3' }, null, { ...run(4), death: { cause: 'lava' } }, wall]);
+    expect(loadRunHistory()).toEqual([run(2), wall]);
+
+    storeRaw('cybersnake.stats', 1, { runs: [] });
+    expect(loadRunHistory()).toEqual([]);
+  });
+
+  it('summarizes deaths, bests and rates', () => {
+    const summary = summarizeRuns([run(2), run(7, { cause: 'self', position: { x: 1, y: 1 } })]);
+    expect(summary).toMatchObject({ runs: 2, bestScore: 7, bestLength: 10, survived: 1, turnsPerSecond: 0.5 });
+    expect(summary.deaths).toEqual({ wall: 0, self: 1, watchdog: 0 });
+  });
+});
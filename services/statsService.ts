@@ -0,0 +1,152 @@
+import { Coordinate, GameMode } from '../types';
+import { DeathCause } from '../engine/snakeEngine';
+import { RunTracker } from '../engine/runStats';
+import { isObject, loadVersioned, saveVersioned } from './storageService';
+
+// Run history behind the telemetry dashboard and the death heatmap. Local only.
+
+const STORAGE_KEY = 'cybersnake.stats';
+const SCHEMA_VERSION = 1;
+
+// Oldest runs are dropped beyond this
+export const MAX_RUN_HISTORY = 500;
+
+export interface RunRecord {
+  id: string;
+  date: string;
+  mode: GameMode;
+  levelId: string;
+  levelName: string;
+  width: number;
+  height: number;
+  seed: number;
+  score: number;
+  durationMs: number;
+  ticks: number;
+  packets: number;
+  turns: number;
+  maxLength: number;
+  nearWallTicks: number;
+  death: { cause: DeathCause; position: Coordinate } | null; // null: board cleared or run aborted
+  assisted: boolean; // Autopilot or a hand-set clock was involved
+}
+
+export type RunDetails = Omit<RunRecord, 'id' | keyof RunTracker> & RunTracker;
+
+const NUMBER_FIELDS = ['width', 'height', 'seed', 'score', 'durationMs', 'ticks', 'packets', 'turns', 'maxLength', 'nearWallTicks'] as const;
+const CAUSES = new Set<unknown>(['wall', 'self', 'watchdog']);
+
+const isDeath = (value: unknown): boolean =>
+  value === null ||
+  (isObject(value) && CAUSES.has(value.cause) && isObject(value.position) &&
+    typeof value.position.x === 'number' && typeof value.position.y === 'number');
+
+const isRun = (value: unknown): value is RunRecord =>
+  isObject(value) &&
+  typeof value.id === 'string' && typeof value.date === 'string' && typeof value.mode === 'string' &&
+  typeof value.levelId === 'string' && typeof value.levelName === 'string' && typeof value.assisted === 'boolean' &&
+  NUMBER_FIELDS.every(field => typeof value[field] === 'number') && isDeath(value.death);
+
+// A malformed run is dropped on its own; the rest of the history survives
+export const loadRunHistory = (): RunRecord[] => {
+  const stored = loadVersioned<unknown>(STORAGE_KEY, SCHEMA_VERSION, () => []);
+  return Array.isArray(stored) ? stored.filter(isRun).slice(-MAX_RUN_HISTORY) : [];
+};
+
+export const recordRun = (history: RunRecord[], details: RunDetails): RunRecord[] => {
+  const record: RunRecord = { ...details, id: `${Date.now().toString(36)}-${details.seed.toString(36)}` };
+  const updated = [...history, record].slice(-MAX_RUN_HISTORY);
+  saveVersioned(STORAGE_KEY, SCHEMA_VERSION, updated);
+  return updated;
+};
+
+export const clearRunHistory = (): RunRecord[] => {
+  saveVersioned<RunRecord[]>(STORAGE_KEY, SCHEMA_VERSION, []);
+  return [];
+};
+
+export const packetsPerMinute = (run: RunRecord) => run.durationMs > 0 ? run.packets / (run.durationMs / 60000) : 0;
+export const turnsPerSecond = (run: RunRecord) => run.durationMs > 0 ? run.turns / (run.durationMs / 1000) : 0;
+export const nearWallShare = (run: RunRecord) => run.ticks > 0 ? run.nearWallTicks / run.ticks : 0;
+
+export interface RunSummary {
+  runs: number;
+  totalMs: number;
+  bestScore: number;
+  bestLength: number;
+  packetsPerMinute: number;
+  turnsPerSecond: number;
+  nearWallShare: number;
+  deaths: Record<DeathCause, number>;
+  survived: number; // Runs that ended without a death
+}
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+export const summarizeRuns = (runs: RunRecord[]): RunSummary => ({
+  runs: runs.length,
+  totalMs: runs.reduce((total, run) => total + run.durationMs, 0),
+  bestScore: Math.max(0, ...runs.map(run => run.score)),
+  bestLength: Math.max(0, ...runs.map(run => run.maxLength)),
+  packetsPerMinute: average(runs.map(packetsPerMinute)),
+  turnsPerSecond: average(runs.map(turnsPerSecond)),
+  nearWallShare: average(runs.map(nearWallShare)),
+  deaths: {
+    wall: runs.filter(run => run.death?.cause === 'wall').length,
+    self: runs.filter(run => run.death?.cause === 'self').length,
+    watchdog: runs.filter(run => run.death?.cause === 'watchdog').length
+  },
+  survived: runs.filter(run => !run.death).length
+});
+
+export interface DeathHeatmap {
+  width: number;
+  height: number;
+  counts: number[]; // Row-major, one per cell
+  max: number;
+}
+
+// Deaths on one sector at one board size; other sizes would land on the wrong cells
+export const buildDeathHeatmap = (runs: RunRecord[], levelId: string, width: number, height: number): DeathHeatmap => {
+  const counts = new Array<number>(width * height).fill(0);
+  for (const run of runs) {
+    if (!run.death || run.levelId !== levelId || run.width !== width || run.height !== height) continue;
+    const { x, y } = run.death.position;
+    if (x >= 0 && x < width && y >= 0 && y < height) counts[y * width + x]++;
+  }
+  return { width, height, counts, max: Math.max(0, ...counts) };
+};
+
+const CSV_COLUMNS: [string, (run: RunRecord) => string | number][] = [
+  ['date', run => run.date],
+  ['mode', run => run.mode],
+  ['level', run => run.levelId],
+  ['sector', run => run.levelName],
+  ['width', run => run.width],
+  ['height', run => run.height],
+  ['seed', run => run.seed],
+  ['score', run => run.score],
+  ['duration_ms', run => run.durationMs],
+  ['ticks', run => run.ticks],
+  ['packets', run => run.packets],
+  ['packets_per_min', run => packetsPerMinute(run).toFixed(2)],
+  ['turns', run => run.turns],
+  ['turns_per_sec', run => turnsPerSecond(run).toFixed(2)],
+  ['max_length', run => run.maxLength],
+  ['near_wall_ticks', run => run.nearWallTicks],
+  ['near_wall_pct', run => (nearWallShare(run) * 100).toFixed(1)],
+  ['death_cause', run => run.death?.cause ?? ''],
+  ['death_x', run => run.death?.position.x ?? ''],
+  ['death_y', run => run.death?.position.y ?? ''],
+  ['assisted', run => run.assisted ? 1 : 0]
+];
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const serializeRunsCsv = (runs: RunRecord[]): string =>
+  [CSV_COLUMNS.map(([name]) => name), ...runs.map(run => CSV_COLUMNS.map(([, value]) => csvField(value(run))))]
+    .map(row => row.join(','))
+    .join('\n') + '\n';
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameMode } from '../types';
+import { isObject, loadVersioned, saveVersioned } from './storageService';
+import { DEFAULT_BOARD, boardId, getEntries, loadLastPlayerName, loadLeaderboard } from './leaderboardService';
+import { storeRaw, stubStorage } from '../test/memoryStorage';
+
+const entry = (score: number) => ({
+  id: `run-${score}`, name: 'ACE', score, length: 4, durationMs: 1000, date: '2026-01-01T00:00:00.000Z', seed: 1, mode: GameMode.CLASSIC,
+  levelId: 'open-grid', difficulty: 'netrunner'
+});
+
+describe('versioned storage', () => {
+  beforeEach(() => {
+    stubStorage();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('round-trips and migrates records', () => {
+    saveVersioned('k', 2, { count: 3 });
+    expect(loadVersioned('k', 2, () => ({ count: 0 }))).toEqual({ count: 3 });
+
+    storeRaw('k', 1, { total: 4 });
+    expect(loadVersioned('k', 2, () => ({ count: 0 }), { 1: data => ({ count: data.total }) })).toEqual({ count: 4 });
+  });
+
+  it('falls back on unreadable, future and invalid records', () => {
+    const isCount = (data: unknown): data is { count: number } => isObject(data) && typeof data.count === 'number';
+    localStorage.setItem('k', '{nope');
+    expect(loadVersioned('k', 1, () => ({ count: 0 }), {}, isCount)).toEqual({ count: 0 });
+    storeRaw('k', 2, { count: 5 });
+    expect(loadVersioned('k', 1, () => ({ count: 0 }), {}, isCount)).toEqual({ count: 0 });
+    storeRaw('k', 1, { count: 'five' });
+    expect(loadVersioned('k', 1, () => ({ count: 0 }), {}, isCount)).toEqual({ count: 0 });
+  });
+
+  it('keeps the valid leaderboard entries around a malformed one', () => {
+    storeRaw('cybersnake.leaderboard', 3, { boards: null, lastName: 'ACE' });
+    expect(getEntries(loadLeaderboard(), DEFAULT_BOARD)).toEqual([]);
+    expect(loadLastPlayerName()).toBe('ACE');
+
+    storeRaw('cybersnake.leaderboard', 3, { boards: { [boardId(DEFAULT_BOARD)]: [entry(9), { score: 'lots' }, null, entry(4)] } });
+    expect(getEntries(loadLeaderboard(), DEFAULT_BOARD)).toEqual([entry(9), entry(4)]);
+  });
+});
@@ -0,0 +1,76 @@
+// Versioned wrapper around localStorage.
+// Every record is stored as { version, data } so that old payloads can be
+// migrated forward instead of being silently misread after a schema change.
+
+interface VersionedRecord {
+  version: number;
+  data: unknown;
+}
+
+export type Migration = (data: any) => any;
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    // Access can throw in sandboxed iframes or with storage disabled
+    return null;
+  }
+};
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// `migrations[n]` upgrades a version n payload to version n + 1. A payload that fails
+// `isValid` once migrated is discarded like an unreadable one.
+export const loadVersioned = <T>(
+  key: string,
+  currentVersion: number,
+  fallback: () => T,
+  migrations: Record<number, Migration> = {},
+  isValid?: (data: unknown) => data is T
+): T => {
+  const storage = getStorage();
+  const raw = storage?.getItem(key);
+  if (!raw) return fallback();
+
+  try {
+    const record = JSON.parse(raw) as VersionedRecord;
+    if (typeof record?.version !== 'number' || record.version > currentVersion) return fallback();
+
+    let { version, data } = record;
+    while (version < currentVersion) {
+      const migrate = migrations[version];
+      if (!migrate) return fallback();
+      data = migrate(data);
+      version += 1;
+    }
+    if (isValid && !isValid(data)) {
+      console.error(`Discarding malformed storage record "${key}".`);
+      return fallback();
+    }
+    return data as T;
+  } catch (error) {
+    console.error(`Discarding unreadable storage record "${key}":`, error);
+    return fallback();
+  }
+};
+
+export const saveVersioned = <T>(key: string, version: number, data: T): boolean => {
+  const storage = getStorage();
+  if (!storage) return false;
+  try {
+    storage.setItem(key, JSON.stringify({ version, data }));
+    return true;
+  } catch (error) {
+    // Quota exceeded or storage disabled; the game keeps working without persistence
+    console.error(`Could not persist "${key}":`, error);
+    return false;
+  }
+};
+
+export const removeStored = (key: string) => {
+  getStorage()?.removeItem(key);
+};
+
+export const hasStored = (key: string): boolean => !!getStorage()?.getItem(key);
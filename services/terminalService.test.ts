@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GameMode, GameStatus } from '../types';
+import { MAX_SPEED_MS, TerminalContext, completeLine, runCommand, tokenize } from './terminalService';
+
+// A context that records what the commands ask the app to do
+const context = (overrides: Partial<TerminalContext> = {}) => {
+  const lines: string[] = [];
+  const ctx: TerminalContext = {
+    status: GameStatus.IDLE,
+    mode: GameMode.CLASSIC,
+    levels: [{ id: 'open-grid', name: 'Open Grid' }, { id: 'open-maze', name: 'Open Maze' }],
+    log: message => void lines.push(message),
+    pause: vi.fn(),
+    resume: vi.fn(),
+    restart: vi.fn(),
+    setSpeed: vi.fn(),
+    setAutopilot: vi.fn(),
+    setStrategy: vi.fn(),
+    loadLevel: vi.fn(),
+    stats: () => [],
+    exportReplay: vi.fn(),
+    exportLogs: vi.fn(),
+    clear: vi.fn(),
+    ...overrides
+  };
+  // Runs one line and returns what it printed after the echo
+  const run = (line: string) => {
+    lines.length = 0;
+    runCommand(line, ctx);
+    return lines.slice(1);
+  };
+  return { ctx, run };
+};
+
+describe('terminal', () => {
+  it('tokenizes quoted words and ignores blank lines', () => {
+    expect(tokenize('load level "Open Grid"  --x')).toEqual(['load', 'level', 'Open Grid', '--x']);
+    const { ctx, run } = context();
+    expect(run('   ')).toEqual([]);
+    expect(run('load level "open grid"')).toEqual([]);
+    expect(ctx.loadLevel).toHaveBeenCalledWith('open-grid');
+  });
+
+  it('restarts on a fixed seed in both flag spellings', () => {
+    const { ctx, run } = context();
+    run('restart');
+    run('restart --seed 42');
+    run('restart --seed=-1');
+    expect(vi.mocked(ctx.restart).mock.calls).toEqual([[undefined], [42], [4294967295]]);
+    expect(run('restart --seed soon')).toEqual(['Seed must be an integer.']);
+  });
+
+  it('refuses restarts the mode does not allow', () => {
+    expect(context({ mode: GameMode.ONLINE }).run('restart')).toEqual(['The host starts online matches from the lobby.']);
+    expect(context({ status: GameStatus.REPLAY }).run('restart')).toEqual(['Close the replay first.']);
+    expect(context({ mode: GameMode.DAILY }).run('restart --seed 3')).toEqual(['The daily challenge seed is fixed by the date.']);
+    expect(context({ mode: GameMode.VERSUS }).run('restart --seed 3')).toEqual(['Seeds only apply to solo runs.']);
+    const campaign = context({ mode: GameMode.CAMPAIGN });
+    campaign.run('restart --seed 3');
+    expect(campaign.ctx.restart).toHaveBeenCalledWith(3);
+  });
+
+  it('sets the speed within bounds or back to the curve', () => {
+    const { ctx, run } = context();
+    run('set speed 80');
+    run('set speed auto');
+    expect(vi.mocked(ctx.setSpeed).mock.calls).toEqual([[80], [null]]);
+    expect(run(`set speed ${MAX_SPEED_MS + 1}`)).toEqual(['Speed must be between 20 and 1000 ms per tick.']);
+    expect(run('set speed 1.5')).toEqual(['Speed must be an integer.']);
+    expect(run('set speed')).toEqual(['Usage: set <key> <value>']);
+    expect(ctx.setSpeed).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports bad arguments without running anything', () => {
+    const { ctx, run } = context();
+    expect(run('warp')).toEqual(['Unknown command "warp". Type "help" for a list.']);
+    expect(run('set gravity 2')).toEqual(['Unknown setting "gravity". Try: speed, autopilot, strategy']);
+    expect(run('set autopilot maybe')).toEqual(['Autopilot is "on" or "off".']);
+    expect(run('export logs --format csv')).toEqual(['Log format is one of: jsonl, text']);
+    expect(run('load level nowhere')).toEqual(['No sector "nowhere". Known: open-grid, open-maze']);
+    expect(context({ status: GameStatus.PLAYING }).run('resume')).toEqual(['Nothing is paused.']);
+    expect(ctx.setAutopilot).not.toHaveBeenCalled();
+    expect(ctx.exportLogs).not.toHaveBeenCalled();
+  });
+
+  it('completes commands and arguments', () => {
+    const { ctx } = context();
+    expect(completeLine('re', ctx)).toEqual({ line: 'res', options: ['resume', 'restart'] });
+    expect(completeLine('sta', ctx)).toEqual({ line: 'stats ', options: [] });
+    expect(completeLine('set a', ctx)).toEqual({ line: 'set autopilot ', options: [] });
+    expect(completeLine('set autopilot ', ctx)).toEqual({ line: 'set autopilot o', options: ['on', 'off'] });
+    expect(completeLine('load level open-', ctx)).toEqual({ line: 'load level open-', options: ['open-grid', 'open-maze'] });
+    expect(completeLine('warp ', ctx)).toEqual({ line: 'warp ', options: [] });
+  });
+});
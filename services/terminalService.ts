@@ -0,0 +1,274 @@
+import { GameMode, GameStatus, SystemLog } from '../types';
+import { AutopilotStrategy, STRATEGIES } from '../engine/autopilot';
+import { LogFormat } from './logService';
+
+// The Neural Logs command line. Commands are parsed and validated here; the app supplies
+// a context that carries them out. Everything a command prints goes to the logs.
+
+export const MIN_SPEED_MS = 20;
+export const MAX_SPEED_MS = 1000;
+
+export interface TerminalContext {
+  status: GameStatus;
+  mode: GameMode;
+  levels: { id: string; name: string }[];
+  log(message: string, type?: SystemLog['type']): void;
+  pause(): void;
+  resume(): void;
+  restart(seed?: number): void;
+  setSpeed(intervalMs: number | null): void; // null hands the pace back to the speed curve
+  setAutopilot(enabled: boolean): void;
+  setStrategy(strategy: AutopilotStrategy): void;
+  loadLevel(id: string): void;
+  stats(): string[];
+  exportReplay(): void;
+  exportLogs(format: LogFormat): void;
+  clear(): void;
+}
+
+export class TerminalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TerminalError';
+  }
+}
+
+interface ParsedArgs {
+  positional: string[];
+  flags: Record<string, string | true>;
+}
+
+interface TerminalCommand {
+  name: string;
+  usage: string;
+  summary: string;
+  run(args: ParsedArgs, ctx: TerminalContext): void;
+  // Candidates for positional argument `index`
+  complete?(index: number, positional: string[], ctx: TerminalContext): string[];
+}
+
+// Splits on whitespace; double quotes group words ("load level \"Open Grid\"")
+export const tokenize = (line: string): string[] => {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) tokens.push(match[1] ?? match[2]);
+  return tokens;
+};
+
+const parseArgs = (tokens: string[]): ParsedArgs => {
+  const args: ParsedArgs = { positional: [], flags: {} };
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.startsWith('--') && token.length > 2) {
+      const [name, inline] = token.slice(2).split('=', 2);
+      if (inline !== undefined) args.flags[name] = inline;
+      else if (i + 1 < tokens.length && !tokens[i + 1].startsWith('--')) args.flags[name] = tokens[++i];
+      else args.flags[name] = true;
+    } else {
+      args.positional.push(token);
+    }
+  }
+  return args;
+};
+
+const parseInteger = (value: string | true | undefined, what: string): number => {
+  const number = typeof value === 'string' ? Number(value) : NaN;
+  if (!Number.isInteger(number)) throw new TerminalError(`${what} must be an integer.`);
+  return number;
+};
+
+const isRunning = (status: GameStatus) => status === GameStatus.PLAYING || status === GameStatus.PAUSED;
+
+const SETTINGS = ['speed', 'autopilot', 'strategy'];
+const LOG_FORMATS: LogFormat[] = ['jsonl', 'text'];
+
+const COMMANDS: TerminalCommand[] = [
+  {
+    name: 'help',
+    usage: 'help [command]',
+    summary: 'List commands, or show how to use one.',
+    run({ positional }, ctx) {
+      if (positional[0]) {
+        const command = findCommand(positional[0]);
+        ctx.log(`${command.usage} // ${command.summary}`);
+        return;
+      }
+      COMMANDS.forEach(command => ctx.log(`${command.usage} // ${command.summary}`));
+    },
+    complete: index => index === 0 ? COMMANDS.map(c => c.name) : []
+  },
+  {
+    name: 'pause',
+    usage: 'pause',
+    summary: 'Freeze the current run.',
+    run(_, ctx) {
+      if (ctx.mode === GameMode.ONLINE) throw new TerminalError('Online matches cannot be paused.');
+      if (ctx.status !== GameStatus.PLAYING) throw new TerminalError('No live run to pause.');
+      ctx.pause();
+    }
+  },
+  {
+    name: 'resume',
+    usage: 'resume',
+    summary: 'Continue a paused run.',
+    run(_, ctx) {
+      if (ctx.status !== GameStatus.PAUSED) throw new TerminalError('Nothing is paused.');
+      ctx.resume();
+    }
+  },
+  {
+    name: 'restart',
+    usage: 'restart [--seed N]',
+    summary: 'Start a fresh run, optionally on a fixed seed.',
+    run({ flags }, ctx) {
+      if (ctx.mode === GameMode.ONLINE) throw new TerminalError('The host starts online matches from the lobby.');
+      if (ctx.status === GameStatus.REPLAY) throw new TerminalError('Close the replay first.');
+      if (flags.seed !== undefined && ctx.mode === GameMode.DAILY) throw new TerminalError('The daily challenge seed is fixed by the date.');
+      if (flags.seed !== undefined && ctx.mode !== GameMode.CLASSIC && ctx.mode !== GameMode.CAMPAIGN) throw new TerminalError('Seeds only apply to solo runs.');
+      const seed = flags.seed === undefined ? undefined : parseInteger(flags.seed, 'Seed') >>> 0;
+      ctx.restart(seed);
+    }
+  },
+  {
+    name: 'set',
+    usage: 'set <key> <value>',
+    summary: 'speed <ms|auto>, autopilot <on|off>, strategy <name>.',
+    run({ positional: [key, value] }, ctx) {
+      if (!key || value === undefined) throw new TerminalError('Usage: set <key> <value>');
+      switch (key) {
+        case 'speed': {
+          if (value === 'auto') {
+            ctx.setSpeed(null);
+            return;
+          }
+          const ms = parseInteger(value, 'Speed');
+          if (ms < MIN_SPEED_MS || ms > MAX_SPEED_MS) throw new TerminalError(`Speed must be between ${MIN_SPEED_MS} and ${MAX_SPEED_MS} ms per tick.`);
+          ctx.setSpeed(ms);
+          return;
+        }
+        case 'autopilot':
+          if (ctx.mode !== GameMode.CLASSIC) throw new TerminalError('The autopilot only flies endless solo runs.');
+          if (value !== 'on' && value !== 'off') throw new TerminalError('Autopilot is "on" or "off".');
+          ctx.setAutopilot(value === 'on');
+          return;
+        case 'strategy':
+          if (!STRATEGIES.includes(value as AutopilotStrategy)) throw new TerminalError(`Unknown strategy "${value}". Try: ${STRATEGIES.join(', ')}`);
+          ctx.setStrategy(value as AutopilotStrategy);
+          return;
+        default:
+          throw new TerminalError(`Unknown setting "${key}". Try: ${SETTINGS.join(', ')}`);
+      }
+    },
+    complete(index, positional) {
+      if (index === 0) return SETTINGS;
+      switch (positional[0]) {
+        case 'speed': return ['auto', '80', '120', '150'];
+        case 'autopilot': return ['on', 'off'];
+        case 'strategy': return [...STRATEGIES];
+        default: return [];
+      }
+    }
+  },
+  {
+    name: 'load',
+    usage: 'load level <name>',
+    summary: 'Switch sector between runs.',
+    run({ positional: [what, ...name] }, ctx) {
+      if (what !== 'level' || name.length === 0) throw new TerminalError('Usage: load level <name>');
+      if (ctx.mode === GameMode.CAMPAIGN) throw new TerminalError('Campaign sectors are picked from the sector select.');
+      if (ctx.mode === GameMode.DAILY) throw new TerminalError('The daily challenge picks its own sector.');
+      if (isRunning(ctx.status) || ctx.status === GameStatus.ROUND_OVER) throw new TerminalError('Sectors can only be swapped between runs.');
+      const wanted = name.join(' ').toLowerCase();
+      const level = ctx.levels.find(l => l.id.toLowerCase() === wanted || l.name.toLowerCase() === wanted);
+      if (!level) throw new TerminalError(`No sector "${name.join(' ')}". Known: ${ctx.levels.map(l => l.id).join(', ')}`);
+      ctx.loadLevel(level.id);
+    },
+    complete: (index, _, ctx) => index === 0 ? ['level'] : index === 1 ? ctx.levels.map(l => l.id) : []
+  },
+  {
+    name: 'stats',
+    usage: 'stats',
+    summary: 'Print the state of the current run.',
+    run(_, ctx) {
+      ctx.stats().forEach(line => ctx.log(line));
+    }
+  },
+  {
+    name: 'export',
+    usage: 'export <replay|logs> [--format jsonl|text]',
+    summary: 'Download the latest replay, or the whole log.',
+    run({ positional: [what], flags }, ctx) {
+      if (what === 'replay') {
+        ctx.exportReplay();
+        return;
+      }
+      if (what !== 'logs') throw new TerminalError('Usage: export <replay|logs> [--format jsonl|text]');
+      const format = flags.format ?? 'jsonl';
+      if (!LOG_FORMATS.includes(format as LogFormat)) throw new TerminalError(`Log format is one of: ${LOG_FORMATS.join(', ')}`);
+      ctx.exportLogs(format as LogFormat);
+    },
+    complete: index => index === 0 ? ['replay', 'logs'] : []
+  },
+  {
+    name: 'clear',
+    usage: 'clear',
+    summary: 'Wipe the log history.',
+    run(_, ctx) {
+      ctx.clear();
+    }
+  }
+];
+
+const findCommand = (name: string): TerminalCommand => {
+  const command = COMMANDS.find(c => c.name === name.toLowerCase());
+  if (!command) throw new TerminalError(`Unknown command "${name}". Type "help" for a list.`);
+  return command;
+};
+
+// Echoes the line, runs it, and reports failures as critical log entries
+export const runCommand = (line: string, ctx: TerminalContext) => {
+  const tokens = tokenize(line);
+  if (tokens.length === 0) return;
+  ctx.log(`> ${line.trim()}`);
+  try {
+    const [name, ...rest] = tokens;
+    findCommand(name).run(parseArgs(rest), ctx);
+  } catch (error) {
+    if (!(error instanceof TerminalError)) throw error;
+    ctx.log(error.message, 'critical');
+  }
+};
+
+const commonPrefix = (words: string[]): string =>
+  words.reduce((prefix, word) => {
+    let i = 0;
+    while (i < prefix.length && i < word.length && prefix[i] === word[i]) i++;
+    return prefix.slice(0, i);
+  });
+
+export interface Completion {
+  line: string; // The input with the current word completed as far as it is unambiguous
+  options: string[]; // Every candidate, when more than one remains
+}
+
+export const completeLine = (line: string, ctx: TerminalContext): Completion => {
+  const tokens = tokenize(line);
+  const endsWord = line.length > 0 && !/\s$/.test(line);
+  const partial = endsWord ? tokens.pop() ?? '' : '';
+  const head = line.slice(0, line.length - partial.length);
+
+  let candidates: string[];
+  if (tokens.length === 0) {
+    candidates = COMMANDS.map(c => c.name);
+  } else {
+    const command = COMMANDS.find(c => c.name === tokens[0].toLowerCase());
+    const positional = tokens.slice(1).filter(t => !t.startsWith('--'));
+    candidates = command?.complete?.(positional.length, positional, ctx) ?? [];
+  }
+
+  const matches = candidates.filter(c => c.toLowerCase().startsWith(partial.toLowerCase()));
+  if (matches.length === 0) return { line, options: [] };
+  if (matches.length === 1) return { line: `${head}${matches[0]} `, options: [] };
+  return { line: `${head}${commonPrefix(matches)}`, options: matches };
+};
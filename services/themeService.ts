@@ -0,0 +1,190 @@
+import { PacketKind } from '../engine/powerups';
+import { BoardPalette } from './renderer/types';
+
+// Colour themes and motion preferences. One palette feeds both halves of the UI: the
+// components read it through CSS variables (the `cyber-*` colours in the Tailwind config
+// in index.html resolve to them), the board gets it as a BoardPalette.
+
+export type ThemeId = 'neon' | 'signal' | 'contrast';
+
+// Every colour a theme defines, as '#rrggbb'
+export interface ThemePalette {
+  black: string; // Page background
+  dark: string; // Panel background
+  text: string; // Body copy
+  muted: string; // Secondary copy
+  blue: string; // Primary accent, the snake body
+  pink: string; // Alerts, firewalls, data packets
+  green: string; // Success, the snake head, shields
+  yellow: string; // Warnings, keys, overclock
+  orange: string;
+  red: string; // Watchdogs
+  violet: string; // Ghost packets
+}
+
+export type ThemeToken = keyof ThemePalette;
+
+export interface Theme {
+  id: ThemeId;
+  label: string;
+  description: string;
+  palette: ThemePalette;
+  highContrast: boolean; // Stronger grid and zones, snake tails that barely fade
+}
+
+export const THEMES: Record<ThemeId, Theme> = {
+  neon: {
+    id: 'neon',
+    label: 'Neon',
+    description: 'The original cyan and magenta.',
+    palette: {
+      black: '#020617',
+      dark: '#0a0a12',
+      text: '#e2e8f0',
+      muted: '#9ca3af',
+      blue: '#00f3ff',
+      pink: '#ff00ff',
+      green: '#0aff0a',
+      yellow: '#fcee0a',
+      orange: '#ff8800',
+      red: '#ff3131',
+      violet: '#a78bfa'
+    },
+    highContrast: false
+  },
+  // Okabe-Ito colours: no pair relies on telling red from green
+  signal: {
+    id: 'signal',
+    label: 'Signal',
+    description: 'Colour-blind safe. Watchdogs, packets and the snake stay apart under red-green and blue-yellow deficiencies.',
+    palette: {
+      black: '#020617',
+      dark: '#0a0a12',
+      text: '#e2e8f0',
+      muted: '#a3a3a3',
+      blue: '#56b4e9',
+      pink: '#cc79a7',
+      green: '#009e73',
+      yellow: '#f0e442',
+      orange: '#e69f00',
+      red: '#d55e00',
+      violet: '#0072b2'
+    },
+    highContrast: false
+  },
+  contrast: {
+    id: 'contrast',
+    label: 'High Contrast',
+    description: 'Pure black, white copy and saturated accents.',
+    palette: {
+      black: '#000000',
+      dark: '#000000',
+      text: '#ffffff',
+      muted: '#d4d4d4',
+      blue: '#00ffff',
+      pink: '#ff5cff',
+      green: '#00ff66',
+      yellow: '#ffff00',
+      orange: '#ffa200',
+      red: '#ff4040',
+      violet: '#c4b5fd'
+    },
+    highContrast: true
+  }
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+// Packet colours by kind; each kind keeps its meaning across themes
+export const PACKET_TOKENS: Record<PacketKind, ThemeToken> = {
+  data: 'pink',
+  overclock: 'yellow',
+  slowmo: 'blue',
+  ghost: 'violet',
+  shrink: 'orange',
+  shield: 'green'
+};
+
+export type MotionMode = 'auto' | 'on' | 'off';
+
+export interface AccessibilitySettings {
+  theme: ThemeId;
+  reduceMotion: MotionMode; // 'auto' follows the system's prefers-reduced-motion
+  announceScore: boolean; // Screen readers hear the score as it changes, not just status changes
+}
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  theme: 'neon',
+  reduceMotion: 'auto',
+  announceScore: true
+};
+
+// '#rrggbb' to 'r, g, b'
+const toRgb = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return `${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}`;
+};
+
+// A theme colour for inline styles and SVG, following whichever theme is applied
+export const cssColor = (token: ThemeToken, alpha?: number): string =>
+  alpha === undefined ? `rgb(var(--cyber-${token}))` : `rgb(var(--cyber-${token}) / ${alpha})`;
+
+export const boardPalette = ({ palette: p, highContrast }: Theme): BoardPalette => ({
+  background: p.black,
+  grid: `rgba(${toRgb(p.blue)}, ${highContrast ? 0.3 : 0.1})`,
+  foodZone: `rgba(${toRgb(p.yellow)}, ${highContrast ? 0.15 : 0.06})`,
+  wrapEdge: `rgba(${toRgb(p.green)}, ${highContrast ? 0.9 : 0.5})`,
+  wall: toRgb(p.pink),
+  portals: [p.yellow, p.blue, p.green, p.orange],
+  watchdog: p.red,
+  forage: p.yellow,
+  marker: p.yellow,
+  overclock: p.yellow,
+  players: [
+    { head: p.green, body: toRgb(p.blue) },
+    { head: p.yellow, body: toRgb(p.orange) },
+    { head: p.pink, body: toRgb(p.violet) },
+    { head: p.text, body: toRgb(p.muted) }
+  ],
+  packets: Object.fromEntries(
+    Object.entries(PACKET_TOKENS).map(([kind, token]) => [kind, p[token]])
+  ) as Record<PacketKind, string>,
+  heatmap: toRgb(p.pink),
+  minTailOpacity: highContrast ? 0.75 : 0.3
+});
+
+export const DEFAULT_BOARD_PALETTE = boardPalette(THEMES.neon);
+
+// Points the CSS variables at the theme; index.html carries the neon values for the first paint
+export const applyTheme = (theme: Theme) => {
+  if (typeof document === 'undefined') return;
+  const root = document.documentElement;
+  (Object.entries(theme.palette) as [ThemeToken, string][]).forEach(([token, hex]) =>
+    root.style.setProperty(`--cyber-${token}`, toRgb(hex).replace(/,/g, ''))
+  );
+  root.dataset.theme = theme.id;
+};
+
+// Switches off CSS animations and transitions app-wide (see index.html)
+export const applyReducedMotion = (reduced: boolean) => {
+  if (typeof document === 'undefined') return;
+  if (reduced) document.documentElement.dataset.motion = 'reduced';
+  else delete document.documentElement.dataset.motion;
+};
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export const prefersReducedMotion = (): boolean =>
+  typeof window !== 'undefined' && typeof window.matchMedia === 'function' && window.matchMedia(REDUCED_MOTION_QUERY).matches;
+
+// Calls back whenever the system preference flips; returns the unsubscribe
+export const watchReducedMotion = (onChange: (reduced: boolean) => void): (() => void) => {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return () => {};
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  const handleChange = () => onChange(query.matches);
+  query.addEventListener('change', handleChange);
+  return () => query.removeEventListener('change', handleChange);
+};
+
+export const isMotionReduced = (mode: MotionMode, systemPrefers: boolean): boolean =>
+  mode === 'on' || (mode === 'auto' && systemPrefers);
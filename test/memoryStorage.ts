@@ -0,0 +1,15 @@
+import { vi } from 'vitest';
+
+// Swaps localStorage for an in-memory map; undo with vi.unstubAllGlobals()
+export const stubStorage = () => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  });
+};
+
+// Writes a record the way saveVersioned would, whatever its contents
+export const storeRaw = (key: string, version: number, data: unknown) =>
+  localStorage.setItem(key, JSON.stringify({ version, data }));
@@ -9,7 +9,19 @@ export enum GameStatus {
   IDLE = 'IDLE',
   PLAYING = 'PLAYING',
   PAUSED = 'PAUSED',
-  GAME_OVER = 'GAME_OVER'
+  GAME_OVER = 'GAME_OVER',
+  REPLAY = 'REPLAY',
+  ROUND_OVER = 'ROUND_OVER', // Versus: between rounds of a match
+  LEVEL_CLEARED = 'LEVEL_CLEARED', // Campaign: sector objective met
+  CAMPAIGN_COMPLETE = 'CAMPAIGN_COMPLETE' // Campaign: the final sector was cleared
+}
+
+export enum GameMode {
+  CLASSIC = 'CLASSIC',
+  VERSUS = 'VERSUS',
+  ONLINE = 'ONLINE',
+  CAMPAIGN = 'CAMPAIGN',
+  DAILY = 'DAILY'
 }
 
 export interface Coordinate {
@@ -17,9 +29,15 @@ export interface Coordinate {
   y: number;
 }
 
+// Subsystem that emitted a log entry
+export type LogSource = 'engine' | 'ai' | 'input' | 'network' | 'system';
+
 export interface SystemLog {
-  id: string;
-  timestamp: string;
+  seq: number; // Monotonic across runs and reloads
+  time: number; // Wall clock (ms since epoch); 0 for entries rebuilt from a replay
+  run: number; // Session or run the entry belongs to; bumped on boot and on every new run
+  source: LogSource;
   message: string;
   type: 'info' | 'warning' | 'critical' | 'success';
+  tick?: number; // Engine tick the entry was emitted on, used to jump into replays
 }
\ No newline at end of file